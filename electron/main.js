@@ -5,6 +5,7 @@
 
 const { app, BrowserWindow, ipcMain } = require('electron');
 const path = require('path');
+const fs = require('fs');
 
 let mainWindow;
 
@@ -76,5 +77,40 @@ ipcMain.handle('get-device-id', () => {
   return crypto.createHash('sha256').update(data).digest('hex').substring(0, 32);
 });
 
+// ============================================================================
+// DOCUMENT FILES (encrypted in the renderer; stored under userData/documents)
+// ============================================================================
 
+const SAFE_ID = /^[A-Za-z0-9_-]{1,128}$/;
 
+function getDocumentPath(caseId, documentId) {
+  if (!SAFE_ID.test(caseId) || (documentId !== undefined && !SAFE_ID.test(documentId))) {
+    throw new Error('Invalid document path');
+  }
+  const caseDir = path.join(app.getPath('userData'), 'documents', caseId);
+  return documentId === undefined ? caseDir : path.join(caseDir, `${documentId}.bin`);
+}
+
+ipcMain.handle('document-blob-write', async (_event, caseId, documentId, data) => {
+  const filePath = getDocumentPath(caseId, documentId);
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.promises.writeFile(filePath, Buffer.from(data));
+});
+
+ipcMain.handle('document-blob-read', async (_event, caseId, documentId) => {
+  try {
+    const buffer = await fs.promises.readFile(getDocumentPath(caseId, documentId));
+    return new Uint8Array(buffer);
+  } catch (error) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+});
+
+ipcMain.handle('document-blob-delete', async (_event, caseId, documentId) => {
+  await fs.promises.rm(getDocumentPath(caseId, documentId), { force: true });
+});
+
+ipcMain.handle('document-blob-delete-case', async (_event, caseId) => {
+  await fs.promises.rm(getDocumentPath(caseId), { recursive: true, force: true });
+});
@@ -12,6 +12,14 @@ contextBridge.exposeInMainWorld('electronAPI', {
   getAppPath: () => ipcRenderer.invoke('get-app-path'),
   getDeviceId: () => ipcRenderer.invoke('get-device-id'),
   
+  // Encrypted document files (stored under the userData directory)
+  documentBlobs: {
+    write: (caseId, documentId, data) => ipcRenderer.invoke('document-blob-write', caseId, documentId, data),
+    read: (caseId, documentId) => ipcRenderer.invoke('document-blob-read', caseId, documentId),
+    remove: (caseId, documentId) => ipcRenderer.invoke('document-blob-delete', caseId, documentId),
+    removeCase: (caseId) => ipcRenderer.invoke('document-blob-delete-case', caseId),
+  },
+  
   // Platform info
   platform: process.platform,
   
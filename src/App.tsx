@@ -5,7 +5,7 @@
  * This application does not provide legal, financial, or medical advice.
  */
 
-import { useState, useEffect, useCallback, useRef, lazy, Suspense } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo, lazy, Suspense } from 'react';
 import { safeGetItem, safeSetItem } from './utils/safeStorage';
 import { AlertTriangle, Lock, ArrowLeft } from 'lucide-react';
 
@@ -24,18 +24,20 @@ import type {
 // Constants
 import { createNavItems } from './constants/navigation.tsx';
 
-const NAV_ITEMS = createNavItems();
-
 // Services
 import { 
   storageService,
   llvIntegration,
   generateAftercarePlan,
+  regenerateAftercarePlan,
   generateExecutorChecklist,
   generateContactsFromVault,
-  hasLegacyChecklistCategories,
+  findPlanContentUpdates,
+  applyContentUpdates,
 } from './services';
+import type { TaskContentUpdate } from './services/taskContent';
 import { downloadCaseExport } from './services/backupService';
+import { getLocale, setLocale, resolveLocale, formatDate, formatDateTime, type Locale } from './services/localization';
 
 // Components — eager for shell and first paint
 import { AdminDashboard } from './components';
@@ -78,6 +80,11 @@ function App() {
   const [documents, setDocuments] = useState<UploadedDocument[]>([]);
   const [contacts, setContacts] = useState<ContactEntry[]>([]);
   const [executorChecklist, setExecutorChecklist] = useState<ExecutorChecklistItem[]>([]);
+  const [contentUpdates, setContentUpdates] = useState<TaskContentUpdate[]>([]);
+  const contentCheckedPlanId = useRef<string | null>(null);
+  // Mirrors the localization module so the tree re-renders when it changes
+  const [locale, setLocaleState] = useState<Locale>(getLocale());
+  const navItems = useMemo(() => createNavItems(), [locale]);
   
   // UI state
   const [activeTab, setActiveTab] = useState<NavigationTab>('guidance');
@@ -96,11 +103,7 @@ function App() {
     const savedPlan = await storageService.loadPlan();
     const savedDocs = await storageService.loadDocuments();
     const savedContacts = await storageService.loadContacts();
-    let savedChecklist = await storageService.loadChecklist();
-    if (savedChecklist.length > 0 && hasLegacyChecklistCategories(savedChecklist)) {
-      savedChecklist = generateExecutorChecklist();
-      await storageService.saveChecklist(savedChecklist);
-    }
+    const savedChecklist = await storageService.loadChecklist();
     setProfile(savedProfile);
     setPlan(savedPlan);
     setDocuments(savedDocs);
@@ -163,8 +166,13 @@ function App() {
           await checkLicense();
         }, 30000);
         
-        // Multi-case: ensure default case exists and migrate legacy data
-        await storageService.ensureCasesMigrated();
+        // Ensure a case exists and apply pending schema migrations
+        await storageService.runMigrations();
+
+        // Display language: saved choice, else the device language
+        const savedLocale = resolveLocale(await storageService.getSetting<string>('locale', navigator.language));
+        setLocale(savedLocale);
+        setLocaleState(savedLocale);
         const list = await storageService.loadCases();
         setCases(list);
         const activeId = storageService.getActiveCaseId();
@@ -175,11 +183,7 @@ function App() {
         const savedPlan = await storageService.loadPlan();
         const savedDocs = await storageService.loadDocuments();
         const savedContacts = await storageService.loadContacts();
-        let savedChecklist = await storageService.loadChecklist();
-        if (savedChecklist.length > 0 && hasLegacyChecklistCategories(savedChecklist)) {
-          savedChecklist = generateExecutorChecklist();
-          await storageService.saveChecklist(savedChecklist);
-        }
+        const savedChecklist = await storageService.loadChecklist();
         
         setProfile(savedProfile);
         setPlan(savedPlan);
@@ -301,7 +305,7 @@ function App() {
       await storageService.saveContacts(newContacts);
       
       // Generate executor checklist (storage adds caseId)
-      const checklist = generateExecutorChecklist();
+      const checklist = generateExecutorChecklist(newProfile);
       setExecutorChecklist(checklist);
       await storageService.saveChecklist(checklist);
     } catch (error) {
@@ -313,11 +317,37 @@ function App() {
   // PLAN UPDATES
   // ============================================================================
 
+  // Existing guidance keeps its language until it is refreshed from Settings
+  const handleLocaleChange = useCallback(async (next: Locale) => {
+    setLocale(next);
+    setLocaleState(next);
+    await storageService.saveSetting('locale', next);
+  }, []);
+
   const handlePlanUpdate = useCallback(async (updatedPlan: AftercarePlan) => {
     setPlan(updatedPlan);
     await storageService.savePlan(updatedPlan);
   }, []);
 
+  // Once per loaded plan, look for newer guidance wording; it is offered in the checklist, never applied silently
+  useEffect(() => {
+    if (!plan || !profile || contentCheckedPlanId.current === plan.id) return;
+    contentCheckedPlanId.current = plan.id;
+    llvIntegration.loadLegacyVaultSummary()
+      .then(vaultRecords => setContentUpdates(findPlanContentUpdates(plan, profile, vaultRecords)))
+      .catch(error => console.error('Failed to check for updated guidance:', error));
+  }, [plan, profile]);
+
+  const handleApplyContentUpdates = useCallback(async (taskIds?: string[]) => {
+    if (!plan) return;
+    await handlePlanUpdate({
+      ...plan,
+      tasks: applyContentUpdates(plan.tasks, contentUpdates, taskIds),
+      lastUpdatedAt: new Date().toISOString(),
+    });
+    setContentUpdates(prev => (taskIds ? prev.filter(update => !taskIds.includes(update.taskId)) : []));
+  }, [plan, contentUpdates, handlePlanUpdate]);
+
   // ============================================================================
   // CASE ACTIONS
   // ============================================================================
@@ -329,7 +359,7 @@ function App() {
   }, [refreshData]);
 
   const handleCreateCase = useCallback(async () => {
-    const label = 'New case ' + new Date().toLocaleDateString();
+    const label = 'New case ' + formatDate(new Date());
     const c = await storageService.createCase(label);
     await storageService.setActiveCaseId(c.id);
     setActiveCaseIdState(c.id);
@@ -479,7 +509,7 @@ function App() {
         {/* Navigation */}
         <nav className="flex-1 py-2.5 pr-1.5 overflow-y-auto">
           <div className="flex flex-col gap-px">
-            {NAV_ITEMS.map((item) => {
+            {navItems.map((item) => {
               const isActive = activeTab === item.id;
               const isOptional = item.optional;
               return (
@@ -552,25 +582,36 @@ function App() {
                     await refreshCases();
                   }}
                   onDeleteCase={async (id) => {
-                    if (!confirm('Permanently delete this case? This cannot be undone.')) return;
                     await storageService.deleteCasePermanently(id);
                     await refreshCases();
                     if (activeCaseId === id) await refreshData();
                   }}
-                  onCreateCase={handleCreateCase}
                   onOpenCloseCaseFlow={() => setShowCloseCaseWizard(true)}
+                  onCaseImported={async (id) => {
+                    if (activeCaseId === id) await refreshData();
+                  }}
                 />
               )}
 
               {activeTab === 'guidance' && plan && (
-                <FocusView onViewFullChecklist={() => setActiveTab('checklist')} />
+                <FocusView
+                  plan={plan}
+                  onViewFullChecklist={() => setActiveTab('checklist')}
+                  contacts={contacts}
+                  onContactsChange={setContacts}
+                  onOpenContacts={() => setActiveTab('contacts')}
+                />
               )}
 
               {activeTab === 'checklist' && plan && (
                 <ChecklistView
                 plan={plan}
+                checklist={executorChecklist}
                 onPlanUpdate={handlePlanUpdate}
                 onReturnToFocus={() => setActiveTab('guidance')}
+                contentUpdates={contentUpdates}
+                onApplyContentUpdates={handleApplyContentUpdates}
+                onDismissContentUpdates={() => setContentUpdates([])}
               />
             )}
 
@@ -584,7 +625,7 @@ function App() {
             )}
 
             {activeTab === 'templates' && (
-              <ScriptsView profile={profile} />
+              <ScriptsView profile={profile} contacts={contacts} tasks={plan?.tasks ?? []} onContactsChange={setContacts} />
             )}
 
             {activeTab === 'contacts' && (
@@ -611,31 +652,24 @@ function App() {
                   await storageService.saveProfile(p);
                 }}
                 onRegenerateTasks={async () => {
-                  if (!profile || !plan) return;
+                  if (!profile || !plan) return null;
                   try {
                     const vaultRecords = await llvIntegration.loadLegacyVaultSummary();
-                    const result = generateAftercarePlan({
-                      profile,
-                      vaultRecords,
-                    });
-                    const newPlan: AftercarePlan = {
-                      id: `plan_${Date.now()}`,
-                      caseId: plan.caseId,
-                      profile,
-                      tasks: result.tasks,
-                      createdAt: plan.createdAt,
-                      lastUpdatedAt: new Date().toISOString(),
-                    };
+                    const { plan: newPlan, summary } = regenerateAftercarePlan(plan, profile, vaultRecords);
                     setPlan(newPlan);
+                    setContentUpdates([]);
                     await storageService.savePlan(newPlan);
-                    setActiveTab('guidance');
+                    return summary;
                   } catch (error) {
                     console.error('Failed to regenerate tasks:', error);
+                    return null;
                   }
                 }}
                 onStartOver={() => {
                   setShowOnboarding(true);
                 }}
+                locale={locale}
+                onLocaleChange={handleLocaleChange}
               />
             )}
             </Suspense>
@@ -654,7 +688,7 @@ function App() {
                 documentCount: documents.length,
                 contactCount: contacts.length,
                 checklistCount: executorChecklist.length,
-                lastUpdated: currentCase.updatedAt ? new Date(currentCase.updatedAt).toLocaleString() : '—',
+                lastUpdated: currentCase.updatedAt ? formatDateTime(currentCase.updatedAt) : '—',
               }}
               onComplete={handleCloseCaseWizardComplete}
               onCancel={() => setShowCloseCaseWizard(false)}
@@ -4,6 +4,7 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { Shield, LogOut, RefreshCw, Trash2, FolderOpen, Link2, Copy, ExternalLink } from 'lucide-react';
+import { formatDateTime } from '../../services/localization';
 
 const ADMIN_SECRET_KEY = 'apg_admin_secret';
 const SUPABASE_URL = (import.meta as any).env?.VITE_SUPABASE_URL || '';
@@ -282,8 +283,8 @@ export function AdminDashboard() {
                         <td className="p-3">
                           <span className={row.status === 'active' ? 'text-green-500' : 'text-red-400'}>{row.status}</span>
                         </td>
-                        <td className="p-3 text-text-muted">{row.created_at ? new Date(row.created_at).toLocaleString() : '—'}</td>
-                        <td className="p-3 text-text-muted">{row.activated_at ? new Date(row.activated_at).toLocaleString() : '—'}</td>
+                        <td className="p-3 text-text-muted">{row.created_at ? formatDateTime(row.created_at) : '—'}</td>
+                        <td className="p-3 text-text-muted">{row.activated_at ? formatDateTime(row.activated_at) : '—'}</td>
                         <td className="p-3">
                           {row.status === 'active' && (
                             <button
@@ -2,13 +2,17 @@
  * Cases list — cards with label, status, last updated; Open, Export, Archive, Delete.
  * Sorted: active case first, then by updated_at desc.
  * Delete only enabled for empty cases (no tasks, documents, contacts, checklist).
+ * Import case file brings back an .apgcase.json export as a new case or into an existing one.
  */
 
-import { useState, useEffect, useMemo } from 'react';
-import { FolderOpen, FileDown, Archive, Trash2, Plus } from 'lucide-react';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { FolderOpen, FileDown, FileUp, Archive, Trash2, Plus } from 'lucide-react';
 import { TitleBar } from '../common/TitleBar';
 import type { Case as CaseType } from '../../types';
 import { storageService } from '../../services/storageService';
+import { formatDate, t } from '../../services/localization';
+import { importCaseFromJson, type CaseImportResult } from '../../services/backupService';
+import { PassphrasePrompt } from '../common/PassphrasePrompt';
 
 interface CasesViewProps {
   cases: CaseType[];
@@ -17,11 +21,15 @@ interface CasesViewProps {
   onSwitchCase: (caseId: string) => void;
   onExportCase: (caseId: string) => void;
   onArchiveCase: (caseId: string) => void;
-  onDeleteCase: (caseId: string) => void;
-  onCreateCase: () => void;
+  /** Deletes the case and its data (the user has already confirmed). */
+  onDeleteCase: (caseId: string) => void | Promise<void>;
   onOpenCloseCaseFlow: () => void;
+  /** Called after a case file was imported (caseId is the new or restored case). */
+  onCaseImported?: (caseId: string) => void;
 }
 
+const NEW_CASE_TARGET = '__new__';
+
 export function CasesView({
   cases,
   activeCaseId,
@@ -30,26 +38,94 @@ export function CasesView({
   onExportCase,
   onArchiveCase,
   onDeleteCase,
-  onCreateCase,
   onOpenCloseCaseFlow,
+  onCaseImported,
 }: CasesViewProps) {
   const [deletingId, setDeletingId] = useState<string | null>(null);
   const [createLabel, setCreateLabel] = useState('');
   const [showCreateForm, setShowCreateForm] = useState(false);
+  const [emptyCaseIds, setEmptyCaseIds] = useState<Set<string>>(new Set());
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [importTarget, setImportTarget] = useState<string>(NEW_CASE_TARGET);
+  const [importing, setImporting] = useState(false);
+  const [importResult, setImportResult] = useState<CaseImportResult | null>(null);
+  const [importNeedsPassphrase, setImportNeedsPassphrase] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const sortedCases = useMemo(
+    () =>
+      [...cases].sort((a, b) => {
+        if (a.id === activeCaseId) return -1;
+        if (b.id === activeCaseId) return 1;
+        return new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime();
+      }),
+    [cases, activeCaseId]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const empty = new Set<string>();
+      for (const c of cases) {
+        const counts = await storageService.getCaseDataCounts(c.id);
+        if (counts.tasks + counts.documents + counts.contacts + counts.checklist === 0) empty.add(c.id);
+      }
+      if (!cancelled) setEmptyCaseIds(empty);
+    })();
+    return () => { cancelled = true; };
+  }, [cases]);
+
+  const isEmpty = (caseId: string) => emptyCaseIds.has(caseId);
+
+  const handleImportFileSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setImportResult(null);
+    setImportNeedsPassphrase(false);
+    setImportTarget(NEW_CASE_TARGET);
+    setImportFile(file);
+  };
+
+  const handleImport = async (passphrase?: string) => {
+    if (!importFile) return;
+    const targetCaseId = importTarget === NEW_CASE_TARGET ? undefined : importTarget;
+    if (targetCaseId && !passphrase) {
+      const target = cases.find((c) => c.id === targetCaseId);
+      if (!confirm(t('cases.import.confirmReplace', { label: target?.label ?? t('cases.import.thisCase') }))) return;
+    }
+    setImporting(true);
+    try {
+      const result = await importCaseFromJson(await importFile.text(), { targetCaseId, passphrase });
+      if (result.requiresPassphrase) {
+        setImportNeedsPassphrase(true);
+        setImportResult(passphrase ? result : null);
+        return;
+      }
+      setImportResult(result);
+      if (result.success && result.caseId) {
+        setImportFile(null);
+        setImportNeedsPassphrase(false);
+        onRefreshCases();
+        onCaseImported?.(result.caseId);
+      }
+    } finally {
+      setImporting(false);
+    }
+  };
 
   const handleDelete = async (c: CaseType) => {
-    if (!confirm(`Permanently delete case "${c.label}"? This cannot be undone.`)) return;
+    if (!confirm(t('cases.delete.confirm', { label: c.label }))) return;
     setDeletingId(c.id);
     try {
-      await storageService.deleteCasePermanently(c.id);
-      onRefreshCases();
+      await onDeleteCase(c.id);
     } finally {
       setDeletingId(null);
     }
   };
 
   const handleCreate = async () => {
-    const label = createLabel.trim() || 'New case';
+    const label = createLabel.trim() || t('cases.new');
     await storageService.createCase(label);
     setCreateLabel('');
     setShowCreateForm(false);
@@ -58,9 +134,12 @@ export function CasesView({
 
   return (
     <div className="max-w-4xl">
-      <TitleBar title="Cases" />
+      <div className="page-header-zone flex flex-col items-center text-center mb-4">
+        <h2 className="text-xl font-semibold text-text-primary">{t('cases.title')}</h2>
+        <TitleBar className="mt-1.5" />
+      </div>
       <p className="text-text-muted text-sm mb-4">
-        Each case holds its own checklist, documents, and contacts. Switch cases from the dropdown above, or manage them here.
+        {t('cases.intro')}
       </p>
 
       <div className="flex flex-wrap gap-2 mb-6">
@@ -70,7 +149,7 @@ export function CasesView({
           className="inline-flex items-center gap-2 px-4 py-2 bg-accent-gold text-vault-dark font-medium rounded-lg hover:bg-accent-gold-hover"
         >
           <Plus className="w-4 h-4" />
-          New case
+          {t('cases.new')}
         </button>
         <button
           type="button"
@@ -78,27 +157,116 @@ export function CasesView({
           className="inline-flex items-center gap-2 px-4 py-2 border border-border-subtle text-text-secondary rounded-lg hover:bg-card-bg"
         >
           <FileDown className="w-4 h-4" />
-          Close case (export & archive/wipe)
+          {t('cases.close')}
+        </button>
+        <button
+          type="button"
+          onClick={() => importInputRef.current?.click()}
+          className="inline-flex items-center gap-2 px-4 py-2 border border-border-subtle text-text-secondary rounded-lg hover:bg-card-bg"
+        >
+          <FileUp className="w-4 h-4" />
+          {t('cases.import.button')}
         </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".json,application/json"
+          onChange={handleImportFileSelected}
+          className="hidden"
+          aria-label={t('cases.import.select')}
+        />
       </div>
 
+      {importFile && (
+        <div className="mb-6 p-4 rounded-xl border border-border-subtle bg-card-bg">
+          <p className="text-sm text-text-primary mb-2">
+            {t('cases.import.action')} <span className="font-medium">{importFile.name}</span>
+          </p>
+          <label className="block text-sm text-text-secondary mb-2">{t('cases.import.into')}</label>
+          <div className="flex flex-wrap gap-2">
+            <select
+              value={importTarget}
+              onChange={(e) => setImportTarget(e.target.value)}
+              className="flex-1 min-w-[200px] px-3 py-2 rounded-lg bg-vault-dark border border-border-subtle text-text-primary focus:outline-none focus:ring-2 focus:ring-accent-gold/50"
+            >
+              <option value={NEW_CASE_TARGET}>{t('cases.import.newCase')}</option>
+              {sortedCases.map((c) => (
+                <option key={c.id} value={c.id}>{t('cases.import.replace', { label: c.label })}</option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => handleImport()}
+              disabled={importing || importNeedsPassphrase}
+              className="px-4 py-2 bg-accent-gold text-vault-dark font-medium rounded-lg hover:bg-accent-gold-hover disabled:opacity-50"
+            >
+              {importing ? t('cases.import.importing') : t('cases.import.action')}
+            </button>
+            <button
+              type="button"
+              onClick={() => { setImportFile(null); setImportNeedsPassphrase(false); }}
+              className="px-4 py-2 border border-border-subtle text-text-muted rounded-lg hover:bg-card-bg"
+            >
+              {t('common.cancel')}
+            </button>
+          </div>
+          {importNeedsPassphrase && (
+            <div className="mt-3">
+              <PassphrasePrompt
+                fileName={importFile.name}
+                error={importResult?.requiresPassphrase ? importResult.error : undefined}
+                busy={importing}
+                onSubmit={(passphrase) => handleImport(passphrase)}
+                onCancel={() => { setImportFile(null); setImportNeedsPassphrase(false); setImportResult(null); }}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {importResult && !importResult.requiresPassphrase && (
+        <div
+          role="status"
+          className={`mb-6 p-3 rounded-lg border text-sm ${
+            importResult.success ? 'border-accent-gold/40 bg-accent-gold/5 text-text-secondary' : 'border-red-400/30 bg-red-400/10 text-red-400'
+          }`}
+        >
+          {importResult.success ? (
+            <>
+              {t('cases.import.done', {
+                label: importResult.caseLabel ?? '',
+                tasks: importResult.imported.tasks,
+                documents: importResult.imported.documents,
+                files: importResult.imported.documents > 0 ? t('cases.import.withFiles', { count: importResult.imported.documentFiles }) : '',
+                contacts: importResult.imported.contacts,
+                checklist: importResult.imported.checklist,
+                correspondence: importResult.imported.correspondence,
+              })}
+              {importResult.imported.missingFiles > 0 && ` ${t('cases.import.missingFiles', { count: importResult.imported.missingFiles })}`}
+            </>
+          ) : (
+            importResult.error
+          )}
+        </div>
+      )}
+
       {showCreateForm && (
         <div className="mb-6 p-4 rounded-xl border border-border-subtle bg-card-bg">
-          <label className="block text-sm font-medium text-text-primary mb-2">Case name</label>
+          <label className="block text-sm font-medium text-text-primary mb-2">{t('cases.create.label')}</label>
           <div className="flex gap-2">
             <input
               type="text"
               value={createLabel}
               onChange={(e) => setCreateLabel(e.target.value)}
               onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
-              placeholder="e.g. John Smith 2026"
+              placeholder={t('cases.create.placeholder')}
               className="flex-1 px-3 py-2 rounded-lg bg-vault-dark border border-border-subtle text-text-primary placeholder-text-muted focus:outline-none focus:ring-2 focus:ring-accent-gold/50"
             />
             <button type="button" onClick={handleCreate} className="px-4 py-2 bg-accent-gold text-vault-dark font-medium rounded-lg hover:bg-accent-gold-hover">
-              Create
+              {t('cases.create.submit')}
             </button>
             <button type="button" onClick={() => { setShowCreateForm(false); setCreateLabel(''); }} className="px-4 py-2 border border-border-subtle text-text-muted rounded-lg hover:bg-card-bg">
-              Cancel
+              {t('common.cancel')}
             </button>
           </div>
         </div>
@@ -119,12 +287,12 @@ export function CasesView({
                 <h3 className="text-base font-semibold text-text-primary truncate">{c.label}</h3>
                 {isArchived && (
                   <span className="text-[10px] font-medium uppercase text-text-muted bg-card-bg px-2 py-0.5 rounded">
-                    Archived
+                    {t('cases.archived')}
                   </span>
                 )}
               </div>
               <p className="text-[12px] text-text-muted mb-4">
-                Last updated {new Date(c.updatedAt).toLocaleDateString()}
+                {t('cases.lastUpdated', { date: formatDate(c.updatedAt) })}
               </p>
               <div className="flex flex-wrap gap-2 mt-auto">
                 <button
@@ -133,7 +301,7 @@ export function CasesView({
                   className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm text-accent-gold hover:bg-accent-gold/10 rounded-lg"
                 >
                   <FolderOpen className="w-3.5 h-3.5" />
-                  Open
+                  {t('cases.open')}
                 </button>
                 <button
                   type="button"
@@ -141,7 +309,7 @@ export function CasesView({
                   className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm text-text-secondary hover:bg-card-bg-hover rounded-lg"
                 >
                   <FileDown className="w-3.5 h-3.5" />
-                  Export
+                  {t('cases.export')}
                 </button>
                 {!isArchived && (
                   <button
@@ -150,18 +318,18 @@ export function CasesView({
                     className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm text-text-secondary hover:bg-card-bg-hover rounded-lg"
                   >
                     <Archive className="w-3.5 h-3.5" />
-                    Archive
+                    {t('cases.archive')}
                   </button>
                 )}
                 <button
                   type="button"
                   onClick={() => handleDelete(c)}
                   disabled={deletingId === c.id}
-                  title={!isEmpty(c.id) ? 'Case has data; prefer Close case to export first, or confirm to delete all data' : 'Permanently delete this case'}
+                  title={!isEmpty(c.id) ? t('cases.delete.hasData') : t('cases.delete.empty')}
                   className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm text-red-400 hover:bg-red-400/10 rounded-lg disabled:opacity-50"
                 >
                   <Trash2 className="w-3.5 h-3.5" />
-                  Delete
+                  {t('cases.delete')}
                 </button>
               </div>
             </div>
@@ -170,7 +338,7 @@ export function CasesView({
       </div>
 
       {sortedCases.length === 0 && (
-        <p className="text-text-muted text-sm">No cases yet. Create one above.</p>
+        <p className="text-text-muted text-sm">{t('cases.empty')}</p>
       )}
     </div>
   );
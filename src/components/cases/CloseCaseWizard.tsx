@@ -3,11 +3,17 @@
  */
 
 import { useState, useCallback } from 'react';
-import { FileDown, Archive, Trash2, Check } from 'lucide-react';
+import { FileDown, Archive, Trash2 } from 'lucide-react';
 import type { Case as CaseType } from '../../types';
 import { storageService } from '../../services/storageService';
 import { downloadCaseExport } from '../../services/backupService';
 import { exportPlanToPdf } from '../../services/exportService';
+import {
+  ExportPassphraseFields,
+  EMPTY_EXPORT_PASSPHRASE,
+  getExportPassphrase,
+  type ExportPassphraseState,
+} from '../common/ExportPassphraseFields';
 
 interface CloseCaseWizardProps {
   caseToClose: CaseType;
@@ -32,7 +38,9 @@ export function CloseCaseWizard({
 }: CloseCaseWizardProps) {
   const [step, setStep] = useState<Step>(1);
   const [exported, setExported] = useState(false);
+  const [exportPassphrase, setExportPassphrase] = useState<ExportPassphraseState>(EMPTY_EXPORT_PASSPHRASE);
   const [exportPdf, setExportPdf] = useState(false);
+  const [includeProvenance, setIncludeProvenance] = useState(false);
   const [pdfDone, setPdfDone] = useState(false);
   const [choice, setChoice] = useState<'archive' | 'wipe' | null>(null);
   const [confirmName, setConfirmName] = useState('');
@@ -44,17 +52,22 @@ export function CloseCaseWizard({
   const canWipe = choice === 'wipe' && nameMatch && confirmCheckbox;
 
   const handleExport = useCallback(async () => {
+    const passphrase = getExportPassphrase(exportPassphrase);
+    if (passphrase === null) {
+      setError('Check the passphrase before exporting');
+      return;
+    }
     setBusy(true);
     setError(null);
     try {
-      await downloadCaseExport(caseToClose.id, caseToClose.label);
+      await downloadCaseExport(caseToClose.id, caseToClose.label, passphrase);
       setExported(true);
     } catch (e) {
       setError(e instanceof Error ? e.message : 'Export failed');
     } finally {
       setBusy(false);
     }
-  }, [caseToClose.id, caseToClose.label]);
+  }, [caseToClose.id, caseToClose.label, exportPassphrase]);
 
   const handleExportPdf = useCallback(async () => {
     const plan = await storageService.loadPlanForCase(caseToClose.id);
@@ -62,14 +75,14 @@ export function CloseCaseWizard({
     setBusy(true);
     setError(null);
     try {
-      await exportPlanToPdf(plan);
+      await exportPlanToPdf(plan, { includeProvenanceAppendix: includeProvenance });
       setPdfDone(true);
     } catch (e) {
       setError(e instanceof Error ? e.message : 'PDF export failed');
     } finally {
       setBusy(false);
     }
-  }, [caseToClose.id]);
+  }, [caseToClose.id, includeProvenance]);
 
   const handleFinish = useCallback(async () => {
     if (choice === 'archive') {
@@ -150,6 +163,7 @@ export function CloseCaseWizard({
             Export a backup before closing. Recommended: download the case file below.
           </p>
           <div className="space-y-2 mb-4">
+            <ExportPassphraseFields value={exportPassphrase} onChange={setExportPassphrase} disabled={busy} />
             <button
               type="button"
               onClick={handleExport}
@@ -168,6 +182,17 @@ export function CloseCaseWizard({
               />
               <span className="text-sm text-text-secondary">Also export PDF summary</span>
             </label>
+            {exportPdf && (
+              <label className="flex items-center gap-2 cursor-pointer ml-6">
+                <input
+                  type="checkbox"
+                  checked={includeProvenance}
+                  onChange={(e) => setIncludeProvenance(e.target.checked)}
+                  className="rounded border-border-subtle"
+                />
+                <span className="text-sm text-text-secondary">Include appendix: why each item is listed</span>
+              </label>
+            )}
             {exportPdf && (
               <button
                 type="button"
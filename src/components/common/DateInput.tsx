@@ -5,6 +5,7 @@
 
 import React, { useRef } from 'react';
 import { Calendar } from 'lucide-react';
+import { t } from '../../services/localization';
 
 const IVORY = '#FFF6E9';
 const VAULT_DARK = '#274B62';
@@ -56,7 +57,7 @@ export function DateInput({
         className="absolute right-0 top-0 bottom-0 w-11 flex items-center justify-center rounded-r-lg transition-colors hover:bg-black/5 focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-0"
         style={{ color: ACCENT_GOLD }}
         tabIndex={-1}
-        aria-label="Open date picker"
+        aria-label={t('dateInput.openPicker')}
       >
         <Calendar className="w-5 h-5" strokeWidth={1.75} />
       </button>
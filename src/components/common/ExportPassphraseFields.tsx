@@ -0,0 +1,81 @@
+/**
+ * Optional passphrase protection for exported files (backups, case files).
+ * Checkbox to enable, then passphrase + confirmation. Parent owns the state.
+ */
+
+import React from 'react';
+import { Lock } from 'lucide-react';
+import { validateExportPassphrase } from '../../utils/validation';
+import { t } from '../../services/localization';
+
+export interface ExportPassphraseState {
+  enabled: boolean;
+  passphrase: string;
+  confirmation: string;
+}
+
+export const EMPTY_EXPORT_PASSPHRASE: ExportPassphraseState = { enabled: false, passphrase: '', confirmation: '' };
+
+/** Passphrase to use for the export, or undefined when protection is off. Null when the input is invalid. */
+export function getExportPassphrase(state: ExportPassphraseState): string | undefined | null {
+  if (!state.enabled) return undefined;
+  return validateExportPassphrase(state.passphrase, state.confirmation).valid ? state.passphrase : null;
+}
+
+interface ExportPassphraseFieldsProps {
+  value: ExportPassphraseState;
+  onChange: (value: ExportPassphraseState) => void;
+  disabled?: boolean;
+}
+
+export const ExportPassphraseFields: React.FC<ExportPassphraseFieldsProps> = ({ value, onChange, disabled }) => {
+  const validation = validateExportPassphrase(value.passphrase, value.confirmation);
+  const showError = value.enabled && value.passphrase.length > 0 && !validation.valid;
+
+  return (
+    <div className="space-y-2">
+      <label className="flex items-center gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={value.enabled}
+          disabled={disabled}
+          onChange={(e) => onChange({ ...value, enabled: e.target.checked })}
+          className="rounded border-border-subtle"
+        />
+        <Lock className="w-3.5 h-3.5 text-text-muted" aria-hidden="true" />
+        <span className="text-xs text-text-secondary">{t('passphrase.protect')}</span>
+      </label>
+      {value.enabled && (
+        <div className="space-y-1.5">
+          <input
+            type="password"
+            value={value.passphrase}
+            disabled={disabled}
+            onChange={(e) => onChange({ ...value, passphrase: e.target.value })}
+            placeholder={t('passphrase.placeholder')}
+            autoComplete="new-password"
+            aria-label={t('passphrase.export')}
+            className="w-full px-3 py-1.5 rounded-lg bg-vault-dark border border-border-subtle text-xs text-text-primary placeholder-text-muted focus:outline-none focus:ring-2 focus:ring-accent-gold/50"
+          />
+          <input
+            type="password"
+            value={value.confirmation}
+            disabled={disabled}
+            onChange={(e) => onChange({ ...value, confirmation: e.target.value })}
+            placeholder={t('passphrase.confirm')}
+            autoComplete="new-password"
+            aria-label={t('passphrase.confirmExport')}
+            className="w-full px-3 py-1.5 rounded-lg bg-vault-dark border border-border-subtle text-xs text-text-primary placeholder-text-muted focus:outline-none focus:ring-2 focus:ring-accent-gold/50"
+          />
+          {showError ? (
+            <p className="text-[11px] text-red-400">{validation.error}</p>
+          ) : (
+            <p className="text-[11px] text-text-muted">
+              {t('passphrase.warning')}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,57 @@
+/**
+ * Inline prompt for the passphrase of an encrypted backup or case file.
+ */
+
+import React, { useState } from 'react';
+import { Lock } from 'lucide-react';
+import { t } from '../../services/localization';
+
+interface PassphrasePromptProps {
+  fileName: string;
+  /** Error from the previous attempt (e.g. wrong passphrase). */
+  error?: string;
+  busy?: boolean;
+  onSubmit: (passphrase: string) => void;
+  onCancel: () => void;
+}
+
+export const PassphrasePrompt: React.FC<PassphrasePromptProps> = ({ fileName, error, busy, onSubmit, onCancel }) => {
+  const [passphrase, setPassphrase] = useState('');
+
+  const submit = () => {
+    if (passphrase) onSubmit(passphrase);
+  };
+
+  return (
+    <div className="p-3 rounded-lg border border-border-subtle bg-vault-dark/40 space-y-2">
+      <p className="flex items-center gap-1.5 text-xs text-text-primary">
+        <Lock className="w-3.5 h-3.5 text-accent-gold" aria-hidden="true" />
+        <span className="truncate">{t('passphrase.prompt', { fileName })}</span>
+      </p>
+      <input
+        type="password"
+        value={passphrase}
+        onChange={(e) => setPassphrase(e.target.value)}
+        onKeyDown={(e) => e.key === 'Enter' && submit()}
+        autoFocus
+        autoComplete="off"
+        aria-label={t('passphrase.field')}
+        className="w-full px-3 py-1.5 rounded-lg bg-vault-dark border border-border-subtle text-xs text-text-primary placeholder-text-muted focus:outline-none focus:ring-2 focus:ring-accent-gold/50"
+      />
+      {error && <p className="text-[11px] text-red-400" role="alert">{error}</p>}
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={submit}
+          disabled={!passphrase || busy}
+          className="px-3 py-1.5 bg-accent-gold text-vault-dark rounded-lg text-xs font-medium disabled:opacity-50"
+        >
+          {busy ? t('passphrase.unlocking') : t('passphrase.unlock')}
+        </button>
+        <button type="button" onClick={onCancel} className="px-3 py-1.5 text-text-muted text-xs">
+          {t('common.cancel')}
+        </button>
+      </div>
+    </div>
+  );
+};
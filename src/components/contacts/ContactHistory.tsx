@@ -0,0 +1,182 @@
+/**
+ * Contact History - timeline of calls, emails, letters and visits with one contact
+ */
+
+import React, { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import type { ContactEntry, ContactInteractionInput, ContactInteractionType } from '../../types';
+import {
+  CONTACT_INTERACTION_TYPES,
+  addInteraction,
+  getInteractionTimeline,
+  removeInteraction,
+  setFollowUp,
+  validateInteractionInput,
+} from '../../services/contactFollowUps';
+import { toCalendarDate } from '../../services/taskScheduling';
+import { formatDate, t } from '../../services/localization';
+import { DateInput } from '../common/DateInput';
+
+interface ContactHistoryProps {
+  contact: ContactEntry;
+  onChange: (contact: ContactEntry) => void;
+}
+
+const fieldClass = 'w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-lg text-text-primary text-sm focus:outline-none focus:border-slate-500';
+const labelClass = 'block text-xs font-medium text-slate-400 mb-1';
+
+const emptyInput = (): ContactInteractionInput => ({
+  type: 'CALL',
+  date: toCalendarDate(new Date()),
+  summary: '',
+  spokeWith: '',
+  referenceNumber: '',
+});
+
+export const ContactHistory: React.FC<ContactHistoryProps> = ({ contact, onChange }) => {
+  const [adding, setAdding] = useState(false);
+  const [input, setInput] = useState<ContactInteractionInput>(emptyInput);
+  const [nextFollowUp, setNextFollowUp] = useState(contact.nextFollowUpDate ?? '');
+  const [error, setError] = useState<string | null>(null);
+
+  const timeline = getInteractionTimeline(contact);
+
+  const update = (fields: Partial<ContactInteractionInput>) => {
+    setInput(prev => ({ ...prev, ...fields }));
+    setError(null);
+  };
+
+  const handleSave = () => {
+    const validationError = validateInteractionInput(input, nextFollowUp);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    const updated = addInteraction(contact, input, nextFollowUp || undefined);
+    // Emptying the date clears a follow-up the contact already had.
+    onChange(!nextFollowUp && contact.nextFollowUpDate ? setFollowUp(updated, undefined) : updated);
+    setInput(emptyInput());
+    setAdding(false);
+  };
+
+  return (
+    <div className="mt-2 pt-2 border-t border-slate-700/40 space-y-2">
+      {timeline.length === 0 ? (
+        <p className="text-[11px] text-slate-500">{t('contactHistory.empty')}</p>
+      ) : (
+        <ol className="space-y-2">
+          {timeline.map(interaction => (
+            <li key={interaction.id} className="border-l-2 border-slate-600 pl-2">
+              <div className="flex items-start justify-between gap-2">
+                <p className="text-[11px] text-slate-400">
+                  <span className="text-slate-300">{t(`contactHistory.type.${interaction.type}`)}</span>
+                  {' · '}{formatDate(interaction.date)}
+                  {interaction.spokeWith && <> {t('contactHistory.with', { name: interaction.spokeWith })}</>}
+                  {interaction.referenceNumber && <> · {t('contactHistory.reference', { number: interaction.referenceNumber })}</>}
+                </p>
+                <button
+                  type="button"
+                  onClick={() => onChange(removeInteraction(contact, interaction.id))}
+                  className="p-0.5 text-slate-500 hover:text-red-400"
+                  aria-label={t('contactHistory.remove')}
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+              <p className="text-xs text-slate-300 whitespace-pre-wrap">{interaction.summary}</p>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {adding ? (
+        <div className="space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label htmlFor={`interaction-type-${contact.id}`} className={labelClass}>{t('contactHistory.field.type')}</label>
+              <select
+                id={`interaction-type-${contact.id}`}
+                value={input.type}
+                onChange={(e) => update({ type: e.target.value as ContactInteractionType })}
+                className={fieldClass}
+              >
+                {CONTACT_INTERACTION_TYPES.map(type => <option key={type} value={type}>{t(`contactHistory.type.${type}`)}</option>)}
+              </select>
+            </div>
+            <div>
+              <label htmlFor={`interaction-date-${contact.id}`} className={labelClass}>{t('contactHistory.field.date')}</label>
+              <DateInput id={`interaction-date-${contact.id}`} value={input.date} onChange={(e) => update({ date: e.target.value })} />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label htmlFor={`interaction-with-${contact.id}`} className={labelClass}>{t('contactHistory.field.spokeWith')}</label>
+              <input
+                id={`interaction-with-${contact.id}`}
+                type="text"
+                value={input.spokeWith ?? ''}
+                onChange={(e) => update({ spokeWith: e.target.value })}
+                className={fieldClass}
+              />
+            </div>
+            <div>
+              <label htmlFor={`interaction-ref-${contact.id}`} className={labelClass}>{t('contactHistory.field.reference')}</label>
+              <input
+                id={`interaction-ref-${contact.id}`}
+                type="text"
+                value={input.referenceNumber ?? ''}
+                onChange={(e) => update({ referenceNumber: e.target.value })}
+                className={fieldClass}
+              />
+            </div>
+          </div>
+          <div>
+            <label htmlFor={`interaction-summary-${contact.id}`} className={labelClass}>{t('contactHistory.field.summary')}</label>
+            <textarea
+              id={`interaction-summary-${contact.id}`}
+              value={input.summary}
+              onChange={(e) => update({ summary: e.target.value })}
+              placeholder={t('contactHistory.field.summaryPlaceholder')}
+              rows={2}
+              className={`${fieldClass} resize-none`}
+            />
+          </div>
+          <div>
+            <label htmlFor={`interaction-follow-up-${contact.id}`} className={labelClass}>{t('contactHistory.field.nextFollowUp')}</label>
+            <DateInput
+              id={`interaction-follow-up-${contact.id}`}
+              value={nextFollowUp}
+              onChange={(e) => { setNextFollowUp(e.target.value); setError(null); }}
+            />
+          </div>
+          {error && <p className="text-xs text-red-400" role="alert">{error}</p>}
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={handleSave}
+              className="px-3 py-1.5 bg-accent-gold text-vault-dark rounded-lg text-xs font-medium hover:bg-accent-gold-hover"
+            >
+              {t('contactHistory.save')}
+            </button>
+            <button
+              type="button"
+              onClick={() => { setAdding(false); setError(null); }}
+              className="px-3 py-1.5 text-slate-400 text-xs"
+            >
+              {t('common.cancel')}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={() => { setNextFollowUp(contact.nextFollowUpDate ?? ''); setAdding(true); }}
+          className="inline-flex items-center gap-1 text-[11px] text-slate-400 hover:text-text-primary"
+        >
+          <Plus className="w-3 h-3" />
+          {t('contactHistory.add')}
+        </button>
+      )}
+    </div>
+  );
+};
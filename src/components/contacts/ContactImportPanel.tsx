@@ -0,0 +1,250 @@
+/**
+ * Contact Import Panel - read a vCard or CSV file, map CSV columns, review duplicates, import
+ */
+
+import React, { useRef, useState } from 'react';
+import { Upload, X } from 'lucide-react';
+import type { ContactColumnMapping, ContactEntry, ContactImportAction, ContactImportCandidate, ContactImportDraft, ContactImportField } from '../../types';
+import {
+  CONTACT_IMPORT_FIELDS,
+  applyColumnMapping,
+  applyContactImport,
+  buildImportCandidates,
+  guessColumnMapping,
+  isVCard,
+  parseCsv,
+  parseVCards,
+  validateColumnMapping,
+} from '../../services/contactImport';
+import { storageService } from '../../services/storageService';
+import { t } from '../../services/localization';
+
+interface ContactImportPanelProps {
+  contacts: ContactEntry[];
+  onContactsChange: (contacts: ContactEntry[]) => void;
+  onClose: () => void;
+}
+
+const IMPORT_ACTIONS: ContactImportAction[] = ['SKIP', 'MERGE', 'ADD'];
+/** A repeat within the file has no saved contact to fill in. */
+const IN_FILE_ACTIONS: ContactImportAction[] = ['SKIP', 'ADD'];
+
+const selectClass = 'w-full px-2 py-1.5 bg-slate-800 border border-slate-600 rounded-lg text-text-primary text-xs focus:outline-none focus:border-slate-500';
+
+export const ContactImportPanel: React.FC<ContactImportPanelProps> = ({ contacts, onContactsChange, onClose }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [rows, setRows] = useState<string[][] | null>(null);
+  const [mapping, setMapping] = useState<ContactColumnMapping>([]);
+  const [candidates, setCandidates] = useState<ContactImportCandidate[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const showPreview = (drafts: ContactImportDraft[]) => {
+    if (drafts.length === 0) {
+      setError(t('contactImport.empty'));
+      return;
+    }
+    setCandidates(buildImportCandidates(drafts, contacts));
+  };
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    setMessage(null);
+    setCandidates(null);
+    setRows(null);
+    try {
+      const text = await file.text();
+      if (isVCard(text)) {
+        showPreview(parseVCards(text));
+        return;
+      }
+      const parsed = parseCsv(text);
+      if (parsed.length < 2) {
+        setError(t('contactImport.empty'));
+        return;
+      }
+      setRows(parsed);
+      setMapping(guessColumnMapping(parsed[0]));
+    } catch (err) {
+      setError(t('contactImport.failed', { error: err instanceof Error ? err.message : '' }));
+    }
+  };
+
+  const handleApplyMapping = () => {
+    if (!rows) return;
+    const validationError = validateColumnMapping(mapping);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    setError(null);
+    showPreview(applyColumnMapping(rows.slice(1), mapping));
+  };
+
+  const setAction = (index: number, action: ContactImportAction) => {
+    setCandidates(prev => prev && prev.map((candidate, i) => (i === index ? { ...candidate, action } : candidate)));
+  };
+
+  const handleImport = async () => {
+    if (!candidates) return;
+    const result = applyContactImport(contacts, candidates);
+    onContactsChange(result.contacts);
+    await storageService.saveContacts(result.contacts);
+    setMessage(t('contactImport.done', { added: result.added, merged: result.merged, skipped: result.skipped }));
+    setCandidates(null);
+    setRows(null);
+  };
+
+  return (
+    <div className="bg-slate-800/40 border border-slate-700/60 rounded-xl p-4 space-y-3 max-w-3xl">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-text-primary">{t('contactImport.title')}</h3>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-1.5 text-slate-400 hover:text-text-primary rounded"
+          aria-label={t('contactImport.close')}
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {!rows && !candidates && (
+        <div className="space-y-2">
+          <p className="text-xs text-slate-400">{t('contactImport.intro')}</p>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".vcf,.vcard,.csv,text/vcard,text/csv"
+            onChange={handleFileSelected}
+            className="hidden"
+          />
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className="inline-flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium bg-slate-700/60 text-slate-200 hover:bg-slate-700 border border-slate-600"
+          >
+            <Upload className="w-4 h-4" />
+            {t('contactImport.chooseFile')}
+          </button>
+        </div>
+      )}
+
+      {rows && !candidates && (
+        <div className="space-y-2">
+          <p className="text-xs text-slate-400">{t('contactImport.mappingIntro')}</p>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-slate-500">
+                <th className="py-1 pr-2 font-medium">{t('contactImport.column')}</th>
+                <th className="py-1 pr-2 font-medium">{t('contactImport.example')}</th>
+                <th className="py-1 font-medium w-48" />
+              </tr>
+            </thead>
+            <tbody>
+              {rows[0].map((header, index) => (
+                <tr key={index} className="border-t border-slate-700/40">
+                  <td className="py-1 pr-2 text-slate-300">{header}</td>
+                  <td className="py-1 pr-2 text-slate-500 truncate max-w-[12rem]">{rows[1][index]}</td>
+                  <td className="py-1">
+                    <select
+                      value={mapping[index] ?? ''}
+                      onChange={(e) => {
+                        const field = (e.target.value || null) as ContactImportField | null;
+                        setMapping(prev => rows[0].map((_, i) => (i === index ? field : prev[i] ?? null)));
+                        setError(null);
+                      }}
+                      className={selectClass}
+                      aria-label={header}
+                    >
+                      <option value="">{t('contactImport.field.none')}</option>
+                      {CONTACT_IMPORT_FIELDS.map(field => (
+                        <option key={field} value={field}>{t(`contactImport.field.${field}`)}</option>
+                      ))}
+                    </select>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={handleApplyMapping}
+              className="px-3 py-1.5 bg-accent-gold text-vault-dark rounded-lg text-xs font-medium hover:bg-accent-gold-hover"
+            >
+              {t('contactImport.continue')}
+            </button>
+            <button type="button" onClick={() => { setRows(null); setError(null); }} className="px-3 py-1.5 text-slate-400 text-xs">
+              {t('contactImport.back')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {candidates && (
+        <div className="space-y-2">
+          <p className="text-xs text-slate-400">{t('contactImport.previewIntro', { count: candidates.length })}</p>
+          <ul className="space-y-2 max-h-96 overflow-y-auto">
+            {candidates.map(({ draft, duplicateOf, duplicateInFile, action }, index) => (
+              <li
+                key={index}
+                className={`flex flex-wrap items-center justify-between gap-2 rounded-lg border px-3 py-2 ${
+                  duplicateOf || duplicateInFile !== undefined ? 'border-amber-500/50 bg-amber-500/5' : 'border-slate-700/60'
+                }`}
+              >
+                <div className="min-w-0">
+                  <p className="text-sm text-text-primary truncate">
+                    {draft.name}
+                    {draft.organization && <span className="text-slate-400"> · {draft.organization}</span>}
+                  </p>
+                  <p className="text-[11px] text-slate-500">
+                    {draft.role ? t(`contacts.role.${draft.role}`) : t(`contacts.type.${draft.type}`)}
+                    {draft.phone && <> · {draft.phone}</>}
+                    {draft.email && <> · {draft.email}</>}
+                  </p>
+                  {duplicateOf && (
+                    <p className="text-[11px] text-amber-300">{t('contactImport.duplicateOf', { name: duplicateOf.name })}</p>
+                  )}
+                  {duplicateInFile !== undefined && (
+                    <p className="text-[11px] text-amber-300">{t('contactImport.duplicateInFile', { name: candidates[duplicateInFile].draft.name })}</p>
+                  )}
+                </div>
+                {(duplicateOf || duplicateInFile !== undefined) && (
+                  <select
+                    value={action}
+                    onChange={(e) => setAction(index, e.target.value as ContactImportAction)}
+                    className={`${selectClass} w-auto`}
+                    aria-label={t('contactImport.actionFor', { name: draft.name })}
+                  >
+                    {(duplicateOf ? IMPORT_ACTIONS : IN_FILE_ACTIONS).map(option => (
+                      <option key={option} value={option}>{t(`contactImport.action.${option}`)}</option>
+                    ))}
+                  </select>
+                )}
+              </li>
+            ))}
+          </ul>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={handleImport}
+              className="px-3 py-1.5 bg-accent-gold text-vault-dark rounded-lg text-xs font-medium hover:bg-accent-gold-hover"
+            >
+              {t('contactImport.confirm')}
+            </button>
+            <button type="button" onClick={() => { setCandidates(null); setError(null); }} className="px-3 py-1.5 text-slate-400 text-xs">
+              {t('contactImport.back')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-400" role="alert">{error}</p>}
+      {message && <p className="text-xs text-slate-300" role="status">{message}</p>}
+    </div>
+  );
+};
@@ -5,7 +5,7 @@
  */
 
 import React, { useState, useCallback } from 'react';
-import { Users, Plus, Phone, Copy, FileDown, X, Star } from 'lucide-react';
+import { Users, Plus, Phone, Copy, FileDown, X, Star, History, AlarmClock, Upload, Download } from 'lucide-react';
 import { TitleBar } from '../common/TitleBar';
 import type { ContactEntry, ContactRole } from '../../types';
 import {
@@ -15,6 +15,11 @@ import {
   createManualContact,
 } from '../../services/executorService';
 import { storageService } from '../../services/storageService';
+import { downloadContacts } from '../../services/contactImport';
+import { toCalendarDate } from '../../services/taskScheduling';
+import { formatDate, t } from '../../services/localization';
+import { ContactHistory } from './ContactHistory';
+import { ContactImportPanel } from './ContactImportPanel';
 
 interface ContactsViewProps {
   contacts: ContactEntry[];
@@ -22,8 +27,8 @@ interface ContactsViewProps {
 }
 
 function getContactLabel(contact: ContactEntry): string {
-  if (contact.role) return getContactRoleInfo(contact.role).label;
-  return getContactTypeInfo(contact.type).label;
+  if (contact.role) return t(`contacts.role.${contact.role}`);
+  return t(`contacts.type.${contact.type}`);
 }
 
 function getContactColor(contact: ContactEntry): string {
@@ -31,6 +36,8 @@ function getContactColor(contact: ContactEntry): string {
   return getContactTypeInfo(contact.type).color;
 }
 
+const CONTACT_STATUSES = ['NOT_CONTACTED', 'IN_PROGRESS', 'COMPLETED'] as const;
+
 const emptyContactForm = (): Partial<ContactEntry> => ({
   name: '',
   role: 'OTHER',
@@ -45,6 +52,9 @@ export const ContactsView: React.FC<ContactsViewProps> = ({ contacts, onContacts
   const [editingId, setEditingId] = useState<string | null>(null);
   const [showAddForm, setShowAddForm] = useState(false);
   const [form, setForm] = useState<Partial<ContactEntry>>(emptyContactForm());
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [showImport, setShowImport] = useState(false);
+  const today = toCalendarDate(new Date());
 
   const saveContact = useCallback(
     async (payload: Partial<ContactEntry>) => {
@@ -100,6 +110,15 @@ export const ContactsView: React.FC<ContactsViewProps> = ({ contacts, onContacts
     [contacts, onContactsChange]
   );
 
+  const replaceContact = useCallback(
+    async (updatedContact: ContactEntry) => {
+      const updated = contacts.map((c) => (c.id === updatedContact.id ? updatedContact : c));
+      onContactsChange(updated);
+      await storageService.saveContacts(updated);
+    },
+    [contacts, onContactsChange]
+  );
+
   const toggleKeyContact = useCallback(
     async (contactId: string) => {
       const updated = contacts.map((c) =>
@@ -114,10 +133,10 @@ export const ContactsView: React.FC<ContactsViewProps> = ({ contacts, onContacts
   const copyContactInfo = useCallback((contact: ContactEntry) => {
     const lines = [
       contact.name,
-      contact.organization && `Organization: ${contact.organization}`,
-      contact.phone && `Phone: ${contact.phone}`,
-      contact.email && `Email: ${contact.email}`,
-      contact.notes && `Notes: ${contact.notes}`,
+      contact.organization && t('contacts.copy.organization', { value: contact.organization }),
+      contact.phone && t('contacts.copy.phone', { value: contact.phone }),
+      contact.email && t('contacts.copy.email', { value: contact.email }),
+      contact.notes && t('contacts.copy.notes', { value: contact.notes }),
     ].filter(Boolean);
     navigator.clipboard.writeText(lines.join('\n'));
   }, []);
@@ -155,7 +174,7 @@ export const ContactsView: React.FC<ContactsViewProps> = ({ contacts, onContacts
     <div className="bg-slate-800/40 border border-slate-700/60 rounded-xl p-4 space-y-3 max-w-md">
       <div className="flex items-center justify-between">
         <h3 className="text-sm font-medium text-text-primary">
-          {editingId ? 'Edit contact' : 'Add a contact'}
+          {editingId ? t('contacts.edit') : t('contacts.add')}
         </h3>
         <button
           type="button"
@@ -165,23 +184,23 @@ export const ContactsView: React.FC<ContactsViewProps> = ({ contacts, onContacts
             setForm(emptyContactForm());
           }}
           className="p-1.5 text-slate-400 hover:text-text-primary rounded"
-          aria-label="Close"
+          aria-label={t('contacts.close')}
         >
           <X className="w-4 h-4" />
         </button>
       </div>
       <div>
-        <label className="block text-xs font-medium text-slate-400 mb-1">Name *</label>
+        <label className="block text-xs font-medium text-slate-400 mb-1">{t('contacts.field.name')}</label>
         <input
           type="text"
           value={form.name ?? ''}
           onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))}
-          placeholder="Full name or organization"
+          placeholder={t('contacts.field.namePlaceholder')}
           className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-lg text-text-primary text-sm focus:outline-none focus:border-slate-500"
         />
       </div>
       <div>
-        <label className="block text-xs font-medium text-slate-400 mb-1">Role</label>
+        <label className="block text-xs font-medium text-slate-400 mb-1">{t('contacts.field.role')}</label>
         <select
           value={form.role ?? 'OTHER'}
           onChange={(e) => setForm((f) => ({ ...f, role: e.target.value as ContactRole }))}
@@ -189,14 +208,14 @@ export const ContactsView: React.FC<ContactsViewProps> = ({ contacts, onContacts
         >
           {CONTACT_ROLES.map((r) => (
             <option key={r.value} value={r.value}>
-              {r.label}
+              {t(`contacts.role.${r.value}`)}
             </option>
           ))}
         </select>
       </div>
       <div className="grid grid-cols-2 gap-3">
         <div>
-          <label className="block text-xs font-medium text-slate-400 mb-1">Phone</label>
+          <label className="block text-xs font-medium text-slate-400 mb-1">{t('contacts.field.phone')}</label>
           <input
             type="tel"
             value={form.phone ?? ''}
@@ -206,7 +225,7 @@ export const ContactsView: React.FC<ContactsViewProps> = ({ contacts, onContacts
           />
         </div>
         <div>
-          <label className="block text-xs font-medium text-slate-400 mb-1">Email</label>
+          <label className="block text-xs font-medium text-slate-400 mb-1">{t('contacts.field.email')}</label>
           <input
             type="email"
             value={form.email ?? ''}
@@ -217,21 +236,21 @@ export const ContactsView: React.FC<ContactsViewProps> = ({ contacts, onContacts
         </div>
       </div>
       <div>
-        <label className="block text-xs font-medium text-slate-400 mb-1">Organization (optional)</label>
+        <label className="block text-xs font-medium text-slate-400 mb-1">{t('contacts.field.organization')}</label>
         <input
           type="text"
           value={form.organization ?? ''}
           onChange={(e) => setForm((f) => ({ ...f, organization: e.target.value }))}
-          placeholder="e.g. bank or company name"
+          placeholder={t('contacts.field.organizationPlaceholder')}
           className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-lg text-text-primary text-sm focus:outline-none focus:border-slate-500"
         />
       </div>
       <div>
-        <label className="block text-xs font-medium text-slate-400 mb-1">Notes (optional)</label>
+        <label className="block text-xs font-medium text-slate-400 mb-1">{t('contacts.field.notes')}</label>
         <textarea
           value={form.notes ?? ''}
           onChange={(e) => setForm((f) => ({ ...f, notes: e.target.value }))}
-          placeholder="Free text"
+          placeholder={t('contacts.field.notesPlaceholder')}
           rows={2}
           className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-lg text-text-primary text-sm focus:outline-none focus:border-slate-500 resize-none"
         />
@@ -243,7 +262,7 @@ export const ContactsView: React.FC<ContactsViewProps> = ({ contacts, onContacts
           onChange={(e) => setForm((f) => ({ ...f, isKeyContact: e.target.checked }))}
           className="rounded border-slate-600"
         />
-        <span className="text-sm text-slate-300">Mark as key contact (include in Export Binder)</span>
+        <span className="text-sm text-slate-300">{t('contacts.field.keyContact')}</span>
       </label>
       <div className="flex gap-2 pt-1">
         <button
@@ -252,7 +271,7 @@ export const ContactsView: React.FC<ContactsViewProps> = ({ contacts, onContacts
           disabled={!(form.name || '').trim()}
           className="px-4 py-2 bg-accent-gold text-vault-dark rounded-lg text-sm font-medium hover:bg-accent-gold-hover disabled:opacity-50 disabled:cursor-not-allowed"
         >
-          {editingId ? 'Save' : 'Add contact'}
+          {editingId ? t('contacts.save') : t('contacts.add')}
         </button>
         {editingId && (
           <button
@@ -260,7 +279,7 @@ export const ContactsView: React.FC<ContactsViewProps> = ({ contacts, onContacts
             onClick={() => deleteContact(editingId)}
             className="px-4 py-2 text-slate-400 hover:text-red-400 text-sm"
           >
-            Remove
+            {t('contacts.remove')}
           </button>
         )}
       </div>
@@ -271,20 +290,24 @@ export const ContactsView: React.FC<ContactsViewProps> = ({ contacts, onContacts
     <div className="space-y-4">
       <div className="page-header-zone flex flex-col items-center text-center">
         <div className="flex flex-col items-center">
-          <h2 className="text-xl font-semibold text-text-primary">Contacts</h2>
+          <h2 className="text-xl font-semibold text-text-primary">{t('contacts.title')}</h2>
           <TitleBar className="mt-1.5" />
         </div>
         <p className="text-slate-400 text-sm mt-1.5 max-w-md">
-          Key contacts for notifications and estate administration.
+          {t('contacts.subtitle')}
         </p>
       </div>
 
+      {showImport && (
+        <ContactImportPanel contacts={contacts} onContactsChange={onContactsChange} onClose={() => setShowImport(false)} />
+      )}
+
       {/* Empty state: icon + short sentence, one primary CTA, secondary "Import later" */}
-      {contacts.length === 0 && !showAddForm && (
+      {contacts.length === 0 && !showAddForm && !showImport && (
         <div className="text-center py-8 max-w-sm mx-auto">
           <Users className="w-10 h-10 text-slate-500 mx-auto mb-3" aria-hidden />
           <p className="text-sm text-slate-300 mb-4">
-            You can add contacts manually or connect them later from a Local Legacy Vault.
+            {t('contacts.empty')}
           </p>
           <div className="flex flex-col items-center gap-2">
             <button
@@ -293,15 +316,23 @@ export const ContactsView: React.FC<ContactsViewProps> = ({ contacts, onContacts
               className="inline-flex items-center gap-2 px-4 py-2.5 bg-accent-gold text-vault-dark rounded-lg text-sm font-medium hover:bg-accent-gold-hover"
             >
               <Plus className="w-4 h-4" />
-              Add a contact
+              {t('contacts.add')}
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowImport(true)}
+              className="inline-flex items-center gap-2 text-xs text-slate-400 hover:text-text-primary"
+            >
+              <Upload className="w-3 h-3" />
+              {t('contactImport.title')}
             </button>
             <button
               type="button"
               className="text-xs text-slate-500 hover:text-slate-400"
               disabled
-              title="Import from Local Legacy Vault when connected"
+              title={t('contacts.importLaterHint')}
             >
-              Import later from Local Legacy Vault
+              {t('contacts.importLater')}
             </button>
           </div>
         </div>
@@ -322,10 +353,34 @@ export const ContactsView: React.FC<ContactsViewProps> = ({ contacts, onContacts
               className="inline-flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium bg-slate-700/60 text-slate-200 hover:bg-slate-700 border border-slate-600"
             >
               <Plus className="w-4 h-4" />
-              Add a contact
+              {t('contacts.add')}
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowImport(true)}
+              className="inline-flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium bg-slate-700/60 text-slate-200 hover:bg-slate-700 border border-slate-600"
+            >
+              <Upload className="w-4 h-4" />
+              {t('contactImport.title')}
+            </button>
+            <button
+              type="button"
+              onClick={() => downloadContacts(contacts, 'vcf')}
+              className="inline-flex items-center gap-1 px-2 py-2 text-xs text-slate-400 hover:text-text-primary"
+            >
+              <Download className="w-3 h-3" />
+              {t('contactImport.exportVCard')}
+            </button>
+            <button
+              type="button"
+              onClick={() => downloadContacts(contacts, 'csv')}
+              className="inline-flex items-center gap-1 px-2 py-2 text-xs text-slate-400 hover:text-text-primary"
+            >
+              <Download className="w-3 h-3" />
+              {t('contactImport.exportCsv')}
             </button>
             <span className="text-xs text-slate-500">
-              Import later from Local Legacy Vault when connected.
+              {t('contacts.importLaterNote')}
             </span>
           </div>
 
@@ -365,7 +420,7 @@ export const ContactsView: React.FC<ContactsViewProps> = ({ contacts, onContacts
                         </p>
                       </div>
                       {contact.isKeyContact && (
-                        <span title="Key contact" aria-hidden><Star className="w-3.5 h-3.5 text-accent-gold fill-accent-gold flex-shrink-0" /></span>
+                        <span title={t('contacts.keyContact')} aria-hidden><Star className="w-3.5 h-3.5 text-accent-gold fill-accent-gold flex-shrink-0" /></span>
                       )}
                     </div>
                     <select
@@ -375,15 +430,23 @@ export const ContactsView: React.FC<ContactsViewProps> = ({ contacts, onContacts
                       }
                       className="px-2 py-1 rounded text-xs font-medium border border-slate-600/50 bg-slate-800 text-slate-300 focus:outline-none focus:ring-1 focus:ring-slate-500 flex-shrink-0"
                     >
-                      <option value="NOT_CONTACTED">Not contacted</option>
-                      <option value="IN_PROGRESS">In progress</option>
-                      <option value="COMPLETED">Completed</option>
+                      {CONTACT_STATUSES.map((value) => (
+                        <option key={value} value={value}>
+                          {t(`contacts.status.${value}`)}
+                        </option>
+                      ))}
                     </select>
                   </div>
                   <div className="space-y-0.5 text-xs text-slate-400">
                     {contact.phone && <p>{contact.phone}</p>}
                     {contact.email && <p className="truncate">{contact.email}</p>}
                     {contact.website && <p className="truncate">{contact.website}</p>}
+                    {contact.nextFollowUpDate && (
+                      <p className={`flex items-center gap-1 ${contact.nextFollowUpDate < today ? 'text-amber-300' : ''}`}>
+                        <AlarmClock className="w-3 h-3" />
+                        {t('contactHistory.followUpOn', { date: formatDate(contact.nextFollowUpDate) })}
+                      </p>
+                    )}
                   </div>
                   {/* Quick actions: Call, Copy info, Include in Export Binder */}
                   <div className="mt-2 pt-2 border-t border-slate-700/40 flex flex-wrap items-center gap-2">
@@ -393,7 +456,7 @@ export const ContactsView: React.FC<ContactsViewProps> = ({ contacts, onContacts
                         className="inline-flex items-center gap-1 text-[11px] text-slate-400 hover:text-text-primary"
                       >
                         <Phone className="w-3 h-3" />
-                        Call
+                        {t('contacts.call')}
                       </a>
                     )}
                     <button
@@ -402,7 +465,7 @@ export const ContactsView: React.FC<ContactsViewProps> = ({ contacts, onContacts
                       className="inline-flex items-center gap-1 text-[11px] text-slate-400 hover:text-text-primary"
                     >
                       <Copy className="w-3 h-3" />
-                      Copy info
+                      {t('contacts.copyInfo')}
                     </button>
                     <button
                       type="button"
@@ -410,17 +473,28 @@ export const ContactsView: React.FC<ContactsViewProps> = ({ contacts, onContacts
                       className={`inline-flex items-center gap-1 text-[11px] ${
                         contact.isKeyContact ? 'text-accent-gold' : 'text-slate-400 hover:text-text-primary'
                       }`}
-                      title={contact.isKeyContact ? 'Remove from Export Binder' : 'Include in Export Binder'}
+                      title={contact.isKeyContact ? t('contacts.binder.exclude') : t('contacts.binder.include')}
                     >
                       <FileDown className="w-3 h-3" />
-                      {contact.isKeyContact ? 'In binder' : 'Include in binder'}
+                      {contact.isKeyContact ? t('contacts.binder.in') : t('contacts.binder.add')}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setHistoryId(historyId === contact.id ? null : contact.id)}
+                      aria-expanded={historyId === contact.id}
+                      className="inline-flex items-center gap-1 text-[11px] text-slate-400 hover:text-text-primary"
+                    >
+                      <History className="w-3 h-3" />
+                      {historyId === contact.id
+                        ? t('contactHistory.hide')
+                        : t('contactHistory.show', { count: contact.interactions?.length ?? 0 })}
                     </button>
                     <button
                       type="button"
                       onClick={() => openEdit(contact)}
                       className="ml-auto text-[11px] text-slate-500 hover:text-slate-400"
                     >
-                      Edit
+                      {t('contacts.editShort')}
                     </button>
                   </div>
                   {contact.notes && (
@@ -428,6 +502,7 @@ export const ContactsView: React.FC<ContactsViewProps> = ({ contacts, onContacts
                       {contact.notes}
                     </p>
                   )}
+                  {historyId === contact.id && <ContactHistory contact={contact} onChange={replaceContact} />}
                 </div>
               );
             })}
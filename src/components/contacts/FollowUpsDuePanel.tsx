@@ -0,0 +1,100 @@
+/**
+ * Follow-Ups Due Panel - contacts to get back in touch with this week, overdue first
+ */
+
+import React, { useMemo } from 'react';
+import { AlarmClock, Check } from 'lucide-react';
+import type { ContactEntry } from '../../types';
+import { getFollowUpsDue, setFollowUp, snoozeFollowUp } from '../../services/contactFollowUps';
+import { storageService } from '../../services/storageService';
+import { toCalendarDate } from '../../services/taskScheduling';
+import { formatDate, t } from '../../services/localization';
+
+interface FollowUpsDuePanelProps {
+  contacts: ContactEntry[];
+  onContactsChange: (contacts: ContactEntry[]) => void;
+  onOpenContacts: () => void;
+  /** Spacing around the panel; defaults to a bottom margin for the top of a page */
+  className?: string;
+}
+
+const SNOOZE_OPTIONS: { days: number; label: () => string }[] = [
+  { days: 1, label: () => t('followUps.snoozeTomorrow') },
+  { days: 3, label: () => t('followUps.snoozeDays', { count: 3 }) },
+  { days: 7, label: () => t('followUps.snoozeWeek') },
+];
+
+export const FollowUpsDuePanel: React.FC<FollowUpsDuePanelProps> = ({ contacts, onContactsChange, onOpenContacts, className = 'mb-8' }) => {
+  const due = useMemo(() => getFollowUpsDue(contacts), [contacts]);
+  if (due.length === 0) return null;
+
+  const today = toCalendarDate(new Date());
+
+  const updateContact = async (updatedContact: ContactEntry) => {
+    const updated = contacts.map(contact => (contact.id === updatedContact.id ? updatedContact : contact));
+    onContactsChange(updated);
+    await storageService.saveContacts(updated);
+  };
+
+  return (
+    <section className={`${className} rounded-xl border border-[var(--color-border-subtle)] bg-[var(--color-background-card)] p-4`} aria-label={t('followUps.title')}>
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <h3 className="flex items-center gap-2 text-sm font-semibold text-text-primary">
+          <AlarmClock className="w-4 h-4 text-accent-gold" strokeWidth={1.75} />
+          {t('followUps.title')}
+        </h3>
+        <button type="button" onClick={onOpenContacts} className="text-xs text-text-muted hover:text-text-primary">
+          {t('followUps.openContacts')}
+        </button>
+      </div>
+      <ul className="space-y-2">
+        {due.map(({ contact, dueDate, overdue }) => {
+          const snoozed = !!contact.followUpSnoozedUntil && contact.followUpSnoozedUntil === dueDate;
+          return (
+            <li
+              key={contact.id}
+              className={`flex flex-wrap items-center justify-between gap-2 rounded-lg border px-3 py-2 ${
+                overdue ? 'border-amber-500/50 bg-amber-500/5' : 'border-[var(--color-border-subtle)]'
+              }`}
+            >
+              <div className="min-w-0">
+                <p className="text-sm text-text-primary truncate">
+                  {contact.name}
+                  {contact.organization && <span className="text-text-muted"> · {contact.organization}</span>}
+                </p>
+                <p className={`text-xs ${overdue ? 'text-amber-300' : 'text-text-muted'}`}>
+                  {overdue
+                    ? t('followUps.overdue', { date: formatDate(dueDate) })
+                    : dueDate === today
+                      ? t('followUps.dueToday')
+                      : t('followUps.dueOn', { date: formatDate(dueDate) })}
+                  {snoozed && <> · {t('followUps.snoozed')}</>}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <label className="sr-only" htmlFor={`snooze-${contact.id}`}>{t('followUps.snooze')}</label>
+                <select
+                  id={`snooze-${contact.id}`}
+                  value=""
+                  onChange={(e) => e.target.value && updateContact(snoozeFollowUp(contact, Number(e.target.value)))}
+                  className="px-2 py-1 rounded text-xs border border-[var(--color-border-subtle)] bg-vault-dark text-text-secondary focus:outline-none"
+                >
+                  <option value="">{t('followUps.snooze')}</option>
+                  {SNOOZE_OPTIONS.map(option => <option key={option.days} value={option.days}>{option.label()}</option>)}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => updateContact(setFollowUp(contact, undefined))}
+                  className="inline-flex items-center gap-1 px-2 py-1 rounded text-xs text-text-secondary hover:text-text-primary border border-[var(--color-border-subtle)]"
+                >
+                  <Check className="w-3 h-3" />
+                  {t('followUps.done')}
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+};
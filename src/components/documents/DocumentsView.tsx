@@ -6,7 +6,7 @@
  */
 
 import React from 'react';
-import { Upload, Trash2 } from 'lucide-react';
+import { Upload, Trash2, ExternalLink, Download } from 'lucide-react';
 import { TitleBar } from '../common/TitleBar';
 import type {
   UploadedDocument,
@@ -16,6 +16,8 @@ import type {
   ExecutorChecklistItem,
 } from '../../types';
 import { storageService } from '../../services/storageService';
+import { documentBlobStore } from '../../services/documentBlobStore';
+import { formatDate, t } from '../../services/localization';
 import {
   DOCUMENT_CATEGORIES,
   DOCUMENT_STATUSES,
@@ -38,15 +40,26 @@ export const DocumentsView: React.FC<DocumentsViewProps> = ({
     await storageService.saveDocuments(updated);
   };
 
+  const [fileError, setFileError] = React.useState<string | null>(null);
+
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
+    const caseId = storageService.getActiveCaseId();
+    if (!caseId) return;
+    setFileError(null);
+    let savedBlobId: string | null = null;
     try {
+      const id = crypto.randomUUID();
+      const filePath = await documentBlobStore.saveBlob(caseId, id, file);
+      savedBlobId = id;
       const newDoc: UploadedDocument = {
-        id: crypto.randomUUID(),
-        filePath: '',
+        id,
+        caseId,
+        filePath,
         fileName: file.name,
         fileSize: file.size,
+        mimeType: file.type || undefined,
         uploadedAt: new Date().toISOString(),
         userLabel: '',
         documentType: 'Other',
@@ -54,12 +67,55 @@ export const DocumentsView: React.FC<DocumentsViewProps> = ({
       await saveDocs([...documents, newDoc]);
     } catch (error) {
       console.error('Failed to add document:', error);
+      if (savedBlobId) {
+        // The list was not saved: drop the entry and its file so neither is left behind
+        onDocumentsChange(documents);
+        await documentBlobStore.deleteBlob(caseId, savedBlobId);
+      }
+      setFileError(t('documents.error.save'));
     }
     e.target.value = '';
   };
 
-  const handleDelete = async (docId: string) => {
-    await saveDocs(documents.filter((d) => d.id !== docId));
+  /** Decrypt the stored file; returns null (and shows a message) if it is missing. */
+  const loadFile = async (doc: UploadedDocument): Promise<Blob | null> => {
+    setFileError(null);
+    try {
+      const blob = doc.filePath ? await documentBlobStore.loadBlob(doc.caseId, doc.id, doc.mimeType) : null;
+      if (!blob) setFileError(t('documents.error.missing', { fileName: doc.fileName }));
+      return blob;
+    } catch (error) {
+      console.error('Failed to open document:', error);
+      setFileError(t('documents.error.open', { fileName: doc.fileName }));
+      return null;
+    }
+  };
+
+  const handleOpen = async (doc: UploadedDocument) => {
+    const blob = await loadFile(doc);
+    if (!blob) return;
+    const url = URL.createObjectURL(blob);
+    window.open(url, '_blank', 'noopener,noreferrer');
+    // Give the new window time to load before releasing the object URL
+    setTimeout(() => URL.revokeObjectURL(url), 60000);
+  };
+
+  const handleDownload = async (doc: UploadedDocument) => {
+    const blob = await loadFile(doc);
+    if (!blob) return;
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = doc.fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleDelete = async (doc: UploadedDocument) => {
+    await saveDocs(documents.filter((d) => d.id !== doc.id));
+    if (doc.filePath) await documentBlobStore.deleteBlob(doc.caseId, doc.id);
   };
 
   const handleCategoryChange = async (docId: string, category: DocumentCategory | '') => {
@@ -92,18 +148,18 @@ export const DocumentsView: React.FC<DocumentsViewProps> = ({
     <div className="space-y-4">
       <div className="page-header-zone flex flex-col items-center text-center">
         <div className="flex flex-col items-center">
-          <h2 className="text-xl font-semibold text-text-primary">Documents</h2>
+          <h2 className="text-xl font-semibold text-text-primary">{t('documents.title')}</h2>
           <TitleBar className="mt-1.5" />
         </div>
         <p className="text-slate-400 text-sm mt-1.5 max-w-md">
-          A secure place to keep important documents easy to find.
+          {t('documents.subtitle')}
         </p>
       </div>
 
       {/* Compact disclaimer under title only */}
       <div className="rounded-lg bg-slate-800/30 border border-slate-700/50 p-3">
         <p className="text-xs text-slate-500 leading-relaxed">
-          For reference only. Not legal advice. For legal, financial, or medical decisions, consult a qualified professional.
+          {t('documents.disclaimer')}
         </p>
       </div>
 
@@ -115,7 +171,7 @@ export const DocumentsView: React.FC<DocumentsViewProps> = ({
           className="inline-flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-slate-300 hover:text-text-primary bg-slate-800/50 border border-slate-700 hover:border-slate-600 transition-colors w-fit"
         >
           <Upload className="w-4 h-4" aria-hidden="true" />
-          Add document
+          {t('documents.add')}
         </button>
         <input
           ref={fileInputRef}
@@ -123,10 +179,13 @@ export const DocumentsView: React.FC<DocumentsViewProps> = ({
           onChange={handleFileUpload}
           accept=".pdf,.doc,.docx,.jpg,.jpeg,.png"
           className="hidden"
-          aria-label="Select file to upload"
+          aria-label={t('documents.select')}
         />
         {documents.length === 0 && (
-          <p className="text-[11px] text-slate-500">Or drag a file here. Stored on this device only.</p>
+          <p className="text-[11px] text-slate-500">{t('documents.dropHint')}</p>
+        )}
+        {fileError && (
+          <p className="text-[11px] text-red-400" role="alert">{fileError}</p>
         )}
       </div>
 
@@ -144,39 +203,64 @@ export const DocumentsView: React.FC<DocumentsViewProps> = ({
                       {doc.fileName}
                     </p>
                     <p className="text-[11px] text-slate-500 mt-0.5">
-                      {new Date(doc.uploadedAt).toLocaleDateString()}
+                      {formatDate(doc.uploadedAt)}
                       {doc.userLabel ? ` · ${doc.userLabel}` : ''}
+                      {!doc.filePath ? ` · ${t('documents.notStored')}` : ''}
                     </p>
                   </div>
-                  <button
-                    type="button"
-                    onClick={() => handleDelete(doc.id)}
-                    className="p-1.5 text-slate-500 opacity-0 group-hover/doc:opacity-100 hover:text-slate-400 rounded transition-all flex-shrink-0"
-                    aria-label="Remove document"
-                  >
-                    <Trash2 className="w-3.5 h-3.5" />
-                  </button>
+                  <div className="flex items-center gap-0.5 flex-shrink-0">
+                    {doc.filePath && (
+                      <>
+                        <button
+                          type="button"
+                          onClick={() => handleOpen(doc)}
+                          className="p-1.5 text-slate-500 hover:text-slate-300 rounded transition-colors"
+                          aria-label={t('documents.open.label')}
+                          title={t('documents.open')}
+                        >
+                          <ExternalLink className="w-3.5 h-3.5" />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleDownload(doc)}
+                          className="p-1.5 text-slate-500 hover:text-slate-300 rounded transition-colors"
+                          aria-label={t('documents.download.label')}
+                          title={t('documents.download')}
+                        >
+                          <Download className="w-3.5 h-3.5" />
+                        </button>
+                      </>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(doc)}
+                      className="p-1.5 text-slate-500 opacity-0 group-hover/doc:opacity-100 hover:text-slate-400 rounded transition-all"
+                      aria-label={t('documents.remove')}
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
                 </div>
 
                 {/* Metadata: inline two-column; notes collapsible (collapsed by default) */}
                 <details className="mt-2 pt-2 border-t border-slate-700/40 group/details">
                   <summary className="text-[11px] text-slate-500 cursor-pointer hover:text-slate-400 list-none py-0.5">
-                    {doc.userLabel || doc.category || doc.documentStatus || doc.notes ? 'Details' : 'Add details'}
+                    {doc.userLabel || doc.category || doc.documentStatus || doc.notes ? t('documents.details') : t('documents.addDetails')}
                   </summary>
                   <div className="mt-2 space-y-2">
                     <div className="grid grid-cols-2 gap-x-3 gap-y-1.5">
                       <div>
-                        <label className="text-[10px] text-slate-500 block mb-0.5">Label</label>
+                        <label className="text-[10px] text-slate-500 block mb-0.5">{t('documents.label')}</label>
                         <input
                           type="text"
                           value={doc.userLabel || ''}
                           onChange={(e) => handleLabelChange(doc.id, e.target.value)}
-                          placeholder="Optional label"
+                          placeholder={t('documents.label.placeholder')}
                           className="block w-full text-xs text-text-primary placeholder-slate-500 bg-transparent border border-slate-700/50 rounded px-2 py-1 focus:outline-none focus:border-slate-600"
                         />
                       </div>
                       <div>
-                        <label className="text-[10px] text-text-muted block mb-0.5">Category</label>
+                        <label className="text-[10px] text-text-muted block mb-0.5">{t('documents.category')}</label>
                         <select
                           value={doc.category || ''}
                           onChange={(e) => handleCategoryChange(doc.id, e.target.value as DocumentCategory | '')}
@@ -184,12 +268,12 @@ export const DocumentsView: React.FC<DocumentsViewProps> = ({
                         >
                           <option value="">—</option>
                           {DOCUMENT_CATEGORIES.map((c) => (
-                            <option key={c.value} value={c.value}>{c.label}</option>
+                            <option key={c.value} value={c.value}>{t(`documents.category.${c.value}`)}</option>
                           ))}
                         </select>
                       </div>
                       <div>
-                        <label className="text-[10px] text-text-muted block mb-0.5">Status</label>
+                        <label className="text-[10px] text-text-muted block mb-0.5">{t('documents.status')}</label>
                         <select
                           value={doc.documentStatus || ''}
                           onChange={(e) => handleStatusChange(doc.id, e.target.value as DocumentStatus | '')}
@@ -197,14 +281,14 @@ export const DocumentsView: React.FC<DocumentsViewProps> = ({
                         >
                           <option value="">—</option>
                           {DOCUMENT_STATUSES.map((s) => (
-                            <option key={s.value} value={s.value}>{s.label}</option>
+                            <option key={s.value} value={s.value}>{t(`documents.status.${s.value}`)}</option>
                           ))}
                         </select>
                       </div>
                     </div>
                     <details className="group/notes">
                       <summary className="text-[11px] text-slate-500 cursor-pointer hover:text-slate-400 list-none py-0.5">
-                        {doc.notes ? 'Note' : 'Note (optional)'}
+                        {doc.notes ? t('documents.note') : t('documents.noteOptional')}
                       </summary>
                       <textarea
                         value={doc.notes || ''}
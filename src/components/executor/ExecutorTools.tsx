@@ -29,6 +29,7 @@ import {
   getExecutorChecklistCategoryOrder,
 } from '../../services/executorService';
 import { storageService } from '../../services/storageService';
+import { getBlockedChecklistItems } from '../../services/taskDependencies';
 
 interface ExecutorToolsProps {
   checklist: ExecutorChecklistItem[];
@@ -68,6 +69,11 @@ export const ExecutorTools: React.FC<ExecutorToolsProps> = ({
 
   const categoryRefs = useRef<Record<string, HTMLDivElement | null>>({});
 
+  const blockedItems = useMemo(
+    () => getBlockedChecklistItems(plan?.tasks ?? [], checklist),
+    [plan, checklist]
+  );
+
   const toggleCategory = useCallback((category: ExecutorChecklistCategory) => {
     setExpandedCategories((prev) => {
       const next = new Set(prev);
@@ -369,6 +375,11 @@ export const ExecutorTools: React.FC<ExecutorToolsProps> = ({
                               >
                                 {item.title}
                               </h5>
+                              {blockedItems.has(item.id) && (
+                                <p className="text-xs text-slate-500 mt-0.5">
+                                  Waiting on: {blockedItems.get(item.id)!.map(dep => dep.title).join(', ')}
+                                </p>
+                              )}
                             </button>
                             <span className={`flex-shrink-0 ${isItemExpanded ? 'text-accent-gold' : 'text-text-muted'}`}>
                               {isItemExpanded ? (
@@ -0,0 +1,177 @@
+/**
+ * Correspondence Form - log a letter, email or call, or update its status
+ */
+
+import React, { useMemo, useState } from 'react';
+import { AftercareTask, ContactEntry, CorrespondenceInput, CorrespondenceMethod, CorrespondenceStatus } from '../../types';
+import {
+  CORRESPONDENCE_METHODS,
+  CORRESPONDENCE_STATUSES,
+  getTasksForContact,
+  suggestExpectedResponseDate,
+  validateCorrespondenceInput,
+} from '../../services/correspondenceLog';
+import { t } from '../../services/localization';
+import { DateInput } from '../common/DateInput';
+
+interface CorrespondenceFormProps {
+  initial: CorrespondenceInput;
+  contacts: ContactEntry[];
+  tasks: AftercareTask[];
+  title: string;
+  onSave: (input: CorrespondenceInput) => void;
+  onCancel: () => void;
+}
+
+const fieldClass = 'w-full px-3 py-2 rounded-lg bg-vault-dark border border-border-subtle text-sm text-text-primary placeholder-text-muted focus:outline-none focus:ring-2 focus:ring-accent-gold/50';
+const labelClass = 'block text-xs text-text-muted mb-1';
+
+export const CorrespondenceForm: React.FC<CorrespondenceFormProps> = ({ initial, contacts, tasks, title, onSave, onCancel }) => {
+  const [input, setInput] = useState<CorrespondenceInput>(initial);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (fields: Partial<CorrespondenceInput>) => {
+    setInput(prev => ({ ...prev, ...fields }));
+    setError(null);
+  };
+
+  const contact = contacts.find(candidate => candidate.id === input.contactId);
+  const suggestedTasks = useMemo(() => getTasksForContact(tasks, contact), [tasks, contact]);
+  const otherTasks = tasks.filter(task => !suggestedTasks.includes(task));
+
+  // Keep the expected date following the method and date sent until the user picks one themselves.
+  const suggested = suggestExpectedResponseDate(input.method, input.sentDate);
+  const followsSuggestion = !input.expectedResponseDate || input.expectedResponseDate === suggested;
+  const updateTiming = (fields: Pick<Partial<CorrespondenceInput>, 'method' | 'sentDate'>) => {
+    const next = { ...input, ...fields };
+    update(followsSuggestion ? { ...fields, expectedResponseDate: suggestExpectedResponseDate(next.method, next.sentDate) } : fields);
+  };
+
+  const handleContactChange = (contactId: string) => {
+    const picked = contacts.find(candidate => candidate.id === contactId);
+    update({ contactId: contactId || undefined, ...(picked && { recipientName: picked.organization || picked.name }) });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const validationError = validateCorrespondenceInput(input);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    onSave(input);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 rounded-lg border border-slate-700/40 bg-slate-800/20 p-4" aria-label={title}>
+      <h4 className="text-sm font-medium text-text-primary">{title}</h4>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <label htmlFor="correspondence-contact" className={labelClass}>{t('correspondence.field.contact')}</label>
+          <select id="correspondence-contact" value={input.contactId ?? ''} onChange={(e) => handleContactChange(e.target.value)} className={fieldClass}>
+            <option value="">{t('correspondence.field.noContact')}</option>
+            {contacts.map(candidate => (
+              <option key={candidate.id} value={candidate.id}>
+                {candidate.organization ? `${candidate.organization} — ${candidate.name}` : candidate.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="correspondence-recipient" className={labelClass}>{t('correspondence.field.recipient')}</label>
+          <input
+            id="correspondence-recipient"
+            type="text"
+            value={input.recipientName}
+            onChange={(e) => update({ recipientName: e.target.value })}
+            className={fieldClass}
+          />
+        </div>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <label htmlFor="correspondence-method" className={labelClass}>{t('correspondence.field.method')}</label>
+          <select
+            id="correspondence-method"
+            value={input.method}
+            onChange={(e) => updateTiming({ method: e.target.value as CorrespondenceMethod })}
+            className={fieldClass}
+          >
+            {CORRESPONDENCE_METHODS.map(method => <option key={method} value={method}>{t(`correspondence.method.${method}`)}</option>)}
+          </select>
+        </div>
+        {input.method === 'CERTIFIED_MAIL' && (
+          <div>
+            <label htmlFor="correspondence-tracking" className={labelClass}>{t('correspondence.field.tracking')}</label>
+            <input
+              id="correspondence-tracking"
+              type="text"
+              value={input.trackingNumber ?? ''}
+              onChange={(e) => update({ trackingNumber: e.target.value })}
+              className={fieldClass}
+            />
+          </div>
+        )}
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div>
+          <label htmlFor="correspondence-sent" className={labelClass}>{t('correspondence.field.sentDate')}</label>
+          <DateInput id="correspondence-sent" value={input.sentDate} onChange={(e) => updateTiming({ sentDate: e.target.value })} />
+        </div>
+        <div>
+          <label htmlFor="correspondence-expected" className={labelClass}>{t('correspondence.field.expected')}</label>
+          <DateInput
+            id="correspondence-expected"
+            value={input.expectedResponseDate ?? ''}
+            onChange={(e) => update({ expectedResponseDate: e.target.value })}
+          />
+        </div>
+        <div>
+          <label htmlFor="correspondence-status" className={labelClass}>{t('correspondence.field.status')}</label>
+          <select
+            id="correspondence-status"
+            value={input.status}
+            onChange={(e) => update({ status: e.target.value as CorrespondenceStatus })}
+            className={fieldClass}
+          >
+            {CORRESPONDENCE_STATUSES.map(status => <option key={status} value={status}>{t(`correspondence.status.${status}`)}</option>)}
+          </select>
+        </div>
+      </div>
+      <div>
+        <label htmlFor="correspondence-outcome" className={labelClass}>{t('correspondence.field.outcome')}</label>
+        <textarea
+          id="correspondence-outcome"
+          value={input.outcome ?? ''}
+          onChange={(e) => update({ outcome: e.target.value })}
+          placeholder={t('correspondence.field.outcomePlaceholder')}
+          rows={2}
+          className={fieldClass}
+        />
+      </div>
+      <div>
+        <label htmlFor="correspondence-task" className={labelClass}>{t('correspondence.field.task')}</label>
+        <select id="correspondence-task" value={input.taskId ?? ''} onChange={(e) => update({ taskId: e.target.value || undefined })} className={fieldClass}>
+          <option value="">{t('correspondence.field.noTask')}</option>
+          {suggestedTasks.length > 0 && (
+            <optgroup label={t('correspondence.field.suggestedTasks')}>
+              {suggestedTasks.map(task => <option key={task.id} value={task.id}>{task.title}</option>)}
+            </optgroup>
+          )}
+          <optgroup label={t('correspondence.field.otherTasks')}>
+            {otherTasks.map(task => <option key={task.id} value={task.id}>{task.title}</option>)}
+          </optgroup>
+        </select>
+      </div>
+      {error && <p className="text-xs text-red-400" role="alert">{error}</p>}
+      <div className="flex gap-2">
+        <button type="submit" className="px-3 py-1.5 bg-accent-gold text-vault-dark rounded-lg text-xs font-medium">
+          {t('correspondence.save')}
+        </button>
+        <button type="button" onClick={onCancel} className="px-3 py-1.5 text-text-muted text-xs">
+          {t('common.cancel')}
+        </button>
+      </div>
+    </form>
+  );
+};
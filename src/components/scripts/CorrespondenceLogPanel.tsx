@@ -0,0 +1,137 @@
+/**
+ * Correspondence Log Panel - what was sent to whom, and whether they replied
+ */
+
+import React, { useState } from 'react';
+import { AlertCircle, Pencil, Trash2 } from 'lucide-react';
+import { AftercareTask, ContactEntry, CorrespondenceEntry, CorrespondenceInput } from '../../types';
+import { isResponseOverdue, sortCorrespondence } from '../../services/correspondenceLog';
+import { formatDate, t } from '../../services/localization';
+import { CorrespondenceForm } from './CorrespondenceForm';
+
+interface CorrespondenceLogPanelProps {
+  entries: CorrespondenceEntry[];
+  contacts: ContactEntry[];
+  tasks: AftercareTask[];
+  onUpdate: (entry: CorrespondenceEntry, input: CorrespondenceInput) => void;
+  onDelete: (entry: CorrespondenceEntry) => void;
+  onClose: () => void;
+}
+
+const STATUS_CLASSES: Record<CorrespondenceEntry['status'], string> = {
+  SENT: 'bg-slate-700/60 text-slate-300',
+  AWAITING_RESPONSE: 'bg-amber-500/15 text-amber-300',
+  RESOLVED: 'bg-emerald-500/15 text-emerald-300',
+};
+
+function toInput(entry: CorrespondenceEntry): CorrespondenceInput {
+  const { id: _id, caseId: _caseId, createdAt: _createdAt, updatedAt: _updatedAt, ...input } = entry;
+  return input;
+}
+
+export const CorrespondenceLogPanel: React.FC<CorrespondenceLogPanelProps> = ({ entries, contacts, tasks, onUpdate, onDelete, onClose }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  return (
+    <div className="space-y-4 max-w-2xl">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-base font-medium text-text-primary" style={{ fontFamily: 'Arial, sans-serif' }}>{t('correspondence.title')}</h3>
+          <p className="text-xs text-slate-500 mt-1">{t('correspondence.intro')}</p>
+        </div>
+        <button type="button" onClick={onClose} className="px-2.5 py-1.5 text-xs text-slate-400 hover:text-slate-300">
+          {t('correspondence.close')}
+        </button>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-slate-400">{t('correspondence.empty')}</p>
+      ) : (
+        <ul className="space-y-3">
+          {sortCorrespondence(entries).map(entry => {
+            if (entry.id === editingId) {
+              return (
+                <li key={entry.id}>
+                  <CorrespondenceForm
+                    initial={toInput(entry)}
+                    contacts={contacts}
+                    tasks={tasks}
+                    title={t('correspondence.editTitle')}
+                    onSave={(input) => { onUpdate(entry, input); setEditingId(null); }}
+                    onCancel={() => setEditingId(null)}
+                  />
+                </li>
+              );
+            }
+            const overdue = isResponseOverdue(entry);
+            const task = tasks.find(candidate => candidate.id === entry.taskId);
+            return (
+              <li
+                key={entry.id}
+                className={`rounded-lg border p-3 ${overdue ? 'border-amber-500/50 bg-amber-500/5' : 'border-slate-700/40 bg-slate-800/20'}`}
+              >
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="text-sm text-slate-200">
+                      {entry.recipientName}
+                      <span className="text-slate-500"> · {t(`correspondence.method.${entry.method}`)}</span>
+                    </p>
+                    <p className="text-xs text-slate-500 mt-0.5">
+                      {t('correspondence.sentOn', { date: formatDate(entry.sentDate) })}
+                      {entry.trackingNumber && <> · {t('correspondence.trackingNumber', { number: entry.trackingNumber })}</>}
+                    </p>
+                    {entry.expectedResponseDate && entry.status !== 'RESOLVED' && (
+                      <p className={`text-xs mt-0.5 flex items-center gap-1 ${overdue ? 'text-amber-300' : 'text-slate-500'}`}>
+                        {overdue && <AlertCircle className="w-3 h-3" />}
+                        {t(overdue ? 'correspondence.overdue' : 'correspondence.expectedBy', { date: formatDate(entry.expectedResponseDate) })}
+                      </p>
+                    )}
+                    {task && <p className="text-xs text-slate-500 mt-0.5">{t('correspondence.taskLink', { title: task.title })}</p>}
+                    {entry.outcome && <p className="text-sm text-slate-300 mt-2 whitespace-pre-wrap">{entry.outcome}</p>}
+                  </div>
+                  <span className={`shrink-0 px-2 py-0.5 rounded text-xs ${STATUS_CLASSES[entry.status]}`}>
+                    {t(`correspondence.status.${entry.status}`)}
+                  </span>
+                </div>
+                <div className="flex flex-wrap items-center gap-3 mt-2">
+                  <button
+                    type="button"
+                    onClick={() => setEditingId(entry.id)}
+                    className="inline-flex items-center gap-1 text-xs text-accent-gold hover:underline"
+                  >
+                    <Pencil className="w-3 h-3" />
+                    {t('correspondence.edit')}
+                  </button>
+                  {entry.textSnapshot && (
+                    <button
+                      type="button"
+                      onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                      aria-expanded={expandedId === entry.id}
+                      className="text-xs text-slate-400 hover:text-slate-300"
+                    >
+                      {t(expandedId === entry.id ? 'correspondence.hideText' : 'correspondence.showText')}
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => onDelete(entry)}
+                    className="inline-flex items-center gap-1 text-xs text-slate-500 hover:text-red-400"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                    {t('correspondence.delete')}
+                  </button>
+                </div>
+                {expandedId === entry.id && (
+                  <pre className="mt-2 max-h-64 overflow-auto rounded bg-vault-dark/60 p-3 text-xs text-slate-300 whitespace-pre-wrap font-sans">
+                    {entry.textSnapshot}
+                  </pre>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,298 @@
+/**
+ * Mail Merge Panel - one letter per institution from vault records and contacts
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { FileDown, Files, FileText, Mail, Tags } from 'lucide-react';
+import { AftercareProfile, ContactEntry, LabelSheetId, LegacyVaultRecord, ScriptRenderContext, ScriptTemplate, ScriptTemplateType } from '../../types';
+import { getTemplateDisplayTitle, getTemplateTypeInfo, placeholderPrompt } from '../../services/scriptTemplates';
+import {
+  buildMailMergeRecipients,
+  generateMailMerge,
+  getMailMergeTypes,
+  getMatchingContacts,
+  getMatchingRecords,
+} from '../../services/mailMerge';
+import {
+  exportAddressLabels,
+  exportEnvelopes,
+  exportLetterFiles,
+  exportLettersToPdf,
+  exportPrintableLetters,
+} from '../../services/exportService';
+import { LABEL_SHEETS, buildMailMergePrintable, getLetterPaper, getLetterSender, getRecipientAddress } from '../../services/letterLayout';
+import { llvIntegration } from '../../services/llvIntegration';
+import { t } from '../../services/localization';
+
+interface MailMergePanelProps {
+  templates: ScriptTemplate[];
+  profile: AftercareProfile;
+  contacts: ContactEntry[];
+  context: Partial<ScriptRenderContext>;
+  onContextChange: (key: keyof ScriptRenderContext, value: string) => void;
+  onClose: () => void;
+}
+
+const fieldClass = 'w-full px-3 py-2 rounded-lg bg-vault-dark border border-border-subtle text-sm text-text-primary placeholder-text-muted focus:outline-none focus:ring-2 focus:ring-accent-gold/50';
+const labelClass = 'block text-xs text-text-muted mb-1';
+
+function toggle(ids: Set<string>, id: string): Set<string> {
+  const next = new Set(ids);
+  if (next.has(id)) next.delete(id);
+  else next.add(id);
+  return next;
+}
+
+export const MailMergePanel: React.FC<MailMergePanelProps> = ({ templates, profile, contacts, context, onContextChange, onClose }) => {
+  const [records, setRecords] = useState<LegacyVaultRecord[]>([]);
+  const [type, setType] = useState<ScriptTemplateType>('BANK_NOTIFICATION');
+  const [templateId, setTemplateId] = useState('');
+  const [selectedRecordIds, setSelectedRecordIds] = useState<Set<string>>(new Set());
+  const [selectedContactIds, setSelectedContactIds] = useState<Set<string>>(new Set());
+  const [labelSheet, setLabelSheet] = useState<LabelSheetId>('AVERY_5160');
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    llvIntegration.loadLegacyVaultSummary().then(setRecords).catch(() => setRecords([]));
+  }, []);
+
+  const types = useMemo(
+    () => getMailMergeTypes().filter(mergeType => templates.some(template => template.type === mergeType)),
+    [templates]
+  );
+  const typeTemplates = useMemo(() => templates.filter(template => template.type === type), [templates, type]);
+  const template = typeTemplates.find(candidate => candidate.id === templateId) ?? typeTemplates[0];
+  const matchingRecords = useMemo(() => getMatchingRecords(type, records), [type, records]);
+  const matchingContacts = useMemo(() => getMatchingContacts(type, contacts), [type, contacts]);
+
+  // Everything that matches starts out selected whenever the letter type changes.
+  useEffect(() => {
+    setSelectedRecordIds(new Set(matchingRecords.map(record => record.id)));
+    setSelectedContactIds(new Set(matchingContacts.map(contact => contact.id)));
+  }, [matchingRecords, matchingContacts]);
+
+  const letters = useMemo(() => {
+    if (!template) return [];
+    const recipients = buildMailMergeRecipients(
+      matchingRecords.filter(record => selectedRecordIds.has(record.id)),
+      matchingContacts.filter(contact => selectedContactIds.has(contact.id))
+    );
+    return generateMailMerge(template, recipients, context as ScriptRenderContext);
+  }, [template, matchingRecords, matchingContacts, selectedRecordIds, selectedContactIds, context]);
+  const incomplete = letters.filter(letter => letter.missing.length > 0);
+  const withoutAddress = letters.filter(letter => !letter.recipient.address?.trim());
+
+  const runExport = async (action: (batchName: string) => Promise<void>) => {
+    if (!template || letters.length === 0) return;
+    setExporting(true);
+    setError(null);
+    try {
+      await action(`Letters_${template.id}_${new Date().toISOString().split('T')[0]}`);
+    } catch {
+      setError(t('templates.merge.failed'));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleExport = (combined: boolean) =>
+    runExport(batchName => (combined ? exportLettersToPdf(letters, batchName) : exportLetterFiles(letters, batchName)));
+
+  const handleExportPrintable = () =>
+    runExport(batchName => {
+      const sender = getLetterSender(profile);
+      return exportPrintableLetters(letters.map(letter => buildMailMergePrintable(letter, sender, context)), batchName, getLetterPaper(profile));
+    });
+
+  const handleExportEnvelopes = () =>
+    runExport(batchName => exportEnvelopes(letters.map(letter => getRecipientAddress(letter.recipient)), getLetterSender(profile), `${batchName}_envelopes`));
+
+  const handleExportLabels = () =>
+    runExport(batchName => exportAddressLabels(letters.map(letter => getRecipientAddress(letter.recipient)), labelSheet, `${batchName}_labels`));
+
+  return (
+    <div className="space-y-4 max-w-2xl">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-base font-medium text-text-primary" style={{ fontFamily: 'Arial, sans-serif' }}>{t('templates.merge.title')}</h3>
+          <p className="text-xs text-slate-500 mt-1">{t('templates.merge.intro')}</p>
+        </div>
+        <button type="button" onClick={onClose} className="px-2.5 py-1.5 text-xs text-slate-400 hover:text-slate-300">
+          {t('templates.merge.close')}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <label htmlFor="merge-type" className={labelClass}>{t('templates.merge.type')}</label>
+          <select
+            id="merge-type"
+            value={type}
+            onChange={(e) => { setType(e.target.value as ScriptTemplateType); setTemplateId(''); }}
+            className={fieldClass}
+          >
+            {types.map(mergeType => <option key={mergeType} value={mergeType}>{getTemplateTypeInfo(mergeType).label}</option>)}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="merge-template" className={labelClass}>{t('templates.merge.template')}</label>
+          <select id="merge-template" value={template?.id ?? ''} onChange={(e) => setTemplateId(e.target.value)} className={fieldClass}>
+            {typeTemplates.map(candidate => <option key={candidate.id} value={candidate.id}>{getTemplateDisplayTitle(candidate)}</option>)}
+          </select>
+        </div>
+      </div>
+
+      {matchingRecords.length === 0 && matchingContacts.length === 0 ? (
+        <p className="text-sm text-slate-400">{t('templates.merge.noMatches')}</p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {matchingRecords.length > 0 && (
+            <fieldset>
+              <legend className={labelClass}>{t('templates.merge.records')}</legend>
+              <div className="space-y-1">
+                {matchingRecords.map(record => (
+                  <label key={record.id} className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={selectedRecordIds.has(record.id)}
+                      onChange={() => setSelectedRecordIds(ids => toggle(ids, record.id))}
+                    />
+                    <span>
+                      {record.institutionName || record.insuranceCompany || record.name}
+                      {(record.institutionName || record.insuranceCompany) && <span className="text-slate-500"> — {record.name}</span>}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+          )}
+          {matchingContacts.length > 0 && (
+            <fieldset>
+              <legend className={labelClass}>{t('templates.merge.contacts')}</legend>
+              <div className="space-y-1">
+                {matchingContacts.map(contact => (
+                  <label key={contact.id} className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={selectedContactIds.has(contact.id)}
+                      onChange={() => setSelectedContactIds(ids => toggle(ids, contact.id))}
+                    />
+                    <span>{contact.organization ? `${contact.organization} — ${contact.name}` : contact.name}</span>
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+          )}
+        </div>
+      )}
+
+      <fieldset className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <legend className={labelClass}>{t('templates.merge.yourDetails')}</legend>
+        <input
+          type="text"
+          value={context.userName ?? ''}
+          onChange={(e) => onContextChange('userName', e.target.value)}
+          placeholder={t('templates.field.userName')}
+          className={fieldClass}
+        />
+        <input
+          type="text"
+          value={context.userPhone ?? ''}
+          onChange={(e) => onContextChange('userPhone', e.target.value)}
+          placeholder={t('templates.merge.field.userPhone')}
+          className={fieldClass}
+        />
+        <input
+          type="text"
+          value={context.userAddress ?? ''}
+          onChange={(e) => onContextChange('userAddress', e.target.value)}
+          placeholder={t('templates.merge.field.userAddress')}
+          className={fieldClass}
+        />
+      </fieldset>
+
+      {letters.length > 0 && (
+        <div className="rounded-lg border border-slate-700/40 bg-slate-800/20 p-4 space-y-3">
+          <p className="text-sm text-slate-300">{t('templates.merge.summary', { count: letters.length })}</p>
+          {incomplete.length > 0 ? (
+            <div className="text-xs text-amber-300" role="status">
+              <p className="font-medium">{t('templates.merge.missingTitle')}</p>
+              <ul className="mt-1 list-disc pl-5 space-y-0.5">
+                {incomplete.map(letter => (
+                  <li key={letter.fileName}>
+                    {letter.recipient.institutionName}: {letter.missing.map(placeholderPrompt).join(', ')}
+                  </li>
+                ))}
+              </ul>
+              <p className="mt-1 text-slate-500">{t('templates.merge.missingHint')}</p>
+            </div>
+          ) : (
+            <p className="text-xs text-slate-500">{t('templates.merge.allComplete')}</p>
+          )}
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={() => handleExport(true)}
+              disabled={exporting}
+              className="inline-flex items-center gap-1.5 px-3 py-1.5 bg-accent-gold text-vault-dark rounded-lg text-xs font-medium disabled:opacity-50"
+            >
+              <FileDown className="w-3 h-3" />
+              {t('templates.merge.downloadCombined')}
+            </button>
+            <button
+              type="button"
+              onClick={() => handleExport(false)}
+              disabled={exporting}
+              className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs bg-slate-700/70 hover:bg-slate-700/90 text-slate-200 disabled:opacity-50"
+            >
+              <Files className="w-3 h-3" />
+              {t('templates.merge.downloadFiles')}
+            </button>
+            <button
+              type="button"
+              onClick={handleExportPrintable}
+              disabled={exporting}
+              className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs bg-slate-700/70 hover:bg-slate-700/90 text-slate-200 disabled:opacity-50"
+            >
+              <FileText className="w-3 h-3" />
+              {t('letters.downloadPrintable')}
+            </button>
+          </div>
+          <div className="flex flex-wrap items-end gap-2">
+            <button
+              type="button"
+              onClick={handleExportEnvelopes}
+              disabled={exporting}
+              className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs bg-slate-700/70 hover:bg-slate-700/90 text-slate-200 disabled:opacity-50"
+            >
+              <Mail className="w-3 h-3" />
+              {t('letters.downloadEnvelopes')}
+            </button>
+            <div>
+              <label htmlFor="merge-label-sheet" className={labelClass}>{t('letters.labelSheet')}</label>
+              <select id="merge-label-sheet" value={labelSheet} onChange={(e) => setLabelSheet(e.target.value as LabelSheetId)} className={fieldClass}>
+                {Object.values(LABEL_SHEETS).map(sheet => <option key={sheet.id} value={sheet.id}>{sheet.name}</option>)}
+              </select>
+            </div>
+            <button
+              type="button"
+              onClick={handleExportLabels}
+              disabled={exporting}
+              className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs bg-slate-700/70 hover:bg-slate-700/90 text-slate-200 disabled:opacity-50"
+            >
+              <Tags className="w-3 h-3" />
+              {t('letters.downloadLabels')}
+            </button>
+          </div>
+          {withoutAddress.length > 0 && (
+            <p className="text-xs text-amber-300">
+              {t('letters.missingAddresses', { names: withoutAddress.map(letter => letter.recipient.institutionName).join(', ') })}
+            </p>
+          )}
+          {error && <p className="text-xs text-red-400" role="alert">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
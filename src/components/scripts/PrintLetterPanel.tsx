@@ -0,0 +1,168 @@
+/**
+ * Print Letter Panel - lay out one letter with sender block and addresses, plus its envelope
+ */
+
+import React, { useState } from 'react';
+import { FileDown, Mail } from 'lucide-react';
+import { AftercareProfile, ContactEntry, PostalAddress, ScriptRenderContext } from '../../types';
+import {
+  buildPrintableLetter,
+  getContactAddress,
+  getLetterPaper,
+  getLetterSender,
+  splitAddressLines,
+} from '../../services/letterLayout';
+import { exportEnvelopes, exportPrintableLetters } from '../../services/exportService';
+import { t } from '../../services/localization';
+
+interface PrintLetterPanelProps {
+  text: string;
+  fileName: string;
+  profile: AftercareProfile;
+  contacts: ContactEntry[];
+  context: Partial<ScriptRenderContext>;
+  onClose: () => void;
+}
+
+const fieldClass = 'w-full px-3 py-2 rounded-lg bg-vault-dark border border-border-subtle text-sm text-text-primary placeholder-text-muted focus:outline-none focus:ring-2 focus:ring-accent-gold/50';
+const labelClass = 'block text-xs text-text-muted mb-1';
+
+function findContact(contacts: ContactEntry[], institutionName: string | undefined): ContactEntry | undefined {
+  const name = institutionName?.trim().toLowerCase();
+  return name ? contacts.find(contact => (contact.organization || contact.name).trim().toLowerCase() === name) : undefined;
+}
+
+export const PrintLetterPanel: React.FC<PrintLetterPanelProps> = ({ text, fileName, profile, contacts, context, onClose }) => {
+  const initialContact = findContact(contacts, context.institutionName);
+  const [contactId, setContactId] = useState(initialContact?.id ?? '');
+  const [recipient, setRecipient] = useState<PostalAddress>(
+    initialContact ? getContactAddress(initialContact) : { name: context.institutionName ?? '', lines: [] }
+  );
+  const [reference, setReference] = useState(context.accountReference ?? '');
+  const [enclosures, setEnclosures] = useState('');
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const sender = getLetterSender(profile);
+
+  const handleContactChange = (id: string) => {
+    setContactId(id);
+    const contact = contacts.find(candidate => candidate.id === id);
+    if (contact) setRecipient(getContactAddress(contact));
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setExporting(true);
+    setError(null);
+    try {
+      await action();
+    } catch {
+      setError(t('letters.failed'));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleDownloadLetter = () =>
+    run(() => {
+      const letter = buildPrintableLetter({
+        text,
+        sender,
+        recipient,
+        references: reference.trim() ? [reference.trim()] : [],
+        enclosures: enclosures.split('\n'),
+        context,
+        fileName,
+      });
+      return exportPrintableLetters([letter], fileName, getLetterPaper(profile));
+    });
+
+  const handleDownloadEnvelope = () => run(() => exportEnvelopes([recipient], sender, `${fileName}_envelope`));
+
+  return (
+    <div className="space-y-3 rounded-lg border border-slate-700/40 bg-slate-800/20 p-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h4 className="text-sm font-medium text-text-primary">{t('letters.title')}</h4>
+          <p className="text-xs text-slate-500 mt-1">{t('letters.intro')}</p>
+        </div>
+        <button type="button" onClick={onClose} className="px-2.5 py-1.5 text-xs text-slate-400 hover:text-slate-300">
+          {t('templates.merge.close')}
+        </button>
+      </div>
+      {!sender && <p className="text-xs text-amber-300">{t('letters.noSender')}</p>}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <label htmlFor="letter-contact" className={labelClass}>{t('letters.field.contact')}</label>
+          <select id="letter-contact" value={contactId} onChange={(e) => handleContactChange(e.target.value)} className={fieldClass}>
+            <option value="">{t('letters.field.noContact')}</option>
+            {contacts.map(contact => (
+              <option key={contact.id} value={contact.id}>
+                {contact.organization ? `${contact.organization} — ${contact.name}` : contact.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="letter-recipient" className={labelClass}>{t('letters.field.recipientName')}</label>
+          <input
+            id="letter-recipient"
+            type="text"
+            value={recipient.name}
+            onChange={(e) => setRecipient({ ...recipient, name: e.target.value })}
+            className={fieldClass}
+          />
+        </div>
+      </div>
+      <div>
+        <label htmlFor="letter-address" className={labelClass}>{t('letters.field.recipientAddress')}</label>
+        <textarea
+          id="letter-address"
+          value={recipient.lines.join('\n')}
+          onChange={(e) => setRecipient({ ...recipient, lines: e.target.value.split('\n') })}
+          onBlur={() => setRecipient({ ...recipient, lines: splitAddressLines(recipient.lines.join('\n')) })}
+          rows={3}
+          className={fieldClass}
+        />
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <label htmlFor="letter-reference" className={labelClass}>{t('letters.field.reference')}</label>
+          <input id="letter-reference" type="text" value={reference} onChange={(e) => setReference(e.target.value)} className={fieldClass} />
+        </div>
+        <div>
+          <label htmlFor="letter-enclosures" className={labelClass}>{t('letters.field.enclosures')}</label>
+          <textarea
+            id="letter-enclosures"
+            value={enclosures}
+            onChange={(e) => setEnclosures(e.target.value)}
+            placeholder={t('letters.field.enclosuresPlaceholder')}
+            rows={2}
+            className={fieldClass}
+          />
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={handleDownloadLetter}
+          disabled={exporting}
+          className="inline-flex items-center gap-1.5 px-3 py-1.5 bg-accent-gold text-vault-dark rounded-lg text-xs font-medium disabled:opacity-50"
+        >
+          <FileDown className="w-3 h-3" />
+          {t('letters.downloadLetter')}
+        </button>
+        <button
+          type="button"
+          onClick={handleDownloadEnvelope}
+          disabled={exporting || !recipient.name.trim()}
+          className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs bg-slate-700/70 hover:bg-slate-700/90 text-slate-200 disabled:opacity-50"
+        >
+          <Mail className="w-3 h-3" />
+          {t('letters.downloadEnvelope')}
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-400" role="alert">{error}</p>}
+    </div>
+  );
+};
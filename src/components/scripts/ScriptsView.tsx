@@ -6,16 +6,45 @@
  */
 
 import React, { useState, useRef, useMemo, useCallback, useEffect } from 'react';
-import { Copy, Check, Printer } from 'lucide-react';
-import { AftercareProfile, ScriptTemplate, ScriptRenderContext } from '../../types';
+import { Copy, Check, Printer, CopyPlus, Pencil, FileUp, FileDown, Mails, Send, ScrollText, FileText } from 'lucide-react';
 import {
-  SCRIPT_TEMPLATES,
+  AftercareProfile,
+  AftercareTask,
+  ContactEntry,
+  CorrespondenceEntry,
+  CorrespondenceInput,
+  ScriptTemplate,
+  ScriptRenderContext,
+  PersonalScriptTemplate,
+} from '../../types';
+import {
+  getScriptTemplates,
   renderScript,
   getTemplateTypeInfo,
   getAllTemplateTypes,
   getTemplateDisplayTitle,
 } from '../../services/scriptTemplates';
+import {
+  duplicateTemplate,
+  upsertPersonalTemplate,
+  parseTemplatePack,
+  mergeTemplatePack,
+  downloadTemplatePack,
+} from '../../services/personalTemplates';
+import {
+  applyCorrespondenceToContact,
+  createCorrespondenceEntry,
+  draftCorrespondence,
+  updateCorrespondenceEntry,
+} from '../../services/correspondenceLog';
+import { storageService } from '../../services/storageService';
 import { TitleBar } from '../common/TitleBar';
+import { TemplateEditor } from './TemplateEditor';
+import { MailMergePanel } from './MailMergePanel';
+import { CorrespondenceForm } from './CorrespondenceForm';
+import { CorrespondenceLogPanel } from './CorrespondenceLogPanel';
+import { PrintLetterPanel } from './PrintLetterPanel';
+import { t, isMessageKey } from '../../services/localization';
 
 const NOTES_STORAGE_KEY = 'afterpassing_template_notes';
 const RECENT_TEMPLATES_KEY = 'afterpassing_recent_templates';
@@ -68,49 +97,70 @@ function isSectionHeader(line: string): boolean {
 
 interface ScriptsViewProps {
   profile: AftercareProfile;
+  contacts: ContactEntry[];
+  tasks: AftercareTask[];
+  onContactsChange: (contacts: ContactEntry[]) => void;
 }
 
-export const ScriptsView: React.FC<ScriptsViewProps> = ({ profile }) => {
+export const ScriptsView: React.FC<ScriptsViewProps> = ({ profile, contacts, tasks, onContactsChange }) => {
   const [selectedTemplate, setSelectedTemplate] = useState<ScriptTemplate | null>(null);
   const [editedContent, setEditedContent] = useState('');
   const [copied, setCopied] = useState(false);
   const [notes, setNotes] = useState('');
   const [showNotes, setShowNotes] = useState(false);
+  const [personalTemplates, setPersonalTemplates] = useState<PersonalScriptTemplate[]>([]);
+  const [editingTemplate, setEditingTemplate] = useState<PersonalScriptTemplate | null>(null);
+  const [packMessage, setPackMessage] = useState<string | null>(null);
+  const [showMailMerge, setShowMailMerge] = useState(false);
+  const [showLog, setShowLog] = useState(false);
+  const [correspondence, setCorrespondence] = useState<CorrespondenceEntry[]>([]);
+  const [correspondenceDraft, setCorrespondenceDraft] = useState<CorrespondenceInput | null>(null);
+  const [correspondenceError, setCorrespondenceError] = useState<string | null>(null);
+  const [showPrintLetter, setShowPrintLetter] = useState(false);
   const printRef = useRef<HTMLDivElement>(null);
+  const packInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    storageService.loadPersonalTemplates().then(setPersonalTemplates).catch(() => setPersonalTemplates([]));
+    storageService.loadCorrespondence().then(setCorrespondence).catch(() => setCorrespondence([]));
+  }, []);
 
   const getRelationshipLabelForScript = (relationship?: string): string => {
-    const labels: Record<string, string> = {
-      SPOUSE: 'the spouse',
-      CHILD: 'the son/daughter',
-      PARENT: 'the parent',
-      SIBLING: 'a sibling',
-      FRIEND: 'a friend',
-      SELF: 'handling my own affairs',
-      OTHER: 'a family representative',
-    };
-    return relationship ? labels[relationship] || 'a family member' : '[Your Relationship]';
+    if (!relationship) return t('templates.placeholder.userRelationship');
+    const key = `templates.relationship.${relationship}`;
+    return t(isMessageKey(key) ? key : 'templates.relationship.default');
   };
 
   const [customContext, setCustomContext] = useState<Partial<ScriptRenderContext>>({
     deceasedName: profile.deceasedName,
     userRelationship: getRelationshipLabelForScript(profile.relationship),
-    dateOfDeath: profile.dateOfDeath ? new Date(profile.dateOfDeath).toLocaleDateString() : undefined,
-    todayDate: new Date().toLocaleDateString(),
+    dateOfDeath: profile.dateOfDeath,
+    todayDate: new Date().toISOString(),
+    userName: profile.userName,
+    userAddress: profile.address,
+    userPhone: profile.phone,
   });
 
+  const templates = useMemo(() => getScriptTemplates(), []);
+  const allTemplates = useMemo<ScriptTemplate[]>(() => [...personalTemplates, ...templates], [personalTemplates, templates]);
   const templateTypes = useMemo(() => getAllTemplateTypes(), []);
   const templatesByType = useMemo(() => {
     const grouped: Record<string, ScriptTemplate[]> = {};
-    SCRIPT_TEMPLATES.forEach((template) => {
+    templates.forEach((template) => {
       if (!grouped[template.type]) grouped[template.type] = [];
       grouped[template.type].push(template);
     });
     return grouped;
-  }, []);
+  }, [templates]);
 
   const handleSelectTemplate = useCallback(
     (template: ScriptTemplate) => {
       setSelectedTemplate(template);
+      setEditingTemplate(null);
+      setShowMailMerge(false);
+      setShowLog(false);
+      setCorrespondenceDraft(null);
+      setShowPrintLetter(false);
       pushRecentTemplateId(template.id);
       const rendered = renderScript(template, customContext as ScriptRenderContext);
       setEditedContent(rendered);
@@ -133,7 +183,7 @@ export const ScriptsView: React.FC<ScriptsViewProps> = ({ profile }) => {
     const win = window.open('', '_blank');
     if (!win) return;
     win.document.write(`
-      <!DOCTYPE html><html><head><title>${selectedTemplate?.title ?? 'Template'}</title>
+      <!DOCTYPE html><html><head><title>${selectedTemplate?.title ?? t('templates.printTitle')}</title>
       <style>body{font-family:Arial,sans-serif;font-size:12pt;font-weight:normal;line-height:1.6;max-width:40em;margin:2em auto;padding:0 1em;color:#333;} pre{white-space:pre-wrap;font-family:inherit;font-weight:normal;}</style>
       </head><body><pre>${editedContent.replace(/</g, '&lt;').replace(/>/g, '&gt;')}</pre></body></html>
     `);
@@ -160,48 +210,140 @@ export const ScriptsView: React.FC<ScriptsViewProps> = ({ profile }) => {
     }
   };
 
+  const savePersonalTemplates = async (next: PersonalScriptTemplate[]) => {
+    setPersonalTemplates(next);
+    await storageService.savePersonalTemplates(next);
+  };
+
+  // Contacts track their latest correspondence, so every change to the log is applied to them too.
+  const saveCorrespondence = async (next: CorrespondenceEntry[]) => {
+    setCorrespondenceError(null);
+    try {
+      setCorrespondence(next);
+      await storageService.saveCorrespondence(next);
+      const linked = new Set(next.map(entry => entry.contactId).concat(correspondence.map(entry => entry.contactId)));
+      if (contacts.some(contact => linked.has(contact.id))) {
+        const updated = contacts.map(contact => applyCorrespondenceToContact(contact, next, correspondence));
+        onContactsChange(updated);
+        await storageService.saveContacts(updated);
+      }
+    } catch {
+      setCorrespondenceError(t('correspondence.saveFailed'));
+    }
+  };
+
+  const handleLogAsSent = () => {
+    if (!selectedTemplate) return;
+    setCorrespondenceDraft(draftCorrespondence(selectedTemplate, editedContent, contacts, customContext.institutionName));
+  };
+
+  const handleSaveDraft = async (input: CorrespondenceInput) => {
+    const caseId = storageService.getActiveCaseId();
+    if (!caseId) return;
+    await saveCorrespondence([...correspondence, createCorrespondenceEntry(caseId, input)]);
+    setCorrespondenceDraft(null);
+  };
+
+  const handleUpdateCorrespondence = (entry: CorrespondenceEntry, input: CorrespondenceInput) =>
+    saveCorrespondence(correspondence.map(existing => (existing.id === entry.id ? updateCorrespondenceEntry(entry, input) : existing)));
+
+  const handleDeleteCorrespondence = (entry: CorrespondenceEntry) =>
+    saveCorrespondence(correspondence.filter(existing => existing.id !== entry.id));
+
+  const handleDuplicate = () => {
+    if (!selectedTemplate) return;
+    setEditingTemplate(duplicateTemplate(selectedTemplate));
+    setShowMailMerge(false);
+    setPackMessage(null);
+  };
+
+  const handleSaveTemplate = async (template: PersonalScriptTemplate) => {
+    const next = upsertPersonalTemplate(personalTemplates, template);
+    await savePersonalTemplates(next);
+    handleSelectTemplate(next.find(saved => saved.id === template.id)!);
+  };
+
+  const handleDeleteTemplate = async (templateId: string) => {
+    await savePersonalTemplates(personalTemplates.filter(template => template.id !== templateId));
+    setEditingTemplate(null);
+    if (selectedTemplate?.id === templateId) setSelectedTemplate(null);
+  };
+
+  const handlePackFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const result = mergeTemplatePack(personalTemplates, parseTemplatePack(await file.text()));
+      await savePersonalTemplates(result.templates);
+      setPackMessage(t('templates.personal.imported', { added: result.added, replaced: result.replaced }));
+    } catch (error) {
+      setPackMessage(t('templates.personal.importFailed', { error: error instanceof Error ? error.message : '' }));
+    }
+  };
+
   const recentIds = React.useMemo(() => getRecentTemplateIds(), [selectedTemplate?.id]);
   const recentTemplates = useMemo(() => {
     const out: ScriptTemplate[] = [];
     const seen = new Set<string>();
     for (const id of recentIds) {
-      for (const t of SCRIPT_TEMPLATES) {
-        if (t.id === id && !seen.has(id)) {
-          out.push(t);
+      for (const template of allTemplates) {
+        if (template.id === id && !seen.has(id)) {
+          out.push(template);
           seen.add(id);
           break;
         }
       }
     }
     return out;
-  }, [recentIds]);
+  }, [recentIds, allTemplates]);
 
   return (
     <div className="pb-6">
       <div className="page-header-zone flex flex-col items-center text-center">
         <div className="flex flex-col items-center">
-          <h2 className="text-xl font-semibold text-text-primary" style={{ fontFamily: 'Arial, sans-serif' }}>Templates</h2>
+          <h2 className="text-xl font-semibold text-text-primary" style={{ fontFamily: 'Arial, sans-serif' }}>{t('templates.title')}</h2>
           <TitleBar className="mt-1.5" />
         </div>
         <p className="text-slate-400 text-sm mt-1.5 font-normal max-w-md" style={{ fontFamily: 'Arial, sans-serif' }}>
-          Scripts and messages for notifications and requests.
+          {t('templates.subtitle')}
         </p>
       </div>
 
       <div className="rounded-lg bg-slate-800/30 border border-slate-700/40 p-3 mb-5">
         <p className="text-xs text-slate-500 leading-relaxed" style={{ fontFamily: 'Arial, sans-serif' }}>
-          General guidance only. Not legal advice.
+          {t('templates.disclaimer')}
         </p>
       </div>
 
       <div className="grid lg:grid-cols-3 gap-5">
         {/* Left column — collapsible categories + Recently used */}
         <div className="lg:col-span-1 space-y-4">
+          <button
+            type="button"
+            onClick={() => { setShowMailMerge(true); setShowLog(false); setEditingTemplate(null); }}
+            className={`w-full inline-flex items-center gap-2 px-2 py-2 rounded text-left text-sm border transition-colors ${
+              showMailMerge ? 'border-slate-600/70 bg-slate-800/50 text-text-primary' : 'border-slate-700/40 hover:bg-slate-800/30 text-slate-300'
+            }`}
+          >
+            <Mails className="w-4 h-4 text-slate-500" />
+            {t('templates.merge.open')}
+          </button>
+          <button
+            type="button"
+            onClick={() => { setShowLog(true); setShowMailMerge(false); setEditingTemplate(null); }}
+            className={`w-full inline-flex items-center gap-2 px-2 py-2 rounded text-left text-sm border transition-colors ${
+              showLog ? 'border-slate-600/70 bg-slate-800/50 text-text-primary' : 'border-slate-700/40 hover:bg-slate-800/30 text-slate-300'
+            }`}
+          >
+            <ScrollText className="w-4 h-4 text-slate-500" />
+            {t('correspondence.open')}
+          </button>
           {recentTemplates.length > 0 && (
             <details open className="group">
               <summary className="text-[13px] font-medium text-slate-400 cursor-pointer list-none flex items-center gap-1">
                 <span className="group-open:rotate-90 transition-transform">▶</span>
-                Recently used
+                {t('templates.recent')}
               </summary>
               <div className="mt-2 space-y-1 pl-4">
                 {recentTemplates.map((template) => (
@@ -217,6 +359,59 @@ export const ScriptsView: React.FC<ScriptsViewProps> = ({ profile }) => {
               </div>
             </details>
           )}
+          <details open className="group">
+            <summary className="text-[13px] font-medium text-slate-400 cursor-pointer list-none flex items-center gap-1">
+              <span className="group-open:rotate-90 transition-transform">▶</span>
+              {t('templates.personal.title')}
+            </summary>
+            <div className="mt-2 space-y-1 pl-4">
+              {personalTemplates.length === 0 && (
+                <p className="px-2 py-1 text-xs text-slate-500">{t('templates.personal.empty')}</p>
+              )}
+              {personalTemplates.map((template) => (
+                <button
+                  key={template.id}
+                  type="button"
+                  onClick={() => handleSelectTemplate(template)}
+                  className={`w-full flex items-center justify-between gap-2 px-2 py-2 rounded text-left text-sm border transition-colors ${
+                    selectedTemplate?.id === template.id ? 'border-slate-600/70 bg-slate-800/50 text-text-primary' : 'border-transparent hover:bg-slate-800/30 text-slate-300'
+                  }`}
+                >
+                  <span>{template.title}</span>
+                  <span className="text-[11px] text-slate-500">{getTemplateTypeInfo(template.type).label}</span>
+                </button>
+              ))}
+              <div className="flex items-center gap-3 px-2 pt-1">
+                <button
+                  type="button"
+                  onClick={() => packInputRef.current?.click()}
+                  className="inline-flex items-center gap-1 text-xs text-slate-500 hover:text-slate-300"
+                >
+                  <FileUp className="w-3 h-3" />
+                  {t('templates.personal.import')}
+                </button>
+                {personalTemplates.length > 0 && (
+                  <button
+                    type="button"
+                    onClick={() => downloadTemplatePack(personalTemplates)}
+                    className="inline-flex items-center gap-1 text-xs text-slate-500 hover:text-slate-300"
+                  >
+                    <FileDown className="w-3 h-3" />
+                    {t('templates.personal.export')}
+                  </button>
+                )}
+                <input
+                  ref={packInputRef}
+                  type="file"
+                  accept=".json,application/json"
+                  onChange={handlePackFileSelected}
+                  className="hidden"
+                  aria-label={t('templates.personal.import')}
+                />
+              </div>
+              {packMessage && <p className="px-2 text-xs text-slate-400" role="status">{packMessage}</p>}
+            </div>
+          </details>
           {templateTypes.map((type) => {
             const typeInfo = getTemplateTypeInfo(type);
             const templates = templatesByType[type] || [];
@@ -247,7 +442,34 @@ export const ScriptsView: React.FC<ScriptsViewProps> = ({ profile }) => {
 
         {/* Right panel — header with name + Copy, Edit, Print top-right */}
         <div ref={printRef} className="lg:col-span-2">
-          {selectedTemplate ? (
+          {correspondenceError && <p className="text-xs text-red-400 mb-3" role="alert">{correspondenceError}</p>}
+          {showLog ? (
+            <CorrespondenceLogPanel
+              entries={correspondence}
+              contacts={contacts}
+              tasks={tasks}
+              onUpdate={handleUpdateCorrespondence}
+              onDelete={handleDeleteCorrespondence}
+              onClose={() => setShowLog(false)}
+            />
+          ) : showMailMerge ? (
+            <MailMergePanel
+              templates={allTemplates}
+              profile={profile}
+              contacts={contacts}
+              context={customContext}
+              onContextChange={handleContextChange}
+              onClose={() => setShowMailMerge(false)}
+            />
+          ) : editingTemplate ? (
+            <TemplateEditor
+              key={editingTemplate.id}
+              template={editingTemplate}
+              onSave={handleSaveTemplate}
+              onDelete={handleDeleteTemplate}
+              onCancel={() => setEditingTemplate(null)}
+            />
+          ) : selectedTemplate ? (
             <div className="space-y-4 max-w-2xl">
               <div className="flex items-start justify-between gap-4 flex-wrap">
                 <h3 className="text-base font-medium text-text-primary" style={{ fontFamily: 'Arial, sans-serif' }}>
@@ -262,30 +484,89 @@ export const ScriptsView: React.FC<ScriptsViewProps> = ({ profile }) => {
                     }`}
                   >
                     {copied ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
-                    {copied ? 'Copied' : 'Copy'}
+                    {copied ? t('templates.copied') : t('templates.copy')}
                   </button>
+                  {personalTemplates.some((template) => template.id === selectedTemplate.id) ? (
+                    <button
+                      type="button"
+                      onClick={() => setEditingTemplate(selectedTemplate as PersonalScriptTemplate)}
+                      className="inline-flex items-center gap-1.5 px-2.5 py-1.5 rounded text-xs font-normal text-slate-400 hover:text-slate-300 transition-colors"
+                    >
+                      <Pencil className="w-3 h-3" />
+                      {t('templates.personal.edit')}
+                    </button>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={handleDuplicate}
+                      className="inline-flex items-center gap-1.5 px-2.5 py-1.5 rounded text-xs font-normal text-slate-400 hover:text-slate-300 transition-colors"
+                    >
+                      <CopyPlus className="w-3 h-3" />
+                      {t('templates.personal.duplicate')}
+                    </button>
+                  )}
                   <button
                     type="button"
                     onClick={() => setShowNotes((v) => !v)}
                     className="inline-flex items-center gap-1.5 px-2.5 py-1.5 rounded text-xs font-normal text-slate-400 hover:text-slate-300 transition-colors"
                   >
-                    Edit
+                    {t('task.edit')}
                   </button>
+                  <button
+                    type="button"
+                    onClick={handleLogAsSent}
+                    className="inline-flex items-center gap-1.5 px-2.5 py-1.5 rounded text-xs font-normal text-slate-400 hover:text-slate-300 transition-colors"
+                  >
+                    <Send className="w-3 h-3" />
+                    {t('correspondence.logAsSent')}
+                  </button>
+                  {selectedTemplate.category === 'LETTER' && (
+                    <button
+                      type="button"
+                      onClick={() => setShowPrintLetter((v) => !v)}
+                      className="inline-flex items-center gap-1.5 px-2.5 py-1.5 rounded text-xs font-normal text-slate-400 hover:text-slate-300 transition-colors"
+                    >
+                      <FileText className="w-3 h-3" />
+                      {t('letters.print')}
+                    </button>
+                  )}
                   <button
                     type="button"
                     onClick={handlePrint}
                     className="inline-flex items-center gap-1.5 px-2.5 py-1.5 rounded text-xs font-normal bg-slate-700/70 hover:bg-slate-700/90 text-slate-200 transition-colors"
                   >
                     <Printer className="w-3 h-3" />
-                    Print
+                    {t('templates.print')}
                   </button>
                 </div>
               </div>
 
               <p className="text-xs text-slate-500" style={{ fontFamily: 'Arial, sans-serif' }}>
-                Use as-is or adjust to sound like you.
+                {t('templates.adjustNote')}
               </p>
 
+              {showPrintLetter && (
+                <PrintLetterPanel
+                  text={editedContent}
+                  fileName={selectedTemplate.id}
+                  profile={profile}
+                  contacts={contacts}
+                  context={customContext}
+                  onClose={() => setShowPrintLetter(false)}
+                />
+              )}
+
+              {correspondenceDraft && (
+                <CorrespondenceForm
+                  initial={correspondenceDraft}
+                  contacts={contacts}
+                  tasks={tasks}
+                  title={t('correspondence.newTitle')}
+                  onSave={handleSaveDraft}
+                  onCancel={() => setCorrespondenceDraft(null)}
+                />
+              )}
+
               {/* Reading surface: formatted view with section headers in accent color */}
               <div className="rounded-lg bg-slate-800/20 p-6">
                 <div
@@ -304,7 +585,7 @@ export const ScriptsView: React.FC<ScriptsViewProps> = ({ profile }) => {
                 </div>
                 <details className="mt-4 group/edit">
                   <summary className="text-[13px] text-slate-500 cursor-pointer hover:text-slate-400 list-none">
-                    Edit content
+                    {t('templates.editContent')}
                   </summary>
                   <textarea
                     value={editedContent}
@@ -312,7 +593,7 @@ export const ScriptsView: React.FC<ScriptsViewProps> = ({ profile }) => {
                     className="mt-3 w-full min-h-[200px] px-0 py-0 bg-transparent border-none text-slate-200 text-[15px] leading-[1.8] font-normal focus:outline-none focus:ring-0 resize-y placeholder-slate-500"
                     style={{ fontFamily: 'Arial, sans-serif' }}
                     rows={Math.max(8, editedContent.split('\n').length + 2)}
-                    aria-label="Template content"
+                    aria-label={t('templates.content')}
                   />
                 </details>
               </div>
@@ -320,14 +601,14 @@ export const ScriptsView: React.FC<ScriptsViewProps> = ({ profile }) => {
               {/* Optional personalize — light, minimal; reduced divider contrast */}
               <details className="group rounded-lg border border-slate-700/40 bg-slate-800/20">
                 <summary className="list-none cursor-pointer px-4 py-3 text-[15px] text-slate-400 hover:text-slate-300 font-normal" style={{ fontFamily: 'Arial, sans-serif' }}>
-                  Personalize placeholders
+                  {t('templates.personalize')}
                 </summary>
                 <div className="px-4 pb-4 pt-1 grid grid-cols-2 sm:grid-cols-[repeat(4,minmax(11rem,1fr))] gap-3">
                   <input
                     type="text"
                     value={customContext.userName ?? ''}
                     onChange={(e) => handleContextChange('userName', e.target.value)}
-                    placeholder="Your name"
+                    placeholder={t('templates.field.userName')}
                     className="min-w-0 px-3 py-2 bg-slate-800/60 border border-slate-600/60 rounded-lg text-text-primary text-[15px] font-normal focus:outline-none focus:border-slate-600/60"
                     style={{ fontFamily: 'Arial, sans-serif' }}
                   />
@@ -335,7 +616,7 @@ export const ScriptsView: React.FC<ScriptsViewProps> = ({ profile }) => {
                     type="text"
                     value={customContext.institutionName ?? ''}
                     onChange={(e) => handleContextChange('institutionName', e.target.value)}
-                    placeholder="Institution"
+                    placeholder={t('templates.field.institutionName')}
                     className="min-w-0 px-3 py-2 bg-slate-800/60 border border-slate-600/60 rounded-lg text-text-primary text-[15px] font-normal focus:outline-none focus:border-slate-600/60"
                     style={{ fontFamily: 'Arial, sans-serif' }}
                   />
@@ -343,7 +624,7 @@ export const ScriptsView: React.FC<ScriptsViewProps> = ({ profile }) => {
                     type="text"
                     value={customContext.accountReference ?? ''}
                     onChange={(e) => handleContextChange('accountReference', e.target.value)}
-                    placeholder="Account ref"
+                    placeholder={t('templates.field.accountReference')}
                     className="min-w-0 px-3 py-2 bg-slate-800/60 border border-slate-600/60 rounded-lg text-text-primary text-[15px] font-normal focus:outline-none focus:border-slate-600/60"
                     style={{ fontFamily: 'Arial, sans-serif' }}
                   />
@@ -351,7 +632,7 @@ export const ScriptsView: React.FC<ScriptsViewProps> = ({ profile }) => {
                     type="text"
                     value={customContext.userRelationship ?? ''}
                     onChange={(e) => handleContextChange('userRelationship', e.target.value)}
-                    placeholder="Relationship"
+                    placeholder={t('templates.field.userRelationship')}
                     className="min-w-0 px-3 py-2 bg-slate-800/60 border border-slate-600/60 rounded-lg text-text-primary text-[15px] font-normal focus:outline-none focus:border-slate-600/60"
                     style={{ fontFamily: 'Arial, sans-serif' }}
                   />
@@ -361,11 +642,11 @@ export const ScriptsView: React.FC<ScriptsViewProps> = ({ profile }) => {
               {/* Optional Save notes */}
               {showNotes && (
                 <div className="space-y-2">
-                  <label className="block text-[13px] text-slate-500 font-normal" style={{ fontFamily: 'Arial, sans-serif' }}>Your notes (saved on this device)</label>
+                  <label className="block text-[13px] text-slate-500 font-normal" style={{ fontFamily: 'Arial, sans-serif' }}>{t('templates.notes')}</label>
                   <textarea
                     value={notes}
                     onChange={(e) => handleNotesChange(e.target.value)}
-                    placeholder="Add notes about this template..."
+                    placeholder={t('templates.notesPlaceholder')}
                     rows={3}
                     className="w-full px-4 py-3 bg-slate-800/40 border border-slate-700/60 rounded-lg text-slate-200 text-[15px] font-normal placeholder-slate-500 resize-none"
                     style={{ fontFamily: 'Arial, sans-serif' }}
@@ -375,7 +656,7 @@ export const ScriptsView: React.FC<ScriptsViewProps> = ({ profile }) => {
             </div>
           ) : (
             <div className="py-8 text-center max-w-sm mx-auto">
-              <p className="text-slate-400 text-sm" style={{ fontFamily: 'Arial, sans-serif' }}>Choose a template from the list.</p>
+              <p className="text-slate-400 text-sm" style={{ fontFamily: 'Arial, sans-serif' }}>{t('templates.choose')}</p>
             </div>
           )}
         </div>
@@ -0,0 +1,135 @@
+/**
+ * Template Editor - edit one of the user's personal templates
+ */
+
+import React, { useMemo, useState } from 'react';
+import { PersonalScriptTemplate, ScriptTemplateCategory, ScriptTemplateType } from '../../types';
+import { SCRIPT_PLACEHOLDERS, getAllTemplateTypes, getTemplateTypeInfo } from '../../services/scriptTemplates';
+import { SCRIPT_TEMPLATE_CATEGORIES, validatePersonalTemplate } from '../../services/personalTemplates';
+import { t } from '../../services/localization';
+
+interface TemplateEditorProps {
+  template: PersonalScriptTemplate;
+  onSave: (template: PersonalScriptTemplate) => void;
+  onDelete: (templateId: string) => void;
+  onCancel: () => void;
+}
+
+const fieldClass = 'w-full px-3 py-2 rounded-lg bg-vault-dark border border-border-subtle text-sm text-text-primary placeholder-text-muted focus:outline-none focus:ring-2 focus:ring-accent-gold/50';
+const labelClass = 'block text-xs text-text-muted mb-1';
+
+export const TemplateEditor: React.FC<TemplateEditorProps> = ({ template, onSave, onDelete, onCancel }) => {
+  const [draft, setDraft] = useState<PersonalScriptTemplate>(template);
+  const problems = useMemo(() => validatePersonalTemplate(draft), [draft]);
+  const templateTypes = useMemo(() => getAllTemplateTypes(), []);
+
+  const update = (fields: Partial<PersonalScriptTemplate>) => setDraft(prev => ({ ...prev, ...fields }));
+
+  const togglePlaceholder = (name: string) => {
+    update({
+      placeholders: draft.placeholders.includes(name)
+        ? draft.placeholders.filter(p => p !== name)
+        : [...draft.placeholders, name],
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (problems.length > 0) return;
+    onSave({ ...draft, title: draft.title.trim(), description: draft.description.trim() });
+  };
+
+  const handleDelete = () => {
+    if (!confirm(t('templates.personal.deleteConfirm'))) return;
+    onDelete(template.id);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 max-w-2xl" aria-label={t('templates.personal.edit')}>
+      <div>
+        <label htmlFor="template-title" className={labelClass}>{t('templates.personal.field.title')}</label>
+        <input
+          id="template-title"
+          type="text"
+          value={draft.title}
+          onChange={(e) => update({ title: e.target.value })}
+          autoFocus
+          className={fieldClass}
+        />
+      </div>
+      <div>
+        <label htmlFor="template-description" className={labelClass}>{t('templates.personal.field.description')}</label>
+        <input
+          id="template-description"
+          type="text"
+          value={draft.description}
+          onChange={(e) => update({ description: e.target.value })}
+          className={fieldClass}
+        />
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <label htmlFor="template-type" className={labelClass}>{t('templates.personal.field.type')}</label>
+          <select id="template-type" value={draft.type} onChange={(e) => update({ type: e.target.value as ScriptTemplateType })} className={fieldClass}>
+            {templateTypes.map(type => <option key={type} value={type}>{getTemplateTypeInfo(type).label}</option>)}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="template-category" className={labelClass}>{t('templates.personal.field.category')}</label>
+          <select id="template-category" value={draft.category} onChange={(e) => update({ category: e.target.value as ScriptTemplateCategory })} className={fieldClass}>
+            {SCRIPT_TEMPLATE_CATEGORIES.map(category => <option key={category} value={category}>{t(`templates.category.${category}`)}</option>)}
+          </select>
+        </div>
+      </div>
+      <div>
+        <label htmlFor="template-body" className={labelClass}>{t('templates.personal.field.body')}</label>
+        <textarea
+          id="template-body"
+          value={draft.bodyTemplate}
+          onChange={(e) => update({ bodyTemplate: e.target.value })}
+          rows={Math.max(10, draft.bodyTemplate.split('\n').length + 2)}
+          className={`${fieldClass} font-mono text-[13px] leading-relaxed`}
+        />
+        <p className="mt-1 text-xs text-text-muted">{t('templates.personal.syntaxHelp')}</p>
+      </div>
+      <fieldset>
+        <legend className={labelClass}>{t('templates.personal.field.placeholders')}</legend>
+        <div className="flex flex-wrap gap-2">
+          {SCRIPT_PLACEHOLDERS.map(name => (
+            <label key={name} className="inline-flex items-center gap-1.5 px-2 py-1 rounded border border-border-subtle text-xs text-text-secondary cursor-pointer">
+              <input
+                type="checkbox"
+                checked={draft.placeholders.includes(name)}
+                onChange={() => togglePlaceholder(name)}
+              />
+              <code>{name}</code>
+            </label>
+          ))}
+        </div>
+      </fieldset>
+      {problems.length > 0 && (
+        <div className="text-xs text-red-400" role="alert">
+          <p>{t('templates.personal.problems')}</p>
+          <ul className="mt-1 list-disc pl-5 space-y-0.5">
+            {problems.map(problem => <li key={problem}>{problem}</li>)}
+          </ul>
+        </div>
+      )}
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={problems.length > 0}
+          className="px-3 py-1.5 bg-accent-gold text-vault-dark rounded-lg text-xs font-medium disabled:opacity-50"
+        >
+          {t('templates.personal.save')}
+        </button>
+        <button type="button" onClick={onCancel} className="px-3 py-1.5 text-text-muted text-xs">
+          {t('common.cancel')}
+        </button>
+        <button type="button" onClick={handleDelete} className="ml-auto px-3 py-1.5 text-red-400 hover:text-red-300 text-xs">
+          {t('templates.personal.delete')}
+        </button>
+      </div>
+    </form>
+  );
+};
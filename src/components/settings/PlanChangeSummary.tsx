@@ -0,0 +1,55 @@
+/**
+ * Plan Change Summary
+ *
+ * What a guidance refresh changed: added, updated, grouped, removed and flagged items.
+ */
+
+import React from 'react';
+import { X } from 'lucide-react';
+import type { PlanReconciliationSummary } from '../../types';
+import { t } from '../../services/localization';
+
+interface PlanChangeSummaryProps {
+  summary: PlanReconciliationSummary;
+  onDismiss: () => void;
+}
+
+const SECTIONS: { key: 'added' | 'updated' | 'grouped' | 'removed' | 'flagged'; label: () => string }[] = [
+  { key: 'added', label: () => t('planChanges.added') },
+  { key: 'updated', label: () => t('planChanges.updated') },
+  { key: 'grouped', label: () => t('planChanges.grouped') },
+  { key: 'flagged', label: () => t('planChanges.flagged') },
+  { key: 'removed', label: () => t('planChanges.removed') },
+];
+
+export const PlanChangeSummary: React.FC<PlanChangeSummaryProps> = ({ summary, onDismiss }) => {
+  const changed = SECTIONS.some(({ key }) => summary[key].length > 0);
+
+  return (
+    <div className="p-3 rounded-lg border border-accent-gold/30 bg-accent-gold/5 space-y-2" role="status">
+      <div className="flex items-start justify-between gap-2">
+        <p className="text-xs font-medium text-text-primary">
+          {changed ? t('planChanges.refreshed') : t('planChanges.upToDate')}
+        </p>
+        <button type="button" onClick={onDismiss} aria-label={t('planChanges.dismiss')} className="text-text-muted hover:text-text-primary">
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+      {SECTIONS.filter(({ key }) => summary[key].length > 0).map(({ key, label }) => (
+        <details key={key} className="text-[11px] text-text-secondary">
+          <summary className="cursor-pointer">
+            {t('planChanges.section', { label: label(), count: summary[key].length })}
+          </summary>
+          <ul className="mt-1 ml-3 list-disc space-y-0.5 max-h-28 overflow-y-auto">
+            {summary[key].map((title, i) => <li key={`${key}-${i}`}>{title}</li>)}
+          </ul>
+        </details>
+      ))}
+      {summary.unchanged > 0 && (
+        <p className="text-[11px] text-text-muted">
+          {t(summary.unchanged === 1 ? 'planChanges.unchanged.one' : 'planChanges.unchanged.other', { count: summary.unchanged })}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,152 @@
+/**
+ * Restore Preview Panel
+ *
+ * Shows what restoring a backup would change (per entity: new, changed,
+ * only on this device) and lets the user pick a restore mode before
+ * anything is written.
+ */
+
+import React, { useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import type { RestoreMode, RestorePreview, RestoreEntity } from '../../services/backupService';
+import { formatDateTime, t } from '../../services/localization';
+
+/** Entities in table order. */
+const ENTITIES: RestoreEntity[] = [
+  'cases',
+  'plans',
+  'tasks',
+  'documents',
+  'contacts',
+  'checklist',
+  'correspondence',
+  'manualRecords',
+  'personalTemplates',
+];
+
+const entityLabel = (entity: RestoreEntity) => t(`restore.entity.${entity}`);
+
+const MODE_OPTIONS: RestoreMode[] = ['replace', 'merge', 'add-only'];
+
+interface RestorePreviewPanelProps {
+  fileName: string;
+  preview: RestorePreview;
+  busy?: boolean;
+  onRestore: (mode: RestoreMode) => void;
+  onCancel: () => void;
+}
+
+export const RestorePreviewPanel: React.FC<RestorePreviewPanelProps> = ({ fileName, preview, busy, onRestore, onCancel }) => {
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const rows = ENTITIES.filter((entity) => {
+    const s = preview.entities[entity];
+    return s.added + s.changed + s.removed + s.unchanged > 0;
+  });
+  const conflicts = preview.items.filter((i) => i.kind === 'changed');
+  const localNewer = rows.reduce((n, e) => n + preview.entities[e].localNewer, 0);
+  const removed = rows.reduce((n, e) => n + preview.entities[e].removed, 0);
+
+  return (
+    <div className="p-3 rounded-lg border border-border-subtle bg-vault-dark/40 space-y-3">
+      <div>
+        <p className="text-xs font-medium text-text-primary truncate">{fileName}</p>
+        <p className="text-[11px] text-text-muted">
+          {t('restore.saved', { date: formatDateTime(preview.exportDate), version: preview.sourceVersion })}
+        </p>
+      </div>
+
+      <table className="w-full text-[11px]">
+        <thead>
+          <tr className="text-text-muted text-left">
+            <th className="font-normal py-1">&nbsp;</th>
+            <th className="font-normal py-1 text-right">{t('restore.column.new')}</th>
+            <th className="font-normal py-1 text-right">{t('restore.column.changed')}</th>
+            <th className="font-normal py-1 text-right" title={t('restore.column.onlyHere.hint')}>{t('restore.column.onlyHere')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((entity) => {
+            const s = preview.entities[entity];
+            return (
+              <tr key={entity} className="text-text-secondary border-t border-border-subtle/50">
+                <td className="py-1">{entityLabel(entity)}</td>
+                <td className="py-1 text-right">{s.added}</td>
+                <td className="py-1 text-right">
+                  {s.changed}
+                  {s.localNewer > 0 && <span className="text-amber-400">{t('restore.newerHere', { count: s.localNewer })}</span>}
+                </td>
+                <td className="py-1 text-right">{s.removed}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      {conflicts.length > 0 && (
+        <details className="text-[11px] text-text-secondary">
+          <summary className="cursor-pointer text-text-muted">
+            {t(conflicts.length === 1 ? 'restore.showChanged.one' : 'restore.showChanged.other', { count: conflicts.length })}
+          </summary>
+          <ul className="mt-1 space-y-0.5 max-h-32 overflow-y-auto">
+            {conflicts.map((item) => (
+              <li key={`${item.entity}-${item.id}`} className="flex justify-between gap-2">
+                <span className="truncate">{t('restore.item', { entity: entityLabel(item.entity), label: item.label || item.id })}</span>
+                <span className="shrink-0 text-text-muted">
+                  {item.newer === 'backup' ? t('restore.newer.backup') : item.newer === 'local' ? t('restore.newer.local') : t('restore.newer.unknown')}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+
+      {preview.untouchedCaseCount > 0 && (
+        <p className="text-[11px] text-text-muted">
+          {t(preview.untouchedCaseCount === 1 ? 'restore.untouched.one' : 'restore.untouched.other', { count: preview.untouchedCaseCount })}
+        </p>
+      )}
+
+      <fieldset className="space-y-1.5">
+        <legend className="text-[11px] text-text-muted mb-1">{t('restore.how')}</legend>
+        {MODE_OPTIONS.map((option) => (
+          <label key={option} className="flex items-start gap-2 cursor-pointer">
+            <input
+              type="radio"
+              name="restore-mode"
+              value={option}
+              checked={mode === option}
+              onChange={() => setMode(option)}
+              disabled={busy}
+              className="mt-0.5"
+            />
+            <span>
+              <span className="block text-xs text-text-primary">{t(`restore.mode.${option}`)}</span>
+              <span className="block text-[11px] text-text-muted">{t(`restore.mode.${option}.description`)}</span>
+            </span>
+          </label>
+        ))}
+      </fieldset>
+
+      {mode === 'replace' && (localNewer > 0 || removed > 0) && (
+        <p className="flex items-start gap-1.5 text-[11px] text-amber-400">
+          <AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-px" aria-hidden="true" />
+          {t(localNewer + removed === 1 ? 'restore.discard.one' : 'restore.discard.other', { count: localNewer + removed })}
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={() => onRestore(mode)}
+          disabled={busy}
+          className="px-3 py-1.5 bg-accent-gold text-vault-dark rounded-lg text-xs font-medium disabled:opacity-50"
+        >
+          {busy ? t('restore.restoring') : t('restore.restore')}
+        </button>
+        <button type="button" onClick={onCancel} disabled={busy} className="px-3 py-1.5 text-text-muted text-xs">
+          {t('common.cancel')}
+        </button>
+      </div>
+    </div>
+  );
+};
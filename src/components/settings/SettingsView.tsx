@@ -4,7 +4,7 @@
  * Profile management and app settings.
  */
 
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import { 
   User, 
   AlertTriangle,
@@ -27,23 +27,41 @@ import {
   ExternalLink,
   Landmark,
 } from 'lucide-react';
-import { AftercareProfile, AppMode, RelationshipType } from '../../types';
+import { AftercareProfile, AppMode, RelationshipType, PlanReconciliationSummary, ResourceLink } from '../../types';
 import { validateProfile, type ProfileValidationResult } from '../../utils/validation';
-import { downloadBackup, loadBackupFromFile, type ImportResult } from '../../services/backupService';
+import {
+  downloadBackup,
+  loadBackupFromFile,
+  previewBackupFile,
+  countRestoreChanges,
+  type ImportResult,
+  type RestoreMode,
+  type RestorePreview,
+} from '../../services/backupService';
 import { TitleBar } from '../common/TitleBar';
+import {
+  ExportPassphraseFields,
+  EMPTY_EXPORT_PASSPHRASE,
+  getExportPassphrase,
+  type ExportPassphraseState,
+} from '../common/ExportPassphraseFields';
+import { PassphrasePrompt } from '../common/PassphrasePrompt';
+import { RestorePreviewPanel } from './RestorePreviewPanel';
+import { PlanChangeSummary } from './PlanChangeSummary';
+import { getJurisdictionPacks, getJurisdictionResources } from '../../services/jurisdictionService';
+import { t, isMessageKey, SUPPORTED_LOCALES, type Locale } from '../../services/localization';
 
-// Country options for US-specific feature detection
-const COUNTRY_OPTIONS = [
-  { value: 'United States', label: 'United States' },
-  { value: 'Canada', label: 'Canada' },
-  { value: 'United Kingdom', label: 'United Kingdom' },
-  { value: 'Australia', label: 'Australia' },
-  { value: 'Other', label: 'Other' },
-];
+// Country options for US-specific feature detection (stored in English, shown translated)
+const COUNTRY_OPTIONS = ['United States', 'Canada', 'United Kingdom', 'Australia', 'Other'] as const;
+
+/** Country name in the current locale; countries typed in by hand are shown as entered. */
+const countryLabel = (country: string) => {
+  const key = `settings.country.${country}`;
+  return isMessageKey(key) ? t(key) : country;
+};
 
 // US State options for consistent data entry
 const US_STATE_OPTIONS = [
-  { value: '', label: 'Select state...' },
   { value: 'AL', label: 'Alabama' },
   { value: 'AK', label: 'Alaska' },
   { value: 'AZ', label: 'Arizona' },
@@ -101,19 +119,19 @@ interface SettingsViewProps {
   profile: AftercareProfile;
   mode: AppMode;
   onProfileUpdate: (profile: AftercareProfile) => void;
-  onRegenerateTasks: () => void;
+  /** Refresh guidance, keeping progress. Resolves with what changed (null if nothing was regenerated). */
+  onRegenerateTasks: () => Promise<PlanReconciliationSummary | null>;
   onStartOver: () => void;
+  locale: Locale;
+  onLocaleChange: (locale: Locale) => void;
 }
 
-const RELATIONSHIP_OPTIONS: { value: RelationshipType; label: string }[] = [
-  { value: 'SPOUSE', label: 'Spouse or Partner' },
-  { value: 'CHILD', label: 'Son or Daughter' },
-  { value: 'PARENT', label: 'Parent' },
-  { value: 'SIBLING', label: 'Sibling' },
-  { value: 'FRIEND', label: 'Friend' },
-  { value: 'SELF', label: 'Myself (planning ahead)' },
-  { value: 'OTHER', label: 'Other Relationship' },
-];
+const RELATIONSHIP_OPTIONS: RelationshipType[] = ['SPOUSE', 'CHILD', 'PARENT', 'SIBLING', 'FRIEND', 'SELF', 'OTHER'];
+
+/** FAQ entries, numbered as in the catalogs (settings.faq.N.q / .a). */
+const FAQ_NUMBERS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11] as const;
+
+const APP_VERSION = '1.0.0';
 
 export const SettingsView: React.FC<SettingsViewProps> = ({
   profile,
@@ -121,8 +139,18 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
   onProfileUpdate,
   onRegenerateTasks,
   onStartOver,
+  locale,
+  onLocaleChange,
 }) => {
   const [editedProfile, setEditedProfile] = useState(profile);
+  const jurisdictionName = getJurisdictionPacks(profile).map(pack => pack.name).pop();
+  const resourceGroups = useMemo(() => {
+    const groups = new Map<string, ResourceLink[]>();
+    for (const link of getJurisdictionResources(profile)) {
+      groups.set(link.group, [...(groups.get(link.group) ?? []), link]);
+    }
+    return [...groups.entries()];
+  }, [profile]);
   const [hasChanges, setHasChanges] = useState(false);
   const [showResetConfirm, setShowResetConfirm] = useState(false);
   const [saved, setSaved] = useState(false);
@@ -136,6 +164,14 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
   const [officialResourcesExpanded, setOfficialResourcesExpanded] = useState(false);
   const [backupStatus, setBackupStatus] = useState<'idle' | 'exporting' | 'importing' | 'success' | 'error'>('idle');
   const [backupMessage, setBackupMessage] = useState<string>('');
+  const [exportPassphrase, setExportPassphrase] = useState<ExportPassphraseState>(EMPTY_EXPORT_PASSPHRASE);
+  /** Encrypted backup waiting for its passphrase. */
+  const [lockedBackupFile, setLockedBackupFile] = useState<File | null>(null);
+  const [lockedBackupError, setLockedBackupError] = useState<string | undefined>(undefined);
+  const [regenerating, setRegenerating] = useState(false);
+  const [regenerateSummary, setRegenerateSummary] = useState<PlanReconciliationSummary | null>(null);
+  const [localeChanged, setLocaleChanged] = useState(false);
+  const [pendingRestore, setPendingRestore] = useState<{ file: File; passphrase?: string; preview: RestorePreview } | null>(null);
 
   const handleProfileChange = (key: keyof AftercareProfile, value: any) => {
     const updated = { ...editedProfile, [key]: value };
@@ -184,35 +220,66 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
   };
   
   const handleExportBackup = async () => {
+    const passphrase = getExportPassphrase(exportPassphrase);
+    if (passphrase === null) {
+      setBackupStatus('error');
+      setBackupMessage(t('settings.backup.checkPassphrase'));
+      return;
+    }
     setBackupStatus('exporting');
     setBackupMessage('');
     try {
-      await downloadBackup();
+      await downloadBackup(passphrase);
       setBackupStatus('success');
-      setBackupMessage('Backup downloaded successfully');
+      setBackupMessage(passphrase ? t('settings.backup.downloadedEncrypted') : t('settings.backup.downloaded'));
+      setExportPassphrase(EMPTY_EXPORT_PASSPHRASE);
       setTimeout(() => {
         setBackupStatus('idle');
         setBackupMessage('');
       }, 3000);
     } catch (error) {
       setBackupStatus('error');
-      setBackupMessage(error instanceof Error ? error.message : 'Failed to export backup');
+      setBackupMessage(error instanceof Error ? error.message : t('settings.backup.exportFailed'));
     }
   };
   
-  const handleImportBackup = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-    
+  const previewRestoreFile = async (file: File, passphrase?: string) => {
+    setBackupStatus('importing');
+    setBackupMessage('');
+    const result = await previewBackupFile(file, passphrase);
+    if (result.success) {
+      setLockedBackupFile(null);
+      setLockedBackupError(undefined);
+      setPendingRestore({ file, passphrase, preview: result.preview });
+      setBackupStatus('idle');
+    } else if (result.requiresPassphrase) {
+      setLockedBackupFile(file);
+      setLockedBackupError(passphrase ? result.error : undefined);
+      setBackupStatus('idle');
+    } else {
+      setBackupStatus('error');
+      setBackupMessage(result.error);
+    }
+  };
+
+  const restoreBackupFile = async (mode: RestoreMode) => {
+    if (!pendingRestore) return;
     setBackupStatus('importing');
     setBackupMessage('');
     try {
-      const result: ImportResult = await loadBackupFromFile(file);
+      const result: ImportResult = await loadBackupFromFile(pendingRestore.file, pendingRestore.passphrase, mode);
       if (result.success) {
+        setPendingRestore(null);
         setBackupStatus('success');
+        const changes = result.actions ? countRestoreChanges(result.actions) : 0;
         setBackupMessage(
-          `Imported: ${result.imported.profile ? 'Profile' : ''} ${result.imported.plan ? 'Plan' : ''} ` +
-          `${result.imported.documents} documents, ${result.imported.contacts} contacts, ${result.imported.checklist} checklist items`
+          t(result.imported.cases === 1 ? 'settings.backup.restored.one' : 'settings.backup.restored.other', { count: result.imported.cases }) +
+          t(changes === 1 ? 'settings.backup.changes.one' : 'settings.backup.changes.other', { count: changes }) +
+          (result.imported.missingFiles > 0
+            ? t(result.imported.missingFiles === 1 ? 'settings.backup.missingFiles.one' : 'settings.backup.missingFiles.other', {
+                count: result.imported.missingFiles,
+              })
+            : '')
         );
         // Reload the app to show imported data
         setTimeout(() => {
@@ -220,20 +287,34 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
         }, 2000);
       } else {
         setBackupStatus('error');
-        setBackupMessage(result.error || 'Failed to import backup');
+        setBackupMessage(result.error || t('settings.backup.importFailed'));
       }
     } catch (error) {
       setBackupStatus('error');
-      setBackupMessage(error instanceof Error ? error.message : 'Failed to import backup');
+      setBackupMessage(error instanceof Error ? error.message : t('settings.backup.importFailed'));
     }
+  };
+
+  const handleImportBackup = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setLockedBackupFile(null);
+    setLockedBackupError(undefined);
+    setPendingRestore(null);
+    await previewRestoreFile(file);
     
     // Reset file input
     e.target.value = '';
   };
   
-  const handleRegenerate = () => {
-    onRegenerateTasks();
+  const handleRegenerate = async () => {
+    setRegenerating(true);
     setShowRegenerateOption(false);
+    try {
+      setRegenerateSummary(await onRegenerateTasks());
+    } finally {
+      setRegenerating(false);
+    }
   };
 
   const handleReset = () => {
@@ -241,27 +322,32 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
     onStartOver();
   };
 
+  const handleLocaleChange = (next: Locale) => {
+    onLocaleChange(next);
+    setLocaleChanged(true);
+  };
+
   const TABS = [
-    { id: 'settings' as const, label: 'Settings', icon: Settings },
-    { id: 'tools' as const, label: 'Tools', icon: Wrench },
-    { id: 'resources' as const, label: 'Resources', icon: FileText },
+    { id: 'settings' as const, label: t('settings.tab.settings'), icon: Settings },
+    { id: 'tools' as const, label: t('settings.tab.tools'), icon: Wrench },
+    { id: 'resources' as const, label: t('settings.tab.resources'), icon: FileText },
   ];
 
   const situationSummary = [
-    editedProfile.deceasedName && `For: ${editedProfile.deceasedName}`,
-    editedProfile.relationship && RELATIONSHIP_OPTIONS.find(r => r.value === editedProfile.relationship)?.label,
-    editedProfile.country,
-  ].filter(Boolean).join(' · ') || 'Not set';
+    editedProfile.deceasedName && t('settings.situation.for', { name: editedProfile.deceasedName }),
+    editedProfile.relationship && t(`relationship.${editedProfile.relationship}`),
+    editedProfile.country && countryLabel(editedProfile.country),
+  ].filter(Boolean).join(' · ') || t('settings.situation.notSet');
 
   return (
     <div className="max-w-4xl mx-auto space-y-6">
       {/* Header — flat zone: subtle gradient, bottom inner shadow, thin gold rule */}
       <div className="page-header-zone flex flex-col items-center text-center">
         <div className="flex flex-col items-center">
-          <h2 className="text-xl font-semibold text-text-primary">Settings</h2>
+          <h2 className="text-xl font-semibold text-text-primary">{t('settings.title')}</h2>
           <TitleBar className="mt-1.5" />
         </div>
-        <p className="text-text-muted text-sm mt-1.5">Your situation, data, and resources.</p>
+        <p className="text-text-muted text-sm mt-1.5">{t('settings.subtitle')}</p>
       </div>
       {/* Tab Bar */}
       <div className="flex gap-1 p-1 bg-card-bg rounded-xl border border-border-subtle">
@@ -292,7 +378,7 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
             >
               <div className="flex items-center gap-2">
                 <User className="w-4 h-4 text-accent-gold" strokeWidth={1.75} />
-                <h3 className="font-semibold text-text-primary text-sm">Your Situation</h3>
+                <h3 className="font-semibold text-text-primary text-sm">{t('settings.situation.title')}</h3>
               </div>
               {situationExpanded ? (
                 <ChevronDown className="w-4 h-4 text-text-muted" />
@@ -305,23 +391,23 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
             ) : (
               <div className="mt-4 space-y-3">
                 <p className="text-xs text-text-muted flex items-center gap-1.5">
-                  <Info className="w-3.5 h-3.5" /> Customizes guidance and templates
+                  <Info className="w-3.5 h-3.5" /> {t('settings.situation.hint')}
                 </p>
                 <div className="grid grid-cols-1 gap-3">
                   <div>
-                    <label className="block text-xs font-medium text-text-secondary mb-1">Name of deceased</label>
+                    <label className="block text-xs font-medium text-text-secondary mb-1">{t('settings.situation.deceasedName')}</label>
                     <input 
                       type="text" 
                       value={editedProfile.deceasedName || ''} 
                       onChange={(e) => handleProfileChange('deceasedName', e.target.value)} 
-                      placeholder="Used in templates" 
+                      placeholder={t('settings.situation.deceasedName.placeholder')} 
                       maxLength={100}
                       className="w-full px-3 py-2 bg-vault-dark border border-border-subtle rounded-lg text-text-primary text-sm placeholder-text-muted focus:outline-none focus:border-accent-gold" 
                     />
                   </div>
                   <div>
                     <label className="block text-xs font-medium text-text-secondary mb-1">
-                      Your relationship
+                      {t('settings.situation.relationship')}
                       <span className="text-accent-gold ml-0.5" aria-hidden>*</span>
                     </label>
                     <select 
@@ -333,9 +419,9 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
                         validationErrors.relationship ? 'border-red-500 focus:border-red-500' : 'border-border-subtle focus:border-accent-gold'
                       }`}
                     >
-                      <option value="">Select...</option>
-                      {RELATIONSHIP_OPTIONS.map((opt) => (
-                        <option key={opt.value} value={opt.value}>{opt.label}</option>
+                      <option value="">{t('settings.situation.select')}</option>
+                      {RELATIONSHIP_OPTIONS.map((relationship) => (
+                        <option key={relationship} value={relationship}>{t(`relationship.${relationship}`)}</option>
                       ))}
                     </select>
                     {validationErrors.relationship && (
@@ -343,26 +429,27 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
                     )}
                   </div>
                   <div>
-                    <label className="block text-xs font-medium text-text-secondary mb-1">Country</label>
+                    <label className="block text-xs font-medium text-text-secondary mb-1">{t('settings.situation.country')}</label>
                     <select 
                       value={editedProfile.country || ''} 
                       onChange={(e) => handleProfileChange('country', e.target.value)} 
                       className="w-full px-3 py-2.5 bg-vault-dark border border-border-subtle rounded-lg text-text-primary text-sm focus:outline-none focus:border-accent-gold focus:ring-2 focus:ring-accent-gold/20"
                     >
-                      <option value="">Select country...</option>
-                      {COUNTRY_OPTIONS.map((opt) => (
-                        <option key={opt.value} value={opt.value}>{opt.label}</option>
+                      <option value="">{t('settings.situation.selectCountry')}</option>
+                      {COUNTRY_OPTIONS.map((country) => (
+                        <option key={country} value={country}>{t(`settings.country.${country}`)}</option>
                       ))}
                     </select>
                   </div>
                   <div>
-                    <label className="block text-xs font-medium text-text-secondary mb-1">State or Region</label>
+                    <label className="block text-xs font-medium text-text-secondary mb-1">{t('settings.situation.region')}</label>
                     {editedProfile.country === 'United States' ? (
                       <select 
                         value={editedProfile.region || ''} 
                         onChange={(e) => handleProfileChange('region', e.target.value)} 
                         className="w-full px-3 py-2.5 bg-vault-dark border border-border-subtle rounded-lg text-text-primary text-sm focus:outline-none focus:border-accent-gold focus:ring-2 focus:ring-accent-gold/20"
                       >
+                        <option value="">{t('settings.situation.selectState')}</option>
                         {US_STATE_OPTIONS.map((opt) => (
                           <option key={opt.value} value={opt.value}>{opt.label}</option>
                         ))}
@@ -372,38 +459,38 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
                         type="text" 
                         value={editedProfile.region || ''} 
                         onChange={(e) => handleProfileChange('region', e.target.value)} 
-                        placeholder={editedProfile.country ? "Enter region" : "Select country first"}
+                        placeholder={editedProfile.country ? t('settings.situation.enterRegion') : t('settings.situation.countryFirst')}
                         maxLength={100}
                         className="w-full px-3 py-2 bg-vault-dark border border-border-subtle rounded-lg text-text-primary text-sm focus:outline-none focus:border-accent-gold placeholder-text-muted" 
                       />
                     )}
                   </div>
                   <div>
-                    <label className="block text-xs font-medium text-text-secondary mb-1">Is there a will?</label>
+                    <label className="block text-xs font-medium text-text-secondary mb-1">{t('settings.situation.hasWill')}</label>
                     <select 
                       value={editedProfile.hasWill === undefined ? '' : editedProfile.hasWill.toString()} 
                       onChange={(e) => handleProfileChange('hasWill', e.target.value === '' ? undefined : e.target.value === 'true')} 
                       className="w-full px-3 py-2.5 bg-vault-dark border border-border-subtle rounded-lg text-text-primary text-sm focus:outline-none focus:border-accent-gold focus:ring-2 focus:ring-accent-gold/20"
                     >
-                      <option value="">Not sure</option>
-                      <option value="true">Yes</option>
-                      <option value="false">No</option>
+                      <option value="">{t('settings.situation.notSure')}</option>
+                      <option value="true">{t('settings.situation.yes')}</option>
+                      <option value="false">{t('settings.situation.no')}</option>
                     </select>
                   </div>
                   <div>
-                    <label className="block text-xs font-medium text-text-secondary mb-1">Are you the executor?</label>
+                    <label className="block text-xs font-medium text-text-secondary mb-1">{t('settings.situation.isExecutor')}</label>
                     <select 
                       value={editedProfile.isExecutor === undefined ? '' : editedProfile.isExecutor.toString()} 
                       onChange={(e) => handleProfileChange('isExecutor', e.target.value === '' ? undefined : e.target.value === 'true')} 
                       className="w-full px-3 py-2.5 bg-vault-dark border border-border-subtle rounded-lg text-text-primary text-sm focus:outline-none focus:border-accent-gold focus:ring-2 focus:ring-accent-gold/20"
                     >
-                      <option value="">Not sure</option>
-                      <option value="true">Yes</option>
-                      <option value="false">No</option>
+                      <option value="">{t('settings.situation.notSure')}</option>
+                      <option value="true">{t('settings.situation.yes')}</option>
+                      <option value="false">{t('settings.situation.no')}</option>
                     </select>
                   </div>
                   <div>
-                    <label className="block text-xs font-medium text-text-secondary mb-1">Date of passing (optional)</label>
+                    <label className="block text-xs font-medium text-text-secondary mb-1">{t('settings.situation.dateOfDeath')}</label>
                     <input 
                       type="date" 
                       value={editedProfile.dateOfDeath || ''} 
@@ -421,19 +508,83 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
                         {validationErrors.dateOfDeath}
                       </p>
                     ) : (
-                      <p className="text-xs text-text-muted mt-1">Used to auto-fill templates and letters</p>
+                      <p className="text-xs text-text-muted mt-1">{t('settings.situation.dateOfDeath.hint')}</p>
                     )}
                   </div>
+                  <fieldset className="pt-2 space-y-3">
+                    <legend className="text-xs font-semibold text-text-secondary">{t('settings.sender.title')}</legend>
+                    <p className="text-xs text-text-muted">{t('settings.sender.hint')}</p>
+                    <div>
+                      <label htmlFor="sender-name" className="block text-xs font-medium text-text-secondary mb-1">{t('settings.sender.name')}</label>
+                      <input
+                        id="sender-name"
+                        type="text"
+                        value={editedProfile.userName || ''}
+                        onChange={(e) => handleProfileChange('userName', e.target.value || undefined)}
+                        maxLength={100}
+                        className="w-full px-3 py-2 bg-vault-dark border border-border-subtle rounded-lg text-text-primary text-sm placeholder-text-muted focus:outline-none focus:border-accent-gold"
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="sender-address" className="block text-xs font-medium text-text-secondary mb-1">{t('settings.sender.address')}</label>
+                      <textarea
+                        id="sender-address"
+                        value={editedProfile.address || ''}
+                        onChange={(e) => handleProfileChange('address', e.target.value || undefined)}
+                        rows={3}
+                        aria-invalid={!!validationErrors.address}
+                        className={`w-full px-3 py-2 bg-vault-dark border rounded-lg text-text-primary text-sm focus:outline-none ${
+                          validationErrors.address ? 'border-red-500 focus:border-red-500' : 'border-border-subtle focus:border-accent-gold'
+                        }`}
+                      />
+                      {validationErrors.address && <p className="text-xs text-red-400 mt-1" role="alert">{validationErrors.address}</p>}
+                    </div>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                      <div>
+                        <label htmlFor="sender-phone" className="block text-xs font-medium text-text-secondary mb-1">{t('settings.sender.phone')}</label>
+                        <input
+                          id="sender-phone"
+                          type="tel"
+                          value={editedProfile.phone || ''}
+                          onChange={(e) => handleProfileChange('phone', e.target.value || undefined)}
+                          aria-invalid={!!validationErrors.phone}
+                          className={`w-full px-3 py-2 bg-vault-dark border rounded-lg text-text-primary text-sm focus:outline-none ${
+                            validationErrors.phone ? 'border-red-500 focus:border-red-500' : 'border-border-subtle focus:border-accent-gold'
+                          }`}
+                        />
+                        {validationErrors.phone && <p className="text-xs text-red-400 mt-1" role="alert">{validationErrors.phone}</p>}
+                      </div>
+                      <div>
+                        <label htmlFor="sender-email" className="block text-xs font-medium text-text-secondary mb-1">{t('settings.sender.email')}</label>
+                        <input
+                          id="sender-email"
+                          type="email"
+                          value={editedProfile.email || ''}
+                          onChange={(e) => handleProfileChange('email', e.target.value || undefined)}
+                          aria-invalid={!!validationErrors.email}
+                          className={`w-full px-3 py-2 bg-vault-dark border rounded-lg text-text-primary text-sm focus:outline-none ${
+                            validationErrors.email ? 'border-red-500 focus:border-red-500' : 'border-border-subtle focus:border-accent-gold'
+                          }`}
+                        />
+                        {validationErrors.email && <p className="text-xs text-red-400 mt-1" role="alert">{validationErrors.email}</p>}
+                      </div>
+                    </div>
+                  </fieldset>
                 </div>
                 {showRegenerateOption && (
                   <div className="mt-3 p-2 bg-accent-gold/10 border border-accent-gold/30 rounded-lg flex items-center justify-between gap-2">
-                    <span className="text-xs text-text-secondary">Situation changed. Update guidance?</span>
+                    <span className="text-xs text-text-secondary">{t('settings.situation.changed')}</span>
                     <div className="flex gap-1">
-                      <button onClick={handleRegenerate} className="px-2 py-1 bg-accent-gold text-vault-dark rounded text-xs font-medium">Refresh</button>
-                      <button onClick={() => setShowRegenerateOption(false)} className="px-2 py-1 text-text-muted text-xs">Keep</button>
+                      <button onClick={handleRegenerate} className="px-2 py-1 bg-accent-gold text-vault-dark rounded text-xs font-medium">{t('settings.situation.refresh')}</button>
+                      <button onClick={() => setShowRegenerateOption(false)} className="px-2 py-1 text-text-muted text-xs">{t('settings.situation.keep')}</button>
                     </div>
                   </div>
                 )}
+                {regenerateSummary && (
+                  <div className="mt-3">
+                    <PlanChangeSummary summary={regenerateSummary} onDismiss={() => setRegenerateSummary(null)} />
+                  </div>
+                )}
                 {hasChanges && (
                   <button
                     onClick={handleSave}
@@ -446,7 +597,7 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
                           : 'bg-card-bg-hover text-text-muted cursor-not-allowed'
                     }`}
                   >
-                    {saved ? <><Check className="w-4 h-4" />Saved</> : 'Save Changes'}
+                    {saved ? <><Check className="w-4 h-4" />{t('settings.situation.saved')}</> : t('settings.situation.save')}
                   </button>
                 )}
               </div>
@@ -455,26 +606,43 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
 
           {/* Preferences — Language, Date format, Print */}
           <section className="bg-card-bg border border-border-subtle rounded-xl p-4">
-            <h3 className="font-semibold text-text-primary text-sm mb-3">Preferences</h3>
+            <h3 className="font-semibold text-text-primary text-sm mb-3">{t('settings.preferences')}</h3>
             <div className="space-y-3">
               <div>
-                <label className="block text-xs font-medium text-text-secondary mb-1">Language</label>
-                <select className="w-full px-3 py-2 bg-vault-dark border border-border-subtle rounded-lg text-text-primary text-sm font-medium focus:outline-none focus:border-accent-gold" disabled>
-                  <option>English</option>
+                <label htmlFor="settings-locale" className="block text-xs font-medium text-text-secondary mb-1">{t('settings.language.label')}</label>
+                <select
+                  id="settings-locale"
+                  value={locale}
+                  onChange={(e) => handleLocaleChange(e.target.value as Locale)}
+                  className="w-full px-3 py-2 bg-vault-dark border border-border-subtle rounded-lg text-text-primary text-sm font-medium focus:outline-none focus:border-accent-gold"
+                >
+                  {SUPPORTED_LOCALES.map(({ code, name }) => (
+                    <option key={code} value={code}>{name}</option>
+                  ))}
                 </select>
-                <p className="text-[11px] text-text-muted mt-0.5">More languages in a future update.</p>
+                <p className="text-[11px] text-text-muted mt-0.5">{t('settings.language.note')}</p>
+                {localeChanged && (
+                  <button
+                    type="button"
+                    onClick={handleRegenerate}
+                    disabled={regenerating}
+                    className="mt-1.5 text-xs text-accent-gold hover:underline disabled:opacity-50"
+                  >
+                    {t('settings.language.refresh')}
+                  </button>
+                )}
               </div>
               <div>
-                <label className="block text-xs font-medium text-text-secondary mb-1">Date format</label>
+                <label className="block text-xs font-medium text-text-secondary mb-1">{t('settings.dateFormat.label')}</label>
                 <select className="w-full px-3 py-2 bg-vault-dark border border-border-subtle rounded-lg text-text-primary text-sm font-medium focus:outline-none focus:border-accent-gold">
-                  <option value="locale">Use device default</option>
-                  <option value="MM/DD/YYYY">MM/DD/YYYY</option>
-                  <option value="DD/MM/YYYY">DD/MM/YYYY</option>
+                  <option value="locale">{t('settings.dateFormat.device')}</option>
+                  <option value="MM/DD/YYYY">{t('settings.dateFormat.mdy')}</option>
+                  <option value="DD/MM/YYYY">{t('settings.dateFormat.dmy')}</option>
                 </select>
               </div>
               <div>
-                <label className="block text-xs font-medium text-text-secondary mb-1">Print preferences</label>
-                <p className="text-xs text-text-muted">Full disclaimer is always included at the bottom of printed and exported PDFs.</p>
+                <label className="block text-xs font-medium text-text-secondary mb-1">{t('settings.print.label')}</label>
+                <p className="text-xs text-text-muted">{t('settings.print.note')}</p>
               </div>
             </div>
           </section>
@@ -483,16 +651,16 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
           <section className="bg-card-bg border border-border-subtle rounded-xl p-4">
             <div className="flex items-center gap-2 mb-3">
               <Shield className="w-4 h-4 text-accent-gold" strokeWidth={1.75} />
-              <h3 className="font-semibold text-text-primary text-sm">Data & Privacy</h3>
+              <h3 className="font-semibold text-text-primary text-sm">{t('settings.privacy.title')}</h3>
             </div>
             <p className="text-xs text-text-secondary leading-relaxed mb-2">
-              All data is stored locally on this device. Nothing is sent to the cloud.
+              {t('settings.privacy.local')}
             </p>
             <p className="text-xs text-text-secondary leading-relaxed mb-2">
-              <strong>Auto-save:</strong> Tasks, documents, and contacts save as you work.
+              <strong>{t('settings.privacy.autoSaveLabel')}</strong> {t('settings.privacy.autoSave')}
             </p>
             <p className="text-xs text-text-muted">
-              {mode === 'EMBEDDED' ? 'Connected to Local Legacy Vault' : 'Standalone mode'}
+              {mode === 'EMBEDDED' ? t('settings.privacy.embedded') : t('settings.privacy.standalone')}
             </p>
           </section>
 
@@ -500,12 +668,12 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
           <section className="bg-card-bg/80 border border-border-subtle rounded-xl p-3 md:col-span-2">
             <div className="flex items-center gap-2 mb-1.5">
               <Heart className="w-3.5 h-3.5 text-text-muted" strokeWidth={1.75} />
-              <h3 className="font-semibold text-text-primary text-sm">About AfterPassing Guide</h3>
+              <h3 className="font-semibold text-text-primary text-sm">{t('settings.about.title')}</h3>
             </div>
             <p className="text-sm text-text-secondary leading-snug">
-              A local, offline tool for organizing administrative tasks after a loss.
+              {t('settings.about.body')}
             </p>
-            <p className="text-xs text-text-muted mt-1.5">Administrative guidance only.</p>
+            <p className="text-xs text-text-muted mt-1.5">{t('settings.about.note')}</p>
           </section>
         </div>
       )}
@@ -518,42 +686,68 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
           <section className="bg-card-bg border border-border-subtle rounded-xl p-4">
           <div className="flex items-center gap-2 mb-2">
             <Download className="w-4 h-4 text-accent-gold" strokeWidth={1.75} />
-            <h3 className="font-semibold text-text-primary text-sm">Backup & Restore</h3>
+            <h3 className="font-semibold text-text-primary text-sm">{t('settings.backup.title')}</h3>
           </div>
           <p className="text-xs text-text-secondary leading-relaxed mb-3">
-            Export all your data to a backup file, or restore from a previous backup.
+            {t('settings.backup.intro')}
           </p>
           <div className="space-y-2">
+            <ExportPassphraseFields
+              value={exportPassphrase}
+              onChange={setExportPassphrase}
+              disabled={backupStatus === 'exporting' || backupStatus === 'importing'}
+            />
             <button
               onClick={handleExportBackup}
               disabled={backupStatus === 'exporting' || backupStatus === 'importing'}
               className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-accent-gold/20 text-accent-gold rounded-lg text-xs font-medium hover:bg-accent-gold/30 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-              aria-label="Export backup"
+              aria-label={t('settings.backup.export')}
             >
               {backupStatus === 'exporting' ? (
                 <>
                   <RefreshCw className="w-3.5 h-3.5 animate-spin" />
-                  Exporting...
+                  {t('settings.backup.exporting')}
                 </>
               ) : (
                 <>
                   <Download className="w-3.5 h-3.5" />
-                  Export Backup
+                  {t('settings.backup.export')}
                 </>
               )}
             </button>
             <label className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-slate-700/50 text-text-primary rounded-lg text-xs font-medium hover:bg-slate-700/70 transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed">
               <Upload className="w-3.5 h-3.5" />
-              {backupStatus === 'importing' ? 'Importing...' : 'Import Backup'}
+              {backupStatus === 'importing' ? t('settings.backup.importing') : t('settings.backup.import')}
               <input
                 type="file"
                 accept=".json"
                 onChange={handleImportBackup}
                 disabled={backupStatus === 'exporting' || backupStatus === 'importing'}
                 className="hidden"
-                aria-label="Import backup"
+                aria-label={t('settings.backup.import')}
               />
             </label>
+            {lockedBackupFile && (
+              <PassphrasePrompt
+                fileName={lockedBackupFile.name}
+                error={lockedBackupError}
+                busy={backupStatus === 'importing'}
+                onSubmit={(passphrase) => previewRestoreFile(lockedBackupFile, passphrase)}
+                onCancel={() => {
+                  setLockedBackupFile(null);
+                  setLockedBackupError(undefined);
+                }}
+              />
+            )}
+            {pendingRestore && (
+              <RestorePreviewPanel
+                fileName={pendingRestore.file.name}
+                preview={pendingRestore.preview}
+                busy={backupStatus === 'importing'}
+                onRestore={restoreBackupFile}
+                onCancel={() => setPendingRestore(null)}
+              />
+            )}
             {backupMessage && (
               <p 
                 className={`text-xs mt-2 ${
@@ -574,65 +768,79 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
           <section className="bg-card-bg border border-slate-600/50 rounded-xl p-4 border-l-4 border-l-amber-600/50">
             <div className="flex items-center gap-2 mb-2">
               <AlertTriangle className="w-4 h-4 text-amber-500" />
-              <h3 className="font-semibold text-amber-200 text-sm">Reset Data</h3>
+              <h3 className="font-semibold text-amber-200 text-sm">{t('settings.reset.title')}</h3>
             </div>
             <p className="text-xs text-text-muted mb-3">
-              Erase saved data and return to initial setup. Local Legacy Vault data is not affected.
+              {t('settings.reset.intro')}
             </p>
             {showResetConfirm ? (
               <div className="flex items-center gap-2">
-                <span className="text-xs text-amber-200">Are you sure? This cannot be undone.</span>
-                <button onClick={handleReset} className="px-3 py-1.5 bg-amber-600 text-vault-dark rounded text-xs font-medium">Yes, Reset</button>
-                <button onClick={() => setShowResetConfirm(false)} className="px-3 py-1.5 bg-slate-700 text-text-primary rounded text-xs font-medium">Cancel</button>
+                <span className="text-xs text-amber-200">{t('settings.reset.confirm')}</span>
+                <button onClick={handleReset} className="px-3 py-1.5 bg-amber-600 text-vault-dark rounded text-xs font-medium">{t('settings.reset.yes')}</button>
+                <button onClick={() => setShowResetConfirm(false)} className="px-3 py-1.5 bg-slate-700 text-text-primary rounded text-xs font-medium">{t('common.cancel')}</button>
               </div>
             ) : (
               <button 
                 onClick={() => setShowResetConfirm(true)} 
                 className="flex items-center gap-1.5 px-3 py-2 border border-amber-600/50 text-amber-200 hover:bg-amber-600/10 rounded-lg text-xs transition-colors"
               >
-                <RefreshCw className="w-3 h-3" /> Reset Data
+                <RefreshCw className="w-3 h-3" /> {t('settings.reset.title')}
               </button>
             )}
           </section>
 
-          {/* Refresh Guidance - when situation changed */}
-          {showRegenerateOption && (
-            <section className="bg-card-bg border border-accent-gold/30 rounded-xl p-4">
-              <div className="flex items-center gap-2 mb-2">
-                <RefreshCcw className="w-4 h-4 text-accent-gold" strokeWidth={1.75} />
-                <h3 className="font-semibold text-text-primary text-sm">Refresh Guidance</h3>
-              </div>
-              <p className="text-xs text-text-secondary mb-3">
-                Your situation changed. Regenerate your checklist with updated guidance?
-              </p>
-              <div className="flex gap-2">
-                <button onClick={handleRegenerate} className="px-3 py-2 bg-accent-gold text-vault-dark rounded-lg text-xs font-medium">Refresh</button>
-                <button onClick={() => setShowRegenerateOption(false)} className="px-3 py-2 text-text-muted text-xs">Keep Current</button>
+          {/* Refresh Guidance - keeps progress; highlighted when situation changed */}
+          <section className={`bg-card-bg border rounded-xl p-4 ${showRegenerateOption ? 'border-accent-gold/30' : 'border-border-subtle'}`}>
+            <div className="flex items-center gap-2 mb-2">
+              <RefreshCcw className="w-4 h-4 text-accent-gold" strokeWidth={1.75} />
+              <h3 className="font-semibold text-text-primary text-sm">{t('settings.refresh.title')}</h3>
+            </div>
+            <p className="text-xs text-text-secondary mb-3">
+              {showRegenerateOption
+                ? t('settings.refresh.changed')
+                : t('settings.refresh.intro')}
+              {' '}{t('settings.refresh.kept')}
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={handleRegenerate}
+                disabled={regenerating}
+                className="px-3 py-2 bg-accent-gold text-vault-dark rounded-lg text-xs font-medium disabled:opacity-50"
+              >
+                {regenerating ? t('settings.refresh.refreshing') : t('settings.situation.refresh')}
+              </button>
+              {showRegenerateOption && (
+                <button onClick={() => setShowRegenerateOption(false)} className="px-3 py-2 text-text-muted text-xs">{t('settings.refresh.keepCurrent')}</button>
+              )}
+            </div>
+            {regenerateSummary && (
+              <div className="mt-3">
+                <PlanChangeSummary summary={regenerateSummary} onDismiss={() => setRegenerateSummary(null)} />
               </div>
-            </section>
-          )}
+            )}
+          </section>
 
           {/* Reset Data */}
           <section className="bg-card-bg border border-burnt-orange/30 rounded-xl p-4">
             <div className="flex items-center gap-2 mb-2">
               <AlertTriangle className="w-4 h-4 text-burnt-orange" />
-              <h3 className="font-semibold text-burnt-orange text-sm">Reset Data</h3>
+              <h3 className="font-semibold text-burnt-orange text-sm">{t('settings.reset.title')}</h3>
             </div>
             <p className="text-xs text-text-muted mb-3">
-              Erase saved data and return to initial setup. Local Legacy Vault data is not affected.
+              {t('settings.reset.intro')}
             </p>
             {showResetConfirm ? (
               <div className="flex items-center gap-2">
-                <span className="text-xs text-burnt-orange">Are you sure?</span>
-                <button onClick={handleReset} className="px-3 py-1.5 bg-burnt-orange text-vault-dark rounded text-xs font-medium">Yes, Reset</button>
-                <button onClick={() => setShowResetConfirm(false)} className="px-3 py-1.5 bg-card-bg-hover text-text-primary rounded text-xs font-medium">Cancel</button>
+                <span className="text-xs text-burnt-orange">{t('settings.reset.confirmShort')}</span>
+                <button onClick={handleReset} className="px-3 py-1.5 bg-burnt-orange text-vault-dark rounded text-xs font-medium">{t('settings.reset.yes')}</button>
+                <button onClick={() => setShowResetConfirm(false)} className="px-3 py-1.5 bg-card-bg-hover text-text-primary rounded text-xs font-medium">{t('common.cancel')}</button>
               </div>
             ) : (
               <button 
                 onClick={() => setShowResetConfirm(true)} 
                 className="flex items-center gap-1.5 px-3 py-2 border border-burnt-orange/50 text-burnt-orange hover:bg-burnt-orange/10 rounded-lg text-xs transition-colors"
               >
-                <RefreshCw className="w-3 h-3" /> Reset Data
+                <RefreshCw className="w-3 h-3" /> {t('settings.reset.title')}
               </button>
             )}
           </section>
@@ -644,20 +852,20 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           {/* User Guide & FAQs */}
           <section className="bg-card-bg border border-border-subtle rounded-xl p-4">
-            <h3 className="font-semibold text-text-primary text-sm mb-3">Help & Learning</h3>
+            <h3 className="font-semibold text-text-primary text-sm mb-3">{t('settings.help.title')}</h3>
             <div className="flex flex-col gap-2">
               <button 
                 onClick={() => setShowUserGuide(true)} 
                 className="w-full flex items-center justify-between gap-2 px-3 py-2 bg-vault-dark rounded-lg hover:bg-card-bg-hover text-text-primary text-sm transition-colors text-left"
               >
-                <span className="flex items-center gap-2"><BookOpen className="w-4 h-4 text-accent-gold" /> User Guide</span>
+                <span className="flex items-center gap-2"><BookOpen className="w-4 h-4 text-accent-gold" /> {t('settings.help.guide')}</span>
                 <ChevronRight className="w-4 h-4 text-text-muted" />
               </button>
               <button 
                 onClick={() => setShowFAQs(true)} 
                 className="w-full flex items-center justify-between gap-2 px-3 py-2 bg-vault-dark rounded-lg hover:bg-card-bg-hover text-text-primary text-sm transition-colors text-left"
               >
-                <span className="flex items-center gap-2"><HelpCircle className="w-4 h-4 text-accent-gold" /> FAQs</span>
+                <span className="flex items-center gap-2"><HelpCircle className="w-4 h-4 text-accent-gold" /> {t('settings.help.faqs')}</span>
                 <ChevronRight className="w-4 h-4 text-text-muted" />
               </button>
             </div>
@@ -665,11 +873,11 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
 
           {/* Printable guides */}
           <section className="bg-card-bg border border-border-subtle rounded-xl p-4">
-            <h3 className="font-semibold text-text-primary text-sm mb-2">Printable guides</h3>
-            <p className="text-xs text-text-muted">Export your checklist or full estate binder from Executor Tools for a clean, printable PDF. Full disclaimer is included at the bottom.</p>
+            <h3 className="font-semibold text-text-primary text-sm mb-2">{t('settings.printable.title')}</h3>
+            <p className="text-xs text-text-muted">{t('settings.printable.body')}</p>
           </section>
 
-          {/* Official U.S. Resources — collapsed by default; reference only, no advice; not in first-48 or checklists */}
+          {/* Official resources for the profile's location — collapsed by default; reference only, no advice; not in first-48 or checklists */}
           <section className="bg-card-bg border border-border-subtle rounded-xl p-4 md:col-span-2">
             <button
               type="button"
@@ -678,64 +886,47 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
               aria-expanded={officialResourcesExpanded}
             >
               <Landmark className="w-4 h-4 text-text-muted flex-shrink-0" aria-hidden />
-              <h3 className="font-semibold text-text-primary text-sm">Official U.S. Resources</h3>
+              <h3 className="font-semibold text-text-primary text-sm">
+                {jurisdictionName ? t('settings.resources.titleFor', { jurisdiction: jurisdictionName }) : t('settings.resources.title')}
+              </h3>
               {officialResourcesExpanded ? <ChevronDown className="w-4 h-4 text-text-muted ml-auto" /> : <ChevronRight className="w-4 h-4 text-text-muted ml-auto" />}
             </button>
             {officialResourcesExpanded && (
-              <>
-                <p className="text-xs text-text-muted mt-2 mb-4">Links to commonly used government and public resources. For reference only.</p>
-                <ul className="space-y-4 list-none pl-0">
-                  <li>
-                    <span className="text-[11px] font-medium text-text-muted uppercase tracking-wide block mb-1.5">Government &amp; Identity</span>
-                    <ul className="space-y-1.5 text-sm">
-                      <li><a href="https://www.ssa.gov/survivors/" target="_blank" rel="noopener noreferrer" className="flex items-center gap-2 text-text-primary hover:underline"><span>Social Security Administration</span><ExternalLink className="w-3.5 h-3.5 text-text-muted flex-shrink-0" aria-hidden /></a></li>
-                      <li><a href="https://www.irs.gov/individuals/family-special-situations" target="_blank" rel="noopener noreferrer" className="flex items-center gap-2 text-text-primary hover:underline"><span>IRS</span><ExternalLink className="w-3.5 h-3.5 text-text-muted flex-shrink-0" aria-hidden /></a></li>
-                      <li><a href="https://www.usa.gov/vital-records" target="_blank" rel="noopener noreferrer" className="flex items-center gap-2 text-text-primary hover:underline"><span>State Vital Records Offices</span><ExternalLink className="w-3.5 h-3.5 text-text-muted flex-shrink-0" aria-hidden /></a></li>
-                    </ul>
-                  </li>
-                  <li>
-                    <span className="text-[11px] font-medium text-text-muted uppercase tracking-wide block mb-1.5">Probate &amp; Courts</span>
-                    <ul className="space-y-1.5 text-sm">
-                      <li><a href="https://www.ncsc.org/find-a-court" target="_blank" rel="noopener noreferrer" className="flex items-center gap-2 text-text-primary hover:underline"><span>State Probate Court Locator</span><ExternalLink className="w-3.5 h-3.5 text-text-muted flex-shrink-0" aria-hidden /></a></li>
-                      <li><a href="https://www.ncsc.org/" target="_blank" rel="noopener noreferrer" className="flex items-center gap-2 text-text-primary hover:underline"><span>National Center for State Courts</span><ExternalLink className="w-3.5 h-3.5 text-text-muted flex-shrink-0" aria-hidden /></a></li>
-                    </ul>
-                  </li>
-                  <li>
-                    <span className="text-[11px] font-medium text-text-muted uppercase tracking-wide block mb-1.5">Veterans <span className="normal-case font-normal text-text-muted">(If applicable)</span></span>
-                    <ul className="space-y-1.5 text-sm">
-                      <li><a href="https://www.va.gov/survivors/" target="_blank" rel="noopener noreferrer" className="flex items-center gap-2 text-text-primary hover:underline"><span>U.S. Department of Veterans Affairs</span><ExternalLink className="w-3.5 h-3.5 text-text-muted flex-shrink-0" aria-hidden /></a></li>
-                    </ul>
-                  </li>
-                  <li>
-                    <span className="text-[11px] font-medium text-text-muted uppercase tracking-wide block mb-1.5">Financial &amp; Property</span>
-                    <ul className="space-y-1.5 text-sm">
-                      <li><a href="https://www.consumerfinance.gov/consumer-tools/death-of-a-family-member/" target="_blank" rel="noopener noreferrer" className="flex items-center gap-2 text-text-primary hover:underline"><span>CFPB</span><ExternalLink className="w-3.5 h-3.5 text-text-muted flex-shrink-0" aria-hidden /></a></li>
-                      <li><a href="https://www.fdic.gov/consumers/consumer/news/cnsum22/" target="_blank" rel="noopener noreferrer" className="flex items-center gap-2 text-text-primary hover:underline"><span>FDIC</span><ExternalLink className="w-3.5 h-3.5 text-text-muted flex-shrink-0" aria-hidden /></a></li>
-                    </ul>
-                  </li>
-                  <li>
-                    <span className="text-[11px] font-medium text-text-muted uppercase tracking-wide block mb-1.5">Consumer &amp; Mail</span>
-                    <ul className="space-y-1.5 text-sm">
-                      <li><a href="https://www.usps.com/manage/mail-for-deceased.htm" target="_blank" rel="noopener noreferrer" className="flex items-center gap-2 text-text-primary hover:underline"><span>USPS</span><ExternalLink className="w-3.5 h-3.5 text-text-muted flex-shrink-0" aria-hidden /></a></li>
-                      <li><a href="https://consumer.ftc.gov/articles/what-do-when-someone-dies" target="_blank" rel="noopener noreferrer" className="flex items-center gap-2 text-text-primary hover:underline"><span>FTC</span><ExternalLink className="w-3.5 h-3.5 text-text-muted flex-shrink-0" aria-hidden /></a></li>
-                    </ul>
-                  </li>
-                </ul>
-                <p className="text-[10px] text-text-muted mt-4 pt-3 border-t border-border-subtle">Links provided for convenience. We do not control or endorse external sites.</p>
-              </>
+              resourceGroups.length === 0 ? (
+                <p className="text-xs text-text-muted mt-2">
+                  {t('settings.resources.none')}
+                </p>
+              ) : (
+                <>
+                  <p className="text-xs text-text-muted mt-2 mb-4">{t('settings.resources.intro')}</p>
+                  <ul className="space-y-4 list-none pl-0">
+                    {resourceGroups.map(([group, links]) => (
+                      <li key={group}>
+                        <span className="text-[11px] font-medium text-text-muted uppercase tracking-wide block mb-1.5">{group}</span>
+                        <ul className="space-y-1.5 text-sm">
+                          {links.map((link) => (
+                            <li key={link.url}><a href={link.url} target="_blank" rel="noopener noreferrer" className="flex items-center gap-2 text-text-primary hover:underline"><span>{link.label}</span><ExternalLink className="w-3.5 h-3.5 text-text-muted flex-shrink-0" aria-hidden /></a></li>
+                          ))}
+                        </ul>
+                      </li>
+                    ))}
+                  </ul>
+                  <p className="text-[10px] text-text-muted mt-4 pt-3 border-t border-border-subtle">{t('settings.resources.external')}</p>
+                </>
+              )
             )}
           </section>
 
           {/* Legal */}
           <section className="bg-card-bg border border-border-subtle rounded-xl p-4 md:col-span-2">
-            <h3 className="font-semibold text-text-primary text-sm mb-2">Legal & Policies</h3>
+            <h3 className="font-semibold text-text-primary text-sm mb-2">{t('settings.legal.title')}</h3>
             <p className="text-xs text-text-muted leading-relaxed">
-              This tool provides organizational guidance for the United States only. It does not provide legal, financial, or medical advice. Laws and processes vary by state. For decisions about legal, financial, or tax matters, consider consulting a qualified professional.
+              {t('settings.legal.body')}
             </p>
             <div className="flex flex-wrap gap-2 mt-3">
-              <a href="/leg/terms.html" target="_blank" rel="noopener noreferrer" className="text-xs text-accent-gold hover:underline">Terms</a>
-              <a href="/leg/privacy.html" target="_blank" rel="noopener noreferrer" className="text-xs text-accent-gold hover:underline">Privacy</a>
-              <a href="/leg/disclaimer.html" target="_blank" rel="noopener noreferrer" className="text-xs text-accent-gold hover:underline">Disclaimer</a>
+              <a href="/leg/terms.html" target="_blank" rel="noopener noreferrer" className="text-xs text-accent-gold hover:underline">{t('settings.legal.terms')}</a>
+              <a href="/leg/privacy.html" target="_blank" rel="noopener noreferrer" className="text-xs text-accent-gold hover:underline">{t('settings.legal.privacy')}</a>
+              <a href="/leg/disclaimer.html" target="_blank" rel="noopener noreferrer" className="text-xs text-accent-gold hover:underline">{t('settings.legal.disclaimer')}</a>
             </div>
           </section>
         </div>
@@ -743,7 +934,7 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
 
       {/* Footer */}
       <div className="text-center text-text-muted text-xs pt-4">
-        <p>AfterPassing Guide v1.0.0 · Administrative guidance only</p>
+        <p>{t('settings.footer', { version: APP_VERSION })}</p>
       </div>
 
       {/* User Guide Modal */}
@@ -753,51 +944,51 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
             <div className="flex items-center justify-between p-4 border-b border-border-subtle">
               <div className="flex items-center gap-2">
                 <BookOpen className="w-5 h-5 text-accent-gold" />
-                <h2 className="text-lg font-semibold text-text-primary">User Guide</h2>
+                <h2 className="text-lg font-semibold text-text-primary">{t('settings.help.guide')}</h2>
               </div>
-              <button onClick={() => setShowUserGuide(false)} className="p-1.5 text-text-secondary hover:text-text-primary rounded-lg hover:bg-card-bg-hover">
+              <button onClick={() => setShowUserGuide(false)} aria-label={t('settings.help.close')} className="p-1.5 text-text-secondary hover:text-text-primary rounded-lg hover:bg-card-bg-hover">
                 <X className="w-5 h-5" />
               </button>
             </div>
             <div className="p-5 grid grid-cols-2 gap-6 text-sm">
               <div className="space-y-4">
                 <section>
-                  <h3 className="font-semibold text-text-primary mb-1">Getting Started</h3>
-                  <p className="text-text-secondary text-xs mb-2">Navigate administrative tasks at your own pace.</p>
+                  <h3 className="font-semibold text-text-primary mb-1">{t('settings.guide.start.title')}</h3>
+                  <p className="text-text-secondary text-xs mb-2">{t('settings.guide.start.intro')}</p>
                   <ol className="list-decimal list-inside text-text-muted text-xs space-y-0.5">
-                    <li>Complete setup to tell us about your situation</li>
-                    <li>Review guidance organized by timeline</li>
-                    <li>Mark items as done or "not applicable"</li>
-                    <li>Use templates for calls and letters</li>
+                    <li>{t('settings.guide.start.1')}</li>
+                    <li>{t('settings.guide.start.2')}</li>
+                    <li>{t('settings.guide.start.3')}</li>
+                    <li>{t('settings.guide.start.4')}</li>
                   </ol>
                 </section>
 
                 <section>
-                  <h3 className="font-semibold text-text-primary mb-1">Item Status Options</h3>
+                  <h3 className="font-semibold text-text-primary mb-1">{t('settings.guide.status.title')}</h3>
                   <div className="grid grid-cols-2 gap-1 text-xs text-text-muted">
-                    <div><strong>Not started</strong> — Not yet reviewed</div>
-                    <div><strong>In progress</strong> — Working on it</div>
-                    <div><strong>Done</strong> — Completed</div>
-                    <div><strong>Not applicable</strong> — Doesn't apply</div>
+                    <div><strong>{t('settings.guide.status.notStarted')}</strong> {t('settings.guide.status.notStarted.note')}</div>
+                    <div><strong>{t('settings.guide.status.inProgress')}</strong> {t('settings.guide.status.inProgress.note')}</div>
+                    <div><strong>{t('settings.guide.status.done')}</strong> {t('settings.guide.status.done.note')}</div>
+                    <div><strong>{t('settings.guide.status.notApplicable')}</strong> {t('settings.guide.status.notApplicable.note')}</div>
                   </div>
                 </section>
               </div>
 
               <div className="space-y-4">
                 <section>
-                  <h3 className="font-semibold text-text-primary mb-1">Timeline Phases</h3>
+                  <h3 className="font-semibold text-text-primary mb-1">{t('settings.guide.phases.title')}</h3>
                   <div className="text-xs text-text-muted space-y-0.5">
-                    <div><span className="text-accent-gold">The first few days</span> — Immediate priorities</div>
-                    <div><span className="text-accent-gold">Week 1</span> — Early notifications</div>
-                    <div><span className="text-accent-gold">Weeks 2-6</span> — Financial and legal matters</div>
-                    <div><span className="text-accent-gold">Days 60-90</span> — Follow-ups</div>
-                    <div><span className="text-accent-gold">Long Term</span> — Settlement and planning</div>
+                    <div><span className="text-accent-gold">{t('settings.guide.phases.first')}</span> {t('settings.guide.phases.first.note')}</div>
+                    <div><span className="text-accent-gold">{t('settings.guide.phases.week1')}</span> {t('settings.guide.phases.week1.note')}</div>
+                    <div><span className="text-accent-gold">{t('settings.guide.phases.weeks')}</span> {t('settings.guide.phases.weeks.note')}</div>
+                    <div><span className="text-accent-gold">{t('settings.guide.phases.days')}</span> {t('settings.guide.phases.days.note')}</div>
+                    <div><span className="text-accent-gold">{t('settings.guide.phases.long')}</span> {t('settings.guide.phases.long.note')}</div>
                   </div>
                 </section>
 
                 <section>
-                  <h3 className="font-semibold text-text-primary mb-1">Privacy</h3>
-                  <p className="text-text-secondary text-xs">All data stays on your device. Nothing is uploaded to the cloud.</p>
+                  <h3 className="font-semibold text-text-primary mb-1">{t('settings.guide.privacy.title')}</h3>
+                  <p className="text-text-secondary text-xs">{t('settings.guide.privacy.body')}</p>
                 </section>
               </div>
             </div>
@@ -812,32 +1003,20 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
             <div className="flex items-center justify-between p-4 border-b border-border-subtle">
               <div className="flex items-center gap-2">
                 <HelpCircle className="w-5 h-5 text-accent-gold" />
-                <h2 className="text-lg font-semibold text-text-primary">Frequently Asked Questions</h2>
+                <h2 className="text-lg font-semibold text-text-primary">{t('settings.faq.title')}</h2>
               </div>
-              <button onClick={() => setShowFAQs(false)} className="p-1.5 text-text-secondary hover:text-text-primary rounded-lg hover:bg-card-bg-hover">
+              <button onClick={() => setShowFAQs(false)} aria-label={t('settings.help.close')} className="p-1.5 text-text-secondary hover:text-text-primary rounded-lg hover:bg-card-bg-hover">
                 <X className="w-5 h-5" />
               </button>
             </div>
             <div className="p-4 overflow-y-auto space-y-2 text-sm">
-              {[
-                { q: 'What is the AfterPassing Guide?', a: 'The AfterPassing Guide is an organizational tool that helps families manage paperwork, notifications, and administrative tasks after a loss. It provides checklists, document organization, templates, and executor tools in one place.' },
-                { q: 'Is this legal or financial advice?', a: 'No. The AfterPassing Guide provides administrative and organizational guidance only. It does not replace attorneys, accountants, or medical professionals.' },
-                { q: 'Who is this for?', a: 'Anyone helping manage affairs after a death, including spouses, adult children, executors, trustees, and caregivers.' },
-                { q: 'Is my data stored online?', a: 'No. All data is stored locally on your device unless you choose to export it.' },
-                { q: 'Does the app require internet access?', a: 'No. The app works offline. Internet access is only needed if you open external resource links.' },
-                { q: 'Can I use this without a Local Legacy Vault?', a: 'Yes. The AfterPassing Guide works on its own. If you use a Local Legacy Vault, certain data can appear automatically, but it is not required.' },
-                { q: 'Can multiple people use the same data?', a: 'The app is designed for one device at a time. You can share information by exporting the Estate Binder PDF.' },
-                { q: 'What is the Estate Binder?', a: 'The Estate Binder is a downloadable PDF summary that includes selected checklist items, notes, documents list, and contacts for professional handoff.' },
-                { q: 'Can I edit templates before using them?', a: 'Yes. Templates are meant to be adapted. You can copy, edit, and personalize them.' },
-                { q: 'Can I back up my data?', a: 'Yes. You can export a full backup file and restore it later if needed.' },
-                { q: 'Can I delete everything and start over?', a: 'Yes. The Reset Data option clears AfterPassing Guide data on this device.' },
-              ].map((faq, index) => (
-                <div key={index} className="border border-border-subtle rounded-lg overflow-hidden">
+              {FAQ_NUMBERS.map((n, index) => (
+                <div key={n} className="border border-border-subtle rounded-lg overflow-hidden">
                   <button
                     onClick={() => setExpandedFAQ(expandedFAQ === index ? null : index)}
                     className="w-full flex items-center justify-between p-3 text-left hover:bg-card-bg-hover transition-colors"
                   >
-                    <span className="text-text-primary font-medium">{faq.q}</span>
+                    <span className="text-text-primary font-medium">{t(`settings.faq.${n}.q`)}</span>
                     {expandedFAQ === index ? (
                       <ChevronDown className="w-4 h-4 text-text-muted flex-shrink-0" />
                     ) : (
@@ -846,7 +1025,7 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
                   </button>
                   {expandedFAQ === index && (
                     <div className="px-3 pb-3 text-text-muted">
-                      {faq.a}
+                      {t(`settings.faq.${n}.a`)}
                     </div>
                   )}
                 </div>
@@ -16,25 +16,66 @@ import {
   Minus,
   Pause,
   Info,
+  Plus,
+  Pencil,
+  Trash2,
+  ArrowUp,
+  ArrowDown,
 } from 'lucide-react';
-import { AftercarePlan, AftercareTask, TaskPhase, TaskStatus } from '../../types';
+import { AftercarePlan, AftercareTask, CustomTaskInput, ExecutorChecklistItem, TaskPhase, TaskStatus } from '../../types';
 import { getPhaseInfo } from '../../services/taskGenerationEngine';
+import { addCustomTask, updateCustomTask, deleteCustomTask, moveTaskWithinPhase } from '../../services/customTasks';
+import { getTaskWindow, formatTaskWindow, scheduleTasks, ScheduleBucket } from '../../services/taskScheduling';
+import { getBlockedTasks, findDependencyCycles } from '../../services/taskDependencies';
+import { describeTaskProvenance } from '../../services/taskProvenance';
+import { setSubItemStatus, getSubItemProgress } from '../../services/taskGroups';
+import { setStepStatus, addStep, removeStep, moveStep, getStepProgress } from '../../services/taskSteps';
+import { setTaskStatus, describeRecurrence, getOccurrenceNumber } from '../../services/taskRecurrence';
+import { editTaskDescription, type TaskContentUpdate } from '../../services/taskContent';
+import { t, formatDate, type MessageKey } from '../../services/localization';
 import { TitleBar } from '../common/TitleBar';
+import { CustomTaskForm } from './CustomTaskForm';
 
 interface ChecklistViewProps {
   plan: AftercarePlan;
+  /** Executor checklist of the case; tasks can wait on its items. */
+  checklist?: ExecutorChecklistItem[];
   onPlanUpdate: (plan: AftercarePlan) => void;
   onReturnToFocus: () => void;
+  /** Newer guidance wording for saved tasks (see taskContent); offered, never applied automatically. */
+  contentUpdates?: TaskContentUpdate[];
+  /** Apply all offered updates, or only those for `taskIds`. */
+  onApplyContentUpdates?: (taskIds?: string[]) => void;
+  onDismissContentUpdates?: () => void;
 }
 
 const PHASES: TaskPhase[] = ['FIRST_48_HOURS', 'WEEK_1', 'WEEKS_2_6', 'DAYS_60_90', 'LONG_TERM'];
 const MAX_VISIBLE_TASKS = 6;
 const STATUS_GUIDE_HIDDEN_KEY = 'checklist_status_guide_hidden';
 
+type ChecklistViewMode = 'schedule' | 'phase';
+
+/** Reflection items have no status or steps. */
+const REFLECTION_TASK_KEYS = ['take-care-of-yourself', 'take-a-moment'];
+const isReflectionTask = (task: AftercareTask) => !!task.templateKey && REFLECTION_TASK_KEYS.includes(task.templateKey);
+
+const STATUSES: TaskStatus[] = ['NOT_STARTED', 'IN_PROGRESS', 'DONE', 'NOT_APPLICABLE'];
+const statusLabel = (status: TaskStatus) => t(`status.${status}`);
+
+const SCHEDULE_GROUPS: { bucket: ScheduleBucket; label: MessageKey; note: MessageKey }[] = [
+  { bucket: 'this-week', label: 'checklist.schedule.thisWeek', note: 'checklist.schedule.thisWeek.note' },
+  { bucket: 'overdue', label: 'checklist.schedule.overdue', note: 'checklist.schedule.overdue.note' },
+  { bucket: 'upcoming', label: 'checklist.schedule.upcoming', note: 'checklist.schedule.upcoming.note' },
+];
+
 export const ChecklistView: React.FC<ChecklistViewProps> = ({ 
   plan, 
+  checklist = [],
   onPlanUpdate, 
-  onReturnToFocus 
+  onReturnToFocus,
+  contentUpdates = [],
+  onApplyContentUpdates,
+  onDismissContentUpdates,
 }) => {
   // Collapse sections by default after first visit; first time only First 48 Hours expanded
   const [expandedPhases, setExpandedPhases] = useState<Set<TaskPhase>>(() => {
@@ -52,6 +93,7 @@ export const ChecklistView: React.FC<ChecklistViewProps> = ({
   }, []);
   const [showFilters, setShowFilters] = useState(false);
   const [hideCompleted, setHideCompleted] = useState(false);
+  const [unblockedOnly, setUnblockedOnly] = useState(false);
   const [expandedTasks, setExpandedTasks] = useState<Set<string>>(new Set());
   const [showAllInPhase, setShowAllInPhase] = useState<Set<TaskPhase>>(new Set());
   const [showStatusGuide, setShowStatusGuide] = useState(false);
@@ -61,6 +103,14 @@ export const ChecklistView: React.FC<ChecklistViewProps> = ({
     } catch { return false; }
   });
   const statusGuideRef = useRef<HTMLDivElement>(null);
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [editingTaskId, setEditingTaskId] = useState<string | null>(null);
+  const [stepDrafts, setStepDrafts] = useState<Record<string, string>>({});
+  const [descriptionDraft, setDescriptionDraft] = useState<{ taskId: string; text: string } | null>(null);
+  // Without a date of death there are no target dates; only the phase labels apply
+  const dateOfDeath = plan.profile.dateOfDeath;
+  const [viewMode, setViewMode] = useState<ChecklistViewMode>(dateOfDeath ? 'schedule' : 'phase');
+  const showSchedule = !!dateOfDeath && viewMode === 'schedule';
 
   const hideStatusGuidePermanently = useCallback(() => {
     try {
@@ -117,19 +167,55 @@ export const ChecklistView: React.FC<ChecklistViewProps> = ({
     });
   }, []);
 
+  // Recurring tasks record the occurrence and come back with their next date
   const handleStatusChange = useCallback((task: AftercareTask, newStatus: TaskStatus) => {
-    const updatedTasks = plan.tasks.map(t => 
-      t.id === task.id 
-        ? { ...t, status: newStatus, completedAt: newStatus === 'DONE' ? new Date().toISOString() : undefined }
-        : t
-    );
     onPlanUpdate({
       ...plan,
-      tasks: updatedTasks,
+      tasks: setTaskStatus(plan.tasks, task.id, newStatus, checklist),
+      lastUpdatedAt: new Date().toISOString(),
+    });
+  }, [plan, checklist, onPlanUpdate]);
+
+  const updateTasks = useCallback((tasks: AftercareTask[]) => {
+    onPlanUpdate({
+      ...plan,
+      tasks,
       lastUpdatedAt: new Date().toISOString(),
     });
   }, [plan, onPlanUpdate]);
 
+  // A step can finish the task; a recurring task then rolls forward like any other finish
+  const handleStepStatusChange = useCallback((task: AftercareTask, stepId: string, newStatus: TaskStatus) => {
+    const tasks = setStepStatus(plan.tasks, task.id, stepId, newStatus);
+    const rolledUp = tasks.find(t => t.id === task.id)!;
+    const finished = rolledUp.status === 'DONE' || rolledUp.status === 'NOT_APPLICABLE';
+    updateTasks(rolledUp.recurrence && finished && rolledUp.status !== task.status
+      ? setTaskStatus(tasks, task.id, rolledUp.status, checklist)
+      : tasks);
+  }, [plan.tasks, checklist, updateTasks]);
+
+  const handleAddCustomTask = useCallback((input: CustomTaskInput) => {
+    updateTasks(addCustomTask(plan.tasks, input));
+    setShowAddForm(false);
+    setExpandedPhases(prev => new Set(prev).add(input.phase));
+  }, [plan.tasks, updateTasks]);
+
+  const handleEditCustomTask = useCallback((taskId: string, input: CustomTaskInput) => {
+    updateTasks(updateCustomTask(plan.tasks, taskId, input));
+    setEditingTaskId(null);
+  }, [plan.tasks, updateTasks]);
+
+  const handleSaveDescription = useCallback(() => {
+    if (!descriptionDraft) return;
+    updateTasks(editTaskDescription(plan.tasks, descriptionDraft.taskId, descriptionDraft.text));
+    setDescriptionDraft(null);
+  }, [descriptionDraft, plan.tasks, updateTasks]);
+
+  const handleDeleteCustomTask = useCallback((task: AftercareTask) => {
+    if (!confirm(t('task.deleteConfirm', { title: task.title }))) return;
+    updateTasks(deleteCustomTask(plan.tasks, task.id));
+  }, [plan.tasks, updateTasks]);
+
   // Memoize tasks grouped by phase
   const tasksByPhase = useMemo(() => {
     const grouped: Record<TaskPhase, AftercareTask[]> = {
@@ -147,6 +233,25 @@ export const ChecklistView: React.FC<ChecklistViewProps> = ({
     return grouped;
   }, [plan.tasks]);
 
+  const blockedTasks = useMemo(() => getBlockedTasks(plan.tasks, checklist), [plan.tasks, checklist]);
+  const dependencyCycles = useMemo(() => findDependencyCycles(plan.tasks, checklist), [plan.tasks, checklist]);
+
+  // "Unblocked now": open tasks with nothing left to wait on
+  const isShown = useCallback((task: AftercareTask) => {
+    const finished = task.status === 'DONE' || task.status === 'NOT_APPLICABLE';
+    if (unblockedOnly) return !finished && !blockedTasks.has(task.id);
+    return !(hideCompleted && finished);
+  }, [hideCompleted, unblockedOnly, blockedTasks]);
+
+  const schedule = useMemo(() => {
+    const scheduled = scheduleTasks(plan.tasks, dateOfDeath);
+    return {
+      overdue: scheduled.overdue.filter(s => isShown(s.task)),
+      'this-week': scheduled['this-week'].filter(s => isShown(s.task)),
+      upcoming: scheduled.upcoming.filter(s => isShown(s.task)),
+    };
+  }, [plan.tasks, dateOfDeath, isShown]);
+
   // Progress: Handled and Not needed count as addressed; Leave for now and Taking care of this do not
   const progressCount = useMemo(() => {
     const addressed = plan.tasks.filter(t => t.status === 'DONE' || t.status === 'NOT_APPLICABLE');
@@ -154,15 +259,13 @@ export const ChecklistView: React.FC<ChecklistViewProps> = ({
   }, [plan.tasks]);
 
   const getVisibleTasks = useCallback((phaseTasks: AftercareTask[], phase: TaskPhase) => {
-    let filtered = hideCompleted 
-      ? phaseTasks.filter(t => t.status !== 'DONE' && t.status !== 'NOT_APPLICABLE')
-      : phaseTasks;
+    const filtered = phaseTasks.filter(isShown);
     
     if (!showAllInPhase.has(phase) && filtered.length > MAX_VISIBLE_TASKS) {
       return { tasks: filtered.slice(0, MAX_VISIBLE_TASKS), hasMore: true, total: filtered.length };
     }
     return { tasks: filtered, hasMore: false, total: filtered.length };
-  }, [hideCompleted, showAllInPhase]);
+  }, [isShown, showAllInPhase]);
 
   // Separate first phase from others
   const firstPhase = 'FIRST_48_HOURS' as TaskPhase;
@@ -170,6 +273,386 @@ export const ChecklistView: React.FC<ChecklistViewProps> = ({
 
   const isFirstPhase = (p: TaskPhase) => p === 'FIRST_48_HOURS';
 
+  const renderTask = (task: AftercareTask) => {
+    const isTaskExpanded = expandedTasks.has(task.id);
+    const status = task.status;
+    // Status behavior: Leave=normal+pause, Taking=brighter+dot, Handled=dimmed+check, Not needed=dimmed+italic, subtext hidden. Never strikethrough.
+    const titleClasses = {
+      NOT_STARTED: 'text-text-primary font-normal',
+      IN_PROGRESS: 'text-text-primary font-medium',
+      DONE: 'text-text-primary/85 font-normal',
+      NOT_APPLICABLE: 'text-text-primary/70 font-normal italic',
+    }[status];
+    const descClasses = {
+      NOT_STARTED: 'text-sm text-text-secondary leading-relaxed',
+      IN_PROGRESS: 'text-sm text-text-secondary leading-relaxed',
+      DONE: 'text-sm text-text-secondary leading-relaxed opacity-80',
+      NOT_APPLICABLE: 'text-sm text-text-secondary leading-relaxed opacity-0 pointer-events-none h-0 overflow-hidden', // hidden
+    }[status];
+    const showSubtext = status !== 'NOT_APPLICABLE';
+    // Due date, or the target window from the date of death; nothing when neither is known
+    const taskWindow = getTaskWindow(task, dateOfDeath);
+    const timing = task.dueDate
+      ? t('task.due', { date: formatDate(task.dueDate) })
+      : taskWindow && showSubtext ? t('task.aimFor', { window: formatTaskWindow(taskWindow) }) : null;
+    const waitingOn = blockedTasks.get(task.id);
+    const provenanceLines = describeTaskProvenance(task);
+    const subItemProgress = getSubItemProgress(task);
+    const stepProgress = getStepProgress(task);
+    const recurrenceText = describeRecurrence(task, plan.tasks, checklist);
+    const contentUpdate = contentUpdates.find(update => update.taskId === task.id);
+
+    return (
+      <div key={task.id} className="px-4 py-3">
+        {/* Task Row */}
+        <button
+          onClick={() => toggleTaskExpand(task.id)}
+          className="w-full flex items-start gap-3 text-left"
+        >
+          {/* Expand/collapse arrow */}
+          <div className="flex-shrink-0 mt-0.5">
+            {isTaskExpanded ? (
+              <ChevronDown className="w-4 h-4 text-accent-gold" />
+            ) : (
+              <ChevronRight className="w-4 h-4 text-text-muted" />
+            )}
+          </div>
+
+          {/* Status indicator: pause (leave), progress dot (taking), check (handled), minus (not needed) */}
+          <div className="flex-shrink-0 w-5 flex items-start justify-center mt-0.5">
+            {status === 'NOT_STARTED' && <Pause className="w-2.5 h-2.5 text-text-muted mt-1" strokeWidth={2} />}
+            {status === 'IN_PROGRESS' && <Circle className="w-2 h-2 fill-accent-gold/70 text-accent-gold/70 mt-1" strokeWidth={2.5} />}
+            {status === 'DONE' && <Check className="w-3.5 h-3.5 text-text-muted mt-1" strokeWidth={2} />}
+            {status === 'NOT_APPLICABLE' && <Minus className="w-3.5 h-3.5 text-text-muted mt-1" strokeWidth={2} />}
+          </div>
+
+          {/* Content */}
+          <div className="flex-1 min-w-0">
+            <h4 className={`text-sm ${titleClasses}`}>
+              {task.title}
+            </h4>
+            {(task.userAuthored || timing || subItemProgress.total > 0 || stepProgress.total > 0 || task.recurrence) && (
+              <p className="text-[11px] text-text-muted mt-0.5">
+                {[
+                  task.userAuthored && t('task.yourItem'),
+                  task.recurrence && (task.occurrences?.length ? t('task.repeatsOccurrence', { number: getOccurrenceNumber(task) }) : t('task.repeats')),
+                  stepProgress.total > 0 && t('task.stepProgress', { finished: stepProgress.finished, total: stepProgress.total }),
+                  subItemProgress.total > 0 && t('task.subItemProgress', { handled: subItemProgress.handled, total: subItemProgress.total }),
+                  timing,
+                ].filter(Boolean).join(' · ')}
+              </p>
+            )}
+            {waitingOn && (
+              <p className="text-[11px] text-text-muted mt-0.5">
+                {t('task.waitingOn', { titles: waitingOn.map(dep => dep.title).join(', ') })}
+              </p>
+            )}
+            {task.sourceRemovedAt && (
+              <p className="text-[11px] text-amber-400/80 mt-0.5">
+                {task.relatedVaultRecordIds?.length
+                  ? t('task.recordRemoved')
+                  : t('task.noLongerSuggested')}
+              </p>
+            )}
+          </div>
+        </button>
+
+        {/* Editing a custom item replaces the expanded content */}
+        {isTaskExpanded && editingTaskId === task.id && (
+          <div className="mt-3 ml-7">
+            <CustomTaskForm
+              initial={{
+                title: task.title,
+                description: task.description,
+                phase: task.phase,
+                category: task.category,
+                priority: task.priority,
+                notes: task.notes,
+                dueDate: task.dueDate,
+                recurrence: task.recurrence,
+              }}
+              submitLabel={t('task.saveChanges')}
+              onSave={(input) => handleEditCustomTask(task.id, input)}
+              onCancel={() => setEditingTaskId(null)}
+            />
+          </div>
+        )}
+
+        {/* Expanded: Description and Status selector */}
+        {isTaskExpanded && editingTaskId !== task.id && (
+          <div className="mt-3 ml-7 space-y-3">
+            {descriptionDraft?.taskId === task.id ? (
+              <div className="space-y-2">
+                <textarea
+                  value={descriptionDraft.text}
+                  onChange={(e) => setDescriptionDraft({ taskId: task.id, text: e.target.value })}
+                  rows={4}
+                  aria-label={t('task.descriptionOf', { title: task.title })}
+                  className="w-full px-3 py-2 rounded-lg bg-vault-dark border border-border-subtle text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-accent-gold/50"
+                />
+                <p className="text-[11px] text-text-muted">{t('task.descriptionKept')}</p>
+                <div className="flex items-center gap-3">
+                  <button type="button" onClick={handleSaveDescription} className="text-xs text-accent-gold hover:underline">
+                    {t('task.saveDescription')}
+                  </button>
+                  <button type="button" onClick={() => setDescriptionDraft(null)} className="text-xs text-text-muted hover:text-text-secondary">
+                    {t('common.cancel')}
+                  </button>
+                </div>
+              </div>
+            ) : task.description && showSubtext && (
+              status === 'DONE' ? (
+                <details className="group/details">
+                  <summary className="text-xs text-text-muted cursor-pointer hover:text-text-secondary list-none py-0.5">
+                    {t('task.whatThisIs')}
+                  </summary>
+                  <p className="mt-1 text-sm text-text-secondary leading-relaxed opacity-80">{task.description}</p>
+                </details>
+              ) : (
+                <p className={descClasses}>{task.description}</p>
+              )
+            )}
+            
+            {/* Newer wording for this item; applied only when asked */}
+            {contentUpdate && onApplyContentUpdates && (
+              <div className="rounded-md border border-accent-gold/20 bg-accent-gold/5 px-3 py-2 space-y-1.5">
+                <p className="text-xs font-medium text-accent-gold">{t('checklist.updates.available')}</p>
+                {contentUpdate.updated.title && (
+                  <p className="text-xs text-text-secondary">{t('checklist.updates.newTitle', { title: contentUpdate.updated.title })}</p>
+                )}
+                {contentUpdate.updated.description && (
+                  <p className="text-xs text-text-secondary leading-relaxed">{contentUpdate.updated.description}</p>
+                )}
+                <button
+                  type="button"
+                  onClick={() => onApplyContentUpdates([task.id])}
+                  className="text-xs text-accent-gold hover:underline"
+                >
+                  {t('checklist.updates.apply')}
+                </button>
+              </div>
+            )}
+
+            {/* Recurrence and earlier occurrences */}
+            {recurrenceText && (
+              <div className="space-y-1">
+                <p className="text-[11px] text-text-muted">{recurrenceText}</p>
+                {task.occurrences && task.occurrences.length > 0 && (
+                  <details>
+                    <summary className="text-xs text-text-muted cursor-pointer hover:text-text-secondary list-none py-0.5">
+                      {t('task.earlierOccurrences', { count: task.occurrences.length })}
+                    </summary>
+                    <ul className="mt-1 space-y-0.5">
+                      {[...task.occurrences].reverse().map((occurrence) => (
+                        <li key={occurrence.number} className="text-xs text-text-secondary">
+                          {t('task.occurrence', { number: occurrence.number, status: statusLabel(occurrence.status), date: formatDate(occurrence.completedAt) })}
+                          {occurrence.dueDate && ` ${t('task.occurrenceDue', { date: formatDate(occurrence.dueDate) })}`}
+                        </li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
+              </div>
+            )}
+
+            {/* Grouped records: each keeps its own status */}
+            {task.subItems && task.subItems.length > 0 && (
+              <ul className="space-y-1 border-l border-white/10 pl-3" aria-label={t('task.recordsIn', { title: task.title })}>
+                {task.subItems.map((item) => (
+                  <li key={item.vaultRecordId} className="flex items-center justify-between gap-3">
+                    <span className={`text-xs ${item.status === 'DONE' || item.status === 'NOT_APPLICABLE' ? 'text-text-muted' : 'text-text-secondary'}`}>
+                      {item.title}
+                    </span>
+                    <select
+                      value={item.status}
+                      onChange={(e) => updateTasks(setSubItemStatus(plan.tasks, task.id, item.vaultRecordId, e.target.value as TaskStatus))}
+                      aria-label={t('task.statusOf', { title: item.title })}
+                      className="text-[11px] px-1.5 py-0.5 rounded bg-transparent border border-white/10 text-text-muted focus:outline-none focus:ring-1 focus:ring-accent-gold/50"
+                    >
+                      {STATUSES.map((s) => <option key={s} value={s}>{statusLabel(s)}</option>)}
+                    </select>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {/* Why this task was generated: rule, vault records, profile answers, location pack */}
+            {provenanceLines.length > 0 && (
+              <details className="group/why">
+                <summary className="inline-flex items-center gap-1 text-xs text-text-muted cursor-pointer hover:text-text-secondary list-none py-0.5">
+                  <Info className="w-3 h-3" /> {t('task.why')}
+                </summary>
+                <ul className="mt-1 space-y-0.5">
+                  {provenanceLines.map((line) => (
+                    <li key={line} className="text-xs text-text-secondary leading-relaxed">{line}</li>
+                  ))}
+                </ul>
+              </details>
+            )}
+
+            {/* Steps, in order; the task's status follows them */}
+            {task.steps && task.steps.length > 0 && (
+              <ol className="space-y-1" aria-label={t('task.stepsFor', { title: task.title })}>
+                {task.steps.map((step, i) => (
+                  <li key={step.id} className="flex items-center gap-2">
+                    <span className="w-4 text-[11px] text-text-muted text-right">{i + 1}.</span>
+                    <span className={`flex-1 text-xs ${step.status === 'DONE' || step.status === 'NOT_APPLICABLE' ? 'text-text-muted' : 'text-text-secondary'}`}>
+                      {step.title}
+                    </span>
+                    <select
+                      value={step.status}
+                      onChange={(e) => handleStepStatusChange(task, step.id, e.target.value as TaskStatus)}
+                      aria-label={t('task.stepStatus', { title: step.title })}
+                      className="text-[11px] px-1.5 py-0.5 rounded bg-transparent border border-white/10 text-text-muted focus:outline-none focus:ring-1 focus:ring-accent-gold/50"
+                    >
+                      {STATUSES.map((s) => <option key={s} value={s}>{statusLabel(s)}</option>)}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={() => updateTasks(moveStep(plan.tasks, task.id, step.id, 'up'))}
+                      aria-label={t('task.moveStepUp', { title: step.title })}
+                      className="p-0.5 rounded text-text-muted hover:bg-white/5 hover:text-text-primary"
+                    >
+                      <ArrowUp className="w-3 h-3" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => updateTasks(moveStep(plan.tasks, task.id, step.id, 'down'))}
+                      aria-label={t('task.moveStepDown', { title: step.title })}
+                      className="p-0.5 rounded text-text-muted hover:bg-white/5 hover:text-text-primary"
+                    >
+                      <ArrowDown className="w-3 h-3" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => updateTasks(removeStep(plan.tasks, task.id, step.id))}
+                      aria-label={t('task.removeStep', { title: step.title })}
+                      className="p-0.5 rounded text-text-muted hover:bg-white/5 hover:text-red-400"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </li>
+                ))}
+              </ol>
+            )}
+            {!isReflectionTask(task) && (
+              <form
+                className="flex items-center gap-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  updateTasks(addStep(plan.tasks, task.id, stepDrafts[task.id] ?? ''));
+                  setStepDrafts(prev => ({ ...prev, [task.id]: '' }));
+                }}
+              >
+                <input
+                  type="text"
+                  value={stepDrafts[task.id] ?? ''}
+                  onChange={(e) => setStepDrafts(prev => ({ ...prev, [task.id]: e.target.value }))}
+                  placeholder={t('task.addStep')}
+                  aria-label={t('task.addStepTo', { title: task.title })}
+                  className="flex-1 px-2 py-1 text-xs rounded bg-transparent border border-white/10 text-text-primary placeholder:text-text-muted focus:outline-none focus:ring-1 focus:ring-accent-gold/50"
+                />
+                <button
+                  type="submit"
+                  disabled={!(stepDrafts[task.id] ?? '').trim()}
+                  className="inline-flex items-center gap-1 px-2 py-1 text-[11px] text-text-muted rounded hover:bg-white/5 hover:text-text-primary disabled:opacity-40"
+                >
+                  <Plus className="w-3 h-3" /> {t('task.addStep.submit')}
+                </button>
+              </form>
+            )}
+
+            {/* Status — one selectable at a time; immediate, quiet; subtle selected state for all. Tasks with steps follow their steps. */}
+            {task.steps && task.steps.length > 0 && (
+              <p className="text-[11px] text-text-muted">{t('task.statusFollowsSteps', { status: statusLabel(task.status).toLowerCase() })}</p>
+            )}
+            {!task.steps?.length && !isReflectionTask(task) && (
+              <div className="flex flex-wrap gap-1.5 pt-2" role="group" aria-label={t('task.statusOptions', { title: task.title })}>
+                {STATUSES.map((s) => {
+                  const label = statusLabel(s);
+                  const isPressed = task.status === s;
+                  return (
+                    <button
+                      key={s}
+                      type="button"
+                      onClick={(e) => {
+                        e.preventDefault();
+                        e.stopPropagation();
+                        handleStatusChange(task, s);
+                      }}
+                      aria-pressed={isPressed}
+                      aria-label={t('task.markAs', { title: task.title, status: label.toLowerCase() })}
+                      className={`px-2.5 py-1.5 text-[11px] font-normal rounded transition-colors cursor-pointer border ${
+                        isPressed
+                          ? 'bg-white/8 text-text-primary border-white/15'
+                          : 'bg-transparent text-text-muted hover:bg-white/5 hover:text-text-primary border-transparent'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+
+            {task.userAuthored && task.notes && (
+              <p className="text-xs text-text-secondary whitespace-pre-wrap">
+                <span className="text-text-muted">{t('task.notes')} </span>{task.notes}
+              </p>
+            )}
+
+            {/* Order within the phase; edit and delete for the user's own items */}
+            <div className="flex flex-wrap items-center gap-1 text-[11px] text-text-muted">
+              <button
+                type="button"
+                onClick={() => updateTasks(moveTaskWithinPhase(plan.tasks, task.id, 'up'))}
+                aria-label={t('task.moveUp', { title: task.title })}
+                className="p-1 rounded hover:bg-white/5 hover:text-text-primary"
+              >
+                <ArrowUp className="w-3.5 h-3.5" />
+              </button>
+              <button
+                type="button"
+                onClick={() => updateTasks(moveTaskWithinPhase(plan.tasks, task.id, 'down'))}
+                aria-label={t('task.moveDown', { title: task.title })}
+                className="p-1 rounded hover:bg-white/5 hover:text-text-primary"
+              >
+                <ArrowDown className="w-3.5 h-3.5" />
+              </button>
+              {!task.userAuthored && descriptionDraft?.taskId !== task.id && (
+                <button
+                  type="button"
+                  onClick={() => setDescriptionDraft({ taskId: task.id, text: task.description })}
+                  className="inline-flex items-center gap-1 px-2 py-1 rounded hover:bg-white/5 hover:text-text-primary"
+                >
+                  <Pencil className="w-3 h-3" /> {t('task.editDescription')}
+                </button>
+              )}
+              {task.userAuthored && (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => setEditingTaskId(task.id)}
+                    className="inline-flex items-center gap-1 px-2 py-1 rounded hover:bg-white/5 hover:text-text-primary"
+                  >
+                    <Pencil className="w-3 h-3" /> {t('task.edit')}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDeleteCustomTask(task)}
+                    className="inline-flex items-center gap-1 px-2 py-1 rounded hover:bg-white/5 hover:text-red-400"
+                  >
+                    <Trash2 className="w-3 h-3" /> {t('task.delete')}
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
   const renderPhaseCard = (phase: TaskPhase) => {
     const phaseTasks = tasksByPhase[phase];
     const isExpanded = expandedPhases.has(phase);
@@ -177,7 +660,7 @@ export const ChecklistView: React.FC<ChecklistViewProps> = ({
     const { tasks: visibleTasks, hasMore, total } = getVisibleTasks(phaseTasks, phase);
     const primary = isFirstPhase(phase);
 
-    if (phaseTasks.length === 0) return null;
+    if (phaseTasks.length === 0 || (unblockedOnly && total === 0)) return null;
 
     return (
       <div 
@@ -199,7 +682,9 @@ export const ChecklistView: React.FC<ChecklistViewProps> = ({
           }}
           aria-expanded={isExpanded}
           aria-controls={`phase-${phase}-content`}
-          aria-label={primary ? `${phaseInfo.label} phase` : `${phaseInfo.label} phase, ${phaseTasks.length} items`}
+          aria-label={primary
+            ? t('checklist.phase', { phase: phaseInfo.label })
+            : t('checklist.phaseWithCount', { phase: phaseInfo.label, count: phaseTasks.length })}
           className={`w-full flex items-center justify-between text-left transition-colors ${
             primary
               ? 'px-5 py-4 hover:bg-white/[0.03]'
@@ -218,120 +703,21 @@ export const ChecklistView: React.FC<ChecklistViewProps> = ({
                 : 'font-normal text-sm text-text-muted'
               }>{phaseInfo.label}</h3>
               {!isExpanded && !primary && (
-                <p className="text-xs text-text-muted/80 mt-0.5">{phaseTasks.length} items</p>
+                <p className="text-xs text-text-muted/80 mt-0.5">{t('common.itemCount', { count: phaseTasks.length })}</p>
               )}
             </div>
           </div>
           {isExpanded && !primary && (
-            <span className="text-xs text-text-muted/80">{phaseTasks.length} items</span>
+            <span className="text-xs text-text-muted/80">{t('common.itemCount', { count: phaseTasks.length })}</span>
           )}
         </button>
 
         {/* Phase Content - Only when expanded */}
         {isExpanded && (
-          <div id={`phase-${phase}-content`} className={primary ? 'border-t border-accent-gold/15' : 'border-t border-white/5'} role="region" aria-label={`${phaseInfo.label} tasks`}>
+          <div id={`phase-${phase}-content`} className={primary ? 'border-t border-accent-gold/15' : 'border-t border-white/5'} role="region" aria-label={t('checklist.phaseTasks', { phase: phaseInfo.label })}>
             {/* Tasks */}
             <div className="divide-y divide-border-subtle">
-              {visibleTasks.map((task) => {
-                const isTaskExpanded = expandedTasks.has(task.id);
-                const status = task.status;
-                // Status behavior: Leave=normal+pause, Taking=brighter+dot, Handled=dimmed+check, Not needed=dimmed+italic, subtext hidden. Never strikethrough.
-                const titleClasses = {
-                  NOT_STARTED: 'text-text-primary font-normal',
-                  IN_PROGRESS: 'text-text-primary font-medium',
-                  DONE: 'text-text-primary/85 font-normal',
-                  NOT_APPLICABLE: 'text-text-primary/70 font-normal italic',
-                }[status];
-                const descClasses = {
-                  NOT_STARTED: 'text-sm text-text-secondary leading-relaxed',
-                  IN_PROGRESS: 'text-sm text-text-secondary leading-relaxed',
-                  DONE: 'text-sm text-text-secondary leading-relaxed opacity-80',
-                  NOT_APPLICABLE: 'text-sm text-text-secondary leading-relaxed opacity-0 pointer-events-none h-0 overflow-hidden', // hidden
-                }[status];
-                const showSubtext = status !== 'NOT_APPLICABLE';
-                
-                return (
-                  <div key={task.id} className="px-4 py-3">
-                    {/* Task Row */}
-                    <button
-                      onClick={() => toggleTaskExpand(task.id)}
-                      className="w-full flex items-start gap-3 text-left"
-                    >
-                      {/* Expand/collapse arrow */}
-                      <div className="flex-shrink-0 mt-0.5">
-                        {isTaskExpanded ? (
-                          <ChevronDown className="w-4 h-4 text-accent-gold" />
-                        ) : (
-                          <ChevronRight className="w-4 h-4 text-text-muted" />
-                        )}
-                      </div>
-
-                      {/* Status indicator: pause (leave), progress dot (taking), check (handled), minus (not needed) */}
-                      <div className="flex-shrink-0 w-5 flex items-start justify-center mt-0.5">
-                        {status === 'NOT_STARTED' && <Pause className="w-2.5 h-2.5 text-text-muted mt-1" strokeWidth={2} />}
-                        {status === 'IN_PROGRESS' && <Circle className="w-2 h-2 fill-accent-gold/70 text-accent-gold/70 mt-1" strokeWidth={2.5} />}
-                        {status === 'DONE' && <Check className="w-3.5 h-3.5 text-text-muted mt-1" strokeWidth={2} />}
-                        {status === 'NOT_APPLICABLE' && <Minus className="w-3.5 h-3.5 text-text-muted mt-1" strokeWidth={2} />}
-                      </div>
-
-                      {/* Content */}
-                      <div className="flex-1 min-w-0">
-                        <h4 className={`text-sm ${titleClasses}`}>
-                          {task.title}
-                        </h4>
-                      </div>
-                    </button>
-
-                    {/* Expanded: Description and Status selector */}
-                    {isTaskExpanded && (
-                      <div className="mt-3 ml-7 space-y-3">
-                        {task.description && showSubtext && (
-                          status === 'DONE' ? (
-                            <details className="group/details">
-                              <summary className="text-xs text-text-muted cursor-pointer hover:text-text-secondary list-none py-0.5">
-                                What this is
-                              </summary>
-                              <p className="mt-1 text-sm text-text-secondary leading-relaxed opacity-80">{task.description}</p>
-                            </details>
-                          ) : (
-                            <p className={descClasses}>{task.description}</p>
-                          )
-                        )}
-                        
-                        {/* Status — one selectable at a time; immediate, quiet; subtle selected state for all */}
-                        {task.title !== 'Take care of yourself' && task.title !== 'Take a moment' && (
-                          <div className="flex flex-wrap gap-1.5 pt-2" role="group" aria-label={`Status options for ${task.title}`}>
-                            {(['NOT_STARTED', 'IN_PROGRESS', 'DONE', 'NOT_APPLICABLE'] as const).map((s) => {
-                              const label = { NOT_STARTED: 'Leave for now', IN_PROGRESS: 'Taking care of this', DONE: 'Handled', NOT_APPLICABLE: 'Not needed' }[s];
-                              const isPressed = task.status === s;
-                              return (
-                                <button
-                                  key={s}
-                                  type="button"
-                                  onClick={(e) => {
-                                    e.preventDefault();
-                                    e.stopPropagation();
-                                    handleStatusChange(task, s);
-                                  }}
-                                  aria-pressed={isPressed}
-                                  aria-label={`Mark ${task.title} as ${label.toLowerCase()}`}
-                                  className={`px-2.5 py-1.5 text-[11px] font-normal rounded transition-colors cursor-pointer border ${
-                                    isPressed
-                                      ? 'bg-white/8 text-text-primary border-white/15'
-                                      : 'bg-transparent text-text-muted hover:bg-white/5 hover:text-text-primary border-transparent'
-                                  }`}
-                                >
-                                  {label}
-                                </button>
-                              );
-                            })}
-                          </div>
-                        )}
-                      </div>
-                    )}
-                  </div>
-                );
-              })}
+              {visibleTasks.map(renderTask)}
             </div>
 
             {/* Show more button */}
@@ -345,7 +731,7 @@ export const ChecklistView: React.FC<ChecklistViewProps> = ({
                   })}
                   className="text-sm text-accent-gold hover:underline"
                 >
-                  Show {total - visibleTasks.length} more items
+                  {t('checklist.showMore', { count: total - visibleTasks.length })}
                 </button>
               </div>
             )}
@@ -355,16 +741,44 @@ export const ChecklistView: React.FC<ChecklistViewProps> = ({
     );
   };
 
+  const renderScheduleGroup = ({ bucket, label, note }: typeof SCHEDULE_GROUPS[number]) => {
+    const items = schedule[bucket];
+    if (items.length === 0) return null;
+    const primary = bucket === 'this-week';
+
+    return (
+      <div
+        key={bucket}
+        className={primary
+          ? 'rounded-xl border border-accent-gold/25 overflow-hidden bg-card-bg/80'
+          : 'rounded-lg border border-white/5 overflow-hidden bg-card-bg/40'
+        }
+        role="region"
+        aria-label={t('checklist.schedule.tasks', { label: t(label) })}
+      >
+        <div className={primary ? 'px-5 py-4' : 'px-4 py-2.5'}>
+          <h3 className={primary ? 'font-medium text-base text-accent-gold' : 'font-normal text-sm text-text-muted'}>
+            {t(label)} <span className="text-xs text-text-muted/80 font-normal">· {t('common.itemCount', { count: items.length })}</span>
+          </h3>
+          <p className="text-xs text-text-muted/80 mt-0.5">{t(note)}</p>
+        </div>
+        <div className={`divide-y divide-border-subtle border-t ${primary ? 'border-accent-gold/15' : 'border-white/5'}`}>
+          {items.map(({ task }) => renderTask(task))}
+        </div>
+      </div>
+    );
+  };
+
   return (
     <div className="max-w-5xl mx-auto">
       {/* Header — flat zone: subtle gradient, bottom inner shadow, thin gold rule */}
       <div className="mb-5 flex items-start justify-between gap-4">
         <div className="page-header-zone flex flex-col items-center text-center flex-1 min-w-0 relative">
           <div className="flex flex-col items-center">
-            <h1 className="text-xl font-semibold text-text-primary">Checklist</h1>
+            <h1 className="text-xl font-semibold text-text-primary">{t('checklist.title')}</h1>
             <TitleBar className="mt-1.5" />
           </div>
-          <p className="text-text-muted text-sm mt-1.5">A place to start.</p>
+          <p className="text-text-muted text-sm mt-1.5">{t('checklist.subtitle')}</p>
           {plan.tasks.length > 0 && (
             <div className="w-full max-w-xs mt-2 mx-auto">
               <div className="h-1 bg-slate-700/60 rounded-full overflow-hidden">
@@ -387,34 +801,34 @@ export const ChecklistView: React.FC<ChecklistViewProps> = ({
                 aria-haspopup="true"
               >
                 <Info className="w-3.5 h-3.5" />
-                <span>Status guide</span>
+                <span>{t('checklist.statusGuide')}</span>
               </button>
               {showStatusGuide && (
                 <div
                   className="absolute right-0 top-full mt-1.5 z-20 w-64 p-3 bg-card-bg border border-border-subtle rounded-lg shadow-lg text-left"
                   role="dialog"
-                  aria-label="Status guide"
+                  aria-label={t('checklist.statusGuide')}
                 >
                   <div className="space-y-2 text-xs text-text-secondary">
                     <div className="flex items-start gap-2">
                       <Pause className="w-4 h-4 shrink-0 mt-0.5 text-text-muted" />
-                      <span><strong className="text-text-primary font-medium">Leave for now.</strong> Stays active; not counted as addressed.</span>
+                      <span><strong className="text-text-primary font-medium">{statusLabel('NOT_STARTED')}.</strong> {t('checklist.statusGuide.notStarted')}</span>
                     </div>
                     <div className="flex items-start gap-2">
                       <span className="w-4 h-4 shrink-0 mt-0.5 rounded-full bg-accent-gold/60 border border-accent-gold/40" />
-                      <span><strong className="text-text-primary font-medium">Taking care of this.</strong> In progress; not counted as addressed.</span>
+                      <span><strong className="text-text-primary font-medium">{statusLabel('IN_PROGRESS')}.</strong> {t('checklist.statusGuide.inProgress')}</span>
                     </div>
                     <div className="flex items-start gap-2">
                       <Check className="w-4 h-4 shrink-0 mt-0.5 text-text-muted" />
-                      <span><strong className="text-text-primary font-medium">Handled.</strong> Collapses by default; counts as addressed.</span>
+                      <span><strong className="text-text-primary font-medium">{statusLabel('DONE')}.</strong> {t('checklist.statusGuide.done')}</span>
                     </div>
                     <div className="flex items-start gap-2">
                       <Minus className="w-4 h-4 shrink-0 mt-0.5 text-text-muted" />
-                      <span><strong className="text-text-primary font-medium">Not needed.</strong> Muted; not counted against progress.</span>
+                      <span><strong className="text-text-primary font-medium">{statusLabel('NOT_APPLICABLE')}.</strong> {t('checklist.statusGuide.notApplicable')}</span>
                     </div>
                   </div>
                   <p className="text-text-muted text-xs mt-2.5 border-t border-border-subtle pt-2">
-                    Handled and Not needed count as addressed. Leave for now and Taking care of this do not.
+                    {t('checklist.statusGuide.summary')}
                   </p>
                   <div className="flex items-center justify-between gap-2 mt-3">
                     <button
@@ -422,14 +836,14 @@ export const ChecklistView: React.FC<ChecklistViewProps> = ({
                       onClick={() => setShowStatusGuide(false)}
                       className="text-xs text-accent-gold hover:underline"
                     >
-                      Got it
+                      {t('checklist.statusGuide.gotIt')}
                     </button>
                     <button
                       type="button"
                       onClick={hideStatusGuidePermanently}
                       className="text-xs text-text-muted hover:text-text-secondary"
                     >
-                      Don't show again
+                      {t('checklist.statusGuide.hide')}
                     </button>
                   </div>
                 </div>
@@ -438,8 +852,8 @@ export const ChecklistView: React.FC<ChecklistViewProps> = ({
           )}
           <button
             onClick={() => setShowFilters(!showFilters)}
-            title="Filters"
-            aria-label={showFilters ? 'Hide filters' : 'Show filters'}
+            title={t('checklist.filters')}
+            aria-label={showFilters ? t('checklist.filters.hide') : t('checklist.filters.show')}
             className="p-2 text-text-muted/70 hover:text-text-muted rounded transition-colors"
           >
             <Filter className="w-4 h-4" />
@@ -457,8 +871,22 @@ export const ChecklistView: React.FC<ChecklistViewProps> = ({
               onChange={(e) => setHideCompleted(e.target.checked)}
               className="w-4 h-4 rounded border-slate-500 bg-slate-600 text-accent-gold focus:ring-accent-gold"
             />
-            <span className="text-sm text-text-secondary">Hide completed items</span>
+            <span className="text-sm text-text-secondary">{t('checklist.filters.hideCompleted')}</span>
+          </label>
+          <label className="flex items-center gap-3 cursor-pointer mt-2">
+            <input
+              type="checkbox"
+              checked={unblockedOnly}
+              onChange={(e) => setUnblockedOnly(e.target.checked)}
+              className="w-4 h-4 rounded border-slate-500 bg-slate-600 text-accent-gold focus:ring-accent-gold"
+            />
+            <span className="text-sm text-text-secondary">{t('checklist.filters.unblockedOnly')}</span>
           </label>
+          {dependencyCycles.length > 0 && (
+            <p className="mt-2 text-xs text-amber-400/80">
+              {t('checklist.filters.cycles', { cycles: dependencyCycles.map(cycle => cycle.join(' → ')).join('; ') })}
+            </p>
+          )}
           {statusGuideLinkHidden && (
             <button
               type="button"
@@ -470,18 +898,94 @@ export const ChecklistView: React.FC<ChecklistViewProps> = ({
               }}
               className="mt-2 text-sm text-text-muted hover:text-text-secondary"
             >
-              Show status guide
+              {t('checklist.statusGuide.show')}
             </button>
           )}
         </div>
       )}
 
+      {/* View: by date (needs a date of death) or by phase */}
+      {dateOfDeath && plan.tasks.length > 0 && (
+        <div className="mb-4 inline-flex rounded-lg border border-border-subtle p-0.5 text-xs" role="group" aria-label={t('checklist.view')}>
+          {([['schedule', 'checklist.view.byDate'], ['phase', 'checklist.view.byPhase']] as const).map(([mode, label]) => (
+            <button
+              key={mode}
+              type="button"
+              onClick={() => setViewMode(mode)}
+              aria-pressed={viewMode === mode}
+              className={`px-3 py-1.5 rounded-md transition-colors ${
+                viewMode === mode ? 'bg-white/8 text-text-primary' : 'text-text-muted hover:text-text-primary'
+              }`}
+            >
+              {t(label)}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Newer guidance wording for saved items */}
+      {contentUpdates.length > 0 && onApplyContentUpdates && (
+        <div className="mb-4 p-3 bg-card-bg rounded-lg border border-accent-gold/25" role="status">
+          <p className="text-sm text-text-primary">
+            {contentUpdates.length === 1
+              ? t('checklist.updates.bannerOne')
+              : t('checklist.updates.bannerOther', { count: contentUpdates.length })}
+          </p>
+          <p className="text-xs text-text-muted mt-0.5">
+            {t('checklist.updates.note')}
+          </p>
+          <ul className="mt-2 space-y-0.5">
+            {contentUpdates.map(update => (
+              <li key={update.taskId} className="text-xs text-text-secondary">{update.current.title}</li>
+            ))}
+          </ul>
+          <div className="flex items-center gap-3 mt-2">
+            <button type="button" onClick={() => onApplyContentUpdates()} className="text-xs text-accent-gold hover:underline">
+              {t('checklist.updates.apply')}
+            </button>
+            {onDismissContentUpdates && (
+              <button type="button" onClick={onDismissContentUpdates} className="text-xs text-text-muted hover:text-text-secondary">
+                {t('checklist.updates.dismiss')}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Add your own item */}
+      <div className="mb-4">
+        {showAddForm ? (
+          <div className="p-4 bg-card-bg rounded-lg border border-border-subtle">
+            <CustomTaskForm submitLabel={t('checklist.addItem.submit')} onSave={handleAddCustomTask} onCancel={() => setShowAddForm(false)} />
+          </div>
+        ) : (
+          <button
+            type="button"
+            onClick={() => setShowAddForm(true)}
+            className="inline-flex items-center gap-1.5 text-sm text-text-muted hover:text-accent-gold transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            {t('checklist.addItem')}
+          </button>
+        )}
+      </div>
+
       {/* Sections */}
       {plan.tasks.length === 0 ? (
         <div className="text-center py-8 bg-card-bg/50 rounded-xl border border-white/5">
-          <p className="text-text-secondary mb-2">No guidance items yet</p>
+          <p className="text-text-secondary mb-2">{t('checklist.empty.title')}</p>
           <p className="text-text-muted text-sm">
-            Go to Settings to update your situation and generate personalized guidance.
+            {t('checklist.empty.body')}
+          </p>
+        </div>
+      ) : showSchedule ? (
+        <div className="space-y-6">
+          {SCHEDULE_GROUPS.map(renderScheduleGroup)}
+          {SCHEDULE_GROUPS.every(({ bucket }) => schedule[bucket].length === 0) && (
+            <p className="text-center text-sm text-text-muted py-6">{t('checklist.schedule.allAddressed')}</p>
+          )}
+          <p className="text-xs text-text-muted/80">
+            {t('checklist.schedule.footnote')}
           </p>
         </div>
       ) : (
@@ -502,7 +1006,7 @@ export const ChecklistView: React.FC<ChecklistViewProps> = ({
           className="flex items-center gap-2 text-sm text-text-muted hover:text-text-primary transition-colors"
         >
           <ArrowLeft className="w-4 h-4" />
-          Return to Focus View
+          {t('checklist.returnToFocus')}
         </button>
       </div>
     </div>
@@ -0,0 +1,151 @@
+/**
+ * Custom Task Form - add or edit an item of the user's own
+ */
+
+import React, { useState } from 'react';
+import { CustomTaskInput, TaskCategory, TaskPhase } from '../../types';
+import { getPhaseInfo, getCategoryInfo } from '../../services/taskGenerationEngine';
+import { validateCustomTaskInput } from '../../services/customTasks';
+import { t } from '../../services/localization';
+import { DateInput } from '../common/DateInput';
+
+const PHASES: TaskPhase[] = ['FIRST_48_HOURS', 'WEEK_1', 'WEEKS_2_6', 'DAYS_60_90', 'LONG_TERM'];
+const CATEGORIES: TaskCategory[] = ['PERSONAL', 'ADMINISTRATIVE', 'FINANCIAL', 'INSURANCE', 'PROPERTY', 'DIGITAL', 'LEGAL', 'NOTIFICATION'];
+const PRIORITIES: CustomTaskInput['priority'][] = ['HIGH', 'MEDIUM', 'LOW'];
+
+const EMPTY_INPUT: CustomTaskInput = {
+  title: '',
+  description: '',
+  phase: 'WEEK_1',
+  category: 'PERSONAL',
+  priority: 'MEDIUM',
+  notes: '',
+  dueDate: '',
+};
+
+interface CustomTaskFormProps {
+  initial?: CustomTaskInput;
+  submitLabel: string;
+  onSave: (input: CustomTaskInput) => void;
+  onCancel: () => void;
+}
+
+const fieldClass = 'w-full px-3 py-2 rounded-lg bg-vault-dark border border-border-subtle text-sm text-text-primary placeholder-text-muted focus:outline-none focus:ring-2 focus:ring-accent-gold/50';
+const labelClass = 'block text-xs text-text-muted mb-1';
+
+export const CustomTaskForm: React.FC<CustomTaskFormProps> = ({ initial, submitLabel, onSave, onCancel }) => {
+  const [input, setInput] = useState<CustomTaskInput>({ ...EMPTY_INPUT, ...initial });
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (fields: Partial<CustomTaskInput>) => {
+    setInput(prev => ({ ...prev, ...fields }));
+    setError(null);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const validationError = validateCustomTaskInput(input);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    onSave(input);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3" aria-label={submitLabel}>
+      <div>
+        <label htmlFor="custom-task-title" className={labelClass}>{t('customTask.title')}</label>
+        <input
+          id="custom-task-title"
+          type="text"
+          value={input.title}
+          onChange={(e) => update({ title: e.target.value })}
+          placeholder={t('customTask.title.placeholder')}
+          autoFocus
+          className={fieldClass}
+        />
+      </div>
+      <div>
+        <label htmlFor="custom-task-description" className={labelClass}>{t('customTask.description')}</label>
+        <textarea
+          id="custom-task-description"
+          value={input.description ?? ''}
+          onChange={(e) => update({ description: e.target.value })}
+          rows={2}
+          className={fieldClass}
+        />
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div>
+          <label htmlFor="custom-task-phase" className={labelClass}>{t('customTask.phase')}</label>
+          <select id="custom-task-phase" value={input.phase} onChange={(e) => update({ phase: e.target.value as TaskPhase })} className={fieldClass}>
+            {PHASES.map(phase => <option key={phase} value={phase}>{getPhaseInfo(phase).label}</option>)}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="custom-task-category" className={labelClass}>{t('customTask.category')}</label>
+          <select id="custom-task-category" value={input.category} onChange={(e) => update({ category: e.target.value as TaskCategory })} className={fieldClass}>
+            {CATEGORIES.map(category => <option key={category} value={category}>{getCategoryInfo(category).label}</option>)}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="custom-task-priority" className={labelClass}>{t('customTask.priority')}</label>
+          <select id="custom-task-priority" value={input.priority} onChange={(e) => update({ priority: e.target.value as CustomTaskInput['priority'] })} className={fieldClass}>
+            {PRIORITIES.map(p => <option key={p} value={p}>{t(`customTask.priority.${p}`)}</option>)}
+          </select>
+        </div>
+      </div>
+      <div>
+        <label htmlFor="custom-task-due" className={labelClass}>{t('customTask.dueDate')}</label>
+        <DateInput id="custom-task-due" value={input.dueDate ?? ''} onChange={(e) => update({ dueDate: e.target.value })} />
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label htmlFor="custom-task-repeat" className={labelClass}>{t('customTask.repeatEvery')}</label>
+          <input
+            id="custom-task-repeat"
+            type="number"
+            min={0}
+            max={365}
+            value={input.recurrence?.intervalDays || ''}
+            onChange={(e) => update({ recurrence: { ...input.recurrence, intervalDays: Number(e.target.value) } })}
+            placeholder={t('customTask.repeatEvery.placeholder')}
+            className={fieldClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="custom-task-repeat-times" className={labelClass}>{t('customTask.repeatTimes')}</label>
+          <input
+            id="custom-task-repeat-times"
+            type="number"
+            min={0}
+            value={input.recurrence?.maxOccurrences || ''}
+            onChange={(e) => update({ recurrence: { intervalDays: input.recurrence?.intervalDays ?? 0, maxOccurrences: Number(e.target.value) } })}
+            disabled={!input.recurrence?.intervalDays}
+            className={`${fieldClass} disabled:opacity-50`}
+          />
+        </div>
+      </div>
+      <div>
+        <label htmlFor="custom-task-notes" className={labelClass}>{t('customTask.notes')}</label>
+        <textarea
+          id="custom-task-notes"
+          value={input.notes ?? ''}
+          onChange={(e) => update({ notes: e.target.value })}
+          rows={2}
+          className={fieldClass}
+        />
+      </div>
+      {error && <p className="text-xs text-red-400" role="alert">{error}</p>}
+      <div className="flex gap-2">
+        <button type="submit" className="px-3 py-1.5 bg-accent-gold text-vault-dark rounded-lg text-xs font-medium">
+          {submitLabel}
+        </button>
+        <button type="button" onClick={onCancel} className="px-3 py-1.5 text-text-muted text-xs">
+          {t('common.cancel')}
+        </button>
+      </div>
+    </form>
+  );
+};
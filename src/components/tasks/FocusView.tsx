@@ -4,12 +4,19 @@
  * Shows a small set of stabilizing tasks to prevent overwhelm.
  * Designed for emotional safety and grounding, not task completion.
  * Return experience is calm and non-directive.
+ *
+ * Once the first few days have passed and a date of death is known, the
+ * cards show what is current in the plan instead of the first-days set.
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Heart, Pause, CalendarCheck, Users, Baby, FileSearch } from 'lucide-react';
 import { safeGetItem, safeSetItem } from '../../utils/safeStorage';
 import { TitleBar } from '../common/TitleBar';
+import { AftercarePlan, ContactEntry } from '../../types';
+import { getCurrentPhase, getCurrentTasks, formatTaskWindow } from '../../services/taskScheduling';
+import { t } from '../../services/localization';
+import { FollowUpsDuePanel } from '../contacts/FollowUpsDuePanel';
 
 interface FocusTask {
   id: string;
@@ -19,62 +26,85 @@ interface FocusTask {
 }
 
 interface FocusViewProps {
+  plan?: AftercarePlan | null;
   onViewFullChecklist: () => void;
+  /** Contacts for the follow-ups due panel; the panel is left out without them. */
+  contacts?: ContactEntry[];
+  onContactsChange?: (contacts: ContactEntry[]) => void;
+  onOpenContacts?: () => void;
 }
 
 type UserState = 'first_visit' | 'incomplete' | 'completed_paused' | 'previewed_week1';
 
-const FOCUS_TASKS: FocusTask[] = [
+/** First-days cards, with copy in the current locale. */
+const getFocusTasks = (): FocusTask[] => [
   {
     id: 'pause',
-    title: 'Take a moment',
-    supportingText: "Take a breath before doing anything else.",
+    title: t('focus.card.pause.title'),
+    supportingText: t('focus.card.pause.text'),
     icon: <Pause className="w-5 h-5 text-accent-gold" strokeWidth={1.5} />,
   },
   {
     id: 'arrangements',
-    title: 'Review funeral or cremation arrangements',
-    supportingText: "Check whether funeral or cremation wishes were documented. If final wishes were recorded in a Local Legacy Vault, start there. A funeral home can guide you through the next steps when you're ready.",
+    title: t('focus.card.arrangements.title'),
+    supportingText: t('focus.card.arrangements.text'),
     icon: <CalendarCheck className="w-5 h-5 text-accent-gold" strokeWidth={1.5} />,
   },
   {
     id: 'notify',
-    title: 'Let close family or friends know',
-    supportingText: "Start with one or two people you trust. If trusted contacts are listed in a Local Legacy Vault, use that as a guide.",
+    title: t('focus.card.notify.title'),
+    supportingText: t('focus.card.notify.text'),
     icon: <Users className="w-5 h-5 text-accent-gold" strokeWidth={1.5} />,
   },
   {
     id: 'dependents',
-    title: 'Make sure dependents or pets are cared for',
-    supportingText: 'Short-term arrangements are fine while things settle.',
+    title: t('focus.card.dependents.title'),
+    supportingText: t('focus.card.dependents.text'),
     icon: <Baby className="w-5 h-5 text-accent-gold" strokeWidth={1.5} />,
   },
   {
     id: 'documents',
-    title: 'Note where important personal documents are located',
-    supportingText: "You're only identifying where things are for now. If a Local Legacy Vault exists, documents and locations may already be listed.",
+    title: t('focus.card.documents.title'),
+    supportingText: t('focus.card.documents.text'),
     icon: <FileSearch className="w-5 h-5 text-accent-gold" strokeWidth={1.5} />,
   },
 ];
 
-const WEEK_1_PREVIEW = [
+const getWeek1Preview = () => [
   {
     id: 'memorial',
-    title: 'Consider memorial or service details',
-    supportingText: "Simple or postponed.",
+    title: t('focus.preview.memorial.title'),
+    supportingText: t('focus.preview.memorial.text'),
   },
   {
     id: 'mail',
-    title: 'Review mail and messages',
-    supportingText: "Notice what's arriving.",
+    title: t('focus.preview.mail.title'),
+    supportingText: t('focus.preview.mail.text'),
   },
 ];
 
 export const FocusView: React.FC<FocusViewProps> = ({ 
-  onViewFullChecklist
+  plan,
+  onViewFullChecklist,
+  contacts,
+  onContactsChange,
+  onOpenContacts,
 }) => {
-  // Tasks are static - no completion state needed
-  const tasks = FOCUS_TASKS;
+  // First days (or no date of death): the static set. Later: current plan items by target date.
+  const currentTasks = useMemo<FocusTask[]>(() => {
+    const dateOfDeath = plan?.profile.dateOfDeath;
+    const phase = getCurrentPhase(dateOfDeath);
+    if (!plan || !phase || phase === 'FIRST_48_HOURS') return [];
+    return getCurrentTasks(plan.tasks, dateOfDeath).map(({ task, window }) => ({
+      id: task.id,
+      title: task.title,
+      supportingText: [task.description, t('focus.aimFor', { window: formatTaskWindow(window) })].filter(Boolean).join(' '),
+      icon: <CalendarCheck className="w-5 h-5 text-accent-gold" strokeWidth={1.5} />,
+    }));
+  }, [plan]);
+  const showingCurrent = currentTasks.length > 0;
+  const tasks = showingCurrent ? currentTasks : getFocusTasks();
+  const week1Preview = getWeek1Preview();
 
   // Determine user state on load (safe localStorage - can throw when disabled/private)
   const [userState] = useState<UserState>(() => {
@@ -118,6 +148,17 @@ export const FocusView: React.FC<FocusViewProps> = ({
     dismissWelcomeBack();
   };
 
+  // Due follow-ups show on every Focus screen, not only the main one
+  const renderFollowUps = (className?: string) =>
+    contacts && onContactsChange && onOpenContacts ? (
+      <FollowUpsDuePanel
+        contacts={contacts}
+        onContactsChange={onContactsChange}
+        onOpenContacts={onOpenContacts}
+        className={className}
+      />
+    ) : null;
+
   // Returning user who completed and paused - show choice
   if (showWelcomeBack && userState === 'completed_paused') {
     return (
@@ -132,7 +173,7 @@ export const FocusView: React.FC<FocusViewProps> = ({
               <Heart className="w-5 h-5 text-accent-gold" />
             </div>
             <h1 className="text-[20px] font-semibold text-text-primary">
-              Welcome
+              {t('focus.welcome')}
             </h1>
           </div>
           {/* Two equal options */}
@@ -142,20 +183,21 @@ export const FocusView: React.FC<FocusViewProps> = ({
                 onClick={handleReviewWhatsNext}
                 className="px-4 py-2 text-sm text-text-secondary hover:text-text-primary border border-border-subtle hover:border-accent-gold/50 rounded-lg transition-all mb-1"
               >
-                Review what's next
+                {t('focus.reviewNext')}
               </button>
-              <p className="text-[10px] text-text-muted">A few things that may come up soon</p>
+              <p className="text-[10px] text-text-muted">{t('focus.reviewNext.note')}</p>
             </div>
             <div className="text-center">
               <button
                 onClick={handleStayHere}
                 className="px-4 py-2 text-sm text-text-secondary hover:text-text-primary border border-border-subtle hover:border-accent-gold/50 rounded-lg transition-all mb-1"
               >
-                Stay here
+                {t('focus.stayHere')}
               </button>
             </div>
           </div>
         </div>
+        {renderFollowUps('mt-8')}
       </div>
     );
   }
@@ -176,17 +218,17 @@ export const FocusView: React.FC<FocusViewProps> = ({
                 <Heart className="w-5 h-5 text-accent-gold" />
               </div>
               <h1 className="text-[20px] font-semibold text-text-primary">
-                Welcome
+                {t('focus.welcome')}
               </h1>
             </div>
             <span className="inline-block mt-2 text-[10px] font-medium text-accent-gold bg-accent-gold/10 px-2 py-0.5 rounded-full">
-              Week 1
+              {t('focus.week1')}
             </span>
           </div>
 
           {/* Week 1 items */}
           <div className="space-y-2">
-            {WEEK_1_PREVIEW.map((item) => (
+            {week1Preview.map((item) => (
               <div
                 key={item.id}
                 className="bg-card-bg rounded-lg border border-accent-gold/30 hover:border-accent-gold/60 transition-all duration-200 hover:-translate-y-1 hover:shadow-lg cursor-default p-3"
@@ -209,10 +251,11 @@ export const FocusView: React.FC<FocusViewProps> = ({
               }}
               className="px-4 py-2 text-sm text-text-secondary hover:text-text-primary border border-border-subtle hover:border-accent-gold/50 rounded-lg transition-all"
             >
-              View full checklist
+              {t('focus.viewChecklist')}
             </button>
           </div>
         </div>
+        {renderFollowUps('mt-8')}
       </div>
     );
   }
@@ -223,18 +266,18 @@ export const FocusView: React.FC<FocusViewProps> = ({
       <div className="max-w-xl mx-auto">
         <div className="text-center mb-5">
           <h1 className="text-lg font-semibold text-text-primary mb-2">
-            Looking ahead
+            {t('focus.lookingAhead')}
           </h1>
           <p className="text-text-secondary text-xs leading-relaxed">
-            Here are a few things that may come up soon.
+            {t('focus.lookingAhead.note')}
           </p>
           <span className="inline-block mt-2 text-[10px] font-medium text-accent-gold bg-accent-gold/10 px-2 py-0.5 rounded-full">
-            Week 1
+            {t('focus.week1')}
           </span>
         </div>
 
         <div className="space-y-2">
-          {WEEK_1_PREVIEW.map((item) => (
+          {week1Preview.map((item) => (
             <div
               key={item.id}
               className="bg-card-bg rounded-lg border border-accent-gold/30 hover:border-accent-gold/60 transition-all duration-200 hover:-translate-y-1 hover:shadow-lg cursor-default p-3"
@@ -255,16 +298,18 @@ export const FocusView: React.FC<FocusViewProps> = ({
               onClick={() => setShowLookingAhead(false)}
               className="px-4 py-2 text-sm text-text-secondary hover:text-text-primary border border-border-subtle hover:border-accent-gold/50 rounded-lg transition-all"
             >
-              Go back
+              {t('focus.goBack')}
             </button>
             <button
               onClick={onViewFullChecklist}
               className="px-4 py-2 text-sm text-text-secondary hover:text-text-primary border border-border-subtle hover:border-accent-gold/50 rounded-lg transition-all"
             >
-              View full checklist
+              {t('focus.viewChecklist')}
             </button>
           </div>
         </div>
+
+        {renderFollowUps('mt-8')}
       </div>
     );
   }
@@ -285,7 +330,7 @@ export const FocusView: React.FC<FocusViewProps> = ({
             </div>
           </div>
           <h2 className="text-[22px] font-semibold text-text-primary mb-2 tracking-tight">
-            Welcome
+            {t('focus.welcome')}
           </h2>
         </div>
       )}
@@ -294,17 +339,19 @@ export const FocusView: React.FC<FocusViewProps> = ({
       <div className="page-header-zone text-center mb-6 flex flex-col items-center">
         {!showWelcomeBack && (
           <p className="text-sm text-text-secondary leading-relaxed mb-3 max-w-md">
-            Here are a few things to focus on. Everything else can wait.
+            {t('focus.intro')}
           </p>
         )}
         <div className="flex flex-col items-center">
           <h2 className="text-xl font-semibold text-text-primary tracking-tight">
-            The first few days
+            {showingCurrent ? t('focus.rightNow') : t('focus.firstDays')}
           </h2>
           <TitleBar className="mt-1.5" />
         </div>
         <p className="text-sm text-text-muted mt-1.5 font-normal max-w-md">
-          There's no deadline here. This is simply a place to begin.
+          {showingCurrent
+            ? t('focus.rightNow.note')
+            : t('focus.firstDays.note')}
         </p>
       </div>
 
@@ -333,13 +380,15 @@ export const FocusView: React.FC<FocusViewProps> = ({
         ))}
       </div>
 
+      {renderFollowUps()}
+
       {/* Footer */}
       <div className="text-center">
         <button
           onClick={onViewFullChecklist}
           className="inline-flex items-center justify-center px-6 py-3 text-sm font-medium text-text-primary bg-[var(--color-background-card)] border border-[var(--color-border-subtle)] hover:border-accent-gold/50 rounded-xl transition-all hover:shadow-md min-w-[200px]"
         >
-          View full checklist
+          {t('focus.viewChecklist')}
         </button>
       </div>
     </div>
@@ -0,0 +1,275 @@
+/**
+ * Built-in Jurisdiction Packs
+ *
+ * Location-specific tasks, executor checklist items and resource links,
+ * merged over the base guidance by the jurisdiction service. Same language
+ * rules as the task engine: soft verbs, no deadlines, no legal advice.
+ * Dollar thresholds change; each one names the year it was checked and
+ * points to where the current figure is published.
+ *
+ * Task keys become task ids, so never change a key once shipped.
+ */
+
+import type { JurisdictionPack } from '../types';
+
+const US_PACK: JurisdictionPack = {
+  id: 'us',
+  name: 'United States',
+  country: 'United States',
+  tasks: {
+    add: [
+      {
+        key: 'check-whether-social-security-was-notified',
+        version: 2,
+        title: 'Check whether Social Security was notified',
+        description: 'Confirm whether Social Security was notified. Funeral homes often report this automatically. You can also confirm by calling 1-800-772-1213 and asking about survivor benefits if applicable.',
+        reason: 'Confirming gives peace of mind.',
+        phase: 'WEEK_1',
+        category: 'NOTIFICATION',
+        priority: 'MEDIUM',
+      },
+      {
+        key: 'consider-placing-a-credit-freeze',
+        title: 'Consider placing a credit freeze',
+        description: 'Contacting the three credit bureaus (Equifax, Experian, TransUnion) can help prevent identity issues. This can wait if you have other priorities.',
+        reason: 'A freeze is a precaution, not an emergency.',
+        phase: 'WEEK_1',
+        category: 'NOTIFICATION',
+        priority: 'LOW',
+        steps: ['Contact Equifax', 'Contact Experian', 'Contact TransUnion'],
+      },
+      {
+        key: 'check-whether-veteran-benefits-apply',
+        title: 'Check whether veteran benefits apply',
+        description: 'If the deceased was a veteran, the VA (1-800-827-1000) may offer burial benefits or survivor support. This can be explored when you are ready.',
+        reason: 'Benefits are available but not time-limited.',
+        phase: 'WEEK_1',
+        category: 'NOTIFICATION',
+        priority: 'LOW',
+      },
+      {
+        key: 'check-whether-student-loans-apply',
+        title: 'Check whether student loans apply',
+        description: 'Federal student loans are discharged upon death. Contact the servicer (1-800-557-7394) when ready. Family members are not responsible for this debt.',
+        reason: 'Discharge is available but not urgent.',
+        phase: 'WEEKS_2_6',
+        category: 'FINANCIAL',
+        priority: 'LOW',
+      },
+    ],
+  },
+  resources: {
+    add: [
+      { group: 'Government & Identity', label: 'Social Security Administration', url: 'https://www.ssa.gov/survivors/' },
+      { group: 'Government & Identity', label: 'IRS', url: 'https://www.irs.gov/individuals/family-special-situations' },
+      { group: 'Government & Identity', label: 'State Vital Records Offices', url: 'https://www.usa.gov/vital-records' },
+      { group: 'Probate & Courts', label: 'State Probate Court Locator', url: 'https://www.ncsc.org/find-a-court' },
+      { group: 'Probate & Courts', label: 'National Center for State Courts', url: 'https://www.ncsc.org/' },
+      { group: 'Veterans (if applicable)', label: 'U.S. Department of Veterans Affairs', url: 'https://www.va.gov/survivors/' },
+      { group: 'Financial & Property', label: 'CFPB', url: 'https://www.consumerfinance.gov/consumer-tools/death-of-a-family-member/' },
+      { group: 'Financial & Property', label: 'FDIC', url: 'https://www.fdic.gov/consumers/consumer/news/cnsum22/' },
+      { group: 'Consumer & Mail', label: 'USPS', url: 'https://www.usps.com/manage/mail-for-deceased.htm' },
+      { group: 'Consumer & Mail', label: 'FTC', url: 'https://consumer.ftc.gov/articles/what-do-when-someone-dies' },
+    ],
+  },
+};
+
+/** Small-estate procedures replace the full probate petition for estates under a state limit. */
+function smallEstatePack(
+  region: string,
+  name: string,
+  procedure: string,
+  limit: string,
+  courtLabel: string,
+  courtUrl: string
+): JurisdictionPack {
+  return {
+    id: `us-${region.toLowerCase()}`,
+    name,
+    country: 'United States',
+    region,
+    tasks: {
+      add: [
+        {
+          key: `check-${region.toLowerCase()}-small-estate-process`,
+          title: `Check whether ${name}'s small estate process applies`,
+          description: `${name} offers a simpler ${procedure} for estates under a set value (${limit}). The state court's self-help pages list the current limit and forms. A probate attorney can confirm whether it fits your situation.`,
+          reason: 'A simpler process can save time and court fees.',
+          phase: 'WEEKS_2_6',
+          category: 'LEGAL',
+          priority: 'MEDIUM',
+        },
+      ],
+    },
+    checklist: {
+      replace: [
+        {
+          key: 'file-petition-to-open-probate',
+          description: `If the estate is under ${name}'s small estate limit (${limit}), a ${procedure} may be used instead of a full probate petition. Otherwise, file the petition with the probate court.`,
+        },
+      ],
+    },
+    resources: {
+      add: [{ group: 'Probate & Courts', label: courtLabel, url: courtUrl }],
+    },
+  };
+}
+
+const US_STATE_PACKS: JurisdictionPack[] = [
+  smallEstatePack('CA', 'California', 'small estate affidavit', '$208,850 for deaths on or after April 1, 2025', 'California Courts Self-Help: Probate', 'https://selfhelp.courts.ca.gov/probate'),
+  smallEstatePack('TX', 'Texas', 'small estate affidavit', '$75,000, not counting the homestead, as of 2025', 'Texas Law Help: Small Estate Affidavit', 'https://texaslawhelp.org/'),
+  smallEstatePack('NY', 'New York', 'voluntary administration', '$50,000 in personal property, as of 2025', 'New York Courts: Surrogate\'s Court', 'https://ww2.nycourts.gov/courts/surrogates/index.shtml'),
+  smallEstatePack('FL', 'Florida', 'summary administration', '$75,000, as of 2025', 'Florida Courts Self-Help', 'https://www.flcourts.gov/Resources-Services/Office-of-Family-Courts/Self-Help-Information'),
+];
+
+const CANADA_PACK: JurisdictionPack = {
+  id: 'ca',
+  name: 'Canada',
+  country: 'Canada',
+  tasks: {
+    add: [
+      {
+        key: 'check-whether-service-canada-was-notified',
+        title: 'Check whether Service Canada was notified',
+        description: 'Funeral homes often notify Service Canada. You can confirm by calling 1-800-622-6232 and ask about the Canada Pension Plan death benefit and survivor pension if applicable.',
+        reason: 'Confirming gives peace of mind.',
+        phase: 'WEEK_1',
+        category: 'NOTIFICATION',
+        priority: 'MEDIUM',
+      },
+      {
+        key: 'consider-the-final-tax-return-with-cra',
+        title: 'Consider the final tax return with the CRA',
+        description: 'The Canada Revenue Agency asks for a final return for the year of death. Its guide for deceased persons explains what is needed. This can wait until you have gathered financial information.',
+        reason: 'The CRA guide lays out the steps in order.',
+        phase: 'DAYS_60_90',
+        category: 'LEGAL',
+        priority: 'LOW',
+        dependsOn: [{ kind: 'task', taskId: 'task_gather-financial-and-account-information' }],
+      },
+    ],
+  },
+  checklist: {
+    replace: [
+      {
+        key: 'locate-social-security-card-and-birth-certificate',
+        title: 'Locate Social Insurance Number and birth certificate',
+        description: 'Needed for Service Canada, CRA and benefit notifications.',
+        whatYouMayNeed: ['Social Insurance Number', 'Birth certificate'],
+      },
+      {
+        key: 'obtain-letters-testamentary-letters-of-administration',
+        title: 'Obtain a certificate of appointment or grant of probate',
+        description: 'Provinces use different names (letters probate, certificate of appointment of estate trustee). It proves your authority to act for the estate.',
+      },
+    ],
+    suppress: ['find-military-discharge-papers-dd-214-if-veteran'],
+  },
+  resources: {
+    add: [
+      { group: 'Government & Identity', label: 'CPP death benefit (Service Canada)', url: 'https://www.canada.ca/en/services/benefits/publicpensions/cpp/cpp-death-benefit.html' },
+      { group: 'Government & Identity', label: 'Canada Revenue Agency: when someone has died', url: 'https://www.canada.ca/en/revenue-agency/services/tax/individuals/life-events/what-when-someone-died.html' },
+    ],
+  },
+};
+
+const UK_PACK: JurisdictionPack = {
+  id: 'gb',
+  name: 'United Kingdom',
+  country: 'United Kingdom',
+  tasks: {
+    add: [
+      {
+        key: 'consider-using-tell-us-once',
+        title: 'Consider using Tell Us Once',
+        description: 'When the death is registered, the registrar can give you a Tell Us Once reference. It lets you notify HMRC, the DWP, the DVLA, the passport office and the local council in one go.',
+        reason: 'One report can replace many separate calls.',
+        phase: 'WEEK_1',
+        category: 'NOTIFICATION',
+        priority: 'MEDIUM',
+      },
+    ],
+    replace: [
+      {
+        key: 'consider-whether-to-request-death-certificates',
+        description: 'Decide whether to request extra certified copies of the death certificate from the register office. Banks and insurers often ask for one. Copies cost less when ordered at registration, and more can be requested later.',
+      },
+    ],
+  },
+  checklist: {
+    replace: [
+      {
+        key: 'file-petition-to-open-probate',
+        title: 'Apply for probate (or letters of administration)',
+        description: 'In England and Wales you can apply online through GOV.UK. Scotland uses confirmation and Northern Ireland has its own process. Some small estates do not need probate.',
+        whatYouMayNeed: ['Death certificate', 'Original will', 'Inheritance Tax forms', 'Application fee'],
+      },
+      {
+        key: 'locate-social-security-card-and-birth-certificate',
+        title: 'Locate National Insurance number and birth certificate',
+        description: 'Needed for Tell Us Once, HMRC and benefit notifications.',
+        whatYouMayNeed: ['National Insurance number', 'Birth certificate'],
+      },
+    ],
+    suppress: [
+      'obtain-letters-testamentary-letters-of-administration',
+      'find-military-discharge-papers-dd-214-if-veteran',
+    ],
+  },
+  resources: {
+    add: [
+      { group: 'Government & Identity', label: 'GOV.UK: What to do when someone dies', url: 'https://www.gov.uk/when-someone-dies' },
+      { group: 'Government & Identity', label: 'GOV.UK: Tell Us Once', url: 'https://www.gov.uk/after-a-death/organisations-you-need-to-contact-and-tell-us-once' },
+      { group: 'Probate & Courts', label: 'GOV.UK: Applying for probate', url: 'https://www.gov.uk/applying-for-probate' },
+    ],
+  },
+};
+
+const AUSTRALIA_PACK: JurisdictionPack = {
+  id: 'au',
+  name: 'Australia',
+  country: 'Australia',
+  tasks: {
+    add: [
+      {
+        key: 'check-whether-services-australia-was-notified',
+        title: 'Check whether Services Australia was notified',
+        description: 'If the person received Centrelink or Medicare services, Services Australia can be told once and may offer bereavement payments. Its website explains the steps.',
+        reason: 'One notification covers several services.',
+        phase: 'WEEK_1',
+        category: 'NOTIFICATION',
+        priority: 'MEDIUM',
+      },
+    ],
+  },
+  checklist: {
+    replace: [
+      {
+        key: 'locate-social-security-card-and-birth-certificate',
+        title: 'Locate Tax File Number, Medicare card and birth certificate',
+        description: 'Needed for Services Australia, the ATO and benefit notifications.',
+        whatYouMayNeed: ['Tax File Number', 'Medicare card', 'Birth certificate'],
+      },
+      {
+        key: 'obtain-letters-testamentary-letters-of-administration',
+        title: 'Obtain a grant of probate or letters of administration',
+        description: 'Granted by the Supreme Court of the state or territory. Some institutions release small balances without one.',
+      },
+    ],
+    suppress: ['find-military-discharge-papers-dd-214-if-veteran'],
+  },
+  resources: {
+    add: [
+      { group: 'Government & Identity', label: 'Services Australia: Death and bereavement', url: 'https://www.servicesaustralia.gov.au/death-and-bereavement' },
+      { group: 'Government & Identity', label: 'ATO: Deceased estates', url: 'https://www.ato.gov.au/individuals-and-families/deceased-estates' },
+    ],
+  },
+};
+
+export const BUILT_IN_JURISDICTION_PACKS: JurisdictionPack[] = [
+  US_PACK,
+  ...US_STATE_PACKS,
+  CANADA_PACK,
+  UK_PACK,
+  AUSTRALIA_PACK,
+];
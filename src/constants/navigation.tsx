@@ -6,26 +6,27 @@
 
 import React from 'react';
 import type { NavigationTab } from '../types';
+import { t, type MessageKey } from '../services/localization';
 import type { LucideIcon } from 'lucide-react';
 import { Heart, ListChecks, FileText, MessageSquare, Users, ClipboardCheck, Settings, Briefcase } from 'lucide-react';
 
 export interface NavItemConfig {
   id: NavigationTab;
-  label: string;
+  labelKey: MessageKey;
   iconComponent: LucideIcon;
   /** When true, nav item appears optional/muted (e.g. Executor Tools). */
   optional?: boolean;
 }
 
 export const NAV_ITEMS_CONFIG: NavItemConfig[] = [
-  { id: 'cases', label: 'Cases', iconComponent: Briefcase },
-  { id: 'guidance', label: 'Guidance', iconComponent: Heart },
-  { id: 'checklist', label: 'Checklist', iconComponent: ListChecks },
-  { id: 'documents', label: 'Documents', iconComponent: FileText },
-  { id: 'templates', label: 'Templates', iconComponent: MessageSquare },
-  { id: 'contacts', label: 'Contacts', iconComponent: Users },
-  { id: 'executor', label: 'Executor Tools', iconComponent: ClipboardCheck, optional: true },
-  { id: 'settings', label: 'Settings', iconComponent: Settings },
+  { id: 'cases', labelKey: 'nav.cases', iconComponent: Briefcase },
+  { id: 'guidance', labelKey: 'nav.guidance', iconComponent: Heart },
+  { id: 'checklist', labelKey: 'nav.checklist', iconComponent: ListChecks },
+  { id: 'documents', labelKey: 'nav.documents', iconComponent: FileText },
+  { id: 'templates', labelKey: 'nav.templates', iconComponent: MessageSquare },
+  { id: 'contacts', labelKey: 'nav.contacts', iconComponent: Users },
+  { id: 'executor', labelKey: 'nav.executor', iconComponent: ClipboardCheck, optional: true },
+  { id: 'settings', labelKey: 'nav.settings', iconComponent: Settings },
 ];
 
 export interface NavItem {
@@ -35,12 +36,13 @@ export interface NavItem {
   optional?: boolean;
 }
 
+/** Nav items with labels in the current locale; recreate after a locale change. */
 export function createNavItems(): NavItem[] {
   return NAV_ITEMS_CONFIG.map(item => {
     const IconComponent = item.iconComponent;
     return {
       id: item.id,
-      label: item.label,
+      label: t(item.labelKey),
       icon: <IconComponent className="w-[18px] h-[18px]" strokeWidth={1.75} />,
       optional: item.optional,
     };
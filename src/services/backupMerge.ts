@@ -0,0 +1,360 @@
+/**
+ * Backup Merge
+ *
+ * Pure diff/merge logic for restoring a backup over the current data.
+ * Compares per entity by id: added, changed, removed, and which side is
+ * newer (by updatedAt / lastUpdatedAt, falling back to other timestamps).
+ *
+ * Scope: only the cases contained in the backup are compared or written.
+ * Local cases that are not in the backup are never touched.
+ *
+ * Restore modes:
+ * - replace:  the backup's version of each case wins; local-only items in those cases are removed
+ * - merge:    items are combined by id, keeping the newer side (local wins ties)
+ * - add-only: only items missing locally are added; nothing is changed or removed
+ */
+
+import type { AftercarePlan, LegacyVaultRecord, PersonalScriptTemplate } from '../types';
+import type { BackupData, BackupCaseData } from './backupService';
+
+export type RestoreMode = 'replace' | 'merge' | 'add-only';
+
+export type RestoreEntity =
+  | 'cases'
+  | 'plans'
+  | 'tasks'
+  | 'documents'
+  | 'contacts'
+  | 'checklist'
+  | 'correspondence'
+  | 'manualRecords'
+  | 'personalTemplates';
+
+export const RESTORE_ENTITIES: RestoreEntity[] = [
+  'cases',
+  'plans',
+  'tasks',
+  'documents',
+  'contacts',
+  'checklist',
+  'correspondence',
+  'manualRecords',
+  'personalTemplates',
+];
+
+export type NewerSide = 'backup' | 'local' | 'same' | 'unknown';
+
+export interface EntityDiffItem {
+  entity: RestoreEntity;
+  id: string;
+  label: string;
+  kind: 'added' | 'changed' | 'removed';
+  /** For changed items: which side has the more recent timestamp. */
+  newer?: NewerSide;
+}
+
+export interface EntityDiffSummary {
+  added: number;
+  changed: number;
+  removed: number;
+  unchanged: number;
+  /** Changed items where the backup copy is newer. */
+  backupNewer: number;
+  /** Changed items where the local copy is newer. */
+  localNewer: number;
+}
+
+export interface RestorePreview {
+  sourceVersion: string;
+  exportDate: string;
+  entities: Record<RestoreEntity, EntityDiffSummary>;
+  items: EntityDiffItem[];
+  /** Local cases not in the backup (never affected by a restore). */
+  untouchedCaseCount: number;
+}
+
+export interface RestoreActionCounts {
+  added: number;
+  updated: number;
+  removed: number;
+  kept: number;
+}
+
+/** Current data, in the same shape as a backup. */
+export type LocalSnapshot = Pick<BackupData, 'cases' | 'settings' | 'manualRecords' | 'scriptNotes'>
+  & Required<Pick<BackupData, 'personalTemplates'>>;
+
+export interface RestorePlan {
+  /** Cases to write (backup cases after applying the mode). */
+  cases: BackupCaseData[];
+  settings: Record<string, unknown>;
+  manualRecords: LegacyVaultRecord[];
+  scriptNotes: Record<string, string>;
+  personalTemplates: PersonalScriptTemplate[];
+  actions: Record<RestoreEntity, RestoreActionCounts>;
+}
+
+type Identified = { id: string };
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const TIMESTAMP_FIELDS = ['updatedAt', 'lastUpdatedAt', 'completedAt', 'lastContactedAt', 'uploadedAt', 'createdAt'] as const;
+
+/** Most specific timestamp available on an entity (ms since epoch), or null. */
+export function getEntityTimestamp(entity: object): number | null {
+  const record = entity as Record<string, unknown>;
+  for (const field of TIMESTAMP_FIELDS) {
+    const value = record[field];
+    if (typeof value === 'string') {
+      const time = new Date(value).getTime();
+      if (!Number.isNaN(time)) return time;
+    }
+  }
+  return null;
+}
+
+export function compareNewer(local: object, backup: object): NewerSide {
+  const localTime = getEntityTimestamp(local);
+  const backupTime = getEntityTimestamp(backup);
+  if (localTime === null || backupTime === null) return 'unknown';
+  if (backupTime > localTime) return 'backup';
+  if (localTime > backupTime) return 'local';
+  return 'same';
+}
+
+function isSame(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function entityLabel(entity: object): string {
+  const record = entity as Record<string, unknown>;
+  const label = record.label ?? record.title ?? record.name ?? record.fileName ?? record.recipientName ?? record.id;
+  return typeof label === 'string' ? label : '';
+}
+
+function emptySummary(): EntityDiffSummary {
+  return { added: 0, changed: 0, removed: 0, unchanged: 0, backupNewer: 0, localNewer: 0 };
+}
+
+function emptyActions(): RestoreActionCounts {
+  return { added: 0, updated: 0, removed: 0, kept: 0 };
+}
+
+function emptyRecord<T>(make: () => T): Record<RestoreEntity, T> {
+  return Object.fromEntries(RESTORE_ENTITIES.map((e) => [e, make()])) as Record<RestoreEntity, T>;
+}
+
+// ============================================================================
+// DIFF
+// ============================================================================
+
+function diffById<T extends Identified>(
+  entity: RestoreEntity,
+  local: T[],
+  backup: T[],
+  summary: EntityDiffSummary,
+  items: EntityDiffItem[]
+): void {
+  const localById = new Map(local.map((x) => [x.id, x]));
+  const backupIds = new Set(backup.map((x) => x.id));
+  for (const b of backup) {
+    const l = localById.get(b.id);
+    if (!l) {
+      summary.added++;
+      items.push({ entity, id: b.id, label: entityLabel(b), kind: 'added' });
+    } else if (isSame(l, b)) {
+      summary.unchanged++;
+    } else {
+      const newer = compareNewer(l, b);
+      summary.changed++;
+      if (newer === 'backup') summary.backupNewer++;
+      if (newer === 'local') summary.localNewer++;
+      items.push({ entity, id: b.id, label: entityLabel(b), kind: 'changed', newer });
+    }
+  }
+  for (const l of local) {
+    if (!backupIds.has(l.id)) {
+      summary.removed++;
+      items.push({ entity, id: l.id, label: entityLabel(l), kind: 'removed' });
+    }
+  }
+}
+
+/**
+ * Compare a backup against current data. "removed" means present locally but
+ * not in the backup (a replace restore would remove it).
+ */
+export function diffBackup(local: LocalSnapshot, backup: BackupData): RestorePreview {
+  const entities = emptyRecord(emptySummary);
+  const items: EntityDiffItem[] = [];
+  const localCases = new Map(local.cases.map((c) => [c.case.id, c]));
+  const backupCaseIds = new Set(backup.cases.map((c) => c.case.id));
+
+  for (const b of backup.cases) {
+    const l = localCases.get(b.case.id);
+    diffById('cases', l ? [l.case] : [], [b.case], entities.cases, items);
+    diffById('plans', l?.plan ? [l.plan] : [], b.plan ? [b.plan] : [], entities.plans, items);
+    diffById('tasks', l?.plan?.tasks ?? [], b.plan?.tasks ?? [], entities.tasks, items);
+    diffById('documents', l?.documents ?? [], b.documents, entities.documents, items);
+    diffById('contacts', l?.contacts ?? [], b.contacts, entities.contacts, items);
+    diffById('checklist', l?.checklist ?? [], b.checklist, entities.checklist, items);
+    diffById('correspondence', l?.correspondence ?? [], b.correspondence ?? [], entities.correspondence, items);
+  }
+  if ((backup.manualRecords ?? []).length > 0) {
+    diffById('manualRecords', local.manualRecords, backup.manualRecords, entities.manualRecords, items);
+  }
+  if ((backup.personalTemplates ?? []).length > 0) {
+    diffById('personalTemplates', local.personalTemplates, backup.personalTemplates ?? [], entities.personalTemplates, items);
+  }
+
+  return {
+    sourceVersion: backup.version,
+    exportDate: backup.exportDate,
+    entities,
+    items,
+    untouchedCaseCount: local.cases.filter((c) => !backupCaseIds.has(c.case.id)).length,
+  };
+}
+
+// ============================================================================
+// MERGE
+// ============================================================================
+
+function mergeById<T extends Identified>(local: T[], backup: T[], mode: RestoreMode, counts: RestoreActionCounts): T[] {
+  const localById = new Map(local.map((x) => [x.id, x]));
+  const backupById = new Map(backup.map((x) => [x.id, x]));
+
+  if (mode === 'replace') {
+    for (const b of backup) {
+      const l = localById.get(b.id);
+      if (!l) counts.added++;
+      else if (isSame(l, b)) counts.kept++;
+      else counts.updated++;
+    }
+    counts.removed += local.filter((l) => !backupById.has(l.id)).length;
+    return [...backup];
+  }
+
+  const result = local.map((l) => {
+    const b = backupById.get(l.id);
+    if (!b || isSame(l, b)) {
+      counts.kept++;
+      return l;
+    }
+    if (mode === 'merge' && compareNewer(l, b) === 'backup') {
+      counts.updated++;
+      return b;
+    }
+    counts.kept++;
+    return l;
+  });
+  for (const b of backup) {
+    if (!localById.has(b.id)) {
+      counts.added++;
+      result.push(b);
+    }
+  }
+  return result;
+}
+
+/** Pick one of two whole records (case, plan) according to the mode. */
+function pickRecord<T extends object>(local: T | null, backup: T | null, mode: RestoreMode, counts: RestoreActionCounts): T | null {
+  if (!local && !backup) return null;
+  if (!local) {
+    counts.added++;
+    return backup;
+  }
+  if (!backup) {
+    if (mode === 'replace') {
+      counts.removed++;
+      return null;
+    }
+    counts.kept++;
+    return local;
+  }
+  if (isSame(local, backup)) {
+    counts.kept++;
+    return local;
+  }
+  if (mode === 'replace' || (mode === 'merge' && compareNewer(local, backup) === 'backup')) {
+    counts.updated++;
+    return backup;
+  }
+  counts.kept++;
+  return local;
+}
+
+function mergePlan(
+  local: AftercarePlan | null,
+  backup: AftercarePlan | null,
+  mode: RestoreMode,
+  actions: Record<RestoreEntity, RestoreActionCounts>
+): AftercarePlan | null {
+  const base = pickRecord(local, backup, mode, actions.plans);
+  if (!base) {
+    // Plan removed (replace) or absent on both sides
+    if (local) actions.tasks.removed += local.tasks.length;
+    return null;
+  }
+  const tasks = mergeById(local?.tasks ?? [], backup?.tasks ?? [], mode, actions.tasks);
+  return { ...base, tasks };
+}
+
+/** Key/value data without timestamps: replace lets backup values win; merge and add-only only add missing keys. */
+function mergeKeyed<T>(local: Record<string, T>, backup: Record<string, T>, mode: RestoreMode): Record<string, T> {
+  if (mode === 'replace') return { ...local, ...backup };
+  return { ...backup, ...local };
+}
+
+/**
+ * Work out what a restore would write for the given mode.
+ */
+export function planRestore(local: LocalSnapshot, backup: BackupData, mode: RestoreMode): RestorePlan {
+  const actions = emptyRecord(emptyActions);
+  const localCases = new Map(local.cases.map((c) => [c.case.id, c]));
+
+  const cases: BackupCaseData[] = backup.cases.map((b) => {
+    const l = localCases.get(b.case.id);
+    const caseRecord = pickRecord(l?.case ?? null, b.case, mode, actions.cases) ?? b.case;
+    const caseId = caseRecord.id;
+    const plan = mergePlan(l?.plan ?? null, b.plan, mode, actions);
+    return {
+      case: caseRecord,
+      plan: plan ? { ...plan, caseId } : null,
+      documents: mergeById(l?.documents ?? [], b.documents ?? [], mode, actions.documents).map((d) => ({ ...d, caseId })),
+      contacts: mergeById(l?.contacts ?? [], b.contacts ?? [], mode, actions.contacts).map((c) => ({ ...c, caseId })),
+      checklist: mergeById(l?.checklist ?? [], b.checklist ?? [], mode, actions.checklist).map((i) => ({ ...i, caseId })),
+      correspondence: mergeById(l?.correspondence ?? [], b.correspondence ?? [], mode, actions.correspondence).map((e) => ({ ...e, caseId })),
+    };
+  });
+
+  // App-wide data: an empty section in the backup (e.g. a migrated v1 file) means
+  // "not included", so local data is kept even in replace mode.
+  const backupManual = backup.manualRecords ?? [];
+  const backupSettings = backup.settings ?? {};
+  // Manual records have no timestamps: merge behaves like add-only
+  const manualRecords = mergeById(
+    local.manualRecords,
+    backupManual,
+    mode === 'replace' && backupManual.length > 0 ? 'replace' : 'add-only',
+    actions.manualRecords
+  );
+  const backupTemplates = backup.personalTemplates ?? [];
+  const personalTemplates = mergeById(
+    local.personalTemplates,
+    backupTemplates,
+    backupTemplates.length > 0 ? mode : 'add-only',
+    actions.personalTemplates
+  );
+
+  return {
+    cases,
+    settings: Object.keys(backupSettings).length > 0 ? mergeKeyed(local.settings, backupSettings, mode) : { ...local.settings },
+    manualRecords,
+    scriptNotes: mergeKeyed(local.scriptNotes, backup.scriptNotes ?? {}, mode),
+    personalTemplates,
+    actions,
+  };
+}
@@ -2,18 +2,37 @@
  * Backup Service
  * 
  * Handles full state export/import for backup and restore functionality.
+ * Full backups (v2) cover every case; single-case .apgcase files are handled separately.
  */
 
 import {
+  Case,
   AftercareProfile,
   AftercarePlan,
   UploadedDocument,
   ContactEntry,
   ExecutorChecklistItem,
+  CorrespondenceEntry,
+  LegacyVaultRecord,
+  PersonalScriptTemplate,
 } from '../types';
+import { encryptWithPassphrase, decryptWithPassphrase, isPassphraseEncrypted, bytesToBase64, base64ToBytes } from '../utils/encryption';
 import { storageService } from './storageService';
+import { llvIntegration } from './llvIntegration';
+import { documentBlobStore } from './documentBlobStore';
+import { diffBackup, planRestore, RESTORE_ENTITIES } from './backupMerge';
+import { migrateLegacyChecklist, applyChecklistSeedDefaults } from './executorService';
+import type { LocalSnapshot, RestoreMode, RestorePreview, RestoreActionCounts, RestoreEntity } from './backupMerge';
 
-export interface BackupData {
+export type { RestoreMode, RestorePreview, RestoreEntity } from './backupMerge';
+
+/** Current full-backup format: every case, settings, manual vault records and script notes. */
+export const BACKUP_FORMAT_VERSION = '2.0.0';
+
+/**
+ * Legacy (v1) backup: active case only.
+ */
+export interface BackupDataV1 {
   version: string;
   exportDate: string;
   profile: AftercareProfile | null;
@@ -30,32 +49,162 @@ export interface BackupData {
   };
 }
 
+/** One case and all of its per-case collections. */
+export interface BackupCaseData {
+  case: Case;
+  plan: AftercarePlan | null;
+  documents: UploadedDocument[];
+  contacts: ContactEntry[];
+  checklist: ExecutorChecklistItem[];
+  /** Letters and calls sent for the case. Absent in backups made before the correspondence log. */
+  correspondence?: CorrespondenceEntry[];
+  /** Base64 document file contents keyed by document id. Absent in backups made before files were included. */
+  files?: Record<string, string>;
+}
+
+/**
+ * Full backup (v2): every case (active and archived) plus app-wide data,
+ * including document file contents (decrypted, as in case exports).
+ */
+export interface BackupData {
+  version: string;
+  exportDate: string;
+  activeCaseId: string | null;
+  cases: BackupCaseData[];
+  settings: Record<string, unknown>;
+  manualRecords: LegacyVaultRecord[];
+  /** Script/template notes keyed by template id. */
+  scriptNotes: Record<string, string>;
+  /** The user's own letter and script templates. Absent in backups made before personal templates. */
+  personalTemplates?: PersonalScriptTemplate[];
+  metadata: {
+    caseCount: number;
+    archivedCaseCount: number;
+    taskCount: number;
+    documentCount: number;
+    contactCount: number;
+    checklistItemCount: number;
+    manualRecordCount: number;
+    personalTemplateCount?: number;
+  };
+}
+
+function buildBackupMetadata(
+  cases: BackupCaseData[],
+  manualRecords: LegacyVaultRecord[],
+  personalTemplates: PersonalScriptTemplate[] = []
+): BackupData['metadata'] {
+  return {
+    caseCount: cases.length,
+    archivedCaseCount: cases.filter((c) => c.case.status === 'archived').length,
+    taskCount: cases.reduce((n, c) => n + (c.plan?.tasks?.length ?? 0), 0),
+    documentCount: cases.reduce((n, c) => n + c.documents.length, 0),
+    contactCount: cases.reduce((n, c) => n + c.contacts.length, 0),
+    checklistItemCount: cases.reduce((n, c) => n + c.checklist.length, 0),
+    manualRecordCount: manualRecords.length,
+    personalTemplateCount: personalTemplates.length,
+  };
+}
+
+/**
+ * Encrypt export JSON with a passphrase when one is given (otherwise plaintext).
+ */
+async function protectExport(json: string, passphrase?: string): Promise<string> {
+  return passphrase ? encryptWithPassphrase(json, passphrase) : json;
+}
+
+/**
+ * Unwrap an exported file: decrypts passphrase-encrypted files, passes plaintext through.
+ */
+async function readExportText(
+  text: string,
+  passphrase?: string
+): Promise<{ json: string } | { error: string; requiresPassphrase: boolean }> {
+  if (!isPassphraseEncrypted(text)) return { json: text };
+  if (!passphrase) {
+    return { error: 'This file is protected with a passphrase.', requiresPassphrase: true };
+  }
+  try {
+    return { json: await decryptWithPassphrase(text, passphrase) };
+  } catch (error) {
+    return {
+      error: error instanceof Error ? error.message : 'Could not decrypt this file.',
+      requiresPassphrase: true,
+    };
+  }
+}
+
+/** Store base64 file contents from an export; returns the storage reference, or '' on failure. */
+async function saveEmbeddedFile(caseId: string, documentId: string, contents: string): Promise<string> {
+  try {
+    return await documentBlobStore.saveBlob(caseId, documentId, base64ToBytes(contents).buffer as ArrayBuffer);
+  } catch (error) {
+    console.error(`Failed to restore document file ${documentId}:`, error);
+    return '';
+  }
+}
+
+/** Base64 contents of every document that has a stored file, keyed by document id. */
+async function exportDocumentFiles(caseId: string, documents: UploadedDocument[]): Promise<Record<string, string>> {
+  const files: Record<string, string> = {};
+  for (const doc of documents) {
+    if (!doc.filePath) continue;
+    try {
+      const blob = await documentBlobStore.loadBlob(caseId, doc.id, doc.mimeType);
+      if (blob) files[doc.id] = bytesToBase64(new Uint8Array(await blob.arrayBuffer()));
+    } catch (error) {
+      console.error(`Failed to read document file ${doc.id} for export:`, error);
+    }
+  }
+  return files;
+}
+
+/**
+ * Current data of every case plus app-wide data, in backup shape.
+ */
+async function collectLocalSnapshot(): Promise<LocalSnapshot> {
+  const caseList = (await storageService.loadCases()) ?? [];
+  const plansByCase = (await storageService.loadPlansByCase()) ?? {};
+  const allDocuments = (await storageService.loadAllDocuments()) ?? [];
+  const allContacts = (await storageService.loadAllContacts()) ?? [];
+  const allChecklist = (await storageService.loadAllChecklist()) ?? [];
+  const allCorrespondence = (await storageService.loadAllCorrespondence()) ?? [];
+
+  const cases: BackupCaseData[] = caseList.map((c) => ({
+    case: c,
+    plan: plansByCase[c.id] ?? null,
+    documents: allDocuments.filter((d) => d.caseId === c.id),
+    contacts: allContacts.filter((x) => x.caseId === c.id),
+    checklist: allChecklist.filter((i) => i.caseId === c.id),
+    correspondence: allCorrespondence.filter((e) => e.caseId === c.id),
+  }));
+
+  return {
+    cases,
+    settings: (await storageService.loadSettings()) ?? {},
+    manualRecords: llvIntegration.loadManualRecords() ?? [],
+    scriptNotes: storageService.loadScriptNotes() ?? {},
+    personalTemplates: (await storageService.loadPersonalTemplates()) ?? [],
+  };
+}
+
 /**
  * Export full application state to JSON
  */
 export async function exportBackup(): Promise<string> {
   try {
-    const profile = await storageService.loadProfile();
-    const plan = await storageService.loadPlan();
-    const documents = await storageService.loadDocuments();
-    const contacts = await storageService.loadContacts();
-    const checklist = await storageService.loadChecklist();
-    
+    const snapshot = await collectLocalSnapshot();
+    const cases: BackupCaseData[] = [];
+    for (const c of snapshot.cases) {
+      cases.push({ ...c, files: await exportDocumentFiles(c.case.id, c.documents) });
+    }
     const backup: BackupData = {
-      version: '1.0.0',
+      version: BACKUP_FORMAT_VERSION,
       exportDate: new Date().toISOString(),
-      profile,
-      plan,
-      documents,
-      contacts,
-      checklist,
-      metadata: {
-        profileExists: profile !== null,
-        planExists: plan !== null,
-        documentCount: documents.length,
-        contactCount: contacts.length,
-        checklistItemCount: checklist.length,
-      },
+      activeCaseId: storageService.getActiveCaseId(),
+      ...snapshot,
+      cases,
+      metadata: buildBackupMetadata(snapshot.cases, snapshot.manualRecords, snapshot.personalTemplates),
     };
     
     return JSON.stringify(backup, null, 2);
@@ -65,80 +214,266 @@ export async function exportBackup(): Promise<string> {
   }
 }
 
+function isBackupV2(data: { version?: string }): boolean {
+  return typeof data.version === 'string' && parseInt(data.version, 10) >= 2;
+}
+
+/**
+ * Convert a v1 (active-case-only) backup into a v2 backup holding a single case.
+ * Uses the plan's caseId when present so re-importing restores the same case.
+ */
+export function migrateBackupV1(v1: BackupDataV1): BackupData {
+  const caseId = v1.plan?.caseId
+    || (typeof crypto !== 'undefined' && crypto.randomUUID ? crypto.randomUUID() : `case_${Date.now()}`);
+  const exportDay = (v1.exportDate || '').split('T')[0];
+  const profile = v1.plan?.profile ?? v1.profile;
+  const plan: AftercarePlan | null = v1.plan
+    ? { ...v1.plan, caseId, profile: profile as AftercareProfile }
+    : profile
+      ? { id: `plan_${Date.now()}`, caseId, profile, tasks: [], createdAt: v1.exportDate, lastUpdatedAt: v1.exportDate }
+      : null;
+  const cases: BackupCaseData[] = [{
+    case: {
+      id: caseId,
+      label: exportDay ? `Restored backup ${exportDay}` : 'Restored backup',
+      notes: '',
+      status: 'active',
+      createdAt: v1.exportDate,
+      updatedAt: v1.exportDate,
+    },
+    plan,
+    documents: (v1.documents ?? []).map((d) => ({ ...d, caseId })),
+    contacts: (v1.contacts ?? []).map((c) => ({ ...c, caseId })),
+    checklist: applyChecklistSeedDefaults(migrateLegacyChecklist((v1.checklist ?? []).map((i) => ({ ...i, caseId })))),
+  }];
+  return {
+    version: BACKUP_FORMAT_VERSION,
+    exportDate: v1.exportDate,
+    activeCaseId: caseId,
+    cases,
+    settings: {},
+    manualRecords: [],
+    scriptNotes: {},
+    personalTemplates: [],
+    metadata: buildBackupMetadata(cases, []),
+  };
+}
+
 /**
  * Import backup data from JSON
  */
 export interface ImportResult {
   success: boolean;
   error?: string;
+  /** Version of the backup file that was read ('1.x' files are migrated into a single case). */
+  sourceVersion?: string;
+  /** True when the file is passphrase-encrypted and no (or a wrong) passphrase was given. */
+  requiresPassphrase?: boolean;
+  mode?: RestoreMode;
+  /** What the restore did per entity (added / updated / removed / kept). */
+  actions?: Record<RestoreEntity, RestoreActionCounts>;
   imported: {
+    cases: number;
     profile: boolean;
     plan: boolean;
+    tasks: number;
     documents: number;
+    /** Documents that had a file when backed up but whose contents are not in the backup or on this device. */
+    missingFiles: number;
     contacts: number;
     checklist: number;
+    correspondence: number;
+    settings: boolean;
+    manualRecords: number;
+    scriptNotes: number;
+    personalTemplates: number;
+  };
+}
+
+function emptyImportCounts(): ImportResult['imported'] {
+  return {
+    cases: 0,
+    profile: false,
+    plan: false,
+    tasks: 0,
+    documents: 0,
+    missingFiles: 0,
+    contacts: 0,
+    checklist: 0,
+    correspondence: 0,
+    settings: false,
+    manualRecords: 0,
+    scriptNotes: 0,
+    personalTemplates: 0,
+  };
+}
+
+/**
+ * Parse and validate backup JSON. v1 files are migrated into a single case.
+ */
+function parseBackupJson(backupJson: string): { backup: BackupData; sourceVersion: string } | { error: string } {
+  const parsed = JSON.parse(backupJson);
+  
+  // Validate backup structure
+  if (!parsed || !parsed.version || !parsed.exportDate) {
+    return { error: 'Invalid backup file format. Missing version or export date.' };
+  }
+  if (typeof parsed.caseId === 'string' && typeof parsed.caseLabel === 'string') {
+    return { error: 'This is a single case file. Use Import case file on the Cases page.' };
+  }
+
+  const backup: BackupData = isBackupV2(parsed) ? parsed : migrateBackupV1(parsed as BackupDataV1);
+  if (!Array.isArray(backup.cases)) {
+    return { error: 'Invalid backup file format. Missing case list.' };
+  }
+  return { backup, sourceVersion: parsed.version };
+}
+
+/**
+ * A migrated v1 backup names its case "Restored backup <date>". When that case
+ * still exists here, keep its local label and notes instead of renaming it.
+ */
+function keepLocalCaseLabels(backup: BackupData, sourceVersion: string, local: LocalSnapshot): BackupData {
+  if (isBackupV2({ version: sourceVersion })) return backup;
+  const localCases = new Map(local.cases.map((c) => [c.case.id, c.case]));
+  return {
+    ...backup,
+    cases: backup.cases.map((c) => {
+      const existing = localCases.get(c.case.id);
+      return existing ? { ...c, case: { ...c.case, label: existing.label, notes: existing.notes } } : c;
+    }),
   };
 }
 
-export async function importBackup(backupJson: string): Promise<ImportResult> {
+export type PreviewResult =
+  | { success: true; preview: RestorePreview }
+  | { success: false; error: string; requiresPassphrase?: boolean };
+
+/**
+ * Compare a backup with the current data without writing anything.
+ */
+export async function previewBackupRestore(backupJson: string): Promise<PreviewResult> {
   try {
-    const backup: BackupData = JSON.parse(backupJson);
-    
-    // Validate backup structure
-    if (!backup.version || !backup.exportDate) {
-      return {
-        success: false,
-        error: 'Invalid backup file format. Missing version or export date.',
-        imported: {
-          profile: false,
-          plan: false,
-          documents: 0,
-          contacts: 0,
-          checklist: 0,
-        },
-      };
+    const parsed = parseBackupJson(backupJson);
+    if ('error' in parsed) return { success: false, error: parsed.error };
+    const local = await collectLocalSnapshot();
+    return { success: true, preview: diffBackup(local, keepLocalCaseLabels(parsed.backup, parsed.sourceVersion, local)) };
+  } catch (error) {
+    console.error('Backup preview failed:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return { success: false, error: `Failed to read backup: ${errorMessage}` };
+  }
+}
+
+/**
+ * Storage reference for a restored document: its file from the backup when
+ * included, else the file already on this device; '' when neither exists.
+ */
+async function restoreBackupDocumentFile(
+  files: Record<string, string> | undefined,
+  localDocuments: UploadedDocument[],
+  caseId: string,
+  doc: UploadedDocument
+): Promise<string> {
+  const contents = files?.[doc.id];
+  const filePath = typeof contents === 'string' ? await saveEmbeddedFile(caseId, doc.id, contents) : '';
+  return filePath || localDocuments.find((d) => d.id === doc.id)?.filePath || '';
+}
+
+/** Delete the stored files of a case's previous documents that the saved list no longer references. */
+async function deleteReplacedDocumentFiles(caseId: string, previous: UploadedDocument[], saved: UploadedDocument[]): Promise<void> {
+  const storedIds = new Set(saved.filter((d) => d.filePath).map((d) => d.id));
+  for (const doc of previous) {
+    if (doc.filePath && !storedIds.has(doc.id)) await documentBlobStore.deleteBlob(caseId, doc.id);
+  }
+}
+
+/**
+ * Restore a backup. Only the cases contained in the backup are written; other
+ * local cases are always kept. The mode decides how conflicts are resolved:
+ * - replace: the backup's copy of each case wins
+ * - merge: items are combined by id, keeping whichever side is newer
+ * - add-only: only items missing locally are added
+ */
+export async function importBackup(backupJson: string, mode: RestoreMode = 'replace'): Promise<ImportResult> {
+  try {
+    const parsed = parseBackupJson(backupJson);
+    if ('error' in parsed) {
+      return { success: false, error: parsed.error, imported: emptyImportCounts() };
     }
-    
-    const imported = {
-      profile: false,
-      plan: false,
-      documents: 0,
-      contacts: 0,
-      checklist: 0,
-    };
-    
-    // Import profile
-    if (backup.profile) {
-      await storageService.saveProfile(backup.profile);
-      imported.profile = true;
+    const local = await collectLocalSnapshot();
+    const backup = keepLocalCaseLabels(parsed.backup, parsed.sourceVersion, local);
+    const restore = planRestore(local, backup, mode);
+    const imported = emptyImportCounts();
+    const localPlanCaseIds = new Set(local.cases.filter((c) => c.plan).map((c) => c.case.id));
+
+    // Case list: upsert every case from the backup
+    const backupCaseIds = new Set(restore.cases.map((c) => c.case.id));
+    await storageService.saveCases([
+      ...local.cases.map((c) => c.case).filter((c) => !backupCaseIds.has(c.id)),
+      ...restore.cases.map((c) => c.case),
+    ]);
+    imported.cases = restore.cases.length;
+
+    // Per-case content
+    for (const entry of restore.cases) {
+      const caseId = entry.case.id;
+      if (entry.plan) {
+        await storageService.savePlanForCase(entry.plan);
+        imported.plan = true;
+        imported.profile = imported.profile || !!entry.plan.profile;
+        imported.tasks += entry.plan.tasks?.length ?? 0;
+      } else if (localPlanCaseIds.has(caseId)) {
+        await storageService.deletePlanForCase(caseId);
+      }
+      const localDocuments = local.cases.find((c) => c.case.id === caseId)?.documents ?? [];
+      const backupFiles = backup.cases.find((c) => c.case.id === caseId)?.files;
+      const documents: UploadedDocument[] = [];
+      for (const doc of entry.documents) {
+        const filePath = await restoreBackupDocumentFile(backupFiles, localDocuments, caseId, doc);
+        if (!filePath && doc.filePath) imported.missingFiles++;
+        documents.push({ ...doc, filePath });
+      }
+      await storageService.saveDocumentsForCase(caseId, documents);
+      await deleteReplacedDocumentFiles(caseId, localDocuments, documents);
+      imported.documents += documents.length;
+      await storageService.saveContactsForCase(caseId, entry.contacts);
+      imported.contacts += entry.contacts.length;
+      await storageService.saveChecklistForCase(caseId, entry.checklist);
+      imported.checklist += entry.checklist.length;
+      await storageService.saveCorrespondenceForCase(caseId, entry.correspondence ?? []);
+      imported.correspondence += entry.correspondence?.length ?? 0;
     }
-    
-    // Import plan
-    if (backup.plan) {
-      await storageService.savePlan(backup.plan);
-      imported.plan = true;
+
+    // App-wide data
+    if (Object.keys(restore.settings).length > 0) {
+      await storageService.saveSettings(restore.settings);
+      imported.settings = true;
     }
-    
-    // Import documents
-    if (backup.documents && Array.isArray(backup.documents)) {
-      await storageService.saveDocuments(backup.documents);
-      imported.documents = backup.documents.length;
+    if (restore.actions.manualRecords.added + restore.actions.manualRecords.updated + restore.actions.manualRecords.removed > 0) {
+      llvIntegration.saveManualRecords(restore.manualRecords);
+      imported.manualRecords = restore.manualRecords.length;
     }
-    
-    // Import contacts
-    if (backup.contacts && Array.isArray(backup.contacts)) {
-      await storageService.saveContacts(backup.contacts);
-      imported.contacts = backup.contacts.length;
+    if (Object.keys(restore.scriptNotes).length > 0) {
+      storageService.saveScriptNotes(restore.scriptNotes);
+      imported.scriptNotes = Object.keys(restore.scriptNotes).length;
     }
-    
-    // Import checklist
-    if (backup.checklist && Array.isArray(backup.checklist)) {
-      await storageService.saveChecklist(backup.checklist);
-      imported.checklist = backup.checklist.length;
+    const templateActions = restore.actions.personalTemplates;
+    if (templateActions.added + templateActions.updated + templateActions.removed > 0) {
+      await storageService.savePersonalTemplates(restore.personalTemplates);
+      imported.personalTemplates = restore.personalTemplates.length;
     }
+
+    const activeCaseId = backup.activeCaseId && backupCaseIds.has(backup.activeCaseId)
+      ? backup.activeCaseId
+      : restore.cases[0]?.case.id;
+    if (activeCaseId) await storageService.setActiveCaseId(activeCaseId);
     
     return {
       success: true,
+      sourceVersion: parsed.sourceVersion,
+      mode,
+      actions: restore.actions,
       imported,
     };
   } catch (error) {
@@ -147,23 +482,22 @@ export async function importBackup(backupJson: string): Promise<ImportResult> {
     return {
       success: false,
       error: `Failed to import backup: ${errorMessage}`,
-      imported: {
-        profile: false,
-        plan: false,
-        documents: 0,
-        contacts: 0,
-        checklist: 0,
-      },
+      imported: emptyImportCounts(),
     };
   }
 }
 
+/** Total number of items a restore added, updated or removed. */
+export function countRestoreChanges(actions: Record<RestoreEntity, RestoreActionCounts>): number {
+  return RESTORE_ENTITIES.reduce((n, e) => n + actions[e].added + actions[e].updated + actions[e].removed, 0);
+}
+
 /**
  * Download backup as file
  */
-export async function downloadBackup(): Promise<void> {
+export async function downloadBackup(passphrase?: string): Promise<void> {
   try {
-    const backupJson = await exportBackup();
+    const backupJson = await protectExport(await exportBackup(), passphrase);
     const blob = new Blob([backupJson], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -181,7 +515,11 @@ export async function downloadBackup(): Promise<void> {
 
 /**
  * Export a single case to JSON (for .apgcase or backup).
- * Contains plan, documents, contacts, checklist for that case only.
+ * Contains plan, documents, contacts, checklist for that case only, plus the
+ * documents' file contents so the case can be brought back after it was
+ * deleted here or on another device. Stored files are encrypted with this
+ * device's key, so the export carries them decrypted; use a passphrase to
+ * protect the file.
  */
 export interface CaseExportData {
   version: string;
@@ -193,10 +531,16 @@ export interface CaseExportData {
   documents: UploadedDocument[];
   contacts: ContactEntry[];
   checklist: ExecutorChecklistItem[];
+  /** Letters and calls sent for the case. Absent in case files exported before the correspondence log. */
+  correspondence?: CorrespondenceEntry[];
+  /** Base64 file contents keyed by document id. Absent in case files exported before files were included. */
+  files?: Record<string, string>;
   metadata: {
     documentCount: number;
+    documentFileCount?: number;
     contactCount: number;
     checklistItemCount: number;
+    correspondenceCount?: number;
     taskCount: number;
   };
 }
@@ -206,9 +550,12 @@ export async function exportCaseToJson(caseId: string, caseLabel: string): Promi
   const allDocs = await storageService.loadAllDocuments();
   const allContacts = await storageService.loadAllContacts();
   const allChecklist = await storageService.loadAllChecklist();
+  const allCorrespondence = await storageService.loadAllCorrespondence();
   const documents = allDocs.filter((d) => d.caseId === caseId);
   const contacts = allContacts.filter((c) => c.caseId === caseId);
   const checklist = allChecklist.filter((i) => i.caseId === caseId);
+  const correspondence = allCorrespondence.filter((e) => e.caseId === caseId);
+  const files = await exportDocumentFiles(caseId, documents);
   const taskCount = plan?.tasks?.length ?? 0;
   const data: CaseExportData = {
     version: '1.0.0',
@@ -220,18 +567,22 @@ export async function exportCaseToJson(caseId: string, caseLabel: string): Promi
     documents,
     contacts,
     checklist,
+    correspondence,
+    files,
     metadata: {
       documentCount: documents.length,
+      documentFileCount: Object.keys(files).length,
       contactCount: contacts.length,
       checklistItemCount: checklist.length,
+      correspondenceCount: correspondence.length,
       taskCount,
     },
   };
   return JSON.stringify(data, null, 2);
 }
 
-export async function downloadCaseExport(caseId: string, caseLabel: string): Promise<void> {
-  const json = await exportCaseToJson(caseId, caseLabel);
+export async function downloadCaseExport(caseId: string, caseLabel: string, passphrase?: string): Promise<void> {
+  const json = await protectExport(await exportCaseToJson(caseId, caseLabel), passphrase);
   const safeName = caseLabel.replace(/[^a-zA-Z0-9-_]/g, '_').slice(0, 40);
   const blob = new Blob([json], { type: 'application/json' });
   const url = URL.createObjectURL(blob);
@@ -245,26 +596,224 @@ export async function downloadCaseExport(caseId: string, caseLabel: string): Pro
 }
 
 /**
- * Load backup from file
+ * Import a single case from an .apgcase.json export
  */
-export async function loadBackupFromFile(file: File): Promise<ImportResult> {
+export interface CaseImportOptions {
+  /** Restore into this existing case (replacing its content) instead of creating a new one. */
+  targetCaseId?: string;
+  /** Passphrase for encrypted case files. */
+  passphrase?: string;
+}
+
+export interface CaseImportResult {
+  success: boolean;
+  error?: string;
+  caseId?: string;
+  caseLabel?: string;
+  /** True when the file is passphrase-encrypted and no (or a wrong) passphrase was given. */
+  requiresPassphrase?: boolean;
+  imported: {
+    plan: boolean;
+    tasks: number;
+    documents: number;
+    /** Documents whose file contents were restored (from the file, or from this device). */
+    documentFiles: number;
+    /** Documents that had a file when exported but whose contents could not be restored. */
+    missingFiles: number;
+    contacts: number;
+    checklist: number;
+    correspondence: number;
+  };
+}
+
+function emptyCaseImportCounts(): CaseImportResult['imported'] {
+  return { plan: false, tasks: 0, documents: 0, documentFiles: 0, missingFiles: 0, contacts: 0, checklist: 0, correspondence: 0 };
+}
+
+/** Returns an error message if the data is not a valid CaseExportData, otherwise null. */
+export function validateCaseExportData(data: unknown): string | null {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return 'Invalid case file format.';
+  }
+  const d = data as Partial<CaseExportData>;
+  if (!d.version || !d.exportDate) {
+    return 'Invalid case file format. Missing version or export date.';
+  }
+  if (typeof d.caseId !== 'string' || typeof d.caseLabel !== 'string') {
+    return 'This file is not a case export. To restore a full backup, use Restore in Settings.';
+  }
+  if (d.plan != null && (typeof d.plan !== 'object' || !Array.isArray(d.plan.tasks))) {
+    return 'Invalid case file format. The plan is malformed.';
+  }
+  for (const key of ['documents', 'contacts', 'checklist', 'correspondence'] as const) {
+    if (d[key] !== undefined && !Array.isArray(d[key])) {
+      return `Invalid case file format. "${key}" must be a list.`;
+    }
+  }
+  if (d.files !== undefined && (!d.files || typeof d.files !== 'object' || Array.isArray(d.files))) {
+    return 'Invalid case file format. "files" must be an object.';
+  }
+  return null;
+}
+
+/** Copy a document's encrypted file from the exported case, if it still exists on this device. */
+async function copyDocumentFile(fromCaseId: string, toCaseId: string, doc: UploadedDocument): Promise<string> {
+  if (!doc.filePath) return '';
+  if (fromCaseId === toCaseId) return doc.filePath;
   try {
-    const text = await file.text();
-    return await importBackup(text);
+    const blob = await documentBlobStore.loadBlob(fromCaseId, doc.id, doc.mimeType);
+    if (!blob) return '';
+    return await documentBlobStore.saveBlob(toCaseId, doc.id, blob);
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Write a document's file into the target case: from the contents embedded in
+ * the export when present, otherwise copied from the source case on this device.
+ */
+async function restoreDocumentFile(
+  files: Record<string, string> | undefined,
+  fromCaseId: string,
+  toCaseId: string,
+  doc: UploadedDocument
+): Promise<string> {
+  const contents = files?.[doc.id];
+  if (typeof contents !== 'string') return copyDocumentFile(fromCaseId, toCaseId, doc);
+  return saveEmbeddedFile(toCaseId, doc.id, contents);
+}
+
+export async function importCaseFromJson(json: string, options: CaseImportOptions = {}): Promise<CaseImportResult> {
+  try {
+    const unwrapped = await readExportText(json, options.passphrase);
+    if ('error' in unwrapped) {
+      return { success: false, error: unwrapped.error, requiresPassphrase: unwrapped.requiresPassphrase, imported: emptyCaseImportCounts() };
+    }
+    const data = JSON.parse(unwrapped.json) as CaseExportData;
+    const validationError = validateCaseExportData(data);
+    if (validationError) {
+      return { success: false, error: validationError, imported: emptyCaseImportCounts() };
+    }
+
+    let target: Case;
+    if (options.targetCaseId) {
+      const existing = (await storageService.loadCases()).find((c) => c.id === options.targetCaseId);
+      if (!existing) {
+        return { success: false, error: 'The selected case no longer exists.', imported: emptyCaseImportCounts() };
+      }
+      target = existing;
+    } else {
+      target = await storageService.createCase(data.caseLabel.trim() || 'Imported case');
+    }
+
+    const imported = emptyCaseImportCounts();
+    const now = new Date().toISOString();
+
+    // Plan (re-keyed to the target case); a profile-only export still gets an empty plan
+    const profile = data.plan?.profile ?? data.profile;
+    if (data.plan || profile) {
+      const plan: AftercarePlan = data.plan
+        ? { ...data.plan, caseId: target.id, profile: profile as AftercareProfile, lastUpdatedAt: now }
+        : {
+            id: `plan_${Date.now()}`,
+            caseId: target.id,
+            profile: profile as AftercareProfile,
+            tasks: [],
+            createdAt: now,
+            lastUpdatedAt: now,
+          };
+      await storageService.savePlanForCase(plan);
+      imported.plan = true;
+      imported.tasks = plan.tasks.length;
+    } else if (options.targetCaseId) {
+      // Replacing a case with a file that has no plan leaves none behind
+      await storageService.deletePlanForCase(target.id);
+    }
+
+    const previousDocuments = options.targetCaseId
+      ? (await storageService.loadAllDocuments()).filter((d) => d.caseId === target.id)
+      : [];
+    const documents: UploadedDocument[] = [];
+    for (const doc of data.documents ?? []) {
+      const filePath = await restoreDocumentFile(data.files, data.caseId, target.id, doc);
+      if (filePath) imported.documentFiles++;
+      else if (doc.filePath) imported.missingFiles++;
+      documents.push({ ...doc, caseId: target.id, filePath });
+    }
+    await storageService.saveDocumentsForCase(target.id, documents);
+    await deleteReplacedDocumentFiles(target.id, previousDocuments, documents);
+    imported.documents = documents.length;
+
+    const contacts = (data.contacts ?? []).map((c) => ({ ...c, caseId: target.id }));
+    await storageService.saveContactsForCase(target.id, contacts);
+    imported.contacts = contacts.length;
+
+    const checklist = applyChecklistSeedDefaults(migrateLegacyChecklist((data.checklist ?? []).map((i) => ({ ...i, caseId: target.id }))));
+    await storageService.saveChecklistForCase(target.id, checklist);
+    imported.checklist = checklist.length;
+
+    // Files exported before the correspondence log have none; a replaced case's log is cleared
+    const correspondence = (data.correspondence ?? []).map((e) => ({ ...e, caseId: target.id }));
+    if (correspondence.length > 0 || options.targetCaseId) {
+      await storageService.saveCorrespondenceForCase(target.id, correspondence);
+    }
+    imported.correspondence = correspondence.length;
+
+    if (options.targetCaseId) await storageService.updateCase(target);
+
+    return { success: true, caseId: target.id, caseLabel: target.label, imported };
+  } catch (error) {
+    console.error('Case import failed:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return {
+      success: false,
+      error: `Failed to import case: ${errorMessage}`,
+      imported: emptyCaseImportCounts(),
+    };
+  }
+}
+
+/**
+ * Load backup from file. Encrypted files return requiresPassphrase until the
+ * right passphrase is given.
+ */
+export async function loadBackupFromFile(file: File, passphrase?: string, mode: RestoreMode = 'replace'): Promise<ImportResult> {
+  try {
+    const unwrapped = await readExportText(await file.text(), passphrase);
+    if ('error' in unwrapped) {
+      return {
+        success: false,
+        error: unwrapped.error,
+        requiresPassphrase: unwrapped.requiresPassphrase,
+        imported: emptyImportCounts(),
+      };
+    }
+    return await importBackup(unwrapped.json, mode);
   } catch (error) {
     console.error('Backup file load failed:', error);
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     return {
       success: false,
       error: `Failed to load backup file: ${errorMessage}`,
-      imported: {
-        profile: false,
-        plan: false,
-        documents: 0,
-        contacts: 0,
-        checklist: 0,
-      },
+      imported: emptyImportCounts(),
     };
   }
 }
 
+/**
+ * Preview restoring a backup file (see previewBackupRestore).
+ */
+export async function previewBackupFile(file: File, passphrase?: string): Promise<PreviewResult> {
+  try {
+    const unwrapped = await readExportText(await file.text(), passphrase);
+    if ('error' in unwrapped) {
+      return { success: false, error: unwrapped.error, requiresPassphrase: unwrapped.requiresPassphrase };
+    }
+    return await previewBackupRestore(unwrapped.json);
+  } catch (error) {
+    console.error('Backup file load failed:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return { success: false, error: `Failed to load backup file: ${errorMessage}` };
+  }
+}
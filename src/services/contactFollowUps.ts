@@ -0,0 +1,100 @@
+/**
+ * Contact Follow-Ups
+ *
+ * Per-contact communication history (calls, emails, letters, visits) and the
+ * follow-up reminders that come out of it: when to get back in touch, which
+ * follow-ups are due or overdue, and snoozing one without losing its date.
+ * Pure helpers over ContactEntry; callers save contacts through storageService.
+ *
+ * Dates are calendar dates (YYYY-MM-DD) in local time, as in taskScheduling.
+ */
+
+import type { ContactEntry, ContactInteraction, ContactInteractionInput, ContactInteractionType, FollowUpDue } from '../types';
+import { t } from './localization';
+import { addDays, parseCalendarDate, toCalendarDate } from './taskScheduling';
+
+export const CONTACT_INTERACTION_TYPES: ContactInteractionType[] = ['CALL', 'EMAIL', 'LETTER', 'VISIT'];
+
+/** How far ahead the main screen looks for follow-ups, in days. */
+export const FOLLOW_UP_HORIZON_DAYS = 7;
+
+function generateInteractionId(): string {
+  return `int_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/** Returns an error message, or null when the interaction can be saved. */
+export function validateInteractionInput(input: ContactInteractionInput, nextFollowUpDate?: string): string | null {
+  if (!parseCalendarDate(input.date)) return t('contactHistory.error.date');
+  if (!input.summary.trim()) return t('contactHistory.error.summary');
+  if (nextFollowUpDate && !parseCalendarDate(nextFollowUpDate)) return t('contactHistory.error.followUp');
+  return null;
+}
+
+/** Interactions newest first. */
+export function getInteractionTimeline(contact: ContactEntry): ContactInteraction[] {
+  return [...(contact.interactions ?? [])].reverse().sort((a, b) => b.date.localeCompare(a.date));
+}
+
+/**
+ * Record an interaction: it joins the history, moves lastContactedAt forward,
+ * starts a not-yet-contacted contact, and (when given) sets the next follow-up.
+ */
+export function addInteraction(contact: ContactEntry, input: ContactInteractionInput, nextFollowUpDate?: string): ContactEntry {
+  const interaction: ContactInteraction = {
+    id: generateInteractionId(),
+    type: input.type,
+    date: input.date,
+    summary: input.summary.trim(),
+    spokeWith: input.spokeWith?.trim() || undefined,
+    referenceNumber: input.referenceNumber?.trim() || undefined,
+  };
+  const updated: ContactEntry = {
+    ...contact,
+    interactions: [...(contact.interactions ?? []), interaction],
+    lastContactedAt: contact.lastContactedAt && contact.lastContactedAt.slice(0, 10) > input.date ? contact.lastContactedAt : input.date,
+    contactStatus: !contact.contactStatus || contact.contactStatus === 'NOT_CONTACTED' ? 'IN_PROGRESS' : contact.contactStatus,
+  };
+  return nextFollowUpDate ? setFollowUp(updated, nextFollowUpDate) : updated;
+}
+
+export function removeInteraction(contact: ContactEntry, interactionId: string): ContactEntry {
+  return { ...contact, interactions: (contact.interactions ?? []).filter(interaction => interaction.id !== interactionId) };
+}
+
+/** Set (or with no date, clear) the next follow-up; any snooze is dropped. */
+export function setFollowUp(contact: ContactEntry, date: string | undefined): ContactEntry {
+  return { ...contact, nextFollowUpDate: date || undefined, followUpSnoozedUntil: undefined };
+}
+
+/** Put a follow-up off for some days from today, keeping its original date. */
+export function snoozeFollowUp(contact: ContactEntry, days: number, today: Date = new Date()): ContactEntry {
+  return { ...contact, followUpSnoozedUntil: toCalendarDate(addDays(today, days)) };
+}
+
+function effectiveDueDate(contact: ContactEntry): string | undefined {
+  const { nextFollowUpDate, followUpSnoozedUntil } = contact;
+  if (!nextFollowUpDate) return undefined;
+  return followUpSnoozedUntil && followUpSnoozedUntil > nextFollowUpDate ? followUpSnoozedUntil : nextFollowUpDate;
+}
+
+/**
+ * Contacts with a follow-up due within the horizon (or already past), earliest
+ * first. A snoozed follow-up stays hidden until its snooze ends and then
+ * counts as due from that day.
+ */
+export function getFollowUpsDue(
+  contacts: ContactEntry[],
+  today: Date = new Date(),
+  horizonDays: number = FOLLOW_UP_HORIZON_DAYS
+): FollowUpDue[] {
+  const todayDate = toCalendarDate(today);
+  const horizon = toCalendarDate(addDays(today, horizonDays));
+  const due: FollowUpDue[] = [];
+  for (const contact of contacts) {
+    const dueDate = effectiveDueDate(contact);
+    if (!dueDate || dueDate > horizon) continue;
+    if (contact.followUpSnoozedUntil && contact.followUpSnoozedUntil > todayDate) continue;
+    due.push({ contact, dueDate, overdue: dueDate < todayDate });
+  }
+  return due.sort((a, b) => a.dueDate.localeCompare(b.dueDate) || a.contact.name.localeCompare(b.contact.name));
+}
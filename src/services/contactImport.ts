@@ -0,0 +1,576 @@
+/**
+ * Contact Import
+ *
+ * Reading contacts from vCard (3.0 and 4.0) and CSV files, and writing the
+ * case's contacts back out in both formats. vCard properties map onto contact
+ * fields directly; CSV has no fixed columns, so rows go through a column
+ * mapping the user confirms first. Roles and types come from free text such
+ * as a "Category" column or vCard CATEGORIES. Before anything is added, each
+ * imported contact is checked against the case's contacts so the same bank or
+ * attorney is not listed twice.
+ */
+
+import type {
+  ContactColumnMapping,
+  ContactEntry,
+  ContactImportCandidate,
+  ContactImportDraft,
+  ContactImportField,
+  ContactRole,
+  ContactType,
+} from '../types';
+import { CONTACT_ROLES, createManualContact, getContactRoleInfo, getContactTypeInfo } from './executorService';
+import { t } from './localization';
+
+export const CONTACT_IMPORT_FIELDS: ContactImportField[] = [
+  'name',
+  'firstName',
+  'lastName',
+  'organization',
+  'phone',
+  'email',
+  'website',
+  'address',
+  'role',
+  'type',
+  'notes',
+];
+
+const CONTACT_TYPES: ContactType[] = [
+  'BANK',
+  'INSURANCE',
+  'EMPLOYER',
+  'UTILITY',
+  'SUBSCRIPTION',
+  'ADVISOR',
+  'ATTORNEY',
+  'ACCOUNTANT',
+  'GOVERNMENT',
+  'OTHER',
+];
+
+// ============================================================================
+// ROLE AND TYPE MAPPING
+// ============================================================================
+
+const ROLE_KEYWORDS: [ContactRole, RegExp][] = [
+  ['EXECUTOR', /\bexecut(or|rix)\b|\bpersonal representative\b|\bliquidator\b|\balbacea\b/],
+  ['ATTORNEY', /\battorney|\blawyer|\bsolicitor|\bnotar|\blaw (firm|office)\b|\bavocat|\babogad/],
+  ['FUNERAL_HOME', /\bfuneral|\bfun[eé]rai|\bmortuary|\bcrematori/],
+  ['BANK', /\bbank|\bbanque|\bbanco|\bcredit union\b|\bcaisse\b/],
+  ['EMPLOYER', /\bemployer|\bemployeur|\bempleador|\bhuman resources\b|\bhr\b|\bpayroll\b/],
+  ['FAMILY', /\bfamil|\bspouse|\bwife\b|\bhusband\b|\bson\b|\bdaughter|\bbrother|\bsister|\bmother|\bfather|\bparent|\bchild|\brelative/],
+];
+
+const TYPE_KEYWORDS: [ContactType, RegExp][] = [
+  ['INSURANCE', /\binsur|\bassurance|\bseguro|\bannuit/],
+  ['BANK', /\bbank|\bbanque|\bbanco|\bcredit union\b|\bcaisse\b|\bbrokerage|\bmortgage/],
+  ['EMPLOYER', /\bemployer|\bemployeur|\bempleador|\bhuman resources\b|\bhr\b|\bpayroll\b/],
+  ['UTILITY', /\butilit|\belectric|\bgas\b|\bwater\b|\bpower\b|\binternet\b|\bcable\b/],
+  ['SUBSCRIPTION', /\bsubscription|\babonnement|\bsuscripci|\bmembership|\bstreaming\b/],
+  ['ATTORNEY', /\battorney|\blawyer|\bsolicitor|\bnotar|\blaw (firm|office)\b|\bavocat|\babogad/],
+  ['ACCOUNTANT', /\baccountant|\bcpa\b|\bbookkeep|\btax prepar|\bcomptable|\bcontador/],
+  ['ADVISOR', /\badvis[eo]r|\bplanner\b|\bwealth\b|\bconseill|\basesor/],
+  ['GOVERNMENT', /\bgovernment|\bgouvernement|\bgobierno|\bsocial security\b|\birs\b|\bcra\b|\bservice canada\b|\bveterans\b|\bcourt\b/],
+];
+
+/** Types that stand for the same kind of contact as a role, both ways. */
+const ROLE_TYPE_PAIRS: [ContactRole, ContactType][] = [
+  ['BANK', 'BANK'],
+  ['EMPLOYER', 'EMPLOYER'],
+  ['ATTORNEY', 'ATTORNEY'],
+];
+
+function normalizeKey(value: string): string {
+  return value.trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+}
+
+/**
+ * Role and type for free text such as "Funeral home", "ATTORNEY" or
+ * "Insurance, Family". Exact role and type names win over keywords; a role
+ * with a matching type fills in the other when only one is found.
+ */
+export function mapContactCategory(values: (string | undefined)[]): { type: ContactType; role?: ContactRole } {
+  const keys = values.flatMap(value => (value ?? '').split(',')).map(normalizeKey).filter(Boolean);
+  let role = CONTACT_ROLES.find(({ value, label }) => keys.some(key => key === normalizeKey(value) || key === normalizeKey(label)))?.value;
+  let type = CONTACT_TYPES.find(value => keys.some(key => key === normalizeKey(value) || key === normalizeKey(getContactTypeInfo(value).label)));
+
+  const text = keys.join(' , ');
+  role ??= ROLE_KEYWORDS.find(([, pattern]) => pattern.test(text))?.[0];
+  type ??= TYPE_KEYWORDS.find(([, pattern]) => pattern.test(text))?.[0];
+
+  role ??= ROLE_TYPE_PAIRS.find(([, pairedType]) => pairedType === type)?.[0];
+  type ??= ROLE_TYPE_PAIRS.find(([pairedRole]) => pairedRole === role)?.[1] ?? 'OTHER';
+  return role ? { type, role } : { type };
+}
+
+function cleanField(value: string | undefined): string | undefined {
+  return value?.trim() || undefined;
+}
+
+// ============================================================================
+// VCARD
+// ============================================================================
+
+interface VCardProperty {
+  name: string;
+  params: Record<string, string[]>;
+  value: string;
+}
+
+/** Join folded lines (continuations start with a space or tab). */
+function unfoldLines(text: string): string[] {
+  const lines: string[] = [];
+  for (const line of text.split(/\r\n|\r|\n/)) {
+    if (/^[ \t]/.test(line) && lines.length > 0) {
+      lines[lines.length - 1] += line.slice(1);
+    } else {
+      lines.push(line);
+    }
+  }
+  return lines;
+}
+
+function parseVCardLine(line: string): VCardProperty | null {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const [rawName, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string[]> = {};
+  for (const param of rawParams) {
+    const equals = param.indexOf('=');
+    // vCard 2.1 writes bare types, e.g. TEL;WORK;VOICE
+    const key = equals < 0 ? 'TYPE' : param.slice(0, equals).toUpperCase();
+    const values = equals < 0 ? [param] : param.slice(equals + 1).replace(/"/g, '').split(',');
+    params[key] = [...(params[key] ?? []), ...values.map(value => value.toUpperCase())];
+  }
+  return { name: rawName.replace(/^.*\./, '').toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+/** Split a structured value on unescaped separators and unescape each part. */
+function splitVCardValue(value: string, separator: ';' | ','): string[] {
+  const parts: string[] = [];
+  let current = '';
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === '\\' && i + 1 < value.length) {
+      const next = value[++i];
+      current += next === 'n' || next === 'N' ? '\n' : next;
+    } else if (char === separator) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+function unescapeVCardValue(value: string): string {
+  return value.replace(/\\([nN,;:\\])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+function isPreferred(property: VCardProperty): boolean {
+  return (property.params.TYPE ?? []).includes('PREF') || property.params.PREF !== undefined;
+}
+
+/** The preferred value of a property that may repeat (TEL, EMAIL), else the first. */
+function preferredValue(properties: VCardProperty[], name: string): string | undefined {
+  const matching = properties.filter(property => property.name === name && property.value.trim());
+  const chosen = matching.find(isPreferred) ?? matching[0];
+  return chosen ? unescapeVCardValue(chosen.value).replace(/^(tel|mailto):/i, '') : undefined;
+}
+
+/** ADR is PO box; extended; street; locality; region; postal code; country. */
+function formatVCardAddress(value: string): string | undefined {
+  const [poBox = '', extended = '', street = '', locality = '', region = '', postalCode = '', country = ''] = splitVCardValue(value, ';').map(part => part.trim());
+  const cityLine = [[locality, region].filter(Boolean).join(', '), postalCode].filter(Boolean).join(' ');
+  const lines = [poBox, extended, ...street.split('\n'), cityLine, country].map(line => line.trim()).filter(Boolean);
+  return lines.length > 0 ? lines.join('\n') : undefined;
+}
+
+function vCardToDraft(properties: VCardProperty[]): ContactImportDraft | null {
+  const first = (name: string) => properties.find(property => property.name === name && property.value.trim());
+
+  const nameProperty = first('N');
+  const [family = '', given = '', additional = '', prefix = '', suffix = ''] = nameProperty ? splitVCardValue(nameProperty.value, ';') : [];
+  const structuredName = [prefix, given, additional, family, suffix].map(part => part.trim()).filter(Boolean).join(' ');
+  const orgProperty = first('ORG');
+  const organization = orgProperty ? cleanField(splitVCardValue(orgProperty.value, ';')[0]) : undefined;
+  const fnProperty = first('FN');
+  const name = cleanField(fnProperty ? unescapeVCardValue(fnProperty.value) : undefined) ?? cleanField(structuredName) ?? organization;
+  if (!name) return null;
+
+  const categories = properties
+    .filter(property => property.name === 'CATEGORIES' || property.name === 'ROLE' || property.name === 'TITLE')
+    .flatMap(property => splitVCardValue(property.value, ','));
+  const address = first('ADR');
+  const note = first('NOTE');
+  return {
+    name,
+    ...mapContactCategory(categories),
+    organization: organization && organization !== name ? organization : undefined,
+    phone: cleanField(preferredValue(properties, 'TEL')),
+    email: cleanField(preferredValue(properties, 'EMAIL')),
+    website: cleanField(preferredValue(properties, 'URL')),
+    address: address ? formatVCardAddress(address.value) : undefined,
+    notes: cleanField(note ? unescapeVCardValue(note.value) : undefined),
+  };
+}
+
+export function isVCard(text: string): boolean {
+  return /^\s*BEGIN:VCARD\s*$/im.test(text);
+}
+
+/** Parse every card in a .vcf file. Throws when the file holds no cards. */
+export function parseVCards(text: string): ContactImportDraft[] {
+  const drafts: ContactImportDraft[] = [];
+  let card: VCardProperty[] | null = null;
+  let cardCount = 0;
+  for (const line of unfoldLines(text.replace(/^\uFEFF/, ''))) {
+    const upper = line.trim().toUpperCase();
+    if (upper === 'BEGIN:VCARD') {
+      card = [];
+      cardCount++;
+    } else if (upper === 'END:VCARD') {
+      const draft = card ? vCardToDraft(card) : null;
+      if (draft) drafts.push(draft);
+      card = null;
+    } else if (card) {
+      const property = parseVCardLine(line);
+      if (property) card.push(property);
+    }
+  }
+  if (cardCount === 0) {
+    throw new Error('Invalid vCard file: no BEGIN:VCARD found');
+  }
+  return drafts;
+}
+
+function escapeVCardValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\r?\n/g, '\\n').replace(/([,;])/g, '\\$1');
+}
+
+/** Fold lines longer than 75 characters, as vCard requires, never splitting a character. */
+function foldVCardLine(line: string): string {
+  const characters = Array.from(line);
+  const chunks: string[] = [];
+  for (let i = 0; i < characters.length; i += i === 0 ? 75 : 74) {
+    chunks.push(characters.slice(i, i === 0 ? 75 : i + 74).join(''));
+  }
+  return chunks.join('\r\n ');
+}
+
+/** The case's contacts as a vCard 3.0 file. */
+export function exportContactsToVCard(contacts: ContactEntry[]): string {
+  const cards = contacts.map(contact => {
+    const words = contact.name.trim().split(/\s+/);
+    const family = words.length > 1 ? words[words.length - 1] : contact.name.trim();
+    const given = words.length > 1 ? words.slice(0, -1).join(' ') : '';
+    const categories = [contact.role && getContactRoleInfo(contact.role).label, getContactTypeInfo(contact.type).label]
+      .filter((label): label is string => !!label)
+      .map(escapeVCardValue);
+    const lines = [
+      'BEGIN:VCARD',
+      'VERSION:3.0',
+      `FN:${escapeVCardValue(contact.name)}`,
+      `N:${escapeVCardValue(family)};${escapeVCardValue(given)};;;`,
+      contact.organization && `ORG:${escapeVCardValue(contact.organization)}`,
+      contact.phone && `TEL;TYPE=VOICE:${escapeVCardValue(contact.phone)}`,
+      contact.email && `EMAIL;TYPE=INTERNET:${escapeVCardValue(contact.email)}`,
+      contact.website && `URL:${escapeVCardValue(contact.website)}`,
+      contact.address && `ADR:;;${escapeVCardValue(contact.address)};;;;`,
+      `CATEGORIES:${categories.join(',')}`,
+      contact.notes && `NOTE:${escapeVCardValue(contact.notes)}`,
+      'END:VCARD',
+    ];
+    return lines.filter((line): line is string => !!line).map(foldVCardLine).join('\r\n');
+  });
+  return cards.length > 0 ? `${cards.join('\r\n')}\r\n` : '';
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+/** Comma, semicolon or tab, whichever the header line uses most. */
+function detectDelimiter(firstLine: string): string {
+  const unquoted = firstLine.replace(/"[^"]*"/g, '');
+  const counts = [',', ';', '\t'].map(delimiter => ({ delimiter, count: unquoted.split(delimiter).length - 1 }));
+  const best = counts.reduce((a, b) => (b.count > a.count ? b : a));
+  return best.count > 0 ? best.delimiter : ',';
+}
+
+/** Parse CSV text into rows of cells. Quoted cells may hold delimiters, quotes ("") and line breaks. */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(input.split(/\r?\n/, 1)[0] ?? '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some(value => value.trim())) rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && !cell.trim()) {
+      inQuotes = true;
+      cell = '';
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  endRow();
+  return rows;
+}
+
+/** Header patterns, tried in order; the first field a header matches wins. */
+const HEADER_PATTERNS: [ContactImportField | null, RegExp][] = [
+  [null, /\b(phone|e ?mail|address|web ?site) ?\d* type\b/],
+  ['email', /\be ?mail\b/],
+  ['website', /\b(web ?site|web ?page|url|home ?page)\b/],
+  [null, /\b(fax|pager|middle|additional|nick ?name|suffix|prefix|birthday)\b/],
+  ['phone', /\b(phone|telephone|tel|mobile|cell)\b/],
+  ['firstName', /\b(first|given) ?name\b|^first$/],
+  ['lastName', /\b(last|family|sur) ?name\b|^surname$|^last$/],
+  ['organization', /\b(company|organi[sz]ation|org|business name|institution|employer|firm)\b/],
+  ['address', /\b(address|street|city|town|state|province|region|zip|postal|post ?code|country)\b/],
+  ['role', /\b(role|relationship)\b/],
+  ['type', /\b(type|category|categories|group|groups|labels?)\b/],
+  ['notes', /\b(notes?|comments?|description)\b/],
+  ['name', /\bname\b|^contact$/],
+];
+
+/** Fields that several columns may feed; the rest take the first matching column only. */
+const MULTI_COLUMN_FIELDS: ContactImportField[] = ['address', 'notes'];
+
+/** Best guess at which contact field each CSV header holds. */
+export function guessColumnMapping(headers: string[]): ContactColumnMapping {
+  const used = new Set<ContactImportField>();
+  return headers.map(header => {
+    const key = header.trim().toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+    const field = HEADER_PATTERNS.find(([, pattern]) => pattern.test(key))?.[0] ?? null;
+    if (!field || (used.has(field) && !MULTI_COLUMN_FIELDS.includes(field))) return null;
+    used.add(field);
+    return field;
+  });
+}
+
+/** Returns an error message, or null when the mapping can name every contact. */
+export function validateColumnMapping(mapping: ContactColumnMapping): string | null {
+  const nameFields: ContactImportField[] = ['name', 'firstName', 'lastName', 'organization'];
+  if (!mapping.some(field => field && nameFields.includes(field))) return t('contactImport.error.noNameColumn');
+  return null;
+}
+
+/** Cells a spreadsheet would run as a formula. */
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+/** Undo escapeCsvCell's formula protection. */
+function unprotectCsvCell(value: string | undefined): string | undefined {
+  return value?.startsWith("'") && FORMULA_START.test(value.slice(1)) ? value.slice(1) : value;
+}
+
+/**
+ * Turn CSV data rows (header excluded) into drafts. A row without a name takes
+ * first and last name, or else the organization; rows with none are dropped.
+ * Several address columns become the first one on its own line and the rest
+ * (city, region, postal code, country) on the next.
+ */
+export function applyColumnMapping(rows: string[][], mapping: ContactColumnMapping): ContactImportDraft[] {
+  const drafts: ContactImportDraft[] = [];
+  for (const row of rows) {
+    const values: Partial<Record<ContactImportField, string[]>> = {};
+    mapping.forEach((field, index) => {
+      const value = unprotectCsvCell(row[index]?.trim());
+      if (field && value) values[field] = [...(values[field] ?? []), value];
+    });
+    const get = (field: ContactImportField) => values[field]?.[0];
+
+    const organization = get('organization');
+    const name = get('name') ?? cleanField([get('firstName'), get('lastName')].filter(Boolean).join(' ')) ?? organization;
+    if (!name) continue;
+
+    const [street, ...rest] = values.address ?? [];
+    drafts.push({
+      name,
+      ...mapContactCategory([get('role'), get('type')]),
+      organization: organization !== name ? organization : undefined,
+      phone: get('phone'),
+      email: get('email'),
+      website: get('website'),
+      address: street ? [street, rest.join(', ')].filter(Boolean).join('\n') : undefined,
+      notes: values.notes?.join('\n'),
+    });
+  }
+  return drafts;
+}
+
+const CSV_COLUMNS: { header: string; value: (contact: ContactEntry) => string | undefined }[] = [
+  { header: 'Name', value: contact => contact.name },
+  { header: 'Organization', value: contact => contact.organization },
+  { header: 'Role', value: contact => contact.role && getContactRoleInfo(contact.role).label },
+  { header: 'Type', value: contact => getContactTypeInfo(contact.type).label },
+  { header: 'Phone', value: contact => contact.phone },
+  { header: 'Email', value: contact => contact.email },
+  { header: 'Website', value: contact => contact.website },
+  { header: 'Address', value: contact => contact.address },
+  { header: 'Notes', value: contact => contact.notes },
+];
+
+function escapeCsvCell(value: string): string {
+  // A leading apostrophe makes spreadsheets show the cell as text
+  const safe = FORMULA_START.test(value) ? `'${value}` : value;
+  return /[",\r\n]|^\s|\s$/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/** The case's contacts as CSV, with headers guessColumnMapping recognizes. */
+export function exportContactsToCsv(contacts: ContactEntry[]): string {
+  const rows = [
+    CSV_COLUMNS.map(column => column.header),
+    ...contacts.map(contact => CSV_COLUMNS.map(column => column.value(contact) ?? '')),
+  ];
+  return `${rows.map(row => row.map(escapeCsvCell).join(',')).join('\r\n')}\r\n`;
+}
+
+// ============================================================================
+// DUPLICATES AND IMPORT
+// ============================================================================
+
+function normalizeName(value: string | undefined): string {
+  return (value ?? '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/** Last ten digits, so +1 (555) 010-0100 and 555.010.0100 compare equal. */
+function phoneKey(value: string | undefined): string | undefined {
+  const digits = (value ?? '').replace(/\D/g, '');
+  return digits.length >= 7 ? digits.slice(-10) : undefined;
+}
+
+/**
+ * The existing contact (or earlier draft) an imported one repeats: same email,
+ * same phone number, or same name at the same organization (or where either
+ * has none).
+ */
+export function findDuplicateContact<T extends ContactImportDraft>(draft: ContactImportDraft, contacts: T[]): T | undefined {
+  const email = draft.email?.trim().toLowerCase();
+  const phone = phoneKey(draft.phone);
+  const name = normalizeName(draft.name);
+  const organization = normalizeName(draft.organization);
+  return contacts.find(contact => {
+    if (email && contact.email?.trim().toLowerCase() === email) return true;
+    if (phone && phoneKey(contact.phone) === phone) return true;
+    if (!name || normalizeName(contact.name) !== name) return false;
+    const existingOrganization = normalizeName(contact.organization);
+    return !organization || !existingOrganization || organization === existingOrganization;
+  });
+}
+
+/**
+ * Pair each draft with any contact it repeats, or else with an earlier draft
+ * of the same file that is being added; duplicates default to being skipped.
+ */
+export function buildImportCandidates(drafts: ContactImportDraft[], contacts: ContactEntry[]): ContactImportCandidate[] {
+  const candidates: ContactImportCandidate[] = [];
+  for (const draft of drafts) {
+    const duplicateOf = findDuplicateContact(draft, contacts);
+    const accepted = candidates.filter(candidate => candidate.action === 'ADD').map(candidate => candidate.draft);
+    const earlier = duplicateOf ? undefined : findDuplicateContact(draft, accepted);
+    if (duplicateOf) candidates.push({ draft, duplicateOf, action: 'SKIP' });
+    else if (earlier) candidates.push({ draft, duplicateInFile: drafts.indexOf(earlier), action: 'SKIP' });
+    else candidates.push({ draft, action: 'ADD' });
+  }
+  return candidates;
+}
+
+/** Fill the contact's empty fields from the draft; nothing the user entered is overwritten. */
+export function mergeContactDraft(contact: ContactEntry, draft: ContactImportDraft): ContactEntry {
+  return {
+    ...contact,
+    organization: contact.organization || draft.organization,
+    phone: contact.phone || draft.phone,
+    email: contact.email || draft.email,
+    website: contact.website || draft.website,
+    address: contact.address || draft.address,
+    notes: contact.notes || draft.notes,
+    role: contact.role ?? draft.role,
+    type: contact.type === 'OTHER' ? draft.type : contact.type,
+  };
+}
+
+/** Apply the chosen action for every candidate to the case's contacts. */
+export function applyContactImport(
+  contacts: ContactEntry[],
+  candidates: ContactImportCandidate[]
+): { contacts: ContactEntry[]; added: number; merged: number; skipped: number } {
+  const merges = new Map<string, ContactImportDraft[]>();
+  const added: ContactEntry[] = [];
+  let skipped = 0;
+  for (const { draft, duplicateOf, action } of candidates) {
+    if (action === 'MERGE' && duplicateOf) {
+      merges.set(duplicateOf.id, [...(merges.get(duplicateOf.id) ?? []), draft]);
+    } else if (action === 'SKIP') {
+      skipped++;
+    } else {
+      added.push({ ...createManualContact(), ...draft });
+    }
+  }
+  const updated = contacts.map(contact => (merges.get(contact.id) ?? []).reduce(mergeContactDraft, contact));
+  return {
+    contacts: [...updated, ...added],
+    added: added.length,
+    merged: [...merges.values()].reduce((count, drafts) => count + drafts.length, 0),
+    skipped,
+  };
+}
+
+/** Download the case's contacts as a .vcf or .csv file. */
+export function downloadContacts(contacts: ContactEntry[], format: 'vcf' | 'csv'): void {
+  const blob =
+    format === 'vcf'
+      ? new Blob([exportContactsToVCard(contacts)], { type: 'text/vcard' })
+      : new Blob(['\uFEFF', exportContactsToCsv(contacts)], { type: 'text/csv' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `Contacts_${new Date().toISOString().split('T')[0]}.${format}`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,212 @@
+/**
+ * Correspondence Log
+ *
+ * Letters, emails and calls sent from templates, per case: who they went to,
+ * how, and whether a reply came. Pure helpers over the case's entries; callers
+ * save the entries (and any contact they update) through storageService.
+ *
+ * Dates are calendar dates (YYYY-MM-DD) in local time, as in taskScheduling.
+ */
+
+import type {
+  AftercareTask,
+  ContactEntry,
+  CorrespondenceEntry,
+  CorrespondenceInput,
+  CorrespondenceMethod,
+  CorrespondenceStatus,
+  ScriptTemplate,
+} from '../types';
+import { t } from './localization';
+import { addDays, parseCalendarDate, toCalendarDate } from './taskScheduling';
+
+export const CORRESPONDENCE_METHODS: CorrespondenceMethod[] = ['MAIL', 'CERTIFIED_MAIL', 'EMAIL', 'PHONE'];
+
+export const CORRESPONDENCE_STATUSES: CorrespondenceStatus[] = ['SENT', 'AWAITING_RESPONSE', 'RESOLVED'];
+
+/** Typical wait for a reply, in days. Calls are answered on the spot. */
+const RESPONSE_DAYS: Record<CorrespondenceMethod, number | null> = {
+  MAIL: 30,
+  CERTIFIED_MAIL: 30,
+  EMAIL: 14,
+  PHONE: null,
+};
+
+function generateCorrespondenceId(): string {
+  return `corr_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/** Default expected-response date for a method, counted from the date sent. */
+export function suggestExpectedResponseDate(method: CorrespondenceMethod, sentDate: string): string | undefined {
+  const sent = parseCalendarDate(sentDate);
+  const days = RESPONSE_DAYS[method];
+  return sent && days !== null ? toCalendarDate(addDays(sent, days)) : undefined;
+}
+
+/** How a template is usually sent. */
+const CATEGORY_METHODS: Record<ScriptTemplate['category'], CorrespondenceMethod> = {
+  LETTER: 'MAIL',
+  EMAIL: 'EMAIL',
+  PHONE_SCRIPT: 'PHONE',
+  GUIDE: 'MAIL',
+};
+
+function findContact(contacts: ContactEntry[], institutionName: string | undefined): ContactEntry | undefined {
+  const name = institutionName?.toLowerCase().trim();
+  if (!name) return undefined;
+  return contacts.find(contact => [contact.organization, contact.name].some(value => value?.toLowerCase().trim() === name));
+}
+
+/**
+ * A new log entry for text just rendered from a template: sent today by the
+ * template's usual method, to the contact matching the institution (if any),
+ * awaiting a reply unless it was a call.
+ */
+export function draftCorrespondence(
+  template: ScriptTemplate,
+  text: string,
+  contacts: ContactEntry[],
+  institutionName?: string,
+  today: Date = new Date()
+): CorrespondenceInput {
+  const method = CATEGORY_METHODS[template.category];
+  const contact = findContact(contacts, institutionName);
+  const sentDate = toCalendarDate(today);
+  return {
+    templateId: template.id,
+    textSnapshot: text,
+    contactId: contact?.id,
+    recipientName: contact ? contact.organization || contact.name : institutionName?.trim() ?? '',
+    method,
+    sentDate,
+    expectedResponseDate: suggestExpectedResponseDate(method, sentDate),
+    status: method === 'PHONE' ? 'SENT' : 'AWAITING_RESPONSE',
+  };
+}
+
+/** Returns an error message, or null when the input can be saved. */
+export function validateCorrespondenceInput(input: CorrespondenceInput): string | null {
+  if (!input.recipientName.trim()) return t('correspondence.error.recipient');
+  if (!parseCalendarDate(input.sentDate)) return t('correspondence.error.sentDate');
+  if (input.expectedResponseDate) {
+    const expected = parseCalendarDate(input.expectedResponseDate);
+    if (!expected) return t('correspondence.error.expectedDate');
+    if (input.expectedResponseDate < input.sentDate) return t('correspondence.error.expectedBeforeSent');
+  }
+  return null;
+}
+
+function cleanInput(input: CorrespondenceInput): CorrespondenceInput {
+  return {
+    ...input,
+    recipientName: input.recipientName.trim(),
+    trackingNumber: input.method === 'CERTIFIED_MAIL' ? input.trackingNumber?.trim() || undefined : undefined,
+    expectedResponseDate: input.expectedResponseDate || undefined,
+    outcome: input.outcome?.trim() || undefined,
+    templateId: input.templateId || undefined,
+    contactId: input.contactId || undefined,
+    taskId: input.taskId || undefined,
+  };
+}
+
+export function createCorrespondenceEntry(caseId: string, input: CorrespondenceInput): CorrespondenceEntry {
+  const now = new Date().toISOString();
+  return { ...cleanInput(input), id: generateCorrespondenceId(), caseId, createdAt: now, updatedAt: now };
+}
+
+export function updateCorrespondenceEntry(entry: CorrespondenceEntry, input: CorrespondenceInput): CorrespondenceEntry {
+  return { ...entry, ...cleanInput(input), updatedAt: new Date().toISOString() };
+}
+
+/** Whether a reply is still outstanding after its expected date. */
+export function isResponseOverdue(entry: CorrespondenceEntry, today: Date = new Date()): boolean {
+  return entry.status !== 'RESOLVED' && !!entry.expectedResponseDate && entry.expectedResponseDate < toCalendarDate(today);
+}
+
+/** Newest first (by date sent, then by when it was logged). */
+export function sortCorrespondence(entries: CorrespondenceEntry[]): CorrespondenceEntry[] {
+  return [...entries].sort((a, b) => b.sentDate.localeCompare(a.sentDate) || b.createdAt.localeCompare(a.createdAt));
+}
+
+type ContactStatus = NonNullable<ContactEntry['contactStatus']>;
+
+const CONTACT_STATUS_ORDER: ContactStatus[] = ['NOT_CONTACTED', 'IN_PROGRESS', 'COMPLETED'];
+
+/** What a contact's entries call for: in progress and waiting on them while a reply is outstanding. */
+function summarizeCorrespondence(related: CorrespondenceEntry[]) {
+  const outstanding = related.filter(entry => entry.status !== 'RESOLVED');
+  return {
+    latestSent: related.map(entry => entry.sentDate).sort().pop()!,
+    contactStatus: (outstanding.length > 0 ? 'IN_PROGRESS' : 'COMPLETED') as ContactStatus,
+    waitingOn: outstanding.length > 0 ? ('THEM' as const) : undefined,
+    nextReply: outstanding.map(entry => entry.expectedResponseDate).filter((date): date is string => !!date).sort()[0],
+  };
+}
+
+/**
+ * A contact whose last entries were deleted: the dates, status and waiting-on
+ * those entries set are cleared. Values the user has since changed are kept.
+ */
+function clearCorrespondenceFromContact(
+  contact: ContactEntry,
+  removed: CorrespondenceEntry[],
+  logged: ReturnType<typeof summarizeCorrespondence>
+): ContactEntry {
+  const cleared: ContactEntry = { ...contact };
+  if (contact.lastContactedAt && removed.some(entry => entry.sentDate === contact.lastContactedAt)) {
+    cleared.lastContactedAt = undefined;
+    if (contact.contactStatus === logged.contactStatus) cleared.contactStatus = 'NOT_CONTACTED';
+  }
+  if (contact.nextFollowUpDate && removed.some(entry => entry.expectedResponseDate === contact.nextFollowUpDate)) {
+    cleared.nextFollowUpDate = undefined;
+  }
+  if (logged.waitingOn && contact.waitingOn === logged.waitingOn) cleared.waitingOn = undefined;
+  return cleared;
+}
+
+/**
+ * A contact as its correspondence leaves it: last contacted on the latest
+ * date sent, and waiting on them until the earliest outstanding reply. The
+ * status follows the log (completed once every entry is resolved, in progress
+ * before) while the log set it; a status the user chose is only moved forward.
+ * `previous` holds the entries before the change: when a contact's last
+ * entries were removed, what they set is cleared. Other contacts with no
+ * entries are returned unchanged.
+ */
+export function applyCorrespondenceToContact(
+  contact: ContactEntry,
+  entries: CorrespondenceEntry[],
+  previous: CorrespondenceEntry[] = []
+): ContactEntry {
+  const related = entries.filter(entry => entry.contactId === contact.id);
+  const before = previous.filter(entry => entry.contactId === contact.id);
+  const logged = before.length > 0 ? summarizeCorrespondence(before) : undefined;
+  if (related.length === 0) return logged ? clearCorrespondenceFromContact(contact, before, logged) : contact;
+
+  const { latestSent, contactStatus, waitingOn, nextReply } = summarizeCorrespondence(related);
+  const statusFromLog = !!logged && contact.contactStatus === logged.contactStatus;
+  const currentRank = CONTACT_STATUS_ORDER.indexOf(contact.contactStatus ?? 'NOT_CONTACTED');
+  const updated: ContactEntry = {
+    ...contact,
+    lastContactedAt: contact.lastContactedAt && contact.lastContactedAt.slice(0, 10) > latestSent ? contact.lastContactedAt : latestSent,
+    contactStatus: statusFromLog || CONTACT_STATUS_ORDER.indexOf(contactStatus) > currentRank ? contactStatus : contact.contactStatus,
+  };
+  if (waitingOn) {
+    updated.waitingOn = waitingOn;
+    if (nextReply) updated.nextFollowUpDate = nextReply;
+  } else if (contact.waitingOn === 'THEM') {
+    updated.waitingOn = undefined;
+  }
+  return updated;
+}
+
+/** Open tasks about the same vault records as the contact, for linking an entry to its task. */
+export function getTasksForContact(tasks: AftercareTask[], contact: ContactEntry | undefined): AftercareTask[] {
+  const recordIds = new Set(contact?.relatedVaultRecordIds ?? []);
+  if (recordIds.size === 0) return [];
+  return tasks.filter(task =>
+    task.status !== 'DONE' &&
+    task.status !== 'NOT_APPLICABLE' &&
+    (task.relatedVaultRecordIds ?? []).some(id => recordIds.has(id))
+  );
+}
@@ -0,0 +1,99 @@
+/**
+ * Custom Tasks
+ *
+ * User-authored checklist items (one-off things the generated guidance cannot
+ * know about). Pure helpers over a plan's task list; callers save the plan.
+ * Order within a phase is the order of plan.tasks.
+ */
+
+import type { AftercareTask, CustomTaskInput } from '../types';
+
+function generateCustomTaskId(): string {
+  return `task_custom_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function cleanInput(input: CustomTaskInput): CustomTaskInput {
+  return {
+    title: input.title.trim(),
+    description: input.description?.trim() || undefined,
+    phase: input.phase,
+    category: input.category,
+    priority: input.priority,
+    notes: input.notes?.trim() || undefined,
+    dueDate: input.dueDate || undefined,
+    recurrence: input.recurrence?.intervalDays
+      ? { intervalDays: input.recurrence.intervalDays, maxOccurrences: input.recurrence.maxOccurrences || undefined }
+      : undefined,
+  };
+}
+
+/** Returns an error message, or null when the input can be saved. */
+export function validateCustomTaskInput(input: CustomTaskInput): string | null {
+  if (!input.title.trim()) return 'Give the item a short title.';
+  if (input.title.trim().length > 200) return 'Keep the title under 200 characters.';
+  if (input.dueDate && !/^\d{4}-\d{2}-\d{2}$/.test(input.dueDate)) return 'Use a valid due date.';
+  const recurrence = input.recurrence;
+  if (recurrence?.intervalDays !== undefined && (!Number.isInteger(recurrence.intervalDays) || recurrence.intervalDays < 0 || recurrence.intervalDays > 365)) {
+    return 'Repeat every 1 to 365 days.';
+  }
+  if (recurrence?.maxOccurrences !== undefined && (!Number.isInteger(recurrence.maxOccurrences) || recurrence.maxOccurrences < 0)) {
+    return 'Use a whole number of times.';
+  }
+  return null;
+}
+
+/**
+ * Add a custom task at the end of its phase.
+ */
+export function addCustomTask(tasks: AftercareTask[], input: CustomTaskInput): AftercareTask[] {
+  const task: AftercareTask = {
+    ...cleanInput(input),
+    id: generateCustomTaskId(),
+    description: input.description?.trim() ?? '',
+    status: 'NOT_STARTED',
+    createdAt: new Date().toISOString(),
+    userAuthored: true,
+  };
+  const lastInPhase = tasks.map(t => t.phase).lastIndexOf(task.phase);
+  if (lastInPhase === -1) return [...tasks, task];
+  return [...tasks.slice(0, lastInPhase + 1), task, ...tasks.slice(lastInPhase + 1)];
+}
+
+/**
+ * Update a custom task's fields. A phase change moves it to the end of the new phase.
+ * Generated tasks are left unchanged.
+ */
+export function updateCustomTask(tasks: AftercareTask[], taskId: string, input: CustomTaskInput): AftercareTask[] {
+  const existing = tasks.find(t => t.id === taskId);
+  if (!existing?.userAuthored) return tasks;
+  const fields = cleanInput(input);
+  const updated: AftercareTask = { ...existing, ...fields, description: fields.description ?? '' };
+  if (updated.phase === existing.phase) {
+    return tasks.map(t => (t.id === taskId ? updated : t));
+  }
+  const others = tasks.filter(t => t.id !== taskId);
+  const lastInPhase = others.map(t => t.phase).lastIndexOf(updated.phase);
+  if (lastInPhase === -1) return [...others, updated];
+  return [...others.slice(0, lastInPhase + 1), updated, ...others.slice(lastInPhase + 1)];
+}
+
+/** Delete a custom task. Generated tasks cannot be deleted (mark them "Not needed" instead). */
+export function deleteCustomTask(tasks: AftercareTask[], taskId: string): AftercareTask[] {
+  return tasks.filter(t => t.id !== taskId || !t.userAuthored);
+}
+
+/**
+ * Move a task one place up or down within its phase. Any task can be moved.
+ */
+export function moveTaskWithinPhase(tasks: AftercareTask[], taskId: string, direction: 'up' | 'down'): AftercareTask[] {
+  const index = tasks.findIndex(t => t.id === taskId);
+  if (index === -1) return tasks;
+  const phase = tasks[index].phase;
+  const step = direction === 'up' ? -1 : 1;
+  let target = index + step;
+  while (target >= 0 && target < tasks.length && tasks[target].phase !== phase) target += step;
+  if (target < 0 || target >= tasks.length) return tasks;
+  const next = [...tasks];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+}
@@ -0,0 +1,187 @@
+/**
+ * Document Blob Store
+ *
+ * Keeps the actual file contents of uploaded documents, encrypted with the
+ * same AES-GCM scheme as the rest of local storage (key derived from the
+ * device fingerprint). Blobs are keyed by case id + document id.
+ *
+ * Backends:
+ * - Electron: files under the userData directory (via preload IPC)
+ * - Browser: IndexedDB (localStorage is too small for file contents)
+ */
+
+import { encryptBytes, decryptBytes } from '../utils/encryption';
+import { getDeviceFingerprint } from '../utils/deviceFingerprint';
+
+const DB_NAME = 'aftercare_documents';
+const DB_VERSION = 1;
+const STORE_NAME = 'blobs';
+const CASE_INDEX = 'caseId';
+
+interface StoredBlobRecord {
+  key: string;
+  caseId: string;
+  documentId: string;
+  data: Uint8Array;
+}
+
+/** Shape of the document blob API exposed by electron/preload.js. */
+interface ElectronDocumentBlobApi {
+  write: (caseId: string, documentId: string, data: Uint8Array) => Promise<void>;
+  read: (caseId: string, documentId: string) => Promise<Uint8Array | null>;
+  remove: (caseId: string, documentId: string) => Promise<void>;
+  removeCase: (caseId: string) => Promise<void>;
+}
+
+/** Storage reference saved in UploadedDocument.filePath. */
+export function getDocumentBlobKey(caseId: string, documentId: string): string {
+  return `${caseId}/${documentId}`;
+}
+
+// ============================================================================
+// DOCUMENT BLOB STORE
+// ============================================================================
+
+class DocumentBlobStore {
+  private static instance: DocumentBlobStore;
+  private deviceFingerprint: string | null = null;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  static getInstance(): DocumentBlobStore {
+    if (!DocumentBlobStore.instance) {
+      DocumentBlobStore.instance = new DocumentBlobStore();
+    }
+    return DocumentBlobStore.instance;
+  }
+
+  private async getDeviceFingerprint(): Promise<string> {
+    if (!this.deviceFingerprint) {
+      this.deviceFingerprint = await getDeviceFingerprint();
+    }
+    return this.deviceFingerprint;
+  }
+
+  private getElectronApi(): ElectronDocumentBlobApi | null {
+    if (typeof window === 'undefined') return null;
+    return (window as any).electronAPI?.documentBlobs ?? null;
+  }
+
+  private openDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available'));
+          return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            const store = db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+            store.createIndex(CASE_INDEX, 'caseId', { unique: false });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Allow a retry on the next call if opening failed
+      this.dbPromise.catch(() => { this.dbPromise = null; });
+    }
+    return this.dbPromise;
+  }
+
+  private async runTransaction<T>(
+    mode: IDBTransactionMode,
+    work: (store: IDBObjectStore) => IDBRequest<T> | void
+  ): Promise<T | undefined> {
+    const db = await this.openDb();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, mode);
+      const request = work(tx.objectStore(STORE_NAME));
+      tx.oncomplete = () => resolve(request ? request.result : undefined);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+
+  /**
+   * Encrypt and store the contents of a document.
+   * Returns the storage reference to keep in UploadedDocument.filePath.
+   */
+  async saveBlob(caseId: string, documentId: string, contents: Blob | ArrayBuffer): Promise<string> {
+    const buffer = contents instanceof Blob ? await contents.arrayBuffer() : contents;
+    const fingerprint = await this.getDeviceFingerprint();
+    const encrypted = await encryptBytes(new Uint8Array(buffer), fingerprint);
+
+    const electron = this.getElectronApi();
+    if (electron) {
+      await electron.write(caseId, documentId, encrypted);
+    } else {
+      const record: StoredBlobRecord = {
+        key: getDocumentBlobKey(caseId, documentId),
+        caseId,
+        documentId,
+        data: encrypted,
+      };
+      await this.runTransaction('readwrite', (store) => store.put(record));
+    }
+    return getDocumentBlobKey(caseId, documentId);
+  }
+
+  /**
+   * Load and decrypt the contents of a document. Returns null if no file was stored.
+   */
+  async loadBlob(caseId: string, documentId: string, mimeType?: string): Promise<Blob | null> {
+    let encrypted: Uint8Array | null = null;
+
+    const electron = this.getElectronApi();
+    if (electron) {
+      encrypted = await electron.read(caseId, documentId);
+    } else {
+      const record = await this.runTransaction<StoredBlobRecord | undefined>('readonly', (store) =>
+        store.get(getDocumentBlobKey(caseId, documentId))
+      );
+      encrypted = record?.data ?? null;
+    }
+    if (!encrypted) return null;
+
+    const fingerprint = await this.getDeviceFingerprint();
+    const decrypted = await decryptBytes(new Uint8Array(encrypted), fingerprint);
+    return new Blob([new Uint8Array(decrypted)], { type: mimeType || 'application/octet-stream' });
+  }
+
+  async deleteBlob(caseId: string, documentId: string): Promise<void> {
+    try {
+      const electron = this.getElectronApi();
+      if (electron) {
+        await electron.remove(caseId, documentId);
+      } else {
+        await this.runTransaction('readwrite', (store) => store.delete(getDocumentBlobKey(caseId, documentId)));
+      }
+    } catch (error) {
+      console.error(`Failed to delete document file ${documentId}:`, error);
+    }
+  }
+
+  /** Remove every stored file for a case (used when a case is cleared or deleted). */
+  async deleteCaseBlobs(caseId: string): Promise<void> {
+    try {
+      const electron = this.getElectronApi();
+      if (electron) {
+        await electron.removeCase(caseId);
+        return;
+      }
+      const keys = await this.runTransaction<IDBValidKey[]>('readonly', (store) =>
+        store.index(CASE_INDEX).getAllKeys(IDBKeyRange.only(caseId))
+      );
+      if (!keys || keys.length === 0) return;
+      await this.runTransaction('readwrite', (store) => {
+        for (const key of keys) store.delete(key);
+      });
+    } catch (error) {
+      console.error(`Failed to delete document files for case ${caseId}:`, error);
+    }
+  }
+}
+
+export const documentBlobStore = DocumentBlobStore.getInstance();
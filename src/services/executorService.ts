@@ -15,7 +15,12 @@ import {
   ContactType,
   ContactRole,
   LegacyVaultRecord,
+  DependencyRef,
+  AftercareProfile,
 } from '../types';
+import { getTaskId } from './taskGenerationEngine';
+import { getJurisdictionPacks, getRegisteredJurisdictionPacks, applyJurisdictionRules } from './jurisdictionService';
+import { localize } from './localization';
 
 // ============================================================================
 // EXECUTOR CHECKLIST SEED DATA (10 phases, spec order)
@@ -35,48 +40,61 @@ const NEW_CATEGORIES: ExecutorChecklistCategory[] = [
 ];
 
 interface ChecklistItemSeed {
+  /** Stable identity stored as seedKey; dependencies refer to it. Never change once shipped. */
+  key: string;
   category: ExecutorChecklistCategory;
   title: string;
   description: string;
   whyItMatters?: string;
   whatYouMayNeed?: string[];
+  /** Default prerequisites (checklist items or aftercare tasks). */
+  dependsOn?: DependencyRef[];
 }
 
+const afterItem = (seedKey: string): DependencyRef => ({ kind: 'checklist', seedKey });
+const afterTask = (templateKey: string): DependencyRef => ({ kind: 'task', taskId: getTaskId(templateKey) });
+
 const EXECUTOR_CHECKLIST_SEED: ChecklistItemSeed[] = [
   // -------------------------------------------------------------------------
   // Immediate Legal Documents
   // -------------------------------------------------------------------------
   {
+    key: 'obtain-certified-copies-of-death-certificate',
     category: 'IMMEDIATE_LEGAL_DOCUMENTS',
     title: 'Obtain certified copies of death certificate',
     description: 'Request multiple certified copies from the funeral home or vital records. Most institutions require originals.',
     whatYouMayNeed: ['Funeral home or vital records contact', 'ID', 'Proof of relationship or executor status'],
   },
   {
+    key: 'locate-the-original-will',
     category: 'IMMEDIATE_LEGAL_DOCUMENTS',
     title: 'Locate the original will',
     description: 'Locate the original will. Check safe deposit boxes, home safe, filing cabinets, or with the drafting attorney.',
     whatYouMayNeed: ['Safe deposit key or access', 'Attorney contact if applicable'],
   },
   {
+    key: 'locate-trust-documents-if-applicable',
     category: 'IMMEDIATE_LEGAL_DOCUMENTS',
     title: 'Locate trust documents if applicable',
     description: 'Find all trust documents and any amendments. Trust assets may be administered outside of probate.',
     whatYouMayNeed: ['Trust agreement', 'Amendments', 'Trustee contact'],
   },
   {
+    key: 'locate-social-security-card-and-birth-certificate',
     category: 'IMMEDIATE_LEGAL_DOCUMENTS',
     title: 'Locate Social Security card and birth certificate',
     description: 'Needed for government notifications and benefit claims.',
     whatYouMayNeed: ['Social Security number', 'Birth certificate (certified copy if possible)'],
   },
   {
+    key: 'find-military-discharge-papers-dd-214-if-veteran',
     category: 'IMMEDIATE_LEGAL_DOCUMENTS',
     title: 'Find military discharge papers (DD-214) if veteran',
     description: 'Often required for VA benefits, burial benefits, and headstone requests.',
     whatYouMayNeed: ['DD-214 or equivalent', 'VA claim number if applicable'],
   },
   {
+    key: 'locate-marriage-certificate-if-applicable',
     category: 'IMMEDIATE_LEGAL_DOCUMENTS',
     title: 'Locate marriage certificate if applicable',
     description: 'May be required for survivor benefits and account transfers.',
@@ -87,24 +105,31 @@ const EXECUTOR_CHECKLIST_SEED: ChecklistItemSeed[] = [
   // Court and Probate Filings
   // -------------------------------------------------------------------------
   {
+    key: 'file-petition-to-open-probate',
     category: 'COURT_AND_PROBATE',
     title: 'File petition to open probate',
     description: 'File the required petition with the probate court to begin the formal process where applicable.',
     whatYouMayNeed: ['Death certificate', 'Original will', 'Petition forms', 'Filing fee'],
+    dependsOn: [afterItem('locate-the-original-will'), afterItem('obtain-certified-copies-of-death-certificate')],
   },
   {
+    key: 'obtain-letters-testamentary-letters-of-administration',
     category: 'COURT_AND_PROBATE',
     title: 'Obtain Letters Testamentary / Letters of Administration',
     description: 'Court-issued documents that prove your authority to act on behalf of the estate.',
     whatYouMayNeed: ['Court order', 'ID', 'Multiple certified copies for institutions'],
+    dependsOn: [afterItem('file-petition-to-open-probate')],
   },
   {
+    key: 'publish-required-legal-notices',
     category: 'COURT_AND_PROBATE',
     title: 'Publish required legal notices',
     description: 'Many jurisdictions require publishing notice to creditors in a newspaper. Your attorney or the court can advise.',
     whatYouMayNeed: ['Court requirements', 'Newspaper contact', 'Proof of publication'],
+    dependsOn: [afterItem('obtain-letters-testamentary-letters-of-administration')],
   },
   {
+    key: 'attend-probate-hearings-if-required',
     category: 'COURT_AND_PROBATE',
     title: 'Attend probate hearings if required',
     description: 'The court may set hearings for approval of accounts, distributions, or other matters.',
@@ -115,108 +140,133 @@ const EXECUTOR_CHECKLIST_SEED: ChecklistItemSeed[] = [
   // Financial Accounts and Assets
   // -------------------------------------------------------------------------
   {
+    key: 'open-estate-bank-account',
     category: 'FINANCIAL_ACCOUNTS',
     title: 'Open estate bank account',
     description: 'A dedicated account for estate funds keeps records clear and separates estate activity from personal.',
     whatYouMayNeed: ['Letters Testamentary or equivalent', 'EIN if obtained', 'ID'],
+    dependsOn: [afterItem('obtain-letters-testamentary-letters-of-administration')],
   },
   {
+    key: 'transfer-funds-into-estate-account',
     category: 'FINANCIAL_ACCOUNTS',
     title: 'Transfer funds into estate account',
     description: 'Move estate funds from the decedent’s accounts into the estate account as allowed by each institution.',
     whatYouMayNeed: ['Death certificate', 'Letters Testamentary', 'Account statements'],
+    dependsOn: [afterItem('open-estate-bank-account')],
   },
   {
+    key: 'freeze-or-retitle-accounts',
     category: 'FINANCIAL_ACCOUNTS',
     title: 'Freeze or retitle accounts',
     description: 'Work with each institution to freeze accounts or retitle them in the estate’s name as appropriate.',
     whatYouMayNeed: ['Death certificate', 'Letters Testamentary', 'Institution contact'],
+    dependsOn: [afterItem('obtain-certified-copies-of-death-certificate')],
   },
   {
+    key: 'close-individual-accounts-after-settlement',
     category: 'FINANCIAL_ACCOUNTS',
     title: 'Close individual accounts after settlement',
     description: 'After debts and distributions are handled, close the decedent’s accounts per institution procedures.',
     whatYouMayNeed: ['Final statements', 'Closing forms', 'Proof of authority'],
+    dependsOn: [afterItem('transfer-funds-into-estate-account')],
   },
 
   // -------------------------------------------------------------------------
   // Debts and Ongoing Obligations
   // -------------------------------------------------------------------------
   {
+    key: 'identify-outstanding-debts',
     category: 'DEBTS_OBLIGATIONS',
     title: 'Identify outstanding debts',
     description: 'Compile a list of known debts: mortgages, loans, credit cards, medical bills, utilities, and other obligations.',
     whatYouMayNeed: ['Mail', 'Statements', 'Online account access', 'Estate inventory'],
   },
   {
+    key: 'notify-creditors',
     category: 'DEBTS_OBLIGATIONS',
     title: 'Notify creditors',
     description: 'Send notice of death to known creditors. Follow your state’s rules for creditor claims and deadlines.',
     whatYouMayNeed: ['Death certificate', 'Creditor addresses', 'Proof of mailing'],
+    dependsOn: [afterItem('identify-outstanding-debts'), afterItem('obtain-certified-copies-of-death-certificate')],
   },
   {
+    key: 'validate-claims',
     category: 'DEBTS_OBLIGATIONS',
     title: 'Validate claims',
     description: 'Review creditor claims for validity and timing. Reject or dispute invalid or time-barred claims as advised.',
     whatYouMayNeed: ['Claim forms', 'State law on claim periods', 'Attorney or advisor'],
+    dependsOn: [afterItem('notify-creditors')],
   },
   {
+    key: 'pay-approved-claims-in-correct-order',
     category: 'DEBTS_OBLIGATIONS',
     title: 'Pay approved claims in correct order',
     description: 'State law sets the order in which claims must be paid. Pay in that order to protect yourself and the estate.',
     whatYouMayNeed: ['Priority list per state', 'Estate account', 'Receipts'],
+    dependsOn: [afterItem('validate-claims')],
   },
 
   // -------------------------------------------------------------------------
   // Property and Real Estate
   // -------------------------------------------------------------------------
   {
+    key: 'secure-real-property',
     category: 'PROPERTY_REAL_ESTATE',
     title: 'Secure real property',
     description: 'Ensure properties are locked, insured, and maintained. Change locks if keys are unaccounted for.',
     whatYouMayNeed: ['Keys', 'Insurance info', 'Property address list'],
   },
   {
+    key: 'maintain-insurance-coverage',
     category: 'PROPERTY_REAL_ESTATE',
     title: 'Maintain insurance coverage',
     description: 'Keep homeowners, liability, and other relevant insurance in force while the estate is open.',
     whatYouMayNeed: ['Policy numbers', 'Agent contact', 'Payment records'],
   },
   {
+    key: 'arrange-appraisals',
     category: 'PROPERTY_REAL_ESTATE',
     title: 'Arrange appraisals',
     description: 'Obtain appraisals when needed for distribution, sale, or tax reporting.',
     whatYouMayNeed: ['Licensed appraiser', 'Access to property', 'Purpose of appraisal'],
   },
   {
+    key: 'prepare-property-for-sale-or-transfer',
     category: 'PROPERTY_REAL_ESTATE',
     title: 'Prepare property for sale or transfer',
     description: 'When selling or transferring property, complete required disclosures and follow local and contract requirements.',
     whatYouMayNeed: ['Deed', 'Title report', 'Realtor or attorney as needed'],
+    dependsOn: [afterItem('arrange-appraisals')],
   },
 
   // -------------------------------------------------------------------------
   // Taxes and Government Filings
   // -------------------------------------------------------------------------
   {
+    key: 'file-final-personal-income-tax-return',
     category: 'TAXES_GOVERNMENT',
     title: 'File final personal income tax return',
     description: 'The decedent’s final Form 1040 is typically due by the usual deadline for the year of death.',
     whatYouMayNeed: ['W-2s', '1099s', 'Prior returns', 'CPA or preparer'],
   },
   {
+    key: 'file-estate-income-tax-return-if-required',
     category: 'TAXES_GOVERNMENT',
     title: 'File estate income tax return (if required)',
     description: 'Form 1041 may be required if the estate has income. A tax professional can determine filing requirements.',
     whatYouMayNeed: ['EIN', 'Income records', 'CPA or tax attorney'],
   },
   {
+    key: 'pay-estate-taxes-if-applicable',
     category: 'TAXES_GOVERNMENT',
     title: 'Pay estate taxes if applicable',
     description: 'Federal or state estate tax may apply in some cases. Deadlines and forms vary.',
     whatYouMayNeed: ['Valuations', 'Estate tax forms', 'Tax advisor'],
+    dependsOn: [afterItem('file-estate-income-tax-return-if-required')],
   },
   {
+    key: 'obtain-tax-clearance-if-required',
     category: 'TAXES_GOVERNMENT',
     title: 'Obtain tax clearance if required',
     description: 'Some states require a tax clearance or consent before closing the estate or distributing assets.',
@@ -227,40 +277,48 @@ const EXECUTOR_CHECKLIST_SEED: ChecklistItemSeed[] = [
   // Beneficiaries and Distributions
   // -------------------------------------------------------------------------
   {
+    key: 'verify-beneficiary-designations',
     category: 'BENEFICIARIES_DISTRIBUTIONS',
     title: 'Verify beneficiary designations',
     description: 'Confirm beneficiaries on retirement accounts, life insurance, and other non-probate assets.',
     whatYouMayNeed: ['Account statements', 'Beneficiary forms', 'Institution contact'],
   },
   {
+    key: 'distribute-assets-per-will-or-trust',
     category: 'BENEFICIARIES_DISTRIBUTIONS',
     title: 'Distribute assets per will or trust',
     description: 'After debts and expenses are paid and any waiting period has passed, distribute according to the will or trust.',
     whatYouMayNeed: ['Will or trust', 'Accounting', 'Receipts or releases if required'],
+    dependsOn: [afterItem('pay-approved-claims-in-correct-order')],
   },
   {
+    key: 'obtain-receipts-releases-from-beneficiaries',
     category: 'BENEFICIARIES_DISTRIBUTIONS',
     title: 'Obtain receipts/releases from beneficiaries',
     description: 'Document distributions and, where required, obtain receipts or releases from beneficiaries.',
     whatYouMayNeed: ['Distribution records', 'Release forms', 'Attorney guidance'],
+    dependsOn: [afterItem('distribute-assets-per-will-or-trust')],
   },
 
   // -------------------------------------------------------------------------
   // Business Interests (if applicable)
   // -------------------------------------------------------------------------
   {
+    key: 'identify-business-interests',
     category: 'BUSINESS_INTERESTS',
     title: 'Identify business interests',
     description: 'List any sole proprietorships, partnerships, LLCs, or corporate interests and locate governing documents.',
     whatYouMayNeed: ['Operating agreements', 'Partnership agreements', 'Stock certificates'],
   },
   {
+    key: 'notify-business-partners-or-co-owners',
     category: 'BUSINESS_INTERESTS',
     title: 'Notify business partners or co-owners',
     description: 'Inform other owners and key personnel. Review agreements for buy-sell or succession provisions.',
     whatYouMayNeed: ['Agreements', 'Contact list', 'Attorney or CPA'],
   },
   {
+    key: 'maintain-or-wind-down-operations',
     category: 'BUSINESS_INTERESTS',
     title: 'Maintain or wind down operations',
     description: 'Depending on the business and documents, you may maintain operations, sell, or wind down. Professional advice is often needed.',
@@ -271,18 +329,22 @@ const EXECUTOR_CHECKLIST_SEED: ChecklistItemSeed[] = [
   // Digital Assets and Accounts
   // -------------------------------------------------------------------------
   {
+    key: 'inventory-digital-assets',
     category: 'DIGITAL_ASSETS',
     title: 'Inventory digital assets',
     description: 'List online accounts, subscriptions, cryptocurrency, domain names, and important digital files.',
     whatYouMayNeed: ['Password manager or list', 'Email access', 'Device access'],
   },
   {
+    key: 'close-or-transfer-online-accounts',
     category: 'DIGITAL_ASSETS',
     title: 'Close or transfer online accounts',
     description: 'Follow each platform’s process for memorialization, closure, or transfer. Requirements vary.',
     whatYouMayNeed: ['Death certificate', 'Proof of authority', 'Account policies'],
+    dependsOn: [afterItem('inventory-digital-assets'), afterTask('consider-how-to-handle-digital-accounts')],
   },
   {
+    key: 'preserve-records-as-needed',
     category: 'DIGITAL_ASSETS',
     title: 'Preserve records as needed',
     description: 'Download or export important emails, files, and records before closing accounts if needed for the estate.',
@@ -293,18 +355,23 @@ const EXECUTOR_CHECKLIST_SEED: ChecklistItemSeed[] = [
   // Final Close-Out Tasks
   // -------------------------------------------------------------------------
   {
+    key: 'provide-final-accounting',
     category: 'FINAL_CLOSEOUT',
     title: 'Provide final accounting',
     description: 'Prepare an accounting of assets, income, expenses, and distributions for the court or beneficiaries as required.',
     whatYouMayNeed: ['Bank statements', 'Receipts', 'Distribution records'],
+    dependsOn: [afterItem('distribute-assets-per-will-or-trust')],
   },
   {
+    key: 'close-estate-account',
     category: 'FINAL_CLOSEOUT',
     title: 'Close estate account',
     description: 'After all distributions and expenses are paid, close the estate bank account and retain final statements.',
     whatYouMayNeed: ['Final statements', 'Zero balance', 'Bank closing forms'],
+    dependsOn: [afterItem('provide-final-accounting')],
   },
   {
+    key: 'retain-records-for-required-period',
     category: 'FINAL_CLOSEOUT',
     title: 'Retain records for required period',
     description: 'Keep estate records for the period required by your state and for tax purposes.',
@@ -320,27 +387,102 @@ function generateId(): string {
   return `exec_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
+/** Seed wording in the current locale (see localization); pack items are localized with their pack. */
+function localizeSeed(seed: ChecklistItemSeed): ChecklistItemSeed {
+  const k = `checklist.${seed.key}`;
+  return {
+    ...seed,
+    title: localize(`${k}.title`, seed.title),
+    description: localize(`${k}.description`, seed.description),
+    whyItMatters: seed.whyItMatters && localize(`${k}.whyItMatters`, seed.whyItMatters),
+    whatYouMayNeed: seed.whatYouMayNeed?.map((need, i) => localize(`${k}.need.${i + 1}`, need)),
+  };
+}
+
 /**
- * Generate the initial executor checklist (new 10-phase structure).
+ * Generate the initial executor checklist (new 10-phase structure), with the
+ * jurisdiction packs for the profile's location merged in.
  */
-export function generateExecutorChecklist(): ExecutorChecklistItem[] {
-  return EXECUTOR_CHECKLIST_SEED.map((seed): ExecutorChecklistItem => ({
+export function generateExecutorChecklist(profile?: Pick<AftercareProfile, 'country' | 'region'>): ExecutorChecklistItem[] {
+  const seeds = applyJurisdictionRules<ChecklistItemSeed>(
+    EXECUTOR_CHECKLIST_SEED.map(localizeSeed),
+    getJurisdictionPacks(profile),
+    pack => pack.checklist
+  );
+  return seeds.map((seed): ExecutorChecklistItem => ({
     id: generateId(),
+    seedKey: seed.key,
     category: seed.category,
     title: seed.title,
     description: seed.description,
     whyItMatters: seed.whyItMatters,
     whatYouMayNeed: seed.whatYouMayNeed,
+    dependsOn: seed.dependsOn,
     status: 'PENDING',
   }));
 }
 
 /**
- * Returns true if the checklist uses legacy categories. Caller can replace with generateExecutorChecklist().
+ * Fill in seedKey and default dependencies on items saved before they existed,
+ * matching seed items by title. Returns the same array if nothing changed.
+ */
+export function applyChecklistSeedDefaults(checklist: ExecutorChecklistItem[]): ExecutorChecklistItem[] {
+  const packSeeds = getRegisteredJurisdictionPacks().flatMap(pack => pack.checklist?.add ?? []);
+  const seedByTitle = new Map([...EXECUTOR_CHECKLIST_SEED, ...packSeeds].map(seed => [seed.title.toLowerCase(), seed]));
+  let changed = false;
+  const updated = checklist.map((item): ExecutorChecklistItem => {
+    const seed = item.seedKey ? undefined : seedByTitle.get(item.title.toLowerCase());
+    if (!seed) return item;
+    changed = true;
+    return { ...item, seedKey: seed.key, dependsOn: item.dependsOn ?? seed.dependsOn };
+  });
+  return changed ? updated : checklist;
+}
+
+/**
+ * Closest current phase for each legacy (pre-10-phase) checklist category.
+ * Used when an item's title does not match a current seed item.
+ */
+const LEGACY_CATEGORY_MAP: Partial<Record<ExecutorChecklistCategory, ExecutorChecklistCategory>> = {
+  DOCUMENTS: 'IMMEDIATE_LEGAL_DOCUMENTS',
+  COMMUNICATION: 'DEBTS_OBLIGATIONS',
+  ASSET_TRACKING: 'FINANCIAL_ACCOUNTS',
+  RECORD_KEEPING: 'FINAL_CLOSEOUT',
+  FOLLOW_UP: 'FINAL_CLOSEOUT',
+};
+
+/**
+ * Returns true if the checklist uses legacy categories (see migrateLegacyChecklist).
  */
 export function hasLegacyChecklistCategories(checklist: ExecutorChecklistItem[]): boolean {
-  const legacy: ExecutorChecklistCategory[] = ['DOCUMENTS', 'COMMUNICATION', 'ASSET_TRACKING', 'RECORD_KEEPING', 'FOLLOW_UP'];
-  return checklist.some(item => legacy.includes(item.category));
+  return checklist.some(item => item.category in LEGACY_CATEGORY_MAP);
+}
+
+/**
+ * Move legacy-category items into the current phases, keeping id, status, notes
+ * and completion date. Items whose title matches a current seed item take that
+ * item's phase. Each case that had legacy items also gets the current seed items
+ * it does not have yet (matched by title).
+ */
+export function migrateLegacyChecklist(checklist: ExecutorChecklistItem[]): ExecutorChecklistItem[] {
+  if (!hasLegacyChecklistCategories(checklist)) return checklist;
+
+  const seedCategoryByTitle = new Map(EXECUTOR_CHECKLIST_SEED.map(seed => [seed.title.toLowerCase(), seed.category]));
+  const migratedCaseIds = new Set<string>();
+  const migrated = checklist.map((item): ExecutorChecklistItem => {
+    const fallback = LEGACY_CATEGORY_MAP[item.category];
+    if (!fallback) return item;
+    migratedCaseIds.add(item.caseId);
+    return { ...item, category: seedCategoryByTitle.get(item.title.toLowerCase()) ?? fallback };
+  });
+
+  for (const caseId of migratedCaseIds) {
+    const titles = new Set(migrated.filter(i => i.caseId === caseId).map(i => i.title.toLowerCase()));
+    for (const item of generateExecutorChecklist()) {
+      if (!titles.has(item.title.toLowerCase())) migrated.push({ ...item, caseId });
+    }
+  }
+  return migrated;
 }
 
 /**
@@ -448,7 +590,13 @@ export function getChecklistCategoryInfo(category: ExecutorChecklistCategory): {
     RECORD_KEEPING: { label: 'Record Keeping', description: 'Maintaining organized records', icon: 'FolderOpen' },
     FOLLOW_UP: { label: 'Follow Up', description: 'Ongoing monitoring and follow-up tasks', icon: 'Clock' },
   };
-  return info[category] ?? { label: category, description: '', icon: 'Circle' };
+  const entry = info[category];
+  if (!entry) return { label: category, description: '', icon: 'Circle' };
+  return {
+    ...entry,
+    label: localize(`checklistCategory.${category}.label`, entry.label),
+    description: localize(`checklistCategory.${category}.description`, entry.description),
+  };
 }
 
 /** Display order for executor checklist sections. */
@@ -8,22 +8,41 @@ import {
   AftercarePlan,
   ExecutorChecklistItem,
   ContactEntry,
+  LabelSheetId,
+  LetterSender,
+  MailMergeLetter,
+  PostalAddress,
+  PrintableLetter,
   TaskPhase,
+  TaskStatus,
   UploadedDocument,
 } from '../types';
 import { getPhaseInfo } from './taskGenerationEngine';
+import { describeTaskProvenance } from './taskProvenance';
 import { getChecklistCategoryInfo, getContactTypeInfo, getExecutorChecklistCategoryOrder } from './executorService';
+import { formatDate, t } from './localization';
+import { LABEL_SHEETS, formatAddressBlock, layoutLabels } from './letterLayout';
 import jsPDF from 'jspdf';
+import JSZip from 'jszip';
+
+export interface ExportPlanOptions {
+  /** Add an appendix explaining why each item was generated (see taskProvenance). */
+  includeProvenanceAppendix?: boolean;
+}
 
 export interface ExportBinderOptions {
   includeNotesPerItem?: boolean;
   includeKeyDocumentsList?: boolean;
 }
 
+function statusMark(status: TaskStatus): string {
+  return status === 'DONE' ? '✓' : status === 'IN_PROGRESS' ? '◐' : '○';
+}
+
 /**
  * Export plan to PDF
  */
-export async function exportPlanToPdf(plan: AftercarePlan): Promise<void> {
+export async function exportPlanToPdf(plan: AftercarePlan, options?: ExportPlanOptions): Promise<void> {
   try {
     const doc = new jsPDF();
   let yPos = 20;
@@ -43,32 +62,32 @@ export async function exportPlanToPdf(plan: AftercarePlan): Promise<void> {
   // Header
   doc.setFontSize(20);
   doc.setTextColor(201, 174, 102); // Gold color
-  doc.text('LOCAL AFTERCARE VAULT PLAN', margin, yPos);
+  doc.text(t('planPdf.title'), margin, yPos);
   yPos += 10;
 
   // Profile Summary
   doc.setFontSize(12);
   doc.setTextColor(0, 0, 0);
   if (plan.profile.deceasedName) {
-    doc.text(`For: ${plan.profile.deceasedName}`, margin, yPos);
+    doc.text(t('planPdf.for', { name: plan.profile.deceasedName }), margin, yPos);
     yPos += lineHeight;
   }
-  const relationship = plan.profile.relationship || 'Not specified';
-  doc.text(`Relationship: ${relationship}`, margin, yPos);
+  const relationship = plan.profile.relationship ? t(`relationship.${plan.profile.relationship}`) : t('planPdf.notSpecified');
+  doc.text(t('planPdf.relationship', { relationship }), margin, yPos);
   yPos += lineHeight;
   const region = plan.profile.region || '';
-  const country = plan.profile.country || 'Not specified';
+  const country = plan.profile.country || t('planPdf.notSpecified');
   const location = region ? `${region}, ${country}` : country;
-  doc.text(`Location: ${location}`, margin, yPos);
+  doc.text(t('planPdf.location', { location }), margin, yPos);
   yPos += lineHeight;
-  doc.text(`Created: ${new Date(plan.createdAt).toLocaleDateString()}`, margin, yPos);
+  doc.text(t('planPdf.created', { date: formatDate(plan.createdAt) }), margin, yPos);
   yPos += 10;
 
   // Task Summary
   const addressed = plan.tasks.filter(t => t.status === 'DONE').length;
   const total = plan.tasks.length;
   doc.setFontSize(11);
-  doc.text(`Items Addressed: ${addressed} of ${total}`, margin, yPos);
+  doc.text(t('planPdf.addressed', { done: addressed, total }), margin, yPos);
   yPos += 10;
 
   // Tasks by Phase
@@ -89,29 +108,68 @@ export async function exportPlanToPdf(plan: AftercarePlan): Promise<void> {
 
     for (const task of phaseTasks) {
       checkPageBreak(lineHeight + 2);
-      const status = task.status === 'DONE' ? '✓' : task.status === 'IN_PROGRESS' ? '◐' : '○';
       doc.setFontSize(10);
-      doc.text(`${status} ${task.title}`, margin + 5, yPos);
+      doc.text(`${statusMark(task.status)} ${task.title}`, margin + 5, yPos);
       yPos += lineHeight;
+
+      // Steps, numbered in order
+      doc.setFontSize(9);
+      (task.steps ?? []).forEach((step, i) => {
+        checkPageBreak(6);
+        doc.text(`${i + 1}. ${statusMark(step.status)} ${step.title}`, margin + 12, yPos);
+        yPos += 5;
+      });
+      if (task.steps?.length) yPos += 2;
     }
     yPos += 3;
   }
 
+  // Optional appendix: why each item is on the list
+  if (options?.includeProvenanceAppendix) {
+    const textWidth = doc.internal.pageSize.width - margin * 2 - 5;
+    doc.addPage();
+    yPos = margin;
+    doc.setFontSize(12);
+    doc.setFont('helvetica', 'bold');
+    doc.text(t('planPdf.appendix'), margin, yPos);
+    yPos += lineHeight + 2;
+
+    for (const phase of phases) {
+      for (const task of plan.tasks.filter(t => t.phase === phase)) {
+        const lines = describeTaskProvenance(task);
+        if (lines.length === 0) continue;
+        const wrapped: string[] = lines.flatMap(line => doc.splitTextToSize(line, textWidth));
+        checkPageBreak(lineHeight + wrapped.length * 5);
+        doc.setFontSize(10);
+        doc.setFont('helvetica', 'bold');
+        doc.text(task.title, margin, yPos, { maxWidth: textWidth + 5 });
+        yPos += 6;
+        doc.setFont('helvetica', 'normal');
+        doc.setFontSize(9);
+        for (const line of wrapped) {
+          doc.text(line, margin + 5, yPos);
+          yPos += 5;
+        }
+        yPos += 3;
+      }
+    }
+  }
+
   // Footer — single disclaimer at bottom, small font
   checkPageBreak(15);
   yPos += 5;
   doc.setFontSize(8);
   doc.setTextColor(100, 100, 100);
-  doc.text('Generated by AfterPassing Guide', margin, yPos);
+  doc.text(t('planPdf.generatedBy'), margin, yPos);
   yPos += 5;
-  doc.text('This material is provided for organizational guidance only and does not constitute legal, financial, or medical advice.', margin, yPos, { maxWidth: doc.internal.pageSize.width - margin * 2 });
+  doc.text(t('planPdf.disclaimer'), margin, yPos, { maxWidth: doc.internal.pageSize.width - margin * 2 });
 
     // Save PDF
     const fileName = `Aftercare_Plan_${new Date().toISOString().split('T')[0]}.pdf`;
     doc.save(fileName);
   } catch (error) {
     console.error('PDF export failed:', error);
-    throw new Error('Failed to generate PDF. Please try again.');
+    throw new Error(t('pdf.error'));
   }
 }
 
@@ -165,7 +223,7 @@ export async function exportAftercareBinder(
     }
     doc.setFontSize(10);
     doc.setTextColor(80, 80, 80);
-    doc.text(`Created: ${new Date().toLocaleDateString()}`, margin, yPos + 42);
+    doc.text(`Created: ${formatDate(new Date())}`, margin, yPos + 42);
 
     yPos = pageHeight - 28;
     doc.setFontSize(8);
@@ -196,7 +254,7 @@ export async function exportAftercareBinder(
     const location = region ? `${region}, ${country}` : country;
     doc.text(`Location: ${location}`, margin, yPos);
     yPos += lineHeight;
-    doc.text(`Created: ${new Date(plan.createdAt).toLocaleDateString()}`, margin, yPos);
+    doc.text(`Created: ${formatDate(plan.createdAt)}`, margin, yPos);
     yPos += 10;
 
     // Section: Executor checklist (addressed / not applicable, optional notes)
@@ -326,6 +384,236 @@ export async function exportAftercareBinder(
     doc.save(fileName);
   } catch (error) {
     console.error('PDF export failed:', error);
-    throw new Error('Failed to generate PDF. Please try again.');
+    throw new Error(t('pdf.error'));
+  }
+}
+
+/** Write a letter's text from the top of the current page, wrapping lines and adding pages as needed. */
+function writeLetterText(doc: jsPDF, text: string): void {
+  const margin = 25;
+  const lineHeight = 6;
+  const pageHeight = doc.internal.pageSize.height;
+  const textWidth = doc.internal.pageSize.width - margin * 2;
+  let yPos = margin;
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(11);
+  doc.setTextColor(0, 0, 0);
+  for (const paragraph of text.split('\n')) {
+    const lines: string[] = paragraph.trim() ? doc.splitTextToSize(paragraph, textWidth) : [''];
+    for (const line of lines) {
+      if (yPos + lineHeight > pageHeight - margin) {
+        doc.addPage();
+        yPos = margin;
+      }
+      doc.text(line, margin, yPos);
+      yPos += lineHeight;
+    }
+  }
+}
+
+/**
+ * Export mail-merge letters as one PDF, each letter starting on a new page.
+ */
+export async function exportLettersToPdf(letters: MailMergeLetter[], fileName: string): Promise<void> {
+  try {
+    const doc = new jsPDF();
+    letters.forEach((letter, i) => {
+      if (i > 0) doc.addPage();
+      writeLetterText(doc, letter.text);
+    });
+    doc.save(`${fileName}.pdf`);
+  } catch (error) {
+    console.error('PDF export failed:', error);
+    throw new Error(t('pdf.error'));
+  }
+}
+
+/**
+ * Export each mail-merge letter as its own PDF, named after its recipient.
+ * The files come as one .zip download; browsers block or drop a burst of
+ * separate downloads.
+ */
+export async function exportLetterFiles(letters: MailMergeLetter[], fileName: string): Promise<void> {
+  try {
+    const zip = new JSZip();
+    for (const letter of letters) {
+      const doc = new jsPDF();
+      writeLetterText(doc, letter.text);
+      zip.file(`${letter.fileName}.pdf`, doc.output('arraybuffer'));
+    }
+    const url = URL.createObjectURL(await zip.generateAsync({ type: 'blob' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${fileName}.zip`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  } catch (error) {
+    console.error('PDF export failed:', error);
+    throw new Error(t('pdf.error'));
+  }
+}
+
+/** Draw a printable letter from the top of the current page: letterhead, date, addresses, body, signature, enclosures. */
+function writePrintableLetter(doc: jsPDF, letter: PrintableLetter): void {
+  const margin = 25;
+  const lineHeight = 6;
+  const pageHeight = doc.internal.pageSize.height;
+  const pageWidth = doc.internal.pageSize.width;
+  const textWidth = pageWidth - margin * 2;
+  let yPos = margin;
+
+  const writeLines = (lines: string[], x = margin) => {
+    for (const line of lines) {
+      if (yPos + lineHeight > pageHeight - margin) {
+        doc.addPage();
+        yPos = margin;
+      }
+      doc.text(line, x, yPos);
+      yPos += lineHeight;
+    }
+  };
+  const writeWrapped = (text: string) => {
+    for (const paragraph of text.split('\n')) {
+      writeLines(paragraph.trim() ? doc.splitTextToSize(paragraph, textWidth) : ['']);
+    }
+  };
+
+  // Letterhead
+  if (letter.sender) {
+    const { sender } = letter;
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(14);
+    doc.setTextColor(0, 0, 0);
+    doc.text(sender.name, margin, yPos);
+    yPos += 6;
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    doc.setTextColor(80, 80, 80);
+    const details = [...sender.lines, sender.phone, sender.email].filter(Boolean).join('  ·  ');
+    if (details) {
+      for (const line of doc.splitTextToSize(details, textWidth) as string[]) {
+        doc.text(line, margin, yPos);
+        yPos += 4.5;
+      }
+    }
+    doc.setDrawColor(160, 160, 160);
+    doc.line(margin, yPos, pageWidth - margin, yPos);
+    yPos += 12;
+  }
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(11);
+  doc.setTextColor(0, 0, 0);
+  writeLines([letter.date]);
+  yPos += lineHeight;
+  writeLines(formatAddressBlock(letter.recipient));
+  yPos += lineHeight;
+  if (letter.reference) {
+    doc.setFont('helvetica', 'bold');
+    writeLines(doc.splitTextToSize(letter.reference, textWidth));
+    doc.setFont('helvetica', 'normal');
+    yPos += lineHeight;
+  }
+
+  writeWrapped(letter.body);
+
+  // Signature block, kept on one page with room to sign
+  yPos += lineHeight;
+  if (yPos + lineHeight * 5 > pageHeight - margin) {
+    doc.addPage();
+    yPos = margin;
+  }
+  if (letter.closing) writeLines([letter.closing]);
+  yPos += lineHeight * 2;
+  doc.setDrawColor(0, 0, 0);
+  doc.line(margin, yPos, margin + 60, yPos);
+  yPos += lineHeight;
+  if (letter.sender) writeLines([letter.sender.name]);
+
+  if (letter.enclosures.length > 0) {
+    yPos += lineHeight;
+    writeLines([t('letters.enclosures')]);
+    for (const enclosure of letter.enclosures) writeLines(doc.splitTextToSize(`- ${enclosure}`, textWidth - 5), margin + 5);
+  }
+}
+
+/**
+ * Export printable letters as one PDF, each letter starting on a new page.
+ */
+export async function exportPrintableLetters(
+  letters: PrintableLetter[],
+  fileName: string,
+  paper: 'letter' | 'a4' = 'letter'
+): Promise<void> {
+  try {
+    const doc = new jsPDF({ format: paper });
+    letters.forEach((letter, i) => {
+      if (i > 0) doc.addPage();
+      writePrintableLetter(doc, letter);
+    });
+    doc.save(`${fileName}.pdf`);
+  } catch (error) {
+    console.error('PDF export failed:', error);
+    throw new Error(t('pdf.error'));
+  }
+}
+
+/** #10 business envelope, in inches. */
+const ENVELOPE_10 = { width: 9.5, height: 4.125 };
+
+/**
+ * Export one #10 envelope per recipient, with the sender's return address in the corner.
+ */
+export async function exportEnvelopes(recipients: PostalAddress[], sender: LetterSender | null, fileName: string): Promise<void> {
+  try {
+    const doc = new jsPDF({ orientation: 'landscape', unit: 'in', format: [ENVELOPE_10.height, ENVELOPE_10.width] });
+    recipients.forEach((recipient, i) => {
+      if (i > 0) doc.addPage([ENVELOPE_10.height, ENVELOPE_10.width], 'landscape');
+      doc.setFont('helvetica', 'normal');
+      doc.setTextColor(0, 0, 0);
+      if (sender) {
+        doc.setFontSize(9);
+        [sender.name, ...sender.lines].forEach((line, row) => doc.text(line, 0.375, 0.5 + row * 0.16));
+      }
+      doc.setFontSize(12);
+      formatAddressBlock(recipient).forEach((line, row) => doc.text(line, 4, 2 + row * 0.2));
+    });
+    doc.save(`${fileName}.pdf`);
+  } catch (error) {
+    console.error('PDF export failed:', error);
+    throw new Error(t('pdf.error'));
+  }
+}
+
+/**
+ * Export address labels on Avery sheets (US Letter), as many sheets as the addresses need.
+ */
+export async function exportAddressLabels(addresses: PostalAddress[], sheetId: LabelSheetId, fileName: string): Promise<void> {
+  try {
+    const sheet = LABEL_SHEETS[sheetId];
+    const padding = 0.15;
+    const fontSize = sheet.labelHeight < 1.5 ? 9 : 11;
+    const lineHeight = (fontSize / 72) * 1.25;
+    const maxLines = Math.floor((sheet.labelHeight - padding * 2) / lineHeight);
+    const doc = new jsPDF({ unit: 'in', format: 'letter' });
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(fontSize);
+    doc.setTextColor(0, 0, 0);
+    layoutLabels(addresses, sheet).forEach((page, i) => {
+      if (i > 0) doc.addPage();
+      for (const { x, y, address } of page) {
+        const lines = formatAddressBlock(address)
+          .flatMap(line => doc.splitTextToSize(line, sheet.labelWidth - padding * 2) as string[])
+          .slice(0, maxLines);
+        lines.forEach((line, row) => doc.text(line, x + padding, y + padding + lineHeight * (row + 0.8)));
+      }
+    });
+    doc.save(`${fileName}.pdf`);
+  } catch (error) {
+    console.error('PDF export failed:', error);
+    throw new Error(t('pdf.error'));
   }
 }
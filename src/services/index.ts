@@ -8,16 +8,43 @@ export { storageService } from './storageService';
 export { licenseService } from './licenseService';
 export { llvIntegration } from './llvIntegration';
 export { generateAftercarePlan } from './taskGenerationEngine';
+export { regenerateAftercarePlan, reconcilePlanTasks } from './planReconciliation';
+export { scheduleTasks, getTaskWindow, getCurrentTasks } from './taskScheduling';
+export { getBlockedTasks, getBlockedChecklistItems, getUnblockedTasks, findDependencyCycles } from './taskDependencies';
+export { getJurisdictionPacks, getJurisdictionResources, registerJurisdictionPack } from './jurisdictionService';
+export { validateTaskRules, loadTaskRules, evaluateCondition } from './taskRules';
+export { describeTaskProvenance } from './taskProvenance';
+export { setSubItemStatus, getSubItemProgress } from './taskGroups';
+export { setStepStatus, addStep, removeStep, moveStep, getStepProgress, rollUpStepStatus } from './taskSteps';
+export { findContentUpdates, findPlanContentUpdates, applyContentUpdates, editTaskDescription, isTaskCustomized } from './taskContent';
+export { setTaskStatus, describeRecurrence, isRecurrenceOver, getOccurrenceNumber } from './taskRecurrence';
+export { t, setLocale, getLocale, resolveLocale, formatDate, formatDateTime, SUPPORTED_LOCALES } from './localization';
 export { 
   generateExecutorChecklist, 
   generateContactsFromVault,
   getChecklistProgress,
   getContactProgress,
   hasLegacyChecklistCategories,
+  migrateLegacyChecklist,
   getExecutorChecklistCategoryOrder,
   getChecklistCategoryInfo,
 } from './executorService';
-export { SCRIPT_TEMPLATES, renderScript, getAllTemplateTypes, getTemplateTypeInfo } from './scriptTemplates';
-export { exportPlanToPdf, exportAftercareBinder } from './exportService';
+export { SCRIPT_TEMPLATES, SCRIPT_PLACEHOLDERS, getScriptTemplates, renderScript, renderScriptWithMissing, checkScriptTemplateBody, validateScriptTemplate, getAllTemplateTypes, getTemplateTypeInfo } from './scriptTemplates';
+export { renderTemplate, checkTemplate } from './templateLanguage';
+export {
+  duplicateTemplate,
+  validatePersonalTemplate,
+  upsertPersonalTemplate,
+  exportTemplatePack,
+  parseTemplatePack,
+  mergeTemplatePack,
+  downloadTemplatePack,
+} from './personalTemplates';
+export { getMailMergeTypes, buildMailMergeRecipients, generateMailMerge } from './mailMerge';
+export { buildPrintableLetter, layoutLabels, LABEL_SHEETS } from './letterLayout';
+export { createCorrespondenceEntry, updateCorrespondenceEntry, applyCorrespondenceToContact, isResponseOverdue } from './correspondenceLog';
+export { addInteraction, getFollowUpsDue, snoozeFollowUp, setFollowUp } from './contactFollowUps';
+export { parseVCards, parseCsv, guessColumnMapping, applyColumnMapping, findDuplicateContact, applyContactImport, exportContactsToVCard, exportContactsToCsv } from './contactImport';
+export { exportPlanToPdf, exportAftercareBinder, exportLettersToPdf, exportLetterFiles, exportPrintableLetters, exportEnvelopes, exportAddressLabels } from './exportService';
 export { downloadBackup, loadBackupFromFile, exportBackup, importBackup } from './backupService';
 
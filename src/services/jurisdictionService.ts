@@ -0,0 +1,200 @@
+/**
+ * Jurisdiction Service
+ *
+ * Location-specific guidance comes from jurisdiction packs keyed by country
+ * and region (see constants/jurisdictionPacks). The task engine and executor
+ * checklist merge the matching packs into their base content at generation
+ * time: the country pack first, then the region pack.
+ *
+ * Packs are plain data so more can be registered at runtime
+ * (registerJurisdictionPack) without touching the engine.
+ *
+ * Built-in pack wording is translated through the catalogs under keys scoped
+ * to the pack ("pack.ca.task.<key>.title"), because a pack's replacement may
+ * reword a base item. Packs registered at runtime keep their own wording.
+ */
+
+import type {
+  AftercareProfile,
+  JurisdictionChecklistItem,
+  JurisdictionPack,
+  JurisdictionRules,
+  JurisdictionTask,
+  ResourceLink,
+} from '../types';
+import { BUILT_IN_JURISDICTION_PACKS } from '../constants/jurisdictionPacks';
+import { localize } from './localization';
+
+const registeredPacks: JurisdictionPack[] = [...BUILT_IN_JURISDICTION_PACKS];
+const builtInPacks = new Set(BUILT_IN_JURISDICTION_PACKS);
+
+/** Profiles store the country as shown in the picker; older data may use abbreviations. */
+const COUNTRY_ALIASES: Record<string, string> = {
+  'usa': 'United States',
+  'us': 'United States',
+  'united states of america': 'United States',
+  'uk': 'United Kingdom',
+  'great britain': 'United Kingdom',
+};
+
+function normalizeCountry(country: string | undefined): string | undefined {
+  const trimmed = country?.trim();
+  if (!trimmed) return undefined;
+  return COUNTRY_ALIASES[trimmed.toLowerCase()] ?? trimmed;
+}
+
+function sameText(a: string | undefined, b: string | undefined): boolean {
+  return !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/** Only the fields that are set, so a partial replacement stays partial. */
+function definedFields<T extends object>(fields: T): Partial<T> {
+  return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
+
+function localizeTask<T extends Partial<JurisdictionTask>>(k: string, task: T): T {
+  return {
+    ...task,
+    ...definedFields({
+      title: task.title && localize(`${k}.title`, task.title),
+      description: task.description && localize(`${k}.description`, task.description),
+      reason: task.reason && localize(`${k}.reason`, task.reason),
+      steps: task.steps?.map((step, i) => localize(`${k}.step.${i + 1}`, step)),
+    }),
+  };
+}
+
+function localizeChecklistItem<T extends Partial<JurisdictionChecklistItem>>(k: string, item: T): T {
+  return {
+    ...item,
+    ...definedFields({
+      title: item.title && localize(`${k}.title`, item.title),
+      description: item.description && localize(`${k}.description`, item.description),
+      whyItMatters: item.whyItMatters && localize(`${k}.whyItMatters`, item.whyItMatters),
+      whatYouMayNeed: item.whatYouMayNeed?.map((need, i) => localize(`${k}.need.${i + 1}`, need)),
+    }),
+  };
+}
+
+/** "Probate & Courts" → "resourceGroup.probate-courts"; groups are shared across packs. */
+function resourceGroupKey(group: string): string {
+  return `resourceGroup.${group.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')}`;
+}
+
+/** A built-in pack with its wording in the current locale (see localization). */
+function localizePack(pack: JurisdictionPack): JurisdictionPack {
+  if (!builtInPacks.has(pack)) return pack;
+  const p = `pack.${pack.id}`;
+  return {
+    ...pack,
+    name: localize(`${p}.name`, pack.name),
+    tasks: pack.tasks && {
+      ...pack.tasks,
+      add: pack.tasks.add?.map(task => localizeTask(`${p}.task.${task.key}`, task)),
+      replace: pack.tasks.replace?.map(task => localizeTask(`${p}.task.${task.key}`, task)),
+    },
+    checklist: pack.checklist && {
+      ...pack.checklist,
+      add: pack.checklist.add?.map(item => localizeChecklistItem(`${p}.checklist.${item.key}`, item)),
+      replace: pack.checklist.replace?.map(item => localizeChecklistItem(`${p}.checklist.${item.key}`, item)),
+    },
+    resources: pack.resources && {
+      ...pack.resources,
+      add: pack.resources.add?.map((link, i) => ({
+        ...link,
+        group: localize(resourceGroupKey(link.group), link.group),
+        label: localize(`${p}.resource.${i + 1}.label`, link.label),
+      })),
+    },
+  };
+}
+
+/**
+ * Add a pack (e.g. loaded from a file). A pack with the same id replaces the
+ * existing one.
+ */
+export function registerJurisdictionPack(pack: JurisdictionPack): void {
+  const index = registeredPacks.findIndex(p => p.id === pack.id);
+  if (index >= 0) registeredPacks[index] = pack;
+  else registeredPacks.push(pack);
+}
+
+/** All registered packs, in registration order. */
+export function getRegisteredJurisdictionPacks(): JurisdictionPack[] {
+  return [...registeredPacks];
+}
+
+/**
+ * Packs that apply to a profile: the country pack, then the region pack, with
+ * their wording in the current locale. Empty for unknown locations.
+ */
+export function getJurisdictionPacks(profile: Pick<AftercareProfile, 'country' | 'region'> | undefined): JurisdictionPack[] {
+  const country = normalizeCountry(profile?.country);
+  if (!country) return [];
+  const forCountry = registeredPacks.filter(p => sameText(p.country, country));
+  return [
+    ...forCountry.filter(p => !p.region),
+    ...forCountry.filter(p => p.region && sameText(p.region, profile?.region)),
+  ].map(localizePack);
+}
+
+/**
+ * Apply one kind of rules from each pack in order. Replacements keep the
+ * item's position; additions go at the end. An addition whose key already
+ * exists replaces the existing item.
+ */
+export function applyJurisdictionRules<T extends { key: string }>(
+  base: T[],
+  packs: JurisdictionPack[],
+  select: (pack: JurisdictionPack) => JurisdictionRules<T> | undefined
+): T[] {
+  let items = [...base];
+  for (const pack of packs) {
+    const rules = select(pack);
+    if (!rules) continue;
+    const suppressed = new Set(rules.suppress ?? []);
+    items = items.filter(item => !suppressed.has(item.key));
+    for (const replacement of rules.replace ?? []) {
+      items = items.map(item => (item.key === replacement.key ? { ...item, ...replacement } : item));
+    }
+    for (const addition of rules.add ?? []) {
+      const index = items.findIndex(item => item.key === addition.key);
+      if (index >= 0) items[index] = addition;
+      else items.push(addition);
+    }
+  }
+  return items;
+}
+
+/** The last pack whose rules add or replace the item with this key, if any. */
+export function findJurisdictionSource<T extends { key: string }>(
+  key: string,
+  packs: JurisdictionPack[],
+  select: (pack: JurisdictionPack) => JurisdictionRules<T> | undefined
+): JurisdictionPack | undefined {
+  let source: JurisdictionPack | undefined;
+  for (const pack of packs) {
+    const rules = select(pack);
+    const touches = (items: { key: string }[] | undefined) => items?.some(item => item.key === key);
+    if (touches(rules?.add) || touches(rules?.replace)) source = pack;
+  }
+  return source;
+}
+
+/** Keys suppressed by any of the packs' task rules (used for record template tasks). */
+export function getSuppressedTaskKeys(packs: JurisdictionPack[]): Set<string> {
+  return new Set(packs.flatMap(pack => pack.tasks?.suppress ?? []));
+}
+
+/** Resource links for a profile's location, grouped in pack order. */
+export function getJurisdictionResources(profile: Pick<AftercareProfile, 'country' | 'region'> | undefined): ResourceLink[] {
+  let links: ResourceLink[] = [];
+  for (const pack of getJurisdictionPacks(profile)) {
+    const suppressed = new Set(pack.resources?.suppress ?? []);
+    links = links.filter(link => !suppressed.has(link.url));
+    for (const link of pack.resources?.add ?? []) {
+      if (!links.some(existing => existing.url === link.url)) links.push(link);
+    }
+  }
+  return links;
+}
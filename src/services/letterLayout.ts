@@ -0,0 +1,216 @@
+/**
+ * Letter Layout
+ *
+ * Turns rendered letter text into a printable letter: letterhead and sender
+ * block from the profile, date, recipient address, reference line, body,
+ * signature block and enclosures. Also lays out address labels on Avery
+ * sheets. Pure helpers; the PDF drawing lives in exportService.
+ */
+
+import type {
+  AftercareProfile,
+  ContactEntry,
+  LabelSheet,
+  LabelSheetId,
+  LetterSender,
+  MailMergeLetter,
+  MailMergeRecipient,
+  PostalAddress,
+  PrintableLetter,
+  ScriptRenderContext,
+} from '../types';
+import { formatDate, t } from './localization';
+
+export const LABEL_SHEETS: Record<LabelSheetId, LabelSheet> = {
+  AVERY_5160: {
+    id: 'AVERY_5160',
+    name: 'Avery 5160 (30 per sheet)',
+    columns: 3,
+    rows: 10,
+    labelWidth: 2.625,
+    labelHeight: 1,
+    topMargin: 0.5,
+    leftMargin: 0.1875,
+    horizontalPitch: 2.75,
+    verticalPitch: 1,
+  },
+  AVERY_5163: {
+    id: 'AVERY_5163',
+    name: 'Avery 5163 (10 per sheet)',
+    columns: 2,
+    rows: 5,
+    labelWidth: 4,
+    labelHeight: 2,
+    topMargin: 0.5,
+    leftMargin: 0.15625,
+    horizontalPitch: 4.1875,
+    verticalPitch: 2,
+  },
+};
+
+/** Countries that print on US Letter rather than A4. */
+const LETTER_PAPER_COUNTRIES = ['United States', 'Canada'];
+
+export function getLetterPaper(profile: AftercareProfile): 'letter' | 'a4' {
+  return profile.country && LETTER_PAPER_COUNTRIES.includes(profile.country) ? 'letter' : 'a4';
+}
+
+export function splitAddressLines(address: string | undefined): string[] {
+  return (address ?? '').split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+}
+
+/** The user's sender block, or null until they have entered their name. */
+export function getLetterSender(profile: AftercareProfile): LetterSender | null {
+  const name = profile.userName?.trim();
+  if (!name) return null;
+  return {
+    name,
+    lines: splitAddressLines(profile.address),
+    phone: profile.phone?.trim() || undefined,
+    email: profile.email?.trim() || undefined,
+  };
+}
+
+/** A contact's mailing address: the organization, to the attention of the person named. */
+export function getContactAddress(contact: ContactEntry): PostalAddress {
+  const organization = contact.organization?.trim();
+  return {
+    name: organization || contact.name.trim(),
+    attention: organization ? contact.name.trim() : undefined,
+    lines: splitAddressLines(contact.address),
+  };
+}
+
+export function getRecipientAddress(recipient: MailMergeRecipient): PostalAddress {
+  return { name: recipient.institutionName, lines: splitAddressLines(recipient.address) };
+}
+
+/** Name, attention line and address, as printed on a letter, envelope or label. */
+export function formatAddressBlock(address: PostalAddress): string[] {
+  return [address.name, ...(address.attention ? [t('letters.attention', { name: address.attention })] : []), ...address.lines];
+}
+
+export interface PrintableLetterOptions {
+  /** The letter as rendered from its template. */
+  text: string;
+  sender: LetterSender | null;
+  recipient: PostalAddress;
+  /** Account or policy numbers for the reference line. */
+  references?: string[];
+  enclosures?: string[];
+  /** The context the text was rendered with, to recognise its own date and signature lines. */
+  context?: Partial<ScriptRenderContext>;
+  date?: Date;
+  fileName: string;
+}
+
+const PLACEHOLDER_LINE = /^\[[^\]]*\]$/;
+const CLOSING_LINE = /^[^.!?]{1,40},$/;
+
+function dateLines(context: Partial<ScriptRenderContext> | undefined, date: Date): Set<string> {
+  const lines = new Set(['[Date]', formatDate(date, 'long')]);
+  const today = context?.todayDate;
+  if (today && !Number.isNaN(Date.parse(today))) {
+    for (const style of ['short', 'medium', 'long'] as const) lines.add(formatDate(today, style));
+  }
+  return lines;
+}
+
+/**
+ * The body of a rendered letter without what the printed layout supplies
+ * itself: the opening date, recipient and account lines (up to the first
+ * blank line) and the sender's name and address after the sign-off.
+ */
+function letterBody(options: PrintableLetterOptions, date: Date): string {
+  const { text, sender, recipient, references = [], context } = options;
+  const lines = text.split('\n');
+
+  const dates = dateLines(context, date);
+  const recipientNames = [recipient.name, context?.institutionName].filter(Boolean).map(name => name!.trim().toLowerCase());
+  const headerEnd = lines.findIndex(line => !line.trim());
+  const header = (headerEnd === -1 ? [] : lines.slice(0, headerEnd)).filter(line => {
+    const trimmed = line.trim();
+    return !(
+      dates.has(trimmed) ||
+      PLACEHOLDER_LINE.test(trimmed) ||
+      recipientNames.includes(trimmed.toLowerCase()) ||
+      references.some(reference => trimmed.includes(reference))
+    );
+  });
+  const rest = headerEnd === -1 ? lines : lines.slice(headerEnd);
+
+  const signature = new Set(
+    [
+      sender?.name,
+      ...(sender?.lines ?? []),
+      sender?.phone,
+      sender?.email,
+      context?.userName,
+      ...splitAddressLines(context?.userAddress),
+      context?.userPhone,
+    ].filter((line): line is string => !!line?.trim()).map(line => line.trim())
+  );
+  while (rest.length > 0 && (!rest[rest.length - 1].trim() || signature.has(rest[rest.length - 1].trim()))) rest.pop();
+
+  const body = [...header, ...rest];
+  while (body.length > 0 && !body[0].trim()) body.shift();
+  return body.join('\n');
+}
+
+export function buildPrintableLetter(options: PrintableLetterOptions): PrintableLetter {
+  const date = options.date ?? new Date();
+  const body = letterBody(options, date);
+  const lastLine = body.split('\n').pop()!.trim();
+  const references = (options.references ?? []).filter(reference => reference.trim());
+  return {
+    sender: options.sender,
+    date: formatDate(date, 'long'),
+    recipient: options.recipient,
+    reference: references.length > 0 ? t('letters.reference', { reference: references.join(', ') }) : undefined,
+    body,
+    closing: CLOSING_LINE.test(lastLine) ? undefined : t('letters.closing'),
+    enclosures: (options.enclosures ?? []).map(item => item.trim()).filter(Boolean),
+    fileName: options.fileName,
+  };
+}
+
+/** A mail-merge letter laid out for print, referencing every account of its recipient. */
+export function buildMailMergePrintable(
+  letter: MailMergeLetter,
+  sender: LetterSender | null,
+  context?: Partial<ScriptRenderContext>,
+  enclosures?: string[]
+): PrintableLetter {
+  return buildPrintableLetter({
+    text: letter.text,
+    sender,
+    recipient: getRecipientAddress(letter.recipient),
+    references: letter.recipient.accounts.map(account => account.accountReference ?? '').filter(Boolean),
+    enclosures,
+    context: { ...context, institutionName: letter.recipient.institutionName },
+    fileName: letter.fileName,
+  });
+}
+
+export interface LabelPlacement {
+  /** Label's top-left corner in inches from the top-left of the sheet. */
+  x: number;
+  y: number;
+  address: PostalAddress;
+}
+
+/** Addresses placed across as many sheets as they need, left to right then top to bottom. */
+export function layoutLabels(addresses: PostalAddress[], sheet: LabelSheet): LabelPlacement[][] {
+  const perSheet = sheet.columns * sheet.rows;
+  const pages: LabelPlacement[][] = [];
+  addresses.forEach((address, i) => {
+    const slot = i % perSheet;
+    if (slot === 0) pages.push([]);
+    pages[pages.length - 1].push({
+      x: sheet.leftMargin + (slot % sheet.columns) * sheet.horizontalPitch,
+      y: sheet.topMargin + Math.floor(slot / sheet.columns) * sheet.verticalPitch,
+      address,
+    });
+  });
+  return pages;
+}
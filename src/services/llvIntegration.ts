@@ -357,7 +357,7 @@ class LLVIntegrationService {
   // MANUAL RECORDS (for standalone mode)
   // ============================================================================
 
-  private loadManualRecords(): LegacyVaultRecord[] {
+  loadManualRecords(): LegacyVaultRecord[] {
     const data = localStorage.getItem('aftercare_manual_records');
     if (!data) return [];
     try {
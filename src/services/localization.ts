@@ -0,0 +1,161 @@
+/**
+ * Localization
+ *
+ * Message catalogs live in constants/locales, one flat JSON file per locale
+ * keyed by dotted ids ("checklist.title", "task.take-a-moment.title").
+ *
+ * - Interface copy: `t(key)`. en.json is the source for every interface
+ *   message; other locales fall back to it.
+ * - Guidance content (tasks, record rules, checklist items, script templates,
+ *   built-in jurisdiction packs): `localize(key, source)`. The English source
+ *   stays next to the template in code, so catalogs only carry translations.
+ * - Dates: `formatDate` / `formatDateTime` in the current locale.
+ *
+ * A translation whose {{placeholders}} differ from the source is not used.
+ * Lookups that fall back to English are recorded (getTranslationIssues) so
+ * tests can check a catalog is complete.
+ *
+ * The pseudo-locale (en-XA) accents and brackets every string that goes
+ * through the catalogs, so text that bypasses them stands out.
+ */
+
+import en from '../constants/locales/en.json';
+import es from '../constants/locales/es.json';
+import frCA from '../constants/locales/fr-CA.json';
+
+export type Locale = 'en' | 'es' | 'fr-CA' | 'en-XA';
+export type MessageKey = keyof typeof en;
+
+export const DEFAULT_LOCALE: Locale = 'en';
+export const PSEUDO_LOCALE: Locale = 'en-XA';
+
+/** Locales offered in Settings, named in their own language. */
+export const SUPPORTED_LOCALES: { code: Locale; name: string }[] = [
+  { code: 'en', name: 'English' },
+  { code: 'es', name: 'Español' },
+  { code: 'fr-CA', name: 'Français (Canada)' },
+];
+
+const CATALOGS: Record<Locale, Record<string, string>> = {
+  en,
+  es,
+  'fr-CA': frCA,
+  'en-XA': {},
+};
+
+let currentLocale: Locale = DEFAULT_LOCALE;
+const issues = new Set<string>();
+
+export function getLocale(): Locale {
+  return currentLocale;
+}
+
+/** Switch locale for everything rendered or generated afterwards. */
+export function setLocale(locale: Locale): void {
+  currentLocale = locale;
+}
+
+/** Best supported locale for a language tag ("es-MX" → es, "fr" → fr-CA); English otherwise. */
+export function resolveLocale(tag: string | null | undefined): Locale {
+  if (!tag) return DEFAULT_LOCALE;
+  if (tag in CATALOGS) return tag as Locale;
+  const language = tag.toLowerCase().split('-')[0];
+  if (language === 'es') return 'es';
+  if (language === 'fr') return 'fr-CA';
+  return DEFAULT_LOCALE;
+}
+
+const ACCENTED: Record<string, string> = {
+  a: 'á', b: 'ƀ', c: 'ç', d: 'ð', e: 'é', f: 'ƒ', g: 'ĝ', h: 'ĥ', i: 'í', j: 'ĵ', k: 'ķ', l: 'ĺ', m: 'ɱ',
+  n: 'ñ', o: 'ó', p: 'þ', q: 'ǫ', r: 'ŕ', s: 'š', t: 'ţ', u: 'ú', v: 'ṽ', w: 'ŵ', x: 'ẋ', y: 'ý', z: 'ž',
+  A: 'Á', B: 'Ɓ', C: 'Ç', D: 'Ð', E: 'É', F: 'Ƒ', G: 'Ĝ', H: 'Ĥ', I: 'Í', J: 'Ĵ', K: 'Ķ', L: 'Ĺ', M: 'Ṁ',
+  N: 'Ñ', O: 'Ó', P: 'Þ', Q: 'Ǫ', R: 'Ŕ', S: 'Š', T: 'Ţ', U: 'Ú', V: 'Ṽ', W: 'Ŵ', X: 'Ẋ', Y: 'Ý', Z: 'Ž',
+};
+
+/** "Review {{name}}" → "⟦Ŕéṽíéŵ {{name}}⟧". Placeholders are left intact. */
+export function pseudoLocalize(text: string): string {
+  const accented = text
+    .split(/(\{\{[^}]*\}\})/)
+    .map(part => (part.startsWith('{{') ? part : part.replace(/[A-Za-z]/g, ch => ACCENTED[ch])))
+    .join('');
+  return `⟦${accented}⟧`;
+}
+
+/** Whether text came through the pseudo-locale (for tests). */
+export function isPseudoLocalized(text: string): boolean {
+  return text.startsWith('⟦') && text.endsWith('⟧');
+}
+
+function placeholdersOf(text: string): string {
+  return [...new Set(text.match(/\{\{[^}]*\}\}/g) ?? [])].sort().join(',');
+}
+
+function lookup(key: string, source: string): string {
+  if (currentLocale === PSEUDO_LOCALE) return pseudoLocalize(source);
+  if (currentLocale === DEFAULT_LOCALE) return source;
+  const translated = CATALOGS[currentLocale][key];
+  if (translated === undefined) {
+    issues.add(`${currentLocale}: missing ${key}`);
+    return source;
+  }
+  if (placeholdersOf(translated) !== placeholdersOf(source)) {
+    issues.add(`${currentLocale}: placeholders differ in ${key}`);
+    return source;
+  }
+  return translated;
+}
+
+function interpolate(text: string, vars?: Record<string, string | number>): string {
+  if (!vars) return text;
+  return text.replace(/\{\{(\w+)\}\}/g, (match, name: string) => (name in vars ? String(vars[name]) : match));
+}
+
+/** Whether `key` is an interface message (for keys built at runtime, e.g. "status.DONE"). */
+export function isMessageKey(key: string): key is MessageKey {
+  return key in en;
+}
+
+/** Interface message in the current locale, with {{name}} placeholders filled from `vars`. */
+export function t(key: MessageKey, vars?: Record<string, string | number>): string {
+  return interpolate(lookup(key, en[key]), vars);
+}
+
+/** Guidance content in the current locale; `source` is the English text it translates. */
+export function localize(key: string, source: string): string {
+  return lookup(key, source);
+}
+
+/** Lookups that fell back to English since the last reset, e.g. "es: missing checklist.title". */
+export function getTranslationIssues(): string[] {
+  return [...issues].sort();
+}
+
+export function resetTranslationIssues(): void {
+  issues.clear();
+}
+
+function intlLocale(): string {
+  return currentLocale === PSEUDO_LOCALE ? DEFAULT_LOCALE : currentLocale;
+}
+
+/** Calendar dates (YYYY-MM-DD) are read as local dates, not UTC midnight. */
+function toDate(value: string | Date): Date {
+  if (value instanceof Date) return value;
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T00:00:00`) : new Date(value);
+}
+
+const DATE_STYLES: Record<'short' | 'medium' | 'long', Intl.DateTimeFormatOptions> = {
+  short: { month: 'short', day: 'numeric' },
+  medium: { year: 'numeric', month: 'short', day: 'numeric' },
+  long: { year: 'numeric', month: 'long', day: 'numeric' },
+};
+
+/** Date in the current locale: short "Mar 4", medium "Mar 4, 2025", long "March 4, 2025". */
+export function formatDate(value: string | Date, style: 'short' | 'medium' | 'long' = 'medium'): string {
+  return new Intl.DateTimeFormat(intlLocale(), DATE_STYLES[style]).format(toDate(value));
+}
+
+/** Date and time in the current locale. */
+export function formatDateTime(value: string | Date): string {
+  return new Intl.DateTimeFormat(intlLocale(), { dateStyle: 'medium', timeStyle: 'short' }).format(toDate(value));
+}
@@ -0,0 +1,162 @@
+/**
+ * Mail Merge
+ *
+ * One letter per institution from a single template: the user picks a
+ * template type, the vault records and contacts that belong to it, and gets
+ * a rendered letter for every institution among them. Pure helpers; the PDF
+ * output lives in exportService.
+ */
+
+import type {
+  ContactEntry,
+  ContactType,
+  LegacyVaultCategory,
+  LegacyVaultRecord,
+  MailMergeLetter,
+  MailMergeRecipient,
+  ScriptRenderContext,
+  ScriptTemplate,
+  ScriptTemplateType,
+} from '../types';
+import { renderScriptWithMissing } from './scriptTemplates';
+
+/** Vault record categories each template type is written for. */
+const TYPE_RECORD_CATEGORIES: Partial<Record<ScriptTemplateType, LegacyVaultCategory[]>> = {
+  BANK_NOTIFICATION: ['BANK_ACCOUNT', 'INVESTMENT'],
+  CREDIT_CARD_CLOSURE: ['CREDIT_CARD'],
+  UTILITY_CANCELLATION: ['UTILITY'],
+  SUBSCRIPTION_CANCELLATION: ['SUBSCRIPTION'],
+  MEMBERSHIP_CANCELLATION: ['SUBSCRIPTION'],
+  EMPLOYER_NOTIFICATION: ['EMPLOYMENT'],
+  INSURANCE_CLAIM_REQUEST: ['INSURANCE'],
+  HEALTH_INSURANCE_NOTIFICATION: ['INSURANCE'],
+  CREDITOR_NOTIFICATION: ['LOAN', 'CREDIT_CARD'],
+  MORTGAGE_NOTIFICATION: ['LOAN', 'PROPERTY'],
+  STUDENT_LOAN_DISCHARGE: ['LOAN'],
+  DMV_NOTIFICATION: ['VEHICLE'],
+  SOCIAL_MEDIA_NOTIFICATION: ['DIGITAL_ACCOUNT'],
+};
+
+/** Contact types each template type is written for. */
+const TYPE_CONTACT_TYPES: Partial<Record<ScriptTemplateType, ContactType[]>> = {
+  BANK_NOTIFICATION: ['BANK'],
+  CREDIT_CARD_CLOSURE: ['BANK'],
+  UTILITY_CANCELLATION: ['UTILITY'],
+  SUBSCRIPTION_CANCELLATION: ['SUBSCRIPTION'],
+  MEMBERSHIP_CANCELLATION: ['SUBSCRIPTION'],
+  EMPLOYER_NOTIFICATION: ['EMPLOYER'],
+  INSURANCE_CLAIM_REQUEST: ['INSURANCE'],
+  HEALTH_INSURANCE_NOTIFICATION: ['INSURANCE'],
+  PENSION_BENEFITS_REQUEST: ['EMPLOYER', 'ADVISOR'],
+  GOVERNMENT_BENEFITS_NOTIFICATION: ['GOVERNMENT'],
+  SOCIAL_SECURITY_NOTIFICATION: ['GOVERNMENT'],
+  VETERANS_NOTIFICATION: ['GOVERNMENT'],
+  DMV_NOTIFICATION: ['GOVERNMENT'],
+  CREDITOR_NOTIFICATION: ['BANK'],
+  MORTGAGE_NOTIFICATION: ['BANK'],
+  STUDENT_LOAN_DISCHARGE: ['BANK'],
+};
+
+/** Template types that have vault records or contacts to merge with. */
+export function getMailMergeTypes(): ScriptTemplateType[] {
+  return [...new Set([
+    ...Object.keys(TYPE_RECORD_CATEGORIES),
+    ...Object.keys(TYPE_CONTACT_TYPES),
+  ])] as ScriptTemplateType[];
+}
+
+export function getMatchingRecords(type: ScriptTemplateType, records: LegacyVaultRecord[]): LegacyVaultRecord[] {
+  const categories = TYPE_RECORD_CATEGORIES[type] ?? [];
+  return records.filter(record => categories.includes(record.category));
+}
+
+export function getMatchingContacts(type: ScriptTemplateType, contacts: ContactEntry[]): ContactEntry[] {
+  const types = TYPE_CONTACT_TYPES[type] ?? [];
+  return contacts.filter(contact => types.includes(contact.type));
+}
+
+function institutionKey(name: string): string {
+  return name.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function recordInstitution(record: LegacyVaultRecord): string {
+  return (record.institutionName || record.insuranceCompany || record.name).trim();
+}
+
+function recordAddress(record: LegacyVaultRecord): string | undefined {
+  const cityLine = [record.city, [record.region, record.postalCode].filter(Boolean).join(' ')].filter(Boolean).join(', ');
+  const lines = [record.addressLine1, record.addressLine2, cityLine, record.country].filter(line => line?.trim());
+  return lines.length > 0 ? lines.join('\n') : undefined;
+}
+
+/**
+ * Group the picked records and contacts into one recipient per institution.
+ * Contacts are matched by organization (or name). Order follows the first
+ * appearance of each institution, records before contacts.
+ */
+export function buildMailMergeRecipients(records: LegacyVaultRecord[], contacts: ContactEntry[]): MailMergeRecipient[] {
+  const recipients = new Map<string, MailMergeRecipient>();
+  const recipientFor = (name: string): MailMergeRecipient => {
+    const key = institutionKey(name);
+    let recipient = recipients.get(key);
+    if (!recipient) {
+      recipient = { key, institutionName: name, accounts: [], vaultRecordIds: [], contactIds: [] };
+      recipients.set(key, recipient);
+    }
+    return recipient;
+  };
+
+  for (const record of records) {
+    const recipient = recipientFor(recordInstitution(record));
+    recipient.vaultRecordIds.push(record.id);
+    recipient.accounts.push({
+      name: record.name,
+      accountReference: record.accountNumberMasked || record.policyNumberMasked || undefined,
+    });
+    recipient.contactPhone = recipient.contactPhone || record.contactPhone || undefined;
+    recipient.address = recipient.address || recordAddress(record);
+  }
+  for (const contact of contacts) {
+    const recipient = recipientFor((contact.organization || contact.name).trim());
+    recipient.contactIds.push(contact.id);
+    // A contact is someone the user has spoken to; prefer its phone and address.
+    recipient.contactPhone = contact.phone || recipient.contactPhone;
+    recipient.address = contact.address?.trim() || recipient.address;
+  }
+  return [...recipients.values()];
+}
+
+/** Render context for one recipient on top of the user's own details. */
+export function getRecipientContext(recipient: MailMergeRecipient, base: ScriptRenderContext): ScriptRenderContext {
+  const references = recipient.accounts.filter(account => account.accountReference);
+  return {
+    ...base,
+    institutionName: recipient.institutionName,
+    contactPhone: recipient.contactPhone ?? base.contactPhone,
+    // Templates that loop over accounts list several on their own lines; the rest get them comma-separated.
+    accountReference: references.map(account => account.accountReference).join(', ') || undefined,
+    accounts: references.length > 1 ? references : undefined,
+  };
+}
+
+function fileNameFor(template: ScriptTemplate, recipient: MailMergeRecipient): string {
+  const slug = (text: string) => text.replace(/[^A-Za-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+  return `${slug(recipient.institutionName) || 'Recipient'}_${slug(template.id)}`;
+}
+
+/** One rendered letter per recipient, each listing the placeholders it had no value for. */
+export function generateMailMerge(
+  template: ScriptTemplate,
+  recipients: MailMergeRecipient[],
+  base: ScriptRenderContext
+): MailMergeLetter[] {
+  const used = new Map<string, number>();
+  return recipients.map(recipient => {
+    const { text, missing } = renderScriptWithMissing(template, getRecipientContext(recipient, base));
+    let fileName = fileNameFor(template, recipient);
+    const count = (used.get(fileName) ?? 0) + 1;
+    used.set(fileName, count);
+    if (count > 1) fileName = `${fileName}_${count}`;
+    return { recipient, fileName, text, missing };
+  });
+}
@@ -0,0 +1,189 @@
+/**
+ * Personal Templates
+ *
+ * The user's own letter and script templates: copies of built-ins they have
+ * edited, or templates imported from a pack. Pure helpers over the library
+ * list; callers load and save it through storageService.
+ */
+
+import type { PersonalScriptTemplate, ScriptTemplate, ScriptTemplateCategory, ScriptTemplatePack } from '../types';
+import { t } from './localization';
+import {
+  SCRIPT_TEMPLATES,
+  checkScriptTemplateBody,
+  getAllTemplateTypes,
+  getTemplateDisplayTitle,
+} from './scriptTemplates';
+
+export const SCRIPT_TEMPLATE_CATEGORIES: ScriptTemplateCategory[] = ['LETTER', 'EMAIL', 'PHONE_SCRIPT', 'GUIDE'];
+
+const TEMPLATE_PACK_FORMAT = 'afterpassing-template-pack';
+const TEMPLATE_PACK_VERSION = 1;
+const MAX_TITLE_LENGTH = 200;
+
+function generatePersonalTemplateId(): string {
+  return `personal_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Whether `id` belongs to a built-in template (personal templates may not reuse one). */
+export function isBuiltInTemplateId(id: string): boolean {
+  return SCRIPT_TEMPLATES.some(template => template.id === id);
+}
+
+/**
+ * A new personal template copied from `template` (built-in or personal),
+ * titled "… (my copy)" in the current locale.
+ */
+export function duplicateTemplate(template: ScriptTemplate | PersonalScriptTemplate): PersonalScriptTemplate {
+  const now = new Date().toISOString();
+  return {
+    id: generatePersonalTemplateId(),
+    type: template.type,
+    category: template.category,
+    title: t('templates.personal.copyOf', { title: getTemplateDisplayTitle(template) }),
+    description: template.description,
+    bodyTemplate: template.bodyTemplate,
+    placeholders: [...template.placeholders],
+    basedOnId: isBuiltInTemplateId(template.id) ? template.id : (template as PersonalScriptTemplate).basedOnId,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Problems that keep a personal template from being saved, as "field: message".
+ * Empty when the template is valid.
+ */
+export function validatePersonalTemplate(template: PersonalScriptTemplate): string[] {
+  const errors: string[] = [];
+  if (!template.id.trim()) errors.push('id: must be a non-empty string');
+  else if (isBuiltInTemplateId(template.id)) errors.push(`id: "${template.id}" is a built-in template`);
+  if (!template.title.trim()) errors.push('title: must not be empty');
+  else if (template.title.trim().length > MAX_TITLE_LENGTH) errors.push(`title: keep under ${MAX_TITLE_LENGTH} characters`);
+  if (!getAllTemplateTypes().includes(template.type)) errors.push(`type: unknown template type "${template.type}"`);
+  if (!SCRIPT_TEMPLATE_CATEGORIES.includes(template.category)) errors.push(`category: unknown category "${template.category}"`);
+  if (!template.bodyTemplate.trim()) errors.push('bodyTemplate: must not be empty');
+  errors.push(
+    ...checkScriptTemplateBody(template.bodyTemplate, template.placeholders)
+      .map(error => (error.startsWith('placeholders:') ? error : `bodyTemplate: ${error}`))
+  );
+  return errors;
+}
+
+/** Insert or replace `template` in the library, stamping its update time. */
+export function upsertPersonalTemplate(
+  library: PersonalScriptTemplate[],
+  template: PersonalScriptTemplate
+): PersonalScriptTemplate[] {
+  const saved = { ...template, updatedAt: new Date().toISOString() };
+  return library.some(existing => existing.id === template.id)
+    ? library.map(existing => (existing.id === template.id ? saved : existing))
+    : [...library, saved];
+}
+
+// ============================================================================
+// TEMPLATE PACKS
+// ============================================================================
+
+export function exportTemplatePack(templates: PersonalScriptTemplate[]): string {
+  const pack: ScriptTemplatePack = {
+    format: TEMPLATE_PACK_FORMAT,
+    version: TEMPLATE_PACK_VERSION,
+    exportedAt: new Date().toISOString(),
+    templates,
+  };
+  return JSON.stringify(pack, null, 2);
+}
+
+const STRING_FIELDS = ['id', 'type', 'category', 'title', 'description', 'bodyTemplate'] as const;
+
+/** Problems with a parsed template pack, as "path: message". Empty when valid. */
+export function validateTemplatePack(input: unknown): string[] {
+  if (!isRecord(input) || input.format !== TEMPLATE_PACK_FORMAT) return ['pack: not a template pack'];
+  if (input.version !== TEMPLATE_PACK_VERSION) return [`version: unsupported version ${JSON.stringify(input.version)}`];
+  if (!Array.isArray(input.templates)) return ['templates: must be an array'];
+
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  input.templates.forEach((template: unknown, i) => {
+    const path = `templates[${i}]`;
+    if (!isRecord(template)) {
+      errors.push(`${path}: must be an object`);
+      return;
+    }
+    const shapeErrors = STRING_FIELDS
+      .filter(field => typeof template[field] !== 'string')
+      .map(field => `${path}.${field}: must be a string`);
+    if (!Array.isArray(template.placeholders) || !template.placeholders.every(name => typeof name === 'string')) {
+      shapeErrors.push(`${path}.placeholders: must be an array of strings`);
+    }
+    if (shapeErrors.length > 0) {
+      errors.push(...shapeErrors);
+      return;
+    }
+    const id = template.id as string;
+    if (seen.has(id)) errors.push(`${path}.id: duplicate id "${id}"`);
+    seen.add(id);
+    errors.push(...validatePersonalTemplate(template as unknown as PersonalScriptTemplate).map(error => `${path}.${error}`));
+  });
+  return errors;
+}
+
+/** Parse an exported pack. Throws when the file is not a valid pack. */
+export function parseTemplatePack(json: string): PersonalScriptTemplate[] {
+  let input: unknown;
+  try {
+    input = JSON.parse(json);
+  } catch {
+    throw new Error('Invalid template pack: not valid JSON');
+  }
+  const errors = validateTemplatePack(input);
+  if (errors.length > 0) {
+    throw new Error(`Invalid template pack: ${errors.join('; ')}`);
+  }
+  const now = new Date().toISOString();
+  return (input as ScriptTemplatePack).templates.map(template => ({
+    id: template.id,
+    type: template.type,
+    category: template.category,
+    title: template.title.trim(),
+    description: template.description,
+    bodyTemplate: template.bodyTemplate,
+    placeholders: template.placeholders,
+    basedOnId: typeof template.basedOnId === 'string' && isBuiltInTemplateId(template.basedOnId) ? template.basedOnId : undefined,
+    createdAt: typeof template.createdAt === 'string' ? template.createdAt : now,
+    updatedAt: typeof template.updatedAt === 'string' ? template.updatedAt : now,
+  }));
+}
+
+/** Add imported templates to the library; an imported template replaces one with the same id. */
+export function mergeTemplatePack(
+  library: PersonalScriptTemplate[],
+  imported: PersonalScriptTemplate[]
+): { templates: PersonalScriptTemplate[]; added: number; replaced: number } {
+  const importedById = new Map(imported.map(template => [template.id, template]));
+  const libraryIds = new Set(library.map(template => template.id));
+  const added = imported.filter(template => !libraryIds.has(template.id));
+  return {
+    templates: [...library.map(template => importedById.get(template.id) ?? template), ...added],
+    added: added.length,
+    replaced: imported.length - added.length,
+  };
+}
+
+/** Download personal templates as a pack file. */
+export function downloadTemplatePack(templates: PersonalScriptTemplate[]): void {
+  const blob = new Blob([exportTemplatePack(templates)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `Letter_Templates_${new Date().toISOString().split('T')[0]}.json`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
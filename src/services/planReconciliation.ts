@@ -0,0 +1,187 @@
+/**
+ * Plan Reconciliation
+ *
+ * Regenerates a plan's guidance without losing progress. Freshly generated
+ * tasks are matched to existing ones by their deterministic id (template key +
+ * vault record id); matched tasks keep status, notes, completion date and
+ * blockers while taking the current guidance text. Tasks from plans created
+ * before stable ids are matched by title and vault record instead.
+ *
+ * Steps the user already has are kept as they are; seeded steps are added
+ * only to unfinished tasks.
+ *
+ * A description the user rewrote (descriptionEditedAt) is kept; the other
+ * guidance fields still refresh.
+ *
+ * Existing tasks that are no longer generated:
+ * - tied to a vault record that disappeared → kept and flagged (sourceRemovedAt)
+ * - general tasks with progress → kept and flagged
+ * - general tasks never touched → removed
+ * - user-authored tasks → always kept as they are
+ * - record tasks now collected by a group task → their status moves to the
+ *   group's sub-item for that record (kept and flagged if they have notes)
+ */
+
+import type {
+  AftercarePlan,
+  AftercareTask,
+  AftercareProfile,
+  LegacyVaultRecord,
+  PlanReconciliationSummary,
+  TaskPhase,
+} from '../types';
+import { generateAftercarePlan } from './taskGenerationEngine';
+import { isAbsorbedByGroup, carrySubItemStatus } from './taskGroups';
+
+const PHASE_ORDER: TaskPhase[] = ['FIRST_48_HOURS', 'WEEK_1', 'WEEKS_2_6', 'DAYS_60_90', 'LONG_TERM'];
+
+/** Fields describing the guidance itself; refreshed from the generator on every regeneration. */
+type GuidanceFields = Pick<
+  AftercareTask,
+  | 'phase' | 'category' | 'title' | 'description' | 'reason' | 'relatedVaultRecordIds' | 'suggestedTimingNote' | 'priority'
+  | 'templateKey' | 'dependsOn' | 'recurrence'
+>;
+
+function guidanceOf(task: AftercareTask): GuidanceFields {
+  return {
+    phase: task.phase,
+    category: task.category,
+    title: task.title,
+    description: task.description,
+    reason: task.reason,
+    relatedVaultRecordIds: task.relatedVaultRecordIds,
+    suggestedTimingNote: task.suggestedTimingNote,
+    priority: task.priority,
+    templateKey: task.templateKey,
+    dependsOn: task.dependsOn,
+    recurrence: task.recurrence,
+  };
+}
+
+/**
+ * Steps belong to the user once a task has them (they can be edited). Seeded
+ * steps are only added to tasks that are not finished yet.
+ */
+function stepsFor(previous: AftercareTask, fresh: AftercareTask): AftercareTask['steps'] {
+  if (previous.steps) return previous.steps;
+  return previous.status === 'DONE' || previous.status === 'NOT_APPLICABLE' ? undefined : fresh.steps;
+}
+
+function hasProgress(task: AftercareTask): boolean {
+  return (task.status && task.status !== 'NOT_STARTED') || !!task.notes || !!task.blockedBy || !!task.doNotDoUntil;
+}
+
+/** Match key for tasks saved before deterministic ids existed. */
+export function legacyMatchKey(task: AftercareTask): string {
+  return `${task.title}|${[...(task.relatedVaultRecordIds ?? [])].sort().join(',')}`;
+}
+
+/**
+ * Merge freshly generated tasks into existing ones, keeping progress.
+ * Existing order is kept (users can reorder); new tasks go at the end of their phase.
+ * User-authored tasks are never changed or removed.
+ */
+export function reconcilePlanTasks(
+  existing: AftercareTask[],
+  generated: AftercareTask[],
+  now: string = new Date().toISOString()
+): { tasks: AftercareTask[]; summary: PlanReconciliationSummary } {
+  const summary: PlanReconciliationSummary = { added: [], updated: [], unchanged: 0, removed: [], flagged: [], grouped: [] };
+  const candidates = existing.filter(t => !t.userAuthored);
+  const existingById = new Map(candidates.map(t => [t.id, t]));
+  const legacyByKey = new Map(
+    candidates.filter(t => !t.templateKey).map(t => [legacyMatchKey(t), t])
+  );
+
+  // Pair each generated task with the existing task it replaces
+  const freshByPreviousId = new Map<string, AftercareTask>();
+  const added: AftercareTask[] = [];
+  for (const fresh of generated) {
+    const previous = existingById.get(fresh.id) ?? legacyByKey.get(legacyMatchKey(fresh));
+    if (!previous || freshByPreviousId.has(previous.id)) {
+      added.push(fresh);
+      summary.added.push(fresh.title);
+    } else {
+      freshByPreviousId.set(previous.id, fresh);
+    }
+  }
+
+  const generatedRecordIds = new Set(generated.flatMap(t => t.relatedVaultRecordIds ?? []));
+  // Separate record tasks that a group task now collects (e.g. a second account at the same bank)
+  const absorbedBy = new Map<string, AftercareTask>();
+  for (const group of generated.filter(t => t.subItems)) {
+    for (const single of candidates) {
+      if (!freshByPreviousId.has(single.id) && isAbsorbedByGroup(single, group)) absorbedBy.set(single.id, group);
+    }
+  }
+  // Earlier tasks of the same rule covering any of a group's records (sub-item statuses come from these)
+  const earlierFor = (group: AftercareTask) => candidates.filter(t =>
+    t.templateKey === group.templateKey
+    && (t.relatedVaultRecordIds ?? []).some(id => group.subItems?.some(item => item.vaultRecordId === id)));
+
+  const tasks: AftercareTask[] = [];
+  for (const previous of existing) {
+    if (previous.userAuthored) {
+      tasks.push(previous);
+      continue;
+    }
+    const fresh = freshByPreviousId.get(previous.id);
+    if (fresh) {
+      const guidance = { ...guidanceOf(fresh), description: previous.descriptionEditedAt ? previous.description : fresh.description };
+      const changed = previous.templateKey !== undefined && JSON.stringify(guidanceOf(previous)) !== JSON.stringify(guidance);
+      // Keep everything the user recorded; take current guidance, provenance and the stable id.
+      // Provenance alone changing (e.g. a renamed record) does not count as updated guidance.
+      const { sourceRemovedAt: _removed, ...kept } = previous;
+      tasks.push({
+        ...kept,
+        ...guidance,
+        provenance: fresh.provenance,
+        contentVersion: fresh.contentVersion,
+        subItems: carrySubItemStatus(fresh, [previous, ...earlierFor(fresh).filter(t => t !== previous)]),
+        steps: stepsFor(previous, fresh),
+        id: fresh.id,
+      });
+      if (changed) summary.updated.push(fresh.title);
+      else summary.unchanged++;
+      continue;
+    }
+    // Grouped: its status lives on as the group's sub-item; notes or blockers keep it on the list
+    if (absorbedBy.has(previous.id) && !previous.notes && !previous.blockedBy && !previous.doNotDoUntil) {
+      summary.grouped.push(previous.title);
+      continue;
+    }
+    const fromRecord = (previous.relatedVaultRecordIds ?? []).length > 0;
+    const recordGone = fromRecord && !previous.relatedVaultRecordIds!.some(id => generatedRecordIds.has(id));
+    if (recordGone || hasProgress(previous)) {
+      tasks.push({ ...previous, sourceRemovedAt: previous.sourceRemovedAt ?? now });
+      summary.flagged.push(previous.title);
+    } else {
+      summary.removed.push(previous.title);
+    }
+  }
+  tasks.push(...added.map(fresh => (
+    fresh.subItems ? { ...fresh, subItems: carrySubItemStatus(fresh, earlierFor(fresh)) } : fresh
+  )));
+
+  // Stable sort groups by phase and keeps the order within each phase
+  tasks.sort((a, b) => PHASE_ORDER.indexOf(a.phase) - PHASE_ORDER.indexOf(b.phase));
+  return { tasks, summary };
+}
+
+/**
+ * Regenerate guidance for a plan from the (possibly changed) profile and vault records.
+ * Keeps the plan id and all task progress.
+ */
+export function regenerateAftercarePlan(
+  plan: AftercarePlan,
+  profile: AftercareProfile,
+  vaultRecords: LegacyVaultRecord[]
+): { plan: AftercarePlan; summary: PlanReconciliationSummary } {
+  const now = new Date().toISOString();
+  const result = generateAftercarePlan({ profile, vaultRecords });
+  const { tasks, summary } = reconcilePlanTasks(plan.tasks, result.tasks, now);
+  return {
+    plan: { ...plan, profile, tasks, lastUpdatedAt: now },
+    summary,
+  };
+}
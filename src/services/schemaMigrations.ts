@@ -0,0 +1,193 @@
+/**
+ * Schema Migrations
+ *
+ * Numbered, ordered migrations for stored data. The last applied version is
+ * persisted (STORAGE_KEYS.SCHEMA_VERSION) and each migration runs once.
+ *
+ * Migrations work through a MigrationStore rather than localStorage directly,
+ * so they can be unit-tested against in-memory fixture data. To add one:
+ * append it to SCHEMA_MIGRATIONS with the next version number. Never renumber
+ * or edit a migration that has shipped. Migrations should be safe to re-run
+ * on already-migrated data (the version key is removed when data is cleared).
+ */
+
+import type { Case, AftercarePlan, UploadedDocument, ContactEntry, ExecutorChecklistItem, AftercareProfile } from '../types';
+import { STORAGE_KEYS } from './storageKeys';
+import { migrateLegacyChecklist, applyChecklistSeedDefaults } from './executorService';
+import { applyDefaultTaskDependencies } from './taskGenerationEngine';
+import { isTaskCustomized } from './taskContent';
+
+/** Read/write access to stored data for migrations. */
+export interface MigrationStore {
+  /** Decrypted, parsed JSON value; null if missing or unreadable. */
+  read<T>(key: string): Promise<T | null>;
+  /** Encrypt and store a JSON value. */
+  write(key: string, value: unknown): Promise<void>;
+  /** Plaintext value (e.g. active case id, schema version). */
+  getPlain(key: string): string | null;
+  setPlain(key: string, value: string): void;
+}
+
+export interface SchemaMigration {
+  version: number;
+  name: string;
+  up: (store: MigrationStore) => Promise<void>;
+}
+
+// ============================================================================
+// MIGRATIONS
+// ============================================================================
+
+/**
+ * v1: single-case data → multi-case. Moves the legacy plan/profile into
+ * plans_by_case under the active case and back-fills caseId on collections.
+ */
+async function moveToMultiCase(store: MigrationStore): Promise<void> {
+  const cases = (await store.read<Case[]>(STORAGE_KEYS.CASES)) ?? [];
+  const defaultCaseId = store.getPlain(STORAGE_KEYS.ACTIVE_CASE_ID) || cases[0]?.id;
+  if (!defaultCaseId) return;
+
+  const plansByCase = (await store.read<Record<string, AftercarePlan>>(STORAGE_KEYS.PLANS_BY_CASE)) ?? {};
+  const legacyPlan = await store.read<AftercarePlan>(STORAGE_KEYS.PLAN);
+  const legacyProfile = await store.read<AftercareProfile>(STORAGE_KEYS.PROFILE);
+  if ((legacyPlan || legacyProfile) && !plansByCase[defaultCaseId]) {
+    const now = new Date().toISOString();
+    const plan: AftercarePlan = legacyPlan
+      ? { ...legacyPlan, caseId: defaultCaseId }
+      : { id: `plan_${Date.now()}`, caseId: defaultCaseId, profile: legacyProfile!, tasks: [], createdAt: now, lastUpdatedAt: now };
+    if (!plan.profile && legacyProfile) plan.profile = legacyProfile;
+    plansByCase[defaultCaseId] = plan;
+    await store.write(STORAGE_KEYS.PLANS_BY_CASE, plansByCase);
+  }
+
+  const backfill = async <T extends { caseId: string }>(key: string) => {
+    const items = (await store.read<T[]>(key)) ?? [];
+    const missing = items.filter(item => !item.caseId);
+    if (missing.length === 0) return;
+    for (const item of missing) item.caseId = defaultCaseId;
+    await store.write(key, items);
+  };
+  await backfill<UploadedDocument>(STORAGE_KEYS.DOCUMENTS);
+  await backfill<ContactEntry>(STORAGE_KEYS.CONTACTS);
+  await backfill<ExecutorChecklistItem>(STORAGE_KEYS.CHECKLIST);
+}
+
+/** Task descriptions rewritten in the content update that followed the first release, keyed by title. */
+const REVISED_TASK_DESCRIPTIONS: Record<string, string> = {
+  'Review any funeral or cremation plans': "Check whether funeral or cremation wishes were documented. If final wishes were recorded in a Local Legacy Vault, start there. A funeral home can guide you through the next steps when you're ready.",
+  'Consider memorial or service details': "Decide whether to plan memorial or service details now or later. If preferences were recorded in a Local Legacy Vault, review them there. A funeral home can offer guidance if and when you want it.",
+  'Review mail and messages': "Notice what's arriving by mail or message. You don't need to respond to everything right away. Forwarding mail can help catch anything important.",
+  'Check whether any immediate notifications are needed': 'Decide whether any organizations need to be notified right now. Focus only on what feels necessary. If a Local Legacy Vault exists, account or contact information may already be recorded there.',
+  'Consider whether to request death certificates': 'Decide whether to request certified copies of the death certificate. Many institutions require them. Funeral homes often help with this. Ordering 10–15 copies is common, and more can be requested later if needed.',
+  'Check whether Social Security was notified': 'Confirm whether Social Security was notified. Funeral homes often report this automatically. You can also confirm by calling 1-800-772-1213 and asking about survivor benefits if applicable.',
+  'Gather financial and account information': "Gather what you can find. Missing items are okay. If a Local Legacy Vault exists, financial accounts may already be documented there. You're simply becoming aware of what's there.",
+  'Review insurance policies and benefits': "Identify any insurance policies or benefits that exist. If a Local Legacy Vault exists, policies may already be recorded there. Claims can be started when you're ready.",
+  'Consider whether legal or professional help is needed': "Decide whether professional guidance would be helpful. An estate attorney or accountant can answer questions if and when you want support.",
+  'Begin organizing documents in one place': 'Begin gathering documents in one place. A folder or box is enough. If a Local Legacy Vault exists, documents may already be organized there. You can add to or reorganize later.',
+  'Review recurring charges and subscriptions': "Review bank and credit statements when you have time. If a Local Legacy Vault exists, subscriptions may already be listed there. Canceling can wait until you're ready.",
+  'Consider how to handle digital accounts': "Decide how to handle digital accounts such as email, social media, and online services. If a Local Legacy Vault exists, digital account information may already be recorded there. There's no need to decide right away.",
+  'Review ongoing household or property needs': 'Address household or property needs as they come up. If a Local Legacy Vault exists, property details may already be recorded there. Utilities, maintenance, and related matters can be handled gradually.',
+  'Check in on open accounts or subscriptions': "Review any accounts or subscriptions that remain active. If a Local Legacy Vault exists, they may already be listed there. Decide what to address next when you're ready.",
+  'Consider longer-term decisions': 'Recognize that longer-term decisions do not need to be made now. Matters involving property, belongings, or legal issues can be addressed later, when you feel steadier.',
+  'Check status of any pending claims or benefits': "If insurance claims or benefit applications were started, check their status when it's convenient.",
+  'Consider tax filing needs when ready': 'Plan to address tax filing needs when the time comes. A tax professional can help with final returns, which are typically handled within the normal tax year.',
+  'Take care of yourself': "Grief has no timeline. Support groups, counseling, or quiet time can all help. You've been carrying something difficult.",
+  'Review estate or legacy details when ready': 'Review estate or legacy details when you feel ready. If a Local Legacy Vault exists, wishes and important information may already be recorded there. Finalizing matters can happen in their own time.',
+  'Update records if needed': 'Update records only if something has changed. Titles, deeds, and beneficiary designations can be addressed when convenient.',
+  'Store documents for future reference': 'Store documents in a way that makes them easy to find later. If a Local Legacy Vault exists, documents can be added there. A simple folder or digital backup is also enough.',
+  'Consider your own planning when ready': "This experience may prompt reflection on your own plans. There's no pressure to act.",
+};
+
+/** v2: bring saved task descriptions up to the revised copy. Customized tasks keep their text. */
+async function reviseTaskDescriptions(store: MigrationStore): Promise<void> {
+  const plansByCase = await store.read<Record<string, AftercarePlan>>(STORAGE_KEYS.PLANS_BY_CASE);
+  if (!plansByCase) return;
+  let changed = false;
+  for (const plan of Object.values(plansByCase)) {
+    let planChanged = false;
+    for (const task of plan.tasks ?? []) {
+      if (isTaskCustomized(task)) continue;
+      const revised = REVISED_TASK_DESCRIPTIONS[task.title];
+      if (revised && task.description !== revised) {
+        task.description = revised;
+        planChanged = true;
+      }
+    }
+    if (planChanged) {
+      plan.lastUpdatedAt = new Date().toISOString();
+      changed = true;
+    }
+  }
+  if (changed) await store.write(STORAGE_KEYS.PLANS_BY_CASE, plansByCase);
+}
+
+/** v3: map legacy executor checklist categories to the 10 phases, keeping status and notes. */
+async function mapLegacyChecklistCategories(store: MigrationStore): Promise<void> {
+  const checklist = await store.read<ExecutorChecklistItem[]>(STORAGE_KEYS.CHECKLIST);
+  if (!checklist) return;
+  const migrated = migrateLegacyChecklist(checklist);
+  if (migrated !== checklist) await store.write(STORAGE_KEYS.CHECKLIST, migrated);
+}
+
+/** v4: default dependencies on saved tasks and checklist items (checklist items also get their seed key). */
+async function addDefaultDependencies(store: MigrationStore): Promise<void> {
+  const plansByCase = await store.read<Record<string, AftercarePlan>>(STORAGE_KEYS.PLANS_BY_CASE);
+  if (plansByCase) {
+    let changed = false;
+    for (const plan of Object.values(plansByCase)) {
+      const tasks = applyDefaultTaskDependencies(plan.tasks ?? []);
+      if (tasks !== plan.tasks) {
+        plan.tasks = tasks;
+        changed = true;
+      }
+    }
+    if (changed) await store.write(STORAGE_KEYS.PLANS_BY_CASE, plansByCase);
+  }
+
+  const checklist = await store.read<ExecutorChecklistItem[]>(STORAGE_KEYS.CHECKLIST);
+  if (!checklist) return;
+  const updated = applyChecklistSeedDefaults(checklist);
+  if (updated !== checklist) await store.write(STORAGE_KEYS.CHECKLIST, updated);
+}
+
+export const SCHEMA_MIGRATIONS: SchemaMigration[] = [
+  { version: 1, name: 'multi-case', up: moveToMultiCase },
+  { version: 2, name: 'revised-task-descriptions', up: reviseTaskDescriptions },
+  { version: 3, name: 'legacy-checklist-categories', up: mapLegacyChecklistCategories },
+  { version: 4, name: 'default-dependencies', up: addDefaultDependencies },
+];
+
+export const CURRENT_SCHEMA_VERSION = SCHEMA_MIGRATIONS[SCHEMA_MIGRATIONS.length - 1].version;
+
+// ============================================================================
+// RUNNER
+// ============================================================================
+
+export function getSchemaVersion(store: MigrationStore): number {
+  const version = parseInt(store.getPlain(STORAGE_KEYS.SCHEMA_VERSION) ?? '', 10);
+  return Number.isNaN(version) ? 0 : version;
+}
+
+/**
+ * Run every migration newer than the stored schema version, in order. The
+ * version is saved after each one, so a failure stops the run and the failed
+ * migration is retried on the next start. Returns the resulting version.
+ */
+export async function runSchemaMigrations(
+  store: MigrationStore,
+  migrations: SchemaMigration[] = SCHEMA_MIGRATIONS
+): Promise<number> {
+  let version = getSchemaVersion(store);
+  const pending = migrations.filter(m => m.version > version).sort((a, b) => a.version - b.version);
+  for (const migration of pending) {
+    try {
+      await migration.up(store);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Migration ${migration.version} (${migration.name}) failed: ${reason}`);
+    }
+    version = migration.version;
+    store.setPlain(STORAGE_KEYS.SCHEMA_VERSION, String(version));
+  }
+  return version;
+}
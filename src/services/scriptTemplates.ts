@@ -13,6 +13,8 @@ import {
   ScriptTemplateType,
   ScriptRenderContext,
 } from '../types';
+import { localize, t, isMessageKey } from './localization';
+import { renderTemplate, checkTemplate } from './templateLanguage';
 
 // ============================================================================
 // TEMPLATE LIBRARY
@@ -27,7 +29,7 @@ export const SCRIPT_TEMPLATES: ScriptTemplate[] = [
     description: 'A guide for calling your bank to notify them of the passing.',
     category: 'PHONE_SCRIPT',
     placeholders: ['deceasedName', 'userName', 'userRelationship', 'institutionName', 'accountReference'],
-    bodyTemplate: `Hello, my name is {{userName}}. I'm calling to notify you that {{deceasedName}}, who held an account with {{institutionName}}, has passed away. I am {{userRelationship}}. Account reference: {{accountReference}}.
+    bodyTemplate: `Hello, my name is {{userName}}. I'm calling to notify you that {{deceasedName}}, who held an account with {{institutionName}}, has passed away. I am {{userRelationship}}.{{#if accountReference}} Account reference: {{accountReference}}.{{/if}}
 
 Please tell me what documents you need, what options exist for the account going forward, if there's a specific department I should speak with, and the typical timeline for this process.
 
@@ -39,17 +41,23 @@ Thank you for your assistance during this difficult time.`,
     title: 'Bank Notification Letter',
     description: 'A formal letter template for notifying a bank.',
     category: 'LETTER',
-    placeholders: ['deceasedName', 'userName', 'userRelationship', 'institutionName', 'accountReference', 'dateOfDeath', 'todayDate', 'userAddress', 'userPhone'],
-    bodyTemplate: `{{todayDate}}
+    placeholders: ['deceasedName', 'userName', 'userRelationship', 'institutionName', 'accountReference', 'dateOfDeath', 'todayDate', 'userAddress', 'userPhone', 'accounts'],
+    bodyTemplate: `{{todayDate | date}}
 {{institutionName}}
 [Bank Address]
 Re: Notification of Death
 Deceased: {{deceasedName}}
+{{#each accounts}}
+Account: {{accountReference}}{{#if name}} ({{name}}){{/if}}
+{{else}}
+{{#if accountReference}}
 Account: {{accountReference}}
+{{/if}}
+{{/each}}
 
 To Whom It May Concern:
 
-I am writing to notify you of the death of {{deceasedName}}, who passed away on {{dateOfDeath}}. I am {{userRelationship}} of the deceased.
+I am writing to notify you of the death of {{deceasedName}}, who passed away on {{dateOfDeath | date}}. I am {{userRelationship}} of the deceased.
 
 Please let me know: (1) what documents would be helpful (I can provide a certified death certificate), (2) any forms to complete, (3) the process for handling the account, and (4) the general timeline.
 
@@ -70,7 +78,7 @@ Sincerely,
     description: 'A guide for calling to close a credit card account.',
     category: 'PHONE_SCRIPT',
     placeholders: ['deceasedName', 'userName', 'userRelationship', 'institutionName', 'accountReference'],
-    bodyTemplate: `Hello, my name is {{userName}}. I'm calling regarding a credit card account held by {{deceasedName}}, who has passed away. I am {{userRelationship}}. Account reference: {{accountReference}}.
+    bodyTemplate: `Hello, my name is {{userName}}. I'm calling regarding a credit card account held by {{deceasedName}}, who has passed away. I am {{userRelationship}}.{{#if accountReference}} Account reference: {{accountReference}}.{{/if}}
 
 I would like to notify you of the death, stop any automatic payments or recurring charges, understand the process for closing the account, and learn about any remaining balance procedures.
 
@@ -96,8 +104,10 @@ I would like to discuss options for this account. Depending on the situation, I
 - Continue service temporarily
 - Schedule a final reading and close the account
 
+{{#if accountReference}}
 The account reference is {{accountReference}}.
 
+{{/if}}
 Please tell me what information you need from me and what my options are.
 
 Thank you.`,
@@ -115,7 +125,7 @@ Thank you.`,
 
 Dear {{institutionName}} Customer Service,
 
-I am writing to request cancellation of the account held by {{deceasedName}}, who passed away on {{dateOfDeath}}. I am {{userRelationship}} of the deceased. Account: {{accountReference}}.
+I am writing to request cancellation of the account held by {{deceasedName}}, who passed away on {{dateOfDeath | date}}. I am {{userRelationship}} of the deceased.{{#if accountReference}} Account: {{accountReference}}.{{/if}}
 
 I would like to request cancellation of the account and ask that any recurring charges be stopped. If there is any unused prepaid portion, please let me know about the refund process. I can provide a death certificate if helpful.
 
@@ -148,7 +158,7 @@ Please direct me to the appropriate contact for these matters and let me know wh
     description: 'A guide for initiating an insurance claim.',
     category: 'PHONE_SCRIPT',
     placeholders: ['deceasedName', 'userName', 'userRelationship', 'institutionName', 'accountReference'],
-    bodyTemplate: `Hello, my name is {{userName}}. I'm calling to report a claim on a policy held by {{deceasedName}}, who has passed away. I am {{userRelationship}} and believe I may be a beneficiary. Policy number: {{accountReference}}.
+    bodyTemplate: `Hello, my name is {{userName}}. I'm calling to report a claim on a policy held by {{deceasedName}}, who has passed away. I am {{userRelationship}} and believe I may be a beneficiary.{{#if accountReference}} Policy number: {{accountReference}}.{{/if}}
 
 I would like to understand how to file a claim, what documentation you typically need, the general timeline for processing, and any forms I may need to complete. I have a certified copy of the death certificate available.
 
@@ -161,17 +171,19 @@ Please provide the next steps. Thank you.`,
     description: 'A formal letter for filing an insurance claim.',
     category: 'LETTER',
     placeholders: ['deceasedName', 'userName', 'userRelationship', 'institutionName', 'accountReference', 'dateOfDeath', 'todayDate', 'userAddress', 'userPhone'],
-    bodyTemplate: `{{todayDate}}
+    bodyTemplate: `{{todayDate | date}}
 {{institutionName}} Claims Department
 [Insurance Company Address]
 Re: Death Claim
+{{#if accountReference}}
 Policy #{{accountReference}}
+{{/if}}
 Insured: {{deceasedName}}
-Date of Death: {{dateOfDeath}}
+Date of Death: {{dateOfDeath | date}}
 
 Dear Claims Department:
 
-I am writing to file a death claim on the above policy. {{deceasedName}} passed away on {{dateOfDeath}}. I am {{userRelationship}} and believe I am named as a beneficiary. Enclosed is a certified copy of the death certificate.
+I am writing to file a death claim on the above policy. {{deceasedName}} passed away on {{dateOfDeath | date}}. I am {{userRelationship}} and believe I am named as a beneficiary. Enclosed is a certified copy of the death certificate.
 
 Please send any claim forms needed and let me know what additional documentation may be helpful.
 
@@ -220,14 +232,14 @@ Please tell me what information you need from me and the next steps. Thank you.`
     description: 'A letter template for notifying a landlord.',
     category: 'LETTER',
     placeholders: ['deceasedName', 'userName', 'userRelationship', 'dateOfDeath', 'todayDate', 'userAddress', 'userPhone'],
-    bodyTemplate: `{{todayDate}}
+    bodyTemplate: `{{todayDate | date}}
 [Landlord/Property Management Name]
 [Property Address]
 Re: Notice Regarding Tenant {{deceasedName}}
 
 Dear [Landlord Name]:
 
-I am writing to inform you that {{deceasedName}}, the tenant at [Rental Address], passed away on {{dateOfDeath}}. I am {{userRelationship}} and am handling their affairs.
+I am writing to inform you that {{deceasedName}}, the tenant at [Rental Address], passed away on {{dateOfDeath | date}}. I am {{userRelationship}} and am handling their affairs.
 
 I would like to discuss the lease agreement and any remaining obligations, a timeline for vacating and returning keys, return of the security deposit, and any final utility readings needed.
 
@@ -248,16 +260,18 @@ Sincerely,
     description: 'A letter template for notifying creditors.',
     category: 'LETTER',
     placeholders: ['deceasedName', 'userName', 'userRelationship', 'institutionName', 'accountReference', 'dateOfDeath', 'todayDate', 'userAddress'],
-    bodyTemplate: `{{todayDate}}
+    bodyTemplate: `{{todayDate | date}}
 {{institutionName}}
 [Creditor Address]
 Re: Notice of Death
+{{#if accountReference}}
 Account: {{accountReference}}
+{{/if}}
 Deceased: {{deceasedName}}
 
 To Whom It May Concern:
 
-This letter is to notify you that {{deceasedName}}, the holder of account {{accountReference}}, passed away on {{dateOfDeath}}. I am {{userRelationship}} and am providing this notification for your records.
+This letter is to notify you that {{deceasedName}}, the holder of account {{accountReference}}, passed away on {{dateOfDeath | date}}. I am {{userRelationship}} and am providing this notification for your records.
 
 Please update your records accordingly. I would appreciate if collection activities directed at the deceased could be stopped. If you need documentation or have questions about the estate, please contact me.
 
@@ -330,13 +344,13 @@ Send to:
 Re: Deceased Consumer Alert
 
 Name: {{deceasedName}}
-Date of Death: {{dateOfDeath}}
+Date of Death: {{dateOfDeath | date}}
 
 
 To Whom It May Concern:
 
 
-I am writing to notify you of the death of {{deceasedName}}, who passed away on {{dateOfDeath}}. I am {{userRelationship}} and request that you place a "deceased" notation on the credit file to prevent fraudulent activity.
+I am writing to notify you of the death of {{deceasedName}}, who passed away on {{dateOfDeath | date}}. I am {{userRelationship}} and request that you place a "deceased" notation on the credit file to prevent fraudulent activity.
 
 
 Enclosed: Certified death certificate and proof of authority (executor letter or relationship documentation).
@@ -361,7 +375,7 @@ Sincerely,
     description: 'A guide for notifying your mortgage lender.',
     category: 'PHONE_SCRIPT',
     placeholders: ['deceasedName', 'userName', 'userRelationship', 'institutionName', 'accountReference'],
-    bodyTemplate: `Hello, my name is {{userName}}. I am calling about a mortgage held by {{deceasedName}}, who has passed away. I am {{userRelationship}}. The mortgage is with {{institutionName}}, account/loan number: {{accountReference}}.
+    bodyTemplate: `Hello, my name is {{userName}}. I am calling about a mortgage held by {{deceasedName}}, who has passed away. I am {{userRelationship}}. The mortgage is with {{institutionName}}{{#if accountReference}}, account/loan number: {{accountReference}}{{/if}}.
 
 I would like to understand my options for this mortgage, the process to assume the loan or continue payments if staying in the home, what documentation you need, any protections for surviving spouses or heirs, and whether there is mortgage life insurance on this loan.
 
@@ -401,16 +415,16 @@ Please tell me what information and documentation you need from me. Thank you.`,
     description: 'Letter template to cancel a driver\'s license.',
     category: 'LETTER',
     placeholders: ['deceasedName', 'userName', 'userRelationship', 'dateOfDeath', 'todayDate', 'userAddress'],
-    bodyTemplate: `{{todayDate}}
+    bodyTemplate: `{{todayDate | date}}
 [Your State DMV]
 [DMV Address]
 Re: Cancellation of Driver's License
 Name: {{deceasedName}}
-Date of Death: {{dateOfDeath}}
+Date of Death: {{dateOfDeath | date}}
 
 To Whom It May Concern:
 
-I am writing to request cancellation of the driver's license for {{deceasedName}}, who passed away on {{dateOfDeath}}. I am {{userRelationship}} and am handling their affairs.
+I am writing to request cancellation of the driver's license for {{deceasedName}}, who passed away on {{dateOfDeath | date}}. I am {{userRelationship}} and am handling their affairs.
 
 Enclosed: Certified death certificate and original driver's license (if available, or note: "The license was not located").
 
@@ -430,7 +444,7 @@ Sincerely,
     description: 'A guide for notifying health insurance and asking about COBRA.',
     category: 'PHONE_SCRIPT',
     placeholders: ['deceasedName', 'userName', 'userRelationship', 'institutionName', 'accountReference'],
-    bodyTemplate: `Hello, my name is {{userName}}. I am calling about the health insurance policy for {{deceasedName}}, who has passed away. I am {{userRelationship}}. The policy is through {{institutionName}}, member/policy number: {{accountReference}}.
+    bodyTemplate: `Hello, my name is {{userName}}. I am calling about the health insurance policy for {{deceasedName}}, who has passed away. I am {{userRelationship}}. The policy is through {{institutionName}}{{#if accountReference}}, member/policy number: {{accountReference}}{{/if}}.
 
 I need to notify you of the death, ask about coverage for surviving family members, understand COBRA continuation options and deadlines, ask about premium refunds, and confirm pending claims will still be processed.
 
@@ -449,7 +463,7 @@ Please tell me what documentation you need and what my options are for continuin
 
 Dear {{institutionName}} Member Services,
 
-I am writing to notify you of the death of {{deceasedName}}, who passed away on {{dateOfDeath}}. I am {{userRelationship}} and am handling their affairs. Membership: {{accountReference}}.
+I am writing to notify you of the death of {{deceasedName}}, who passed away on {{dateOfDeath | date}}. I am {{userRelationship}} and am handling their affairs.{{#if accountReference}} Membership: {{accountReference}}.{{/if}}
 
 I would like to request cancellation of this membership. If there is any refund due for prepaid fees, please let me know. I can provide a death certificate if helpful.
 
@@ -544,17 +558,19 @@ KEY INFO:
     description: 'Letter template for private student loan death discharge.',
     category: 'LETTER',
     placeholders: ['deceasedName', 'userName', 'userRelationship', 'institutionName', 'accountReference', 'dateOfDeath', 'todayDate', 'userAddress', 'userPhone'],
-    bodyTemplate: `{{todayDate}}
+    bodyTemplate: `{{todayDate | date}}
 {{institutionName}}
 [Lender Address]
 Re: Death Discharge Request
 Borrower: {{deceasedName}}
+{{#if accountReference}}
 Account: {{accountReference}}
-Date of Death: {{dateOfDeath}}
+{{/if}}
+Date of Death: {{dateOfDeath | date}}
 
 To Whom It May Concern:
 
-I am writing to notify you of the death of {{deceasedName}}, who passed away on {{dateOfDeath}}. I am {{userRelationship}} and am handling their affairs.
+I am writing to notify you of the death of {{deceasedName}}, who passed away on {{dateOfDeath | date}}. I am {{userRelationship}} and am handling their affairs.
 
 I am writing to ask that you: (1) stop collection activities related to this account, (2) provide information about your death discharge policy, (3) let me know what documentation would be helpful, and (4) confirm whether any cosigner may be affected.
 
@@ -607,47 +623,96 @@ LENDER CONTACTS:
 // TEMPLATE FUNCTIONS
 // ============================================================================
 
+/**
+ * Templates with title, description and body in the current locale (see localization).
+ * Placeholders stay as {{name}} in every language.
+ */
+export function getScriptTemplates(): ScriptTemplate[] {
+  return SCRIPT_TEMPLATES.map(template => ({
+    ...template,
+    title: localize(`script.${template.id}.title`, template.title),
+    description: localize(`script.${template.id}.description`, template.description),
+    bodyTemplate: localize(`script.${template.id}.body`, template.bodyTemplate),
+  }));
+}
+
 /**
  * Get all templates of a specific type
  */
 export function getTemplatesByType(type: ScriptTemplateType): ScriptTemplate[] {
-  return SCRIPT_TEMPLATES.filter(t => t.type === type);
+  return getScriptTemplates().filter(t => t.type === type);
 }
 
 /**
  * Get all templates of a specific category (phone, letter, email)
  */
 export function getTemplatesByCategory(category: 'PHONE_SCRIPT' | 'LETTER' | 'EMAIL'): ScriptTemplate[] {
-  return SCRIPT_TEMPLATES.filter(t => t.category === category);
+  return getScriptTemplates().filter(t => t.category === category);
 }
 
 /**
  * Get a specific template by ID
  */
 export function getTemplateById(id: string): ScriptTemplate | undefined {
-  return SCRIPT_TEMPLATES.find(t => t.id === id);
+  return getScriptTemplates().find(t => t.id === id);
+}
+
+/** Placeholders templates may use; see templateLanguage for the syntax. */
+export const SCRIPT_PLACEHOLDERS: (keyof ScriptRenderContext)[] = [
+  'deceasedName', 'userName', 'userRelationship', 'institutionName', 'accountReference',
+  'contactPhone', 'dateOfDeath', 'todayDate', 'userAddress', 'userPhone', 'userEmail', 'accounts',
+];
+
+/** Fields of each list placeholder, available inside {{#each}}. */
+const SCRIPT_LIST_FIELDS: Partial<Record<keyof ScriptRenderContext, string[]>> = {
+  accounts: ['name', 'accountReference'],
+};
+
+/** "[Your Name]" style prompt shown where a value is missing. */
+export function placeholderPrompt(name: string): string {
+  const key = `templates.placeholder.${name}`;
+  return isMessageKey(key) ? t(key) : `[${name}]`;
 }
 
 /**
- * Render a template with the provided context
+ * Problems with a template body and its placeholder list: syntax errors,
+ * placeholders the body uses without listing them, and listed placeholders
+ * that don't exist. Empty when valid.
+ */
+export function checkScriptTemplateBody(bodyTemplate: string, placeholders: readonly string[]): string[] {
+  const errors = placeholders
+    .filter(name => !(SCRIPT_PLACEHOLDERS as string[]).includes(name))
+    .map(name => `placeholders: unknown placeholder "${name}"`);
+  errors.push(...checkTemplate(bodyTemplate, placeholders, SCRIPT_LIST_FIELDS));
+  return errors;
+}
+
+/** `checkScriptTemplateBody` for a whole template, each problem prefixed with its id. */
+export function validateScriptTemplate(template: ScriptTemplate): string[] {
+  return checkScriptTemplateBody(template.bodyTemplate, template.placeholders).map(error => `${template.id}: ${error}`);
+}
+
+/**
+ * Render a template with the provided context. Missing values show a
+ * bracketed prompt in the current locale, e.g. "[Your Name]".
  */
 export function renderScript(template: ScriptTemplate, context: ScriptRenderContext): string {
-  let result = template.bodyTemplate;
-  
-  // Replace all placeholders
-  result = result.replace(/\{\{deceasedName\}\}/g, context.deceasedName || '[Deceased Name]');
-  result = result.replace(/\{\{userName\}\}/g, context.userName || '[Your Name]');
-  result = result.replace(/\{\{userRelationship\}\}/g, context.userRelationship || '[Your Relationship]');
-  result = result.replace(/\{\{institutionName\}\}/g, context.institutionName || '[Institution Name]');
-  result = result.replace(/\{\{accountReference\}\}/g, context.accountReference || '[Account Number]');
-  result = result.replace(/\{\{contactPhone\}\}/g, context.contactPhone || '[Phone Number]');
-  result = result.replace(/\{\{dateOfDeath\}\}/g, context.dateOfDeath || '[Date of Death]');
-  result = result.replace(/\{\{todayDate\}\}/g, context.todayDate || '[Date]');
-  result = result.replace(/\{\{userAddress\}\}/g, context.userAddress || '[Your Address]');
-  result = result.replace(/\{\{userPhone\}\}/g, context.userPhone || '[Your Phone]');
-  result = result.replace(/\{\{userEmail\}\}/g, context.userEmail || '[Your Email]');
-  
-  return result;
+  return renderTemplate(template.bodyTemplate, context, { missing: placeholderPrompt });
+}
+
+/** `renderScript`, also listing the placeholders that had no value (in order of first use). */
+export function renderScriptWithMissing(
+  template: ScriptTemplate,
+  context: ScriptRenderContext
+): { text: string; missing: string[] } {
+  const missing: string[] = [];
+  const text = renderTemplate(template.bodyTemplate, context, {
+    missing: name => {
+      if (!missing.includes(name)) missing.push(name);
+      return placeholderPrompt(name);
+    },
+  });
+  return { text, missing };
 }
 
 /**
@@ -675,7 +740,8 @@ export function getTemplateTypeInfo(type: ScriptTemplateType): { label: string;
     SOCIAL_MEDIA_NOTIFICATION: { label: 'Social Media', icon: 'Share2' },
     STUDENT_LOAN_DISCHARGE: { label: 'Student Loans', icon: 'GraduationCap' },
   };
-  return info[type] || { label: type, icon: 'FileText' };
+  const label = `templates.type.${type}`;
+  return info[type] ? { ...info[type], label: isMessageKey(label) ? t(label) : info[type].label } : { label: type, icon: 'FileText' };
 }
 
 /** Short, humanized display title for template list (optional override). */
@@ -691,7 +757,8 @@ const TEMPLATE_DISPLAY_TITLES: Record<string, string> = {
 };
 
 export function getTemplateDisplayTitle(template: ScriptTemplate): string {
-  return TEMPLATE_DISPLAY_TITLES[template.id] ?? template.title;
+  const displayTitle = TEMPLATE_DISPLAY_TITLES[template.id];
+  return displayTitle ? localize(`script.${template.id}.displayTitle`, displayTitle) : template.title;
 }
 
 /**
@@ -0,0 +1,23 @@
+/**
+ * localStorage keys used by the storage service and schema migrations.
+ */
+
+export const STORAGE_KEYS = {
+  CASES: 'aftercare_cases',
+  ACTIVE_CASE_ID: 'aftercare_active_case_id',
+  PLANS_BY_CASE: 'aftercare_plans_by_case',
+  PROFILE: 'aftercare_profile', // legacy; migration moves to plan.profile
+  PLAN: 'aftercare_plan', // legacy; migration moves to plans_by_case
+  DOCUMENTS: 'aftercare_documents',
+  CONTACTS: 'aftercare_contacts',
+  CHECKLIST: 'aftercare_checklist',
+  CORRESPONDENCE: 'aftercare_correspondence',
+  LICENSE: 'aftercare_license',
+  SETTINGS: 'aftercare_settings',
+  PERSONAL_TEMPLATES: 'aftercare_personal_templates',
+  /** Plaintext number: last schema migration applied (see schemaMigrations). */
+  SCHEMA_VERSION: 'aftercare_schema_version',
+};
+
+/** Per-template script notes are written by ScriptsView as `${prefix}${templateId}`. */
+export const SCRIPT_NOTES_KEY_PREFIX = 'afterpassing_template_notes_';
@@ -13,65 +13,19 @@ import {
   UploadedDocument,
   ContactEntry,
   ExecutorChecklistItem,
+  CorrespondenceEntry,
   AftercareLicense,
   AppState,
+  PersonalScriptTemplate,
 } from '../types';
 import { encryptData, decryptData, isEncrypted } from '../utils/encryption';
 import { getDeviceFingerprint } from '../utils/deviceFingerprint';
-
-// Storage keys
-const STORAGE_KEYS = {
-  CASES: 'aftercare_cases',
-  ACTIVE_CASE_ID: 'aftercare_active_case_id',
-  PLANS_BY_CASE: 'aftercare_plans_by_case',
-  PROFILE: 'aftercare_profile', // legacy; migration moves to plan.profile
-  PLAN: 'aftercare_plan', // legacy; migration moves to plans_by_case
-  DOCUMENTS: 'aftercare_documents',
-  CONTACTS: 'aftercare_contacts',
-  CHECKLIST: 'aftercare_checklist',
-  LICENSE: 'aftercare_license',
-  SETTINGS: 'aftercare_settings',
-};
+import { documentBlobStore } from './documentBlobStore';
+import { STORAGE_KEYS, SCRIPT_NOTES_KEY_PREFIX } from './storageKeys';
+import { runSchemaMigrations, type MigrationStore } from './schemaMigrations';
 
 const DEFAULT_FIRST_CASE_LABEL = 'My First Case';
 
-/** Patch saved plans so task descriptions match current copy (e.g. after content updates). Returns true if any task was updated. */
-function patchPlanTaskDescriptions(plan: AftercarePlan): boolean {
-  const updates: Record<string, string> = {
-    'Review any funeral or cremation plans': "Check whether funeral or cremation wishes were documented. If final wishes were recorded in a Local Legacy Vault, start there. A funeral home can guide you through the next steps when you're ready.",
-    'Consider memorial or service details': "Decide whether to plan memorial or service details now or later. If preferences were recorded in a Local Legacy Vault, review them there. A funeral home can offer guidance if and when you want it.",
-    'Review mail and messages': "Notice what's arriving by mail or message. You don't need to respond to everything right away. Forwarding mail can help catch anything important.",
-    'Check whether any immediate notifications are needed': 'Decide whether any organizations need to be notified right now. Focus only on what feels necessary. If a Local Legacy Vault exists, account or contact information may already be recorded there.',
-    'Consider whether to request death certificates': 'Decide whether to request certified copies of the death certificate. Many institutions require them. Funeral homes often help with this. Ordering 10–15 copies is common, and more can be requested later if needed.',
-    'Check whether Social Security was notified': 'Confirm whether Social Security was notified. Funeral homes often report this automatically. You can also confirm by calling 1-800-772-1213 and asking about survivor benefits if applicable.',
-    'Gather financial and account information': "Gather what you can find. Missing items are okay. If a Local Legacy Vault exists, financial accounts may already be documented there. You're simply becoming aware of what's there.",
-    'Review insurance policies and benefits': "Identify any insurance policies or benefits that exist. If a Local Legacy Vault exists, policies may already be recorded there. Claims can be started when you're ready.",
-    'Consider whether legal or professional help is needed': "Decide whether professional guidance would be helpful. An estate attorney or accountant can answer questions if and when you want support.",
-    'Begin organizing documents in one place': 'Begin gathering documents in one place. A folder or box is enough. If a Local Legacy Vault exists, documents may already be organized there. You can add to or reorganize later.',
-    'Review recurring charges and subscriptions': "Review bank and credit statements when you have time. If a Local Legacy Vault exists, subscriptions may already be listed there. Canceling can wait until you're ready.",
-    'Consider how to handle digital accounts': "Decide how to handle digital accounts such as email, social media, and online services. If a Local Legacy Vault exists, digital account information may already be recorded there. There's no need to decide right away.",
-    'Review ongoing household or property needs': 'Address household or property needs as they come up. If a Local Legacy Vault exists, property details may already be recorded there. Utilities, maintenance, and related matters can be handled gradually.',
-    'Check in on open accounts or subscriptions': "Review any accounts or subscriptions that remain active. If a Local Legacy Vault exists, they may already be listed there. Decide what to address next when you're ready.",
-    'Consider longer-term decisions': 'Recognize that longer-term decisions do not need to be made now. Matters involving property, belongings, or legal issues can be addressed later, when you feel steadier.',
-    'Check status of any pending claims or benefits': "If insurance claims or benefit applications were started, check their status when it's convenient.",
-    'Consider tax filing needs when ready': 'Plan to address tax filing needs when the time comes. A tax professional can help with final returns, which are typically handled within the normal tax year.',
-    'Take care of yourself': "Grief has no timeline. Support groups, counseling, or quiet time can all help. You've been carrying something difficult.",
-    'Review estate or legacy details when ready': 'Review estate or legacy details when you feel ready. If a Local Legacy Vault exists, wishes and important information may already be recorded there. Finalizing matters can happen in their own time.',
-    'Update records if needed': 'Update records only if something has changed. Titles, deeds, and beneficiary designations can be addressed when convenient.',
-    'Store documents for future reference': 'Store documents in a way that makes them easy to find later. If a Local Legacy Vault exists, documents can be added there. A simple folder or digital backup is also enough.',
-    'Consider your own planning when ready': "This experience may prompt reflection on your own plans. There's no pressure to act.",
-  };
-  let patched = false;
-  for (const task of plan.tasks) {
-    const newDesc = updates[task.title];
-    if (newDesc && task.description !== newDesc) {
-      task.description = newDesc;
-      patched = true;
-    }
-  }
-  return patched;
-}
-
 // ============================================================================
 // STORAGE SERVICE
 // ============================================================================
@@ -138,11 +92,17 @@ class StorageService {
   // CASES
   // ============================================================================
 
-  async ensureCasesMigrated(): Promise<void> {
-    const rawCases = localStorage.getItem(STORAGE_KEYS.CASES);
-    let cases: Case[] = rawCases ? (() => { try { return JSON.parse(rawCases); } catch { return []; } })() : [];
-    let activeId = localStorage.getItem(STORAGE_KEYS.ACTIVE_CASE_ID);
+  /**
+   * Make sure a case exists and is active, then apply pending schema migrations.
+   * Call once at startup before loading data.
+   */
+  async runMigrations(): Promise<void> {
+    await this.ensureActiveCase();
+    await runSchemaMigrations(this.getMigrationStore());
+  }
 
+  private async ensureActiveCase(): Promise<void> {
+    let cases = await this.loadCases();
     if (cases.length === 0) {
       const id = typeof crypto !== 'undefined' && crypto.randomUUID ? crypto.randomUUID() : `case_${Date.now()}`;
       const now = new Date().toISOString();
@@ -154,85 +114,29 @@ class StorageService {
         createdAt: now,
         updatedAt: now,
       }];
-      try {
-        await this.setEncryptedItem(STORAGE_KEYS.CASES, JSON.stringify(cases));
-      } catch {
-        localStorage.setItem(STORAGE_KEYS.CASES, JSON.stringify(cases));
-      }
-      activeId = id;
+      await this.saveCases(cases);
       localStorage.setItem(STORAGE_KEYS.ACTIVE_CASE_ID, id);
     }
-
-    if (!activeId && cases.length > 0) {
-      activeId = cases[0].id;
-      localStorage.setItem(STORAGE_KEYS.ACTIVE_CASE_ID, activeId);
+    if (!this.getActiveCaseId()) {
+      localStorage.setItem(STORAGE_KEYS.ACTIVE_CASE_ID, cases[0].id);
     }
+  }
 
-    const defaultCaseId = activeId || cases[0]?.id;
-    if (!defaultCaseId) return;
-
-    const plansRaw = await this.getEncryptedItem(STORAGE_KEYS.PLANS_BY_CASE);
-    let plansByCase: Record<string, AftercarePlan> = plansRaw ? (() => { try { return JSON.parse(plansRaw); } catch { return {}; } })() : {};
-
-    const legacyPlanRaw = await this.getEncryptedItem(STORAGE_KEYS.PLAN);
-    const legacyProfileRaw = await this.getEncryptedItem(STORAGE_KEYS.PROFILE);
-    if ((legacyPlanRaw || legacyProfileRaw) && !plansByCase[defaultCaseId]) {
-      let plan: AftercarePlan | null = null;
-      if (legacyPlanRaw) {
-        try {
-          plan = JSON.parse(legacyPlanRaw) as AftercarePlan;
-          if (!(plan as any).caseId) (plan as any).caseId = defaultCaseId;
-        } catch { plan = null; }
-      }
-      if (!plan && legacyProfileRaw) {
+  private getMigrationStore(): MigrationStore {
+    return {
+      read: async <T>(key: string): Promise<T | null> => {
+        const data = await this.getEncryptedItem(key);
+        if (!data) return null;
         try {
-          const profile = JSON.parse(legacyProfileRaw) as AftercareProfile;
-          plan = {
-            id: `plan_${Date.now()}`,
-            caseId: defaultCaseId,
-            profile,
-            tasks: [],
-            createdAt: new Date().toISOString(),
-            lastUpdatedAt: new Date().toISOString(),
-          };
-        } catch { plan = null; }
-      }
-      if (plan) {
-        plan.caseId = defaultCaseId;
-        if (legacyProfileRaw && !plan.profile) {
-          try {
-            plan.profile = JSON.parse(legacyProfileRaw) as AftercareProfile;
-          } catch { /* ignore */ }
+          return JSON.parse(data) as T;
+        } catch {
+          return null;
         }
-        if (patchPlanTaskDescriptions(plan)) plan.lastUpdatedAt = new Date().toISOString();
-        plansByCase[defaultCaseId] = plan;
-        await this.setEncryptedItem(STORAGE_KEYS.PLANS_BY_CASE, JSON.stringify(plansByCase));
-      }
-    }
-
-    const docsRaw = await this.getEncryptedItem(STORAGE_KEYS.DOCUMENTS);
-    let docs: UploadedDocument[] = docsRaw ? (() => { try { return JSON.parse(docsRaw); } catch { return []; } })() : [];
-    let docsDirty = false;
-    for (const d of docs) {
-      if (!(d as any).caseId) { (d as any).caseId = defaultCaseId; docsDirty = true; }
-    }
-    if (docsDirty) await this.setEncryptedItem(STORAGE_KEYS.DOCUMENTS, JSON.stringify(docs));
-
-    const contactsRaw = await this.getEncryptedItem(STORAGE_KEYS.CONTACTS);
-    let contacts: ContactEntry[] = contactsRaw ? (() => { try { return JSON.parse(contactsRaw); } catch { return []; } })() : [];
-    let contactsDirty = false;
-    for (const c of contacts) {
-      if (!(c as any).caseId) { (c as any).caseId = defaultCaseId; contactsDirty = true; }
-    }
-    if (contactsDirty) await this.setEncryptedItem(STORAGE_KEYS.CONTACTS, JSON.stringify(contacts));
-
-    const checklistRaw = await this.getEncryptedItem(STORAGE_KEYS.CHECKLIST);
-    let checklist: ExecutorChecklistItem[] = checklistRaw ? (() => { try { return JSON.parse(checklistRaw); } catch { return []; } })() : [];
-    let checklistDirty = false;
-    for (const i of checklist) {
-      if (!(i as any).caseId) { (i as any).caseId = defaultCaseId; checklistDirty = true; }
-    }
-    if (checklistDirty) await this.setEncryptedItem(STORAGE_KEYS.CHECKLIST, JSON.stringify(checklist));
+      },
+      write: (key, value) => this.setEncryptedItem(key, JSON.stringify(value)),
+      getPlain: (key) => localStorage.getItem(key),
+      setPlain: (key, value) => localStorage.setItem(key, value),
+    };
   }
 
   getActiveCaseId(): string | null {
@@ -302,6 +206,9 @@ class StorageService {
     const checklist = await this.loadAllChecklist();
     const filteredChecklist = checklist.filter(i => i.caseId !== caseId);
     await this.setEncryptedItem(STORAGE_KEYS.CHECKLIST, JSON.stringify(filteredChecklist));
+    const correspondence = await this.loadAllCorrespondence();
+    await this.setEncryptedItem(STORAGE_KEYS.CORRESPONDENCE, JSON.stringify(correspondence.filter(e => e.caseId !== caseId)));
+    await documentBlobStore.deleteCaseBlobs(caseId);
     if (this.getActiveCaseId() === caseId && cases.length > 0) {
       localStorage.setItem(STORAGE_KEYS.ACTIVE_CASE_ID, cases[0].id);
     }
@@ -321,7 +228,7 @@ class StorageService {
     };
   }
 
-  /** Clear all content for a case (keeps case record; removes plan, documents, contacts, checklist). */
+  /** Clear all content for a case (keeps case record; removes plan, documents and their files, contacts, checklist, correspondence). */
   async clearCaseContent(caseId: string): Promise<void> {
     const plans = await this.loadPlansByCase();
     delete plans[caseId];
@@ -332,6 +239,9 @@ class StorageService {
     await this.setEncryptedItem(STORAGE_KEYS.CONTACTS, JSON.stringify(contacts.filter(c => c.caseId !== caseId)));
     const checklist = await this.loadAllChecklist();
     await this.setEncryptedItem(STORAGE_KEYS.CHECKLIST, JSON.stringify(checklist.filter(i => i.caseId !== caseId)));
+    const correspondence = await this.loadAllCorrespondence();
+    await this.setEncryptedItem(STORAGE_KEYS.CORRESPONDENCE, JSON.stringify(correspondence.filter(e => e.caseId !== caseId)));
+    await documentBlobStore.deleteCaseBlobs(caseId);
   }
 
   // ============================================================================
@@ -391,19 +301,18 @@ class StorageService {
   async loadPlan(): Promise<AftercarePlan | null> {
     const caseId = this.getActiveCaseId();
     if (!caseId) return null;
-    const plan = await this.loadPlanForCase(caseId);
-    if (!plan) return null;
-    if (patchPlanTaskDescriptions(plan)) {
-      plan.lastUpdatedAt = new Date().toISOString();
-      await this.savePlanForCase(plan);
-    }
-    return plan;
+    return this.loadPlanForCase(caseId);
   }
 
   async deletePlan(): Promise<void> {
     const caseId = this.getActiveCaseId();
     if (!caseId) return;
+    await this.deletePlanForCase(caseId);
+  }
+
+  async deletePlanForCase(caseId: string): Promise<void> {
     const plans = await this.loadPlansByCase();
+    if (!(caseId in plans)) return;
     delete plans[caseId];
     await this.setEncryptedItem(STORAGE_KEYS.PLANS_BY_CASE, JSON.stringify(plans));
   }
@@ -449,6 +358,10 @@ class StorageService {
   async saveDocuments(documents: UploadedDocument[]): Promise<void> {
     const caseId = this.getActiveCaseId();
     if (!caseId) return;
+    await this.saveDocumentsForCase(caseId, documents);
+  }
+
+  async saveDocumentsForCase(caseId: string, documents: UploadedDocument[]): Promise<void> {
     const all = await this.loadAllDocuments();
     const others = all.filter(d => d.caseId !== caseId);
     const withCaseId = documents.map(d => ({ ...d, caseId }));
@@ -476,8 +389,10 @@ class StorageService {
 
   async deleteDocument(documentId: string): Promise<void> {
     const documents = await this.loadDocuments();
+    const doc = documents.find(d => d.id === documentId);
     const filtered = documents.filter(d => d.id !== documentId);
     await this.saveDocuments(filtered);
+    if (doc?.filePath) await documentBlobStore.deleteBlob(doc.caseId, doc.id);
   }
 
   // ============================================================================
@@ -505,6 +420,10 @@ class StorageService {
   async saveContacts(contacts: ContactEntry[]): Promise<void> {
     const caseId = this.getActiveCaseId();
     if (!caseId) return;
+    await this.saveContactsForCase(caseId, contacts);
+  }
+
+  async saveContactsForCase(caseId: string, contacts: ContactEntry[]): Promise<void> {
     const all = await this.loadAllContacts();
     const others = all.filter(c => c.caseId !== caseId);
     const withCaseId = contacts.map(c => ({ ...c, caseId }));
@@ -555,6 +474,10 @@ class StorageService {
   async saveChecklist(checklist: ExecutorChecklistItem[]): Promise<void> {
     const caseId = this.getActiveCaseId();
     if (!caseId) return;
+    await this.saveChecklistForCase(caseId, checklist);
+  }
+
+  async saveChecklistForCase(caseId: string, checklist: ExecutorChecklistItem[]): Promise<void> {
     const all = await this.loadAllChecklist();
     const others = all.filter(i => i.caseId !== caseId);
     const withCaseId = checklist.map(i => ({ ...i, caseId }));
@@ -571,6 +494,40 @@ class StorageService {
     }
   }
 
+  // ============================================================================
+  // CORRESPONDENCE (case-scoped)
+  // ============================================================================
+
+  async loadAllCorrespondence(): Promise<CorrespondenceEntry[]> {
+    const data = await this.getEncryptedItem(STORAGE_KEYS.CORRESPONDENCE);
+    if (!data) return [];
+    try {
+      return JSON.parse(data) as CorrespondenceEntry[];
+    } catch {
+      return [];
+    }
+  }
+
+  async loadCorrespondence(): Promise<CorrespondenceEntry[]> {
+    const caseId = this.getActiveCaseId();
+    if (!caseId) return [];
+    const all = await this.loadAllCorrespondence();
+    return all.filter(e => e.caseId === caseId);
+  }
+
+  async saveCorrespondence(entries: CorrespondenceEntry[]): Promise<void> {
+    const caseId = this.getActiveCaseId();
+    if (!caseId) return;
+    await this.saveCorrespondenceForCase(caseId, entries);
+  }
+
+  async saveCorrespondenceForCase(caseId: string, entries: CorrespondenceEntry[]): Promise<void> {
+    const all = await this.loadAllCorrespondence();
+    const others = all.filter(e => e.caseId !== caseId);
+    const withCaseId = entries.map(e => ({ ...e, caseId }));
+    await this.setEncryptedItem(STORAGE_KEYS.CORRESPONDENCE, JSON.stringify([...others, ...withCaseId]));
+  }
+
   // ============================================================================
   // LICENSE
   // ============================================================================
@@ -626,6 +583,49 @@ class StorageService {
     return (settings[key] as T) ?? defaultValue;
   }
 
+  async saveSettings(settings: Record<string, unknown>): Promise<void> {
+    await this.setEncryptedItem(STORAGE_KEYS.SETTINGS, JSON.stringify(settings));
+  }
+
+  // ============================================================================
+  // PERSONAL TEMPLATES (app-wide, not case-scoped)
+  // ============================================================================
+
+  async loadPersonalTemplates(): Promise<PersonalScriptTemplate[]> {
+    const data = await this.getEncryptedItem(STORAGE_KEYS.PERSONAL_TEMPLATES);
+    if (!data) return [];
+    try {
+      return JSON.parse(data) as PersonalScriptTemplate[];
+    } catch {
+      return [];
+    }
+  }
+
+  async savePersonalTemplates(templates: PersonalScriptTemplate[]): Promise<void> {
+    await this.setEncryptedItem(STORAGE_KEYS.PERSONAL_TEMPLATES, JSON.stringify(templates));
+  }
+
+  // ============================================================================
+  // SCRIPT NOTES (per template, plaintext; written by ScriptsView)
+  // ============================================================================
+
+  loadScriptNotes(): Record<string, string> {
+    const notes: Record<string, string> = {};
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (!key || !key.startsWith(SCRIPT_NOTES_KEY_PREFIX)) continue;
+      const value = localStorage.getItem(key);
+      if (value) notes[key.slice(SCRIPT_NOTES_KEY_PREFIX.length)] = value;
+    }
+    return notes;
+  }
+
+  saveScriptNotes(notes: Record<string, string>): void {
+    for (const [templateId, value] of Object.entries(notes)) {
+      if (value) localStorage.setItem(`${SCRIPT_NOTES_KEY_PREFIX}${templateId}`, value);
+    }
+  }
+
   // ============================================================================
   // FULL STATE
   // ============================================================================
@@ -0,0 +1,110 @@
+/**
+ * Task Content Versions
+ *
+ * Guidance wording improves over time. Every template (general task, record
+ * rule, jurisdiction task) has a content version, bumped whenever its title,
+ * description or reason is rewritten, and each saved task remembers the
+ * version it was generated from (contentVersion; absent means 1).
+ *
+ * When a plan is loaded, tasks whose template has a newer version are offered
+ * as "updated guidance available" rather than rewritten silently. Tasks the
+ * user customized are left out: user-authored tasks and generated tasks whose
+ * description the user rewrote (descriptionEditedAt). An edited description
+ * is never overwritten, here or by plan regeneration.
+ *
+ * Pure helpers over a plan's task list; callers save the plan.
+ */
+
+import type { AftercarePlan, AftercareProfile, AftercareTask, LegacyVaultRecord } from '../types';
+import { legacyMatchKey } from './planReconciliation';
+import { generateAftercarePlan } from './taskGenerationEngine';
+
+/** Newer wording for a saved task. */
+export interface TaskContentUpdate {
+  taskId: string;
+  fromVersion: number;
+  toVersion: number;
+  /** Current and updated wording; unchanged fields are omitted from `updated`. */
+  current: { title: string; description: string };
+  updated: Partial<Pick<AftercareTask, 'title' | 'description' | 'reason'>>;
+}
+
+/** User-authored, or a generated task whose description the user rewrote. */
+export function isTaskCustomized(task: AftercareTask): boolean {
+  return !!task.userAuthored || !!task.descriptionEditedAt;
+}
+
+/**
+ * Saved tasks whose template wording has a newer version than the one they
+ * were saved with, paired with freshly generated tasks by id. Tasks saved
+ * before deterministic ids (no templateKey) are paired by title and records,
+ * as plan regeneration does. Customized tasks and tasks whose wording already
+ * matches are skipped.
+ */
+export function findContentUpdates(existing: AftercareTask[], generated: AftercareTask[]): TaskContentUpdate[] {
+  const freshById = new Map(generated.map(task => [task.id, task]));
+  const freshByLegacyKey = new Map(generated.map(task => [legacyMatchKey(task), task]));
+  const updates: TaskContentUpdate[] = [];
+  for (const task of existing) {
+    const fresh = task.templateKey ? freshById.get(task.id) : freshByLegacyKey.get(legacyMatchKey(task));
+    if (!fresh || isTaskCustomized(task)) continue;
+    const fromVersion = task.contentVersion ?? 1;
+    const toVersion = fresh.contentVersion ?? 1;
+    if (toVersion <= fromVersion) continue;
+
+    const updated: TaskContentUpdate['updated'] = {};
+    if (fresh.title !== task.title) updated.title = fresh.title;
+    if (fresh.description !== task.description) updated.description = fresh.description;
+    if (fresh.reason !== task.reason) updated.reason = fresh.reason;
+    if (Object.keys(updated).length === 0) continue;
+    updates.push({ taskId: task.id, fromVersion, toVersion, current: { title: task.title, description: task.description }, updated });
+  }
+  return updates;
+}
+
+/** Content updates for a saved plan, generating current guidance from its profile and vault records. */
+export function findPlanContentUpdates(
+  plan: AftercarePlan,
+  profile: AftercareProfile,
+  vaultRecords: LegacyVaultRecord[]
+): TaskContentUpdate[] {
+  return findContentUpdates(plan.tasks, generateAftercarePlan({ profile, vaultRecords }).tasks);
+}
+
+/**
+ * Apply updates to the matching tasks (all of them, or only `taskIds`).
+ * Progress, notes and steps are kept. A task customized since the updates
+ * were found keeps its description.
+ */
+export function applyContentUpdates(
+  tasks: AftercareTask[],
+  updates: TaskContentUpdate[],
+  taskIds?: string[]
+): AftercareTask[] {
+  const byId = new Map(updates.filter(u => !taskIds || taskIds.includes(u.taskId)).map(u => [u.taskId, u]));
+  return tasks.map(task => {
+    const update = byId.get(task.id);
+    if (!update || task.userAuthored) return task;
+    const { description, ...rest } = update.updated;
+    return {
+      ...task,
+      ...rest,
+      ...(description !== undefined && !task.descriptionEditedAt ? { description } : {}),
+      contentVersion: update.toVersion,
+    };
+  });
+}
+
+/** Rewrite a generated task's description. It is kept through later guidance updates. */
+export function editTaskDescription(
+  tasks: AftercareTask[],
+  taskId: string,
+  description: string,
+  now: string = new Date().toISOString()
+): AftercareTask[] {
+  const trimmed = description.trim();
+  return tasks.map(task => {
+    if (task.id !== taskId || task.userAuthored || !trimmed || trimmed === task.description) return task;
+    return { ...task, description: trimmed, descriptionEditedAt: now };
+  });
+}
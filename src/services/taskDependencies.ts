@@ -0,0 +1,150 @@
+/**
+ * Task Dependencies
+ *
+ * Aftercare tasks and executor checklist items can declare prerequisites
+ * (dependsOn). Together they form one graph: a task can wait on a checklist
+ * item and the other way round. An open item is blocked while any of its
+ * prerequisites is neither done nor marked not applicable.
+ *
+ * References that cannot be resolved (a general task not generated for this
+ * situation, a checklist that was never created) are ignored. Prerequisites
+ * that form a cycle are reported by findDependencyCycles and do not block, so
+ * nothing can end up waiting forever.
+ */
+
+import type { AftercareTask, DependencyRef, ExecutorChecklistItem } from '../types';
+
+export interface BlockingDependency {
+  ref: DependencyRef;
+  title: string;
+}
+
+interface DependencyNode {
+  title: string;
+  finished: boolean;
+  dependsOn: string[];
+  refs: DependencyRef[];
+}
+
+type DependencyGraph = Map<string, DependencyNode>;
+
+// ============================================================================
+// GRAPH
+// ============================================================================
+
+/** Graph node key for a reference: "task:<id>" or "checklist:<seedKey>". */
+export function getDependencyNodeKey(ref: DependencyRef): string {
+  return ref.kind === 'task' ? `task:${ref.taskId}` : `checklist:${ref.seedKey}`;
+}
+
+function isFinished(status: string): boolean {
+  return status === 'DONE' || status === 'NOT_APPLICABLE';
+}
+
+function buildGraph(tasks: AftercareTask[], checklist: ExecutorChecklistItem[]): DependencyGraph {
+  const graph: DependencyGraph = new Map();
+  const add = (key: string, title: string, status: string, refs: DependencyRef[] = []) => {
+    graph.set(key, { title, finished: isFinished(status), refs, dependsOn: refs.map(getDependencyNodeKey) });
+  };
+  for (const task of tasks) {
+    add(getDependencyNodeKey({ kind: 'task', taskId: task.id }), task.title, task.status, task.dependsOn);
+  }
+  for (const item of checklist) {
+    if (item.seedKey) add(getDependencyNodeKey({ kind: 'checklist', seedKey: item.seedKey }), item.title, item.status, item.dependsOn);
+  }
+  return graph;
+}
+
+/** Every cycle in the graph, each as the node keys along it. Unresolved references are skipped. */
+function cyclesIn(graph: DependencyGraph): string[][] {
+  const cycles: string[][] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+  const path: string[] = [];
+
+  const visit = (key: string) => {
+    state.set(key, 'visiting');
+    path.push(key);
+    for (const next of graph.get(key)!.dependsOn) {
+      if (!graph.has(next)) continue;
+      if (state.get(next) === 'visiting') {
+        cycles.push(path.slice(path.indexOf(next)));
+      } else if (!state.has(next)) {
+        visit(next);
+      }
+    }
+    path.pop();
+    state.set(key, 'done');
+  };
+
+  for (const key of graph.keys()) {
+    if (!state.has(key)) visit(key);
+  }
+  return cycles;
+}
+
+/** Unfinished prerequisites of each open node, ignoring unresolved references and cycle edges. */
+function blockingByNode(graph: DependencyGraph): Map<string, BlockingDependency[]> {
+  const inCycle = new Set(cyclesIn(graph).flat());
+  const blocking = new Map<string, BlockingDependency[]>();
+  for (const [key, node] of graph) {
+    if (node.finished) continue;
+    const unmet: BlockingDependency[] = [];
+    node.dependsOn.forEach((depKey, i) => {
+      const dep = graph.get(depKey);
+      if (!dep || dep.finished || (inCycle.has(key) && inCycle.has(depKey))) return;
+      unmet.push({ ref: node.refs[i], title: dep.title });
+    });
+    if (unmet.length > 0) blocking.set(key, unmet);
+  }
+  return blocking;
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Dependency cycles across tasks and checklist items, as lists of titles.
+ * Empty for the seeded defaults; can appear through edited or imported data.
+ */
+export function findDependencyCycles(tasks: AftercareTask[], checklist: ExecutorChecklistItem[] = []): string[][] {
+  const graph = buildGraph(tasks, checklist);
+  return cyclesIn(graph).map(cycle => cycle.map(key => graph.get(key)!.title));
+}
+
+/** Open tasks that are waiting on something, keyed by task id. */
+export function getBlockedTasks(
+  tasks: AftercareTask[],
+  checklist: ExecutorChecklistItem[] = []
+): Map<string, BlockingDependency[]> {
+  const blocking = blockingByNode(buildGraph(tasks, checklist));
+  const result = new Map<string, BlockingDependency[]>();
+  for (const task of tasks) {
+    const unmet = blocking.get(getDependencyNodeKey({ kind: 'task', taskId: task.id }));
+    if (unmet) result.set(task.id, unmet);
+  }
+  return result;
+}
+
+/** Open checklist items that are waiting on something, keyed by item id. */
+export function getBlockedChecklistItems(
+  tasks: AftercareTask[],
+  checklist: ExecutorChecklistItem[]
+): Map<string, BlockingDependency[]> {
+  const blocking = blockingByNode(buildGraph(tasks, checklist));
+  const result = new Map<string, BlockingDependency[]>();
+  for (const item of checklist) {
+    const unmet = item.seedKey ? blocking.get(getDependencyNodeKey({ kind: 'checklist', seedKey: item.seedKey })) : undefined;
+    if (unmet) result.set(item.id, unmet);
+  }
+  return result;
+}
+
+/** Open tasks with nothing left to wait on ("what's unblocked now"). */
+export function getUnblockedTasks(
+  tasks: AftercareTask[],
+  checklist: ExecutorChecklistItem[] = []
+): AftercareTask[] {
+  const blocked = getBlockedTasks(tasks, checklist);
+  return tasks.filter(task => !isFinished(task.status) && !blocked.has(task.id));
+}
@@ -0,0 +1,74 @@
+/**
+ * Task Groups
+ *
+ * Record rules with a dedupe key collapse related vault records (several
+ * accounts at one bank, every subscription) into one parent task with a
+ * sub-item per record. Sub-items keep their own status; the parent's status
+ * is still the user's call. Pure helpers over a plan's task list; callers
+ * save the plan.
+ */
+
+import type { AftercareTask, TaskStatus, TaskSubItem } from '../types';
+
+/** Set one sub-item's status. The parent and the other sub-items are unchanged. */
+export function setSubItemStatus(
+  tasks: AftercareTask[],
+  taskId: string,
+  vaultRecordId: string,
+  status: TaskStatus,
+  now: string = new Date().toISOString()
+): AftercareTask[] {
+  return tasks.map(task => {
+    if (task.id !== taskId || !task.subItems) return task;
+    return {
+      ...task,
+      subItems: task.subItems.map(item =>
+        item.vaultRecordId === vaultRecordId
+          ? { ...item, status, completedAt: status === 'DONE' ? now : undefined }
+          : item
+      ),
+    };
+  });
+}
+
+/** Sub-items that are handled or not needed, out of all sub-items. */
+export function getSubItemProgress(task: AftercareTask): { handled: number; total: number } {
+  const items = task.subItems ?? [];
+  return {
+    handled: items.filter(item => item.status === 'DONE' || item.status === 'NOT_APPLICABLE').length,
+    total: items.length,
+  };
+}
+
+/**
+ * Whether `single` is an ungrouped task for one of the records that `group`
+ * now collects (the same rule, before a second record joined it).
+ */
+export function isAbsorbedByGroup(single: AftercareTask, group: AftercareTask): boolean {
+  const recordIds = single.relatedVaultRecordIds ?? [];
+  return !single.subItems
+    && single.id !== group.id
+    && single.templateKey !== undefined
+    && single.templateKey === group.templateKey
+    && recordIds.length === 1
+    && !!group.subItems?.some(item => item.vaultRecordId === recordIds[0]);
+}
+
+/**
+ * Sub-items of a regenerated group, keeping each record's status from the
+ * previous tasks: the previous group's sub-item, or the task the record had
+ * before it was grouped.
+ */
+export function carrySubItemStatus(fresh: AftercareTask, previous: AftercareTask[]): TaskSubItem[] | undefined {
+  if (!fresh.subItems) return undefined;
+  return fresh.subItems.map(item => {
+    for (const task of previous) {
+      const earlier = task.subItems?.find(s => s.vaultRecordId === item.vaultRecordId);
+      if (earlier) return { ...item, status: earlier.status, completedAt: earlier.completedAt };
+      const single = !task.subItems && task.templateKey === fresh.templateKey
+        && task.relatedVaultRecordIds?.length === 1 && task.relatedVaultRecordIds[0] === item.vaultRecordId;
+      if (single) return { ...item, status: task.status, completedAt: task.completedAt };
+    }
+    return item;
+  });
+}
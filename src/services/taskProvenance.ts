@@ -0,0 +1,71 @@
+/**
+ * Task Provenance
+ *
+ * Turns the provenance recorded by the task generation engine into short,
+ * plain sentences answering "why is this on my list?". Used by the expanded
+ * task view and the plan PDF appendix.
+ */
+
+import type { AftercareTask, ProvenanceField } from '../types';
+import { t, isMessageKey } from './localization';
+
+/** "vehicleMake" → "Vehicle make" for fields without a label. */
+function fieldLabel(field: string): string {
+  const key = `provenance.field.${field}`;
+  if (isMessageKey(key)) return t(key);
+  const name = field.split('.').pop() ?? field;
+  const words = name.replace(/([A-Z])/g, ' $1').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/** "BANK_ACCOUNT" → "Bank account", "true" → "yes", empty → "not set". */
+function fieldValue(value: string): string {
+  if (value === '') return t('provenance.value.notSet');
+  if (value === 'true') return t('provenance.value.yes');
+  if (value === 'false') return t('provenance.value.no');
+  if (/^[A-Z0-9_]+$/.test(value)) {
+    const words = value.toLowerCase().replace(/_/g, ' ');
+    return words.charAt(0).toUpperCase() + words.slice(1);
+  }
+  return value;
+}
+
+function describeFields(fields: ProvenanceField[]): string {
+  return fields.map(f => `${fieldLabel(f.field)}: ${fieldValue(f.value)}`).join('; ');
+}
+
+/**
+ * Plain-language explanation of why a task is on the list, one sentence per
+ * line. Empty for tasks generated before provenance was recorded.
+ */
+export function describeTaskProvenance(task: AftercareTask): string[] {
+  if (task.userAuthored) return [t('provenance.userAuthored')];
+  const provenance = task.provenance;
+  if (!provenance) return [];
+
+  const lines: string[] = [];
+  const records = provenance.vaultRecords ?? [];
+  const fields = provenance.fields ?? [];
+  const recordFields = fields.filter(f => f.field.startsWith('record.'));
+  const profileFields = fields.filter(f => f.field.startsWith('profile.'));
+
+  if (records.length === 1) {
+    lines.push(t('provenance.fromRecord', { name: records[0].name || t('provenance.untitled') }));
+  } else if (records.length > 1) {
+    const names = records.map(r => `"${r.name || t('provenance.untitled')}"`).join(', ');
+    const count = records.length;
+    lines.push(provenance.mergedBy
+      ? t('provenance.fromMergedRecords', { count, value: fieldValue(provenance.mergedBy), names })
+      : t('provenance.fromRecords', { count, names }));
+  }
+  if (recordFields.length > 0) lines.push(t('provenance.matched', { fields: describeFields(recordFields) }));
+
+  const { jurisdiction } = provenance;
+  if (jurisdiction?.change === 'added') lines.push(t('provenance.jurisdictionAdded', { name: jurisdiction.name }));
+  if (jurisdiction?.change === 'replaced') lines.push(t('provenance.jurisdictionReplaced', { name: jurisdiction.name }));
+  if (profileFields.length > 0) lines.push(t('provenance.answers', { fields: describeFields(profileFields) }));
+
+  if (lines.length === 0) lines.push(t('provenance.general'));
+  lines.push(t('provenance.rule', { key: provenance.ruleKey }));
+  return lines;
+}
@@ -0,0 +1,107 @@
+/**
+ * Task Recurrence
+ *
+ * Some aftercare work repeats: checking the mailbox for new bills, following
+ * up with an insurer until a claim is paid. A recurring task is one task that
+ * rolls forward. Marking it handled or not needed records the occurrence in
+ * its history and, unless the recurrence is over, reopens it with its own due
+ * date (the day it was finished plus the interval). The task id never
+ * changes, so dependencies keep pointing at it.
+ *
+ * A recurrence is over once it reaches its maximum number of occurrences or
+ * its `until` task or checklist item is finished.
+ */
+
+import type { AftercareTask, DependencyRef, ExecutorChecklistItem, TaskOccurrence, TaskStatus } from '../types';
+import { addDays, toCalendarDate } from './taskScheduling';
+import { t } from './localization';
+
+function isFinished(status: string): boolean {
+  return status === 'DONE' || status === 'NOT_APPLICABLE';
+}
+
+function resolveRef(
+  ref: DependencyRef,
+  tasks: AftercareTask[],
+  checklist: ExecutorChecklistItem[]
+): { title: string; status: string } | undefined {
+  return ref.kind === 'task'
+    ? tasks.find(task => task.id === ref.taskId)
+    : checklist.find(item => item.seedKey === ref.seedKey);
+}
+
+/** The occurrence currently open (1 for the first). */
+export function getOccurrenceNumber(task: AftercareTask): number {
+  return (task.occurrences?.length ?? 0) + 1;
+}
+
+/** Whether finishing the current occurrence ends the recurrence. Unresolved `until` references never end it. */
+export function isRecurrenceOver(
+  task: AftercareTask,
+  tasks: AftercareTask[],
+  checklist: ExecutorChecklistItem[] = []
+): boolean {
+  const recurrence = task.recurrence;
+  if (!recurrence) return true;
+  if (recurrence.maxOccurrences && getOccurrenceNumber(task) >= recurrence.maxOccurrences) return true;
+  const until = recurrence.until && resolveRef(recurrence.until, tasks, checklist);
+  return !!until && isFinished(until.status);
+}
+
+/**
+ * Set a task's status. For a recurring task, handled or not needed records the
+ * occurrence and opens the next one (steps start over), unless the
+ * recurrence is over.
+ */
+export function setTaskStatus(
+  tasks: AftercareTask[],
+  taskId: string,
+  status: TaskStatus,
+  checklist: ExecutorChecklistItem[] = [],
+  now: Date = new Date()
+): AftercareTask[] {
+  return tasks.map((task): AftercareTask => {
+    if (task.id !== taskId) return task;
+    const completedAt = status === 'DONE' ? now.toISOString() : undefined;
+    if (!task.recurrence || !isFinished(status)) return { ...task, status, completedAt };
+
+    const occurrence: TaskOccurrence = {
+      number: getOccurrenceNumber(task),
+      status,
+      dueDate: task.dueDate,
+      completedAt: now.toISOString(),
+    };
+    const occurrences = [...(task.occurrences ?? []), occurrence];
+    if (isRecurrenceOver(task, tasks, checklist)) return { ...task, status, completedAt, occurrences };
+
+    return {
+      ...task,
+      status: 'NOT_STARTED',
+      completedAt: undefined,
+      dueDate: toCalendarDate(addDays(now, task.recurrence.intervalDays)),
+      steps: task.steps?.map(step => ({ ...step, status: 'NOT_STARTED', completedAt: undefined })),
+      occurrences,
+    };
+  });
+}
+
+/** e.g. "Repeats every 7 days, up to 8 times" or "Repeats every 10 days until “File a claim” is handled". */
+export function describeRecurrence(
+  task: AftercareTask,
+  tasks: AftercareTask[],
+  checklist: ExecutorChecklistItem[] = []
+): string | null {
+  const recurrence = task.recurrence;
+  if (!recurrence) return null;
+  const count = task.occurrences?.length ?? 0;
+  if (isFinished(task.status) && count > 0) {
+    return count === 1 ? t('recurrence.finishedOne') : t('recurrence.finishedOther', { count });
+  }
+
+  const days = recurrence.intervalDays;
+  let text = days === 7 ? t('recurrence.weekly') : days === 1 ? t('recurrence.daily') : t('recurrence.everyDays', { count: days });
+  if (recurrence.maxOccurrences) text += t('recurrence.upTo', { count: recurrence.maxOccurrences });
+  const until = recurrence.until && resolveRef(recurrence.until, tasks, checklist);
+  if (until) text += t('recurrence.until', { title: until.title });
+  return text;
+}
@@ -0,0 +1,361 @@
+/**
+ * Task Rules
+ *
+ * Record tasks are described by JSON-serializable rules (see
+ * constants/recordTaskRules.json) instead of code, so new guidance can be
+ * added without touching the engine:
+ *
+ * - `when` matches fields of the vault record (`record.<field>`) or the
+ *   profile (`profile.<field>`), combined with all / any / not
+ * - `output` is the task, with {{field}} placeholders filled from the record
+ * - `dedupeKey` merges the records of one rule that render the same key
+ *   (e.g. two accounts at one bank, or all subscriptions) into a single task
+ *   with one sub-item per record
+ * - `fallback` rules only apply to records no other rule matched
+ * - `version` is the content version of the wording (see taskContent)
+ *
+ * Rules are validated when loaded; an invalid rule set throws rather than
+ * silently producing partial guidance.
+ */
+
+import type {
+  AftercareProfile,
+  LegacyVaultRecord,
+  ProvenanceField,
+  RuleCondition,
+  RuleOperator,
+  TaskCategory,
+  TaskPhase,
+  TaskRule,
+} from '../types';
+
+export interface RuleContext {
+  record?: LegacyVaultRecord;
+  profile?: AftercareProfile;
+}
+
+/** Records that produce one task: a single record, or several merged by the rule's dedupeKey. */
+export interface RuleMatch {
+  rule: TaskRule;
+  records: LegacyVaultRecord[];
+}
+
+// ============================================================================
+// FIELDS AND VOCABULARY
+// ============================================================================
+
+const RECORD_FIELDS: (keyof LegacyVaultRecord)[] = [
+  'id', 'category', 'subCategory', 'name', 'institutionName',
+  'accountNumberMasked', 'policyNumberMasked', 'contactPhone', 'contactEmail', 'contactWebsite',
+  'notes', 'tags', 'ownerName', 'beneficiaryNames',
+  'addressLine1', 'addressLine2', 'city', 'region', 'postalCode', 'country',
+  'insuranceCompany', 'agentName', 'agentContact', 'coverageAmount',
+  'propertyType', 'vehicleMake', 'vehicleModel', 'vehicleYear',
+];
+
+const PROFILE_FIELDS: (keyof AftercareProfile)[] = [
+  'userRole', 'deceasedName', 'dateOfDeath', 'country', 'region', 'relationship', 'hasWill', 'isExecutor',
+];
+
+/** Extra placeholders: {{count}} is the number of merged records (mergedTitle only). */
+const EXTRA_PLACEHOLDERS = ['count'];
+
+const OPERATORS: RuleOperator[] = ['equals', 'notEquals', 'in', 'exists', 'notExists', 'contains'];
+const PHASES: TaskPhase[] = ['FIRST_48_HOURS', 'WEEK_1', 'WEEKS_2_6', 'DAYS_60_90', 'LONG_TERM'];
+const CATEGORIES: TaskCategory[] = ['FINANCIAL', 'INSURANCE', 'PROPERTY', 'DIGITAL', 'LEGAL', 'PERSONAL', 'NOTIFICATION', 'ADMINISTRATIVE'];
+const PRIORITIES = ['HIGH', 'MEDIUM', 'LOW'];
+
+/** Fallback text when a placeholder's record field is empty, so titles stay readable. */
+const PLACEHOLDER_FALLBACKS: Record<string, (record: Partial<LegacyVaultRecord>) => string> = {
+  name: r => r.name || 'this item',
+  institutionName: r => r.institutionName || r.name || 'the institution',
+  insuranceCompany: r => r.insuranceCompany || r.institutionName || 'the insurance company',
+};
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+function readField(path: string, context: RuleContext): unknown {
+  const [scope, field] = path.split('.', 2);
+  const source = scope === 'record' ? context.record : scope === 'profile' ? context.profile : undefined;
+  return source ? (source as unknown as Record<string, unknown>)[field] : undefined;
+}
+
+function hasValue(value: unknown): boolean {
+  if (value === undefined || value === null) return false;
+  if (typeof value === 'string') return value.trim() !== '';
+  if (Array.isArray(value)) return value.length > 0;
+  return true;
+}
+
+function compare(op: RuleOperator, actual: unknown, expected: unknown): boolean {
+  switch (op) {
+    case 'equals':
+      return actual === expected;
+    case 'notEquals':
+      return actual !== expected;
+    case 'in':
+      return Array.isArray(expected) && expected.includes(actual as string | number);
+    case 'exists':
+      return hasValue(actual);
+    case 'notExists':
+      return !hasValue(actual);
+    case 'contains':
+      if (Array.isArray(actual)) return actual.includes(expected);
+      return typeof actual === 'string' && typeof expected === 'string'
+        && actual.toLowerCase().includes(expected.toLowerCase());
+  }
+}
+
+/** Whether a condition holds for a record and/or profile. Missing fields never equal anything. */
+export function evaluateCondition(condition: RuleCondition, context: RuleContext): boolean {
+  if ('all' in condition) return condition.all.every(c => evaluateCondition(c, context));
+  if ('any' in condition) return condition.any.some(c => evaluateCondition(c, context));
+  if ('not' in condition) return !evaluateCondition(condition.not, context);
+  return compare(condition.op, readField(condition.field, context), condition.value);
+}
+
+/** The fields a condition checks, with their values in this context (recorded as task provenance). */
+export function getConditionFields(condition: RuleCondition, context: RuleContext): ProvenanceField[] {
+  const fields: string[] = [];
+  const collect = (c: RuleCondition) => {
+    if ('all' in c) c.all.forEach(collect);
+    else if ('any' in c) c.any.forEach(collect);
+    else if ('not' in c) collect(c.not);
+    else if (!fields.includes(c.field)) fields.push(c.field);
+  };
+  collect(condition);
+  return fields.map(field => ({ field, value: stringify(readField(field, context)) }));
+}
+
+function stringify(value: unknown): string {
+  if (Array.isArray(value)) return value.filter(hasValue).join(', ');
+  return hasValue(value) ? String(value) : '';
+}
+
+/**
+ * Fill {{field}} placeholders from a record. `vars` supplies extra values
+ * such as count. Empty name-like fields fall back to neutral wording.
+ */
+export function renderRuleTemplate(
+  template: string,
+  record: Partial<LegacyVaultRecord>,
+  vars: Record<string, string | number> = {}
+): string {
+  return template
+    .replace(PLACEHOLDER_PATTERN, (_match, field: string) => {
+      if (field in vars) return String(vars[field]);
+      const fallback = PLACEHOLDER_FALLBACKS[field];
+      return fallback ? fallback(record) : stringify((record as unknown as Record<string, unknown>)[field]);
+    })
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** Rendered dedupe key without fallbacks, so records missing the field are never merged. */
+function renderDedupeKey(template: string, record: LegacyVaultRecord): string {
+  return template
+    .replace(PLACEHOLDER_PATTERN, (_match, field: string) =>
+      stringify((record as unknown as Record<string, unknown>)[field]))
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * Group records by the rules they match, in record order. Records matched by
+ * no regular rule go to the fallback rules. Rules listed in suppressedKeys
+ * produce nothing (and do not hand their records to the fallbacks).
+ */
+export function matchRecordRules(
+  rules: TaskRule[],
+  records: LegacyVaultRecord[],
+  profile?: AftercareProfile,
+  suppressedKeys: Set<string> = new Set()
+): RuleMatch[] {
+  const groups = new Map<string, RuleMatch>();
+  const matches = (rule: TaskRule, record: LegacyVaultRecord) =>
+    !rule.when || evaluateCondition(rule.when, { record, profile });
+
+  for (const record of records) {
+    let matched = rules.filter(rule => !rule.fallback && matches(rule, record));
+    if (matched.length === 0) matched = rules.filter(rule => rule.fallback && matches(rule, record));
+
+    for (const rule of matched) {
+      if (suppressedKeys.has(rule.key)) continue;
+      const dedupe = rule.dedupeKey ? renderDedupeKey(rule.dedupeKey, record) : '';
+      const groupKey = dedupe ? `${rule.key}|${dedupe}` : `${rule.key}#${record.id}`;
+      const group = groups.get(groupKey);
+      if (group) group.records.push(record);
+      else groups.set(groupKey, { rule, records: [record] });
+    }
+  }
+  return [...groups.values()];
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isScalar(value: unknown): boolean {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+}
+
+function isKnownField(path: unknown): boolean {
+  if (typeof path !== 'string') return false;
+  const [scope, field, ...rest] = path.split('.');
+  if (rest.length > 0) return false;
+  if (scope === 'record') return (RECORD_FIELDS as string[]).includes(field);
+  if (scope === 'profile') return (PROFILE_FIELDS as string[]).includes(field);
+  return false;
+}
+
+function validateCondition(condition: unknown, path: string, errors: string[]): void {
+  if (!isObject(condition)) {
+    errors.push(`${path}: must be an object`);
+    return;
+  }
+  const forms = ['all', 'any', 'not', 'field'].filter(form => form in condition);
+  if (forms.length !== 1) {
+    errors.push(`${path}: must have exactly one of all, any, not or field`);
+    return;
+  }
+
+  const form = forms[0];
+  if (form === 'all' || form === 'any') {
+    const list = condition[form];
+    if (!Array.isArray(list) || list.length === 0) {
+      errors.push(`${path}.${form}: must be a non-empty array`);
+      return;
+    }
+    list.forEach((c, i) => validateCondition(c, `${path}.${form}[${i}]`, errors));
+    return;
+  }
+  if (form === 'not') {
+    validateCondition(condition.not, `${path}.not`, errors);
+    return;
+  }
+
+  if (!isKnownField(condition.field)) {
+    errors.push(`${path}.field: unknown field "${String(condition.field)}" (use record.<field> or profile.<field>)`);
+  }
+  const op = condition.op as RuleOperator;
+  if (!OPERATORS.includes(op)) {
+    errors.push(`${path}.op: unknown operator "${String(condition.op)}"`);
+    return;
+  }
+  const value = condition.value;
+  if (op === 'exists' || op === 'notExists') {
+    if (value !== undefined) errors.push(`${path}.value: not used with ${op}`);
+  } else if (op === 'in') {
+    if (!Array.isArray(value) || !value.every(isScalar)) errors.push(`${path}.value: must be an array of values`);
+  } else if (!isScalar(value)) {
+    errors.push(`${path}.value: must be a string, number or boolean`);
+  }
+}
+
+function validateTemplate(template: unknown, path: string, errors: string[], allowed: string[] = []): void {
+  if (typeof template !== 'string' || template.trim() === '') {
+    errors.push(`${path}: must be a non-empty string`);
+    return;
+  }
+  for (const [, field] of template.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!(RECORD_FIELDS as string[]).includes(field) && !allowed.includes(field)) {
+      errors.push(`${path}: unknown placeholder {{${field}}}`);
+    }
+  }
+}
+
+function validateOutput(output: unknown, path: string, errors: string[]): void {
+  if (!isObject(output)) {
+    errors.push(`${path}: must be an object`);
+    return;
+  }
+  validateTemplate(output.title, `${path}.title`, errors);
+  validateTemplate(output.description, `${path}.description`, errors);
+  validateTemplate(output.reason, `${path}.reason`, errors);
+  if (output.mergedTitle !== undefined) validateTemplate(output.mergedTitle, `${path}.mergedTitle`, errors, EXTRA_PLACEHOLDERS);
+  if (output.subItemTitle !== undefined) validateTemplate(output.subItemTitle, `${path}.subItemTitle`, errors);
+  if (output.steps !== undefined) {
+    if (!Array.isArray(output.steps)) errors.push(`${path}.steps: must be an array`);
+    else output.steps.forEach((step, i) => validateTemplate(step, `${path}.steps[${i}]`, errors));
+  }
+  if (!PHASES.includes(output.phase as TaskPhase)) errors.push(`${path}.phase: unknown phase "${String(output.phase)}"`);
+  if (!CATEGORIES.includes(output.category as TaskCategory)) errors.push(`${path}.category: unknown category "${String(output.category)}"`);
+  if (!PRIORITIES.includes(output.priority as string)) errors.push(`${path}.priority: must be HIGH, MEDIUM or LOW`);
+
+  if (output.recurrence !== undefined) validateRecurrence(output.recurrence, `${path}.recurrence`, errors);
+
+  if (output.dependsOn === undefined) return;
+  if (!Array.isArray(output.dependsOn)) {
+    errors.push(`${path}.dependsOn: must be an array`);
+    return;
+  }
+  output.dependsOn.forEach((ref, i) => validateRef(ref, `${path}.dependsOn[${i}]`, errors));
+}
+
+function validateRef(ref: unknown, path: string, errors: string[]): void {
+  if (isObject(ref) && ref.kind === 'task') validateTemplate(ref.taskId, `${path}.taskId`, errors);
+  else if (isObject(ref) && ref.kind === 'checklist' && typeof ref.seedKey === 'string' && ref.seedKey) return;
+  else errors.push(`${path}: must be { kind: "task", taskId } or { kind: "checklist", seedKey }`);
+}
+
+function isPositiveInteger(value: unknown): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+function validateRecurrence(recurrence: unknown, path: string, errors: string[]): void {
+  if (!isObject(recurrence)) {
+    errors.push(`${path}: must be an object`);
+    return;
+  }
+  if (!isPositiveInteger(recurrence.intervalDays)) errors.push(`${path}.intervalDays: must be a whole number of days`);
+  if (recurrence.maxOccurrences !== undefined && !isPositiveInteger(recurrence.maxOccurrences)) {
+    errors.push(`${path}.maxOccurrences: must be a whole number`);
+  }
+  if (recurrence.until !== undefined) validateRef(recurrence.until, `${path}.until`, errors);
+}
+
+/** Problems with a rule set, one message per problem with its path. Empty when valid. */
+export function validateTaskRules(input: unknown): string[] {
+  if (!Array.isArray(input)) return ['rules: must be an array'];
+
+  const errors: string[] = [];
+  const keys = new Set<string>();
+  input.forEach((rule, i) => {
+    const path = `rules[${i}]`;
+    if (!isObject(rule)) {
+      errors.push(`${path}: must be an object`);
+      return;
+    }
+    if (typeof rule.key !== 'string' || !/^[a-z0-9]+(-[a-z0-9]+)*$/.test(rule.key)) {
+      errors.push(`${path}.key: must be a lowercase-hyphenated string`);
+    } else if (keys.has(rule.key)) {
+      errors.push(`${path}.key: duplicate key "${rule.key}"`);
+    } else {
+      keys.add(rule.key);
+    }
+    if (rule.when !== undefined) validateCondition(rule.when, `${path}.when`, errors);
+    if (rule.fallback !== undefined && typeof rule.fallback !== 'boolean') errors.push(`${path}.fallback: must be true or false`);
+    if (rule.dedupeKey !== undefined) validateTemplate(rule.dedupeKey, `${path}.dedupeKey`, errors);
+    if (rule.version !== undefined && !isPositiveInteger(rule.version)) errors.push(`${path}.version: must be a whole number`);
+    validateOutput(rule.output, `${path}.output`, errors);
+  });
+  return errors;
+}
+
+/** Validate and return a rule set. Throws listing every problem if it is invalid. */
+export function loadTaskRules(input: unknown): TaskRule[] {
+  const errors = validateTaskRules(input);
+  if (errors.length > 0) {
+    throw new Error(`Invalid task rules: ${errors.join('; ')}`);
+  }
+  return input as TaskRule[];
+}
@@ -0,0 +1,167 @@
+/**
+ * Task Scheduling
+ *
+ * Turns phase labels into target date windows anchored on the date of death,
+ * and groups open tasks into overdue / this week / upcoming. A task's own due
+ * date takes precedence over its phase window.
+ *
+ * Without a date of death (and no due date) tasks have no window and callers
+ * fall back to the phase labels alone.
+ *
+ * Dates are calendar dates (YYYY-MM-DD) in local time.
+ */
+
+import type { AftercareTask, TaskPhase } from '../types';
+import { formatDate } from './localization';
+
+/** Phase windows in days after the date of death (start inclusive, end inclusive). */
+export const PHASE_WINDOWS: Record<TaskPhase, { startDay: number; endDay: number }> = {
+  FIRST_48_HOURS: { startDay: 0, endDay: 2 },
+  WEEK_1: { startDay: 0, endDay: 7 },
+  WEEKS_2_6: { startDay: 7, endDay: 42 },
+  DAYS_60_90: { startDay: 60, endDay: 90 },
+  LONG_TERM: { startDay: 90, endDay: 365 },
+};
+
+export interface TaskWindow {
+  start: string;
+  end: string;
+}
+
+export type ScheduleBucket = 'overdue' | 'this-week' | 'upcoming';
+
+export interface ScheduledTask {
+  task: AftercareTask;
+  window: TaskWindow;
+}
+
+export type TaskSchedule = Record<ScheduleBucket, ScheduledTask[]>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// DATE HELPERS
+// ============================================================================
+
+/** Parse YYYY-MM-DD (or an ISO timestamp) as a local calendar date. */
+export function parseCalendarDate(value: string | undefined): Date | null {
+  if (!value) return null;
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(value);
+  if (!match) return null;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export function toCalendarDate(date: Date): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+}
+
+export function addDays(date: Date, days: number): Date {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+}
+
+/** Whole days from the date of death to today (0 on the day itself). Null when unknown. */
+export function getDaysSinceDeath(dateOfDeath: string | undefined, today: Date = new Date()): number | null {
+  const death = parseCalendarDate(dateOfDeath);
+  if (!death) return null;
+  const start = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  return Math.round((start.getTime() - death.getTime()) / DAY_MS);
+}
+
+// ============================================================================
+// WINDOWS AND BUCKETS
+// ============================================================================
+
+/**
+ * Target window for a task. A due date wins over the phase window.
+ * Returns null when neither a date of death nor a due date is known.
+ */
+export function getTaskWindow(task: AftercareTask, dateOfDeath: string | undefined): TaskWindow | null {
+  const death = parseCalendarDate(dateOfDeath);
+  const due = parseCalendarDate(task.dueDate);
+  if (due) {
+    const phaseStart = death ? addDays(death, PHASE_WINDOWS[task.phase].startDay) : due;
+    return { start: toCalendarDate(phaseStart < due ? phaseStart : due), end: toCalendarDate(due) };
+  }
+  if (!death) return null;
+  const { startDay, endDay } = PHASE_WINDOWS[task.phase];
+  return { start: toCalendarDate(addDays(death, startDay)), end: toCalendarDate(addDays(death, endDay)) };
+}
+
+/** Which group an open task's window falls in relative to today (this week = the next 7 days). */
+export function getScheduleBucket(window: TaskWindow, today: Date = new Date()): ScheduleBucket {
+  const todayKey = toCalendarDate(today);
+  const weekEndKey = toCalendarDate(addDays(today, 6));
+  if (window.end < todayKey) return 'overdue';
+  if (window.start <= weekEndKey) return 'this-week';
+  return 'upcoming';
+}
+
+function isOpen(task: AftercareTask): boolean {
+  return task.status !== 'DONE' && task.status !== 'NOT_APPLICABLE';
+}
+
+const PRIORITY_ORDER = { HIGH: 0, MEDIUM: 1, LOW: 2 };
+
+function byWindow(a: ScheduledTask, b: ScheduledTask): number {
+  return a.window.end.localeCompare(b.window.end)
+    || PRIORITY_ORDER[a.task.priority] - PRIORITY_ORDER[b.task.priority];
+}
+
+/**
+ * Group open tasks by schedule. Tasks without a window (no date of death and
+ * no due date) are left out. Each group is sorted by window end, then priority.
+ */
+export function scheduleTasks(
+  tasks: AftercareTask[],
+  dateOfDeath: string | undefined,
+  today: Date = new Date()
+): TaskSchedule {
+  const schedule: TaskSchedule = { overdue: [], 'this-week': [], upcoming: [] };
+  for (const task of tasks) {
+    if (!isOpen(task)) continue;
+    const window = getTaskWindow(task, dateOfDeath);
+    if (!window) continue;
+    schedule[getScheduleBucket(window, today)].push({ task, window });
+  }
+  schedule.overdue.sort(byWindow);
+  schedule['this-week'].sort(byWindow);
+  schedule.upcoming.sort(byWindow);
+  return schedule;
+}
+
+/**
+ * What is current: open tasks due this week, then overdue ones, up to `limit`.
+ * Empty when nothing can be scheduled (callers fall back to their default view).
+ */
+export function getCurrentTasks(
+  tasks: AftercareTask[],
+  dateOfDeath: string | undefined,
+  today: Date = new Date(),
+  limit = 3
+): ScheduledTask[] {
+  const schedule = scheduleTasks(tasks, dateOfDeath, today);
+  return [...schedule['this-week'], ...schedule.overdue].slice(0, limit);
+}
+
+/** Phase whose window contains today, or null when the date of death is unknown. */
+export function getCurrentPhase(dateOfDeath: string | undefined, today: Date = new Date()): TaskPhase | null {
+  const days = getDaysSinceDeath(dateOfDeath, today);
+  if (days === null) return null;
+  if (days <= PHASE_WINDOWS.FIRST_48_HOURS.endDay) return 'FIRST_48_HOURS';
+  if (days <= PHASE_WINDOWS.WEEK_1.endDay) return 'WEEK_1';
+  if (days <= PHASE_WINDOWS.WEEKS_2_6.endDay) return 'WEEKS_2_6';
+  if (days <= PHASE_WINDOWS.DAYS_60_90.endDay) return 'DAYS_60_90';
+  return 'LONG_TERM';
+}
+
+/** Short human label for a window, e.g. "Mar 3 – Mar 10". */
+export function formatTaskWindow(window: TaskWindow): string {
+  const format = (value: string) => formatDate(parseCalendarDate(value)!, 'short');
+  return window.start === window.end ? format(window.end) : `${format(window.start)} – ${format(window.end)}`;
+}
@@ -0,0 +1,116 @@
+/**
+ * Task Steps
+ *
+ * Many tasks are several steps in practice (locate the policy, call the
+ * insurer, send a death certificate, ...). Steps are ordered and each has its
+ * own status. A task with steps takes its status from them:
+ *
+ * - every step handled or not needed → Handled (Not needed if all are)
+ * - any step started or finished → Taking care of this
+ * - otherwise → Leave for now
+ *
+ * Templates seed default steps; users can add, remove and reorder them.
+ * Pure helpers over a plan's task list; callers save the plan.
+ */
+
+import type { AftercareTask, TaskStatus, TaskStep } from '../types';
+
+function isFinished(status: TaskStatus): boolean {
+  return status === 'DONE' || status === 'NOT_APPLICABLE';
+}
+
+function generateStepId(): string {
+  return `step_custom_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/** Steps seeded from a template, all not started. Ids are positional. */
+export function createSteps(titles: string[]): TaskStep[] {
+  return titles.map((title, i) => ({ id: `step-${i + 1}`, title, status: 'NOT_STARTED' }));
+}
+
+/** Status implied by a task's steps. */
+export function rollUpStepStatus(steps: TaskStep[]): TaskStatus {
+  if (steps.length > 0 && steps.every(step => isFinished(step.status))) {
+    return steps.every(step => step.status === 'NOT_APPLICABLE') ? 'NOT_APPLICABLE' : 'DONE';
+  }
+  return steps.some(step => step.status !== 'NOT_STARTED') ? 'IN_PROGRESS' : 'NOT_STARTED';
+}
+
+/** Steps that are handled or not needed, out of all steps. */
+export function getStepProgress(task: AftercareTask): { finished: number; total: number } {
+  const steps = task.steps ?? [];
+  return { finished: steps.filter(step => isFinished(step.status)).length, total: steps.length };
+}
+
+/** Replace a task's steps and roll its status up from them. An empty list removes the steps. */
+function withSteps(task: AftercareTask, steps: TaskStep[], now: string): AftercareTask {
+  if (steps.length === 0) return { ...task, steps: undefined };
+  const status = rollUpStepStatus(steps);
+  const completedAt = status === 'DONE' ? task.completedAt ?? now : undefined;
+  return { ...task, steps, status, completedAt };
+}
+
+function updateSteps(
+  tasks: AftercareTask[],
+  taskId: string,
+  update: (steps: TaskStep[]) => TaskStep[],
+  now: string
+): AftercareTask[] {
+  return tasks.map(task => (task.id === taskId ? withSteps(task, update(task.steps ?? []), now) : task));
+}
+
+/** Set one step's status; the task's status follows. */
+export function setStepStatus(
+  tasks: AftercareTask[],
+  taskId: string,
+  stepId: string,
+  status: TaskStatus,
+  now: string = new Date().toISOString()
+): AftercareTask[] {
+  return updateSteps(tasks, taskId, steps => steps.map(step =>
+    step.id === stepId ? { ...step, status, completedAt: status === 'DONE' ? now : undefined } : step
+  ), now);
+}
+
+/** Add a step at the end. Blank titles are ignored. */
+export function addStep(
+  tasks: AftercareTask[],
+  taskId: string,
+  title: string,
+  now: string = new Date().toISOString()
+): AftercareTask[] {
+  const trimmed = title.trim();
+  if (!trimmed) return tasks;
+  return updateSteps(tasks, taskId, steps => [
+    ...steps,
+    { id: generateStepId(), title: trimmed, status: 'NOT_STARTED', userAuthored: true },
+  ], now);
+}
+
+/** Remove a step. Removing the last one leaves a plain task with its current status. */
+export function removeStep(
+  tasks: AftercareTask[],
+  taskId: string,
+  stepId: string,
+  now: string = new Date().toISOString()
+): AftercareTask[] {
+  return updateSteps(tasks, taskId, steps => steps.filter(step => step.id !== stepId), now);
+}
+
+/** Move a step one place up or down. */
+export function moveStep(
+  tasks: AftercareTask[],
+  taskId: string,
+  stepId: string,
+  direction: 'up' | 'down'
+): AftercareTask[] {
+  return tasks.map(task => {
+    if (task.id !== taskId || !task.steps) return task;
+    const index = task.steps.findIndex(step => step.id === stepId);
+    const target = direction === 'up' ? index - 1 : index + 1;
+    if (index < 0 || target < 0 || target >= task.steps.length) return task;
+    const steps = [...task.steps];
+    [steps[index], steps[target]] = [steps[target], steps[index]];
+    return { ...task, steps };
+  });
+}
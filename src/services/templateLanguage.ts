@@ -0,0 +1,293 @@
+/**
+ * Template Language
+ *
+ * The small language letters and scripts are written in. Templates can only
+ * read values from the context they are given; nothing in a template runs
+ * code or reaches outside the context.
+ *
+ *   {{name}}                          the value, or the missing-value prompt
+ *   {{name | upper}}                  filters: upper, date, date:short|medium|long,
+ *                                     mask (all but the last 4), mask:N
+ *   {{#if name}}…{{else}}…{{/if}}     shown when name has a value (lists: any items)
+ *   {{#unless name}}…{{/unless}}      shown when name has no value
+ *   {{#each accounts}}…{{else}}…{{/each}}
+ *                                     once per item; inside, item fields, {{this}}
+ *                                     and {{@number}} (1, 2, …) are available
+ *   \{{                               a literal "{{"
+ *
+ * A block tag alone on its line takes the whole line with it, so optional
+ * paragraphs don't leave blank lines behind.
+ *
+ * Syntax errors throw when rendering; `checkTemplate` lists them (and any
+ * unknown placeholders) without throwing, for validation and tests.
+ */
+
+import { formatDate } from './localization';
+
+interface TemplateFilter {
+  name: string;
+  arg?: string;
+}
+
+type TemplateNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'value'; name: string; filters: TemplateFilter[]; line: number }
+  | { kind: 'if'; name: string; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[]; line: number }
+  | { kind: 'each'; name: string; body: TemplateNode[]; otherwise: TemplateNode[]; line: number };
+
+export interface TemplateRenderOptions {
+  /** Text shown for a value that is missing or empty. Defaults to "[name]". */
+  missing?: (name: string) => string;
+  /** Applied to every inserted value (e.g. HTML escaping). Template text is left as written. */
+  escape?: (value: string) => string;
+}
+
+/** Names always available inside {{#each}}. */
+const LOOP_NAMES = ['this', '@number'];
+
+const DATE_STYLES = ['short', 'medium', 'long'] as const;
+
+const FILTERS: Record<string, { check: (arg?: string) => boolean; apply: (value: string, arg?: string) => string }> = {
+  upper: {
+    check: arg => arg === undefined,
+    apply: value => value.toLocaleUpperCase(),
+  },
+  date: {
+    check: arg => arg === undefined || (DATE_STYLES as readonly string[]).includes(arg),
+    apply: (value, arg) =>
+      Number.isNaN(Date.parse(value)) ? value : formatDate(value, (arg ?? 'long') as typeof DATE_STYLES[number]),
+  },
+  mask: {
+    check: arg => arg === undefined || /^\d+$/.test(arg),
+    apply: (value, arg) => {
+      const visible = arg === undefined ? 4 : Number(arg);
+      return value.length <= visible ? value : '•'.repeat(value.length - visible) + value.slice(value.length - visible);
+    },
+  },
+};
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+const NAME_PATTERN = /^(@number|this|\w+)$/;
+
+interface Frame {
+  node: Extract<TemplateNode, { kind: 'if' | 'each' }>;
+  closer: string;
+  inElse: boolean;
+}
+
+function lineAt(source: string, index: number): number {
+  return source.slice(0, index).split('\n').length;
+}
+
+function parseValueTag(tag: string, line: number): TemplateNode {
+  const [name, ...filterParts] = tag.split('|').map(part => part.trim());
+  if (!NAME_PATTERN.test(name)) throw new Error(`line ${line}: invalid tag {{${tag}}}`);
+  const filters = filterParts.map(part => {
+    const [filterName, arg, ...rest] = part.split(':').map(piece => piece.trim());
+    const filter = FILTERS[filterName];
+    if (!filter) throw new Error(`line ${line}: unknown filter "${filterName}" in {{${tag}}}`);
+    if (rest.length > 0 || !filter.check(arg)) throw new Error(`line ${line}: invalid argument for "${filterName}" in {{${tag}}}`);
+    return arg === undefined ? { name: filterName } : { name: filterName, arg };
+  });
+  return { kind: 'value', name, filters, line };
+}
+
+/** Parse a template into nodes. Throws on the first syntax error, naming its line. */
+function parseTemplate(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: Frame[] = [];
+  let text = '';
+  let index = 0;
+
+  const current = (): TemplateNode[] => {
+    const frame = stack[stack.length - 1];
+    if (!frame) return root;
+    if (frame.node.kind === 'if') return frame.inElse ? frame.node.otherwise : frame.node.then;
+    return frame.inElse ? frame.node.otherwise : frame.node.body;
+  };
+  const flush = () => {
+    if (text) current().push({ kind: 'text', text });
+    text = '';
+  };
+
+  while (index < source.length) {
+    const open = source.indexOf('{{', index);
+    if (open === -1) {
+      text += source.slice(index);
+      break;
+    }
+    if (open > 0 && source[open - 1] === '\\') {
+      text += source.slice(index, open - 1) + '{{';
+      index = open + 2;
+      continue;
+    }
+    text += source.slice(index, open);
+    const close = source.indexOf('}}', open + 2);
+    const line = lineAt(source, open);
+    if (close === -1) throw new Error(`line ${line}: {{ is never closed`);
+    const tag = source.slice(open + 2, close).trim();
+    let end = close + 2;
+
+    if (!/^[#/]|^else$/.test(tag)) {
+      flush();
+      current().push(parseValueTag(tag, line));
+      index = end;
+      continue;
+    }
+
+    // Block tag alone on its line: drop the line's indentation and its newline.
+    const lineStart = source.lastIndexOf('\n', open - 1) + 1;
+    const lineEnd = source.indexOf('\n', end);
+    const before = source.slice(lineStart, open);
+    const after = source.slice(end, lineEnd === -1 ? source.length : lineEnd);
+    if (/^[ \t]*$/.test(before) && /^[ \t]*$/.test(after)) {
+      text = text.slice(0, text.length - before.length);
+      end = lineEnd === -1 ? source.length : lineEnd + 1;
+    }
+    flush();
+
+    const block = /^#(if|unless|each)\s+(\w+)$/.exec(tag);
+    if (block) {
+      const [, keyword, name] = block;
+      const node: Frame['node'] = keyword === 'each'
+        ? { kind: 'each', name, body: [], otherwise: [], line }
+        : { kind: 'if', name, negate: keyword === 'unless', then: [], otherwise: [], line };
+      current().push(node);
+      stack.push({ node, closer: `/${keyword}`, inElse: false });
+    } else if (tag === 'else') {
+      const frame = stack[stack.length - 1];
+      if (!frame || frame.inElse) throw new Error(`line ${line}: {{else}} outside a block`);
+      frame.inElse = true;
+    } else if (/^\/(if|unless|each)$/.test(tag)) {
+      const frame = stack.pop();
+      if (!frame) throw new Error(`line ${line}: {{${tag}}} without an opening tag`);
+      if (frame.closer !== tag) throw new Error(`line ${line}: {{${tag}}} closes {{#${frame.closer.slice(1)} ${frame.node.name}}} from line ${frame.node.line}`);
+    } else {
+      throw new Error(`line ${line}: invalid tag {{${tag}}}`);
+    }
+    index = end;
+  }
+
+  flush();
+  const open = stack.pop();
+  if (open) throw new Error(`line ${open.node.line}: {{#${open.closer.slice(1)} ${open.node.name}}} is never closed`);
+  return root;
+}
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+interface Scope {
+  item: unknown;
+  number: number;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Own properties only, so templates can't reach prototype members like "constructor". */
+function lookup(name: string, context: object, scopes: Scope[]): unknown {
+  const scope = scopes[scopes.length - 1];
+  if (name === 'this') return scope?.item;
+  if (name === '@number') return scope?.number;
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    const item = scopes[i].item;
+    if (isRecord(item) && Object.prototype.hasOwnProperty.call(item, name)) return item[name];
+  }
+  return Object.prototype.hasOwnProperty.call(context, name) ? (context as Record<string, unknown>)[name] : undefined;
+}
+
+function toText(value: unknown): string {
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'number') return String(value);
+  if (Array.isArray(value)) return value.map(toText).filter(Boolean).join(', ');
+  return '';
+}
+
+function hasValue(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'boolean') return value;
+  return toText(value) !== '';
+}
+
+function renderNodes(nodes: TemplateNode[], context: object, scopes: Scope[], options: TemplateRenderOptions): string {
+  const escape = options.escape ?? (value => value);
+  let out = '';
+  for (const node of nodes) {
+    if (node.kind === 'text') {
+      out += node.text;
+    } else if (node.kind === 'value') {
+      const text = toText(lookup(node.name, context, scopes));
+      const value = text === ''
+        ? (options.missing ?? (name => `[${name}]`))(node.name)
+        : node.filters.reduce((result, filter) => FILTERS[filter.name].apply(result, filter.arg), text);
+      out += escape(value);
+    } else if (node.kind === 'if') {
+      const shown = hasValue(lookup(node.name, context, scopes)) !== node.negate;
+      out += renderNodes(shown ? node.then : node.otherwise, context, scopes, options);
+    } else {
+      const list = lookup(node.name, context, scopes);
+      const items = Array.isArray(list) ? list : [];
+      out += items.length === 0
+        ? renderNodes(node.otherwise, context, scopes, options)
+        : items.map((item, i) => renderNodes(node.body, context, [...scopes, { item, number: i + 1 }], options)).join('');
+    }
+  }
+  return out;
+}
+
+/** Render `source` with values from `context`. Throws if the template has a syntax error. */
+export function renderTemplate(source: string, context: object, options: TemplateRenderOptions = {}): string {
+  return renderNodes(parseTemplate(source), context, [], options);
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+function checkNodes(
+  nodes: TemplateNode[],
+  allowed: Set<string>,
+  listFields: Readonly<Record<string, readonly string[]>>,
+  errors: string[]
+): void {
+  for (const node of nodes) {
+    if (node.kind === 'text') continue;
+    if (!allowed.has(node.name)) errors.push(`line ${node.line}: unknown placeholder {{${node.name}}}`);
+    if (node.kind === 'if') {
+      checkNodes(node.then, allowed, listFields, errors);
+      checkNodes(node.otherwise, allowed, listFields, errors);
+    } else if (node.kind === 'each') {
+      const fields = listFields[node.name];
+      if (!fields && allowed.has(node.name)) errors.push(`line ${node.line}: {{#each ${node.name}}} is not a list`);
+      checkNodes(node.body, new Set([...allowed, ...LOOP_NAMES, ...(fields ?? [])]), listFields, errors);
+      checkNodes(node.otherwise, allowed, listFields, errors);
+    }
+  }
+}
+
+/**
+ * Problems with a template: syntax errors, and placeholders that are not in
+ * `names` (or, inside {{#each list}}, in `listFields[list]`). Empty when the
+ * template is valid.
+ */
+export function checkTemplate(
+  source: string,
+  names: readonly string[],
+  listFields: Readonly<Record<string, readonly string[]>> = {}
+): string[] {
+  let nodes: TemplateNode[];
+  try {
+    nodes = parseTemplate(source);
+  } catch (error) {
+    return [(error as Error).message];
+  }
+  const errors: string[] = [];
+  checkNodes(nodes, new Set(names), listFields, errors);
+  return errors;
+}
@@ -0,0 +1,236 @@
+/**
+ * Pseudo-locale Render Tests
+ *
+ * Renders the main views under en-XA and fails on any visible text, placeholder,
+ * tooltip or accessible name that did not come through the catalogs.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { render, waitFor } from '@testing-library/react';
+import { setLocale, formatDate, SUPPORTED_LOCALES } from '../../services/localization';
+import { generateAftercarePlan } from '../../services/taskGenerationEngine';
+import { generateExecutorChecklist } from '../../services/executorService';
+import { toCalendarDate } from '../../services/taskScheduling';
+import { FocusView } from '../../components/tasks/FocusView';
+import { ChecklistView } from '../../components/tasks/ChecklistView';
+import { CasesView } from '../../components/cases/CasesView';
+import { DocumentsView } from '../../components/documents/DocumentsView';
+import { SettingsView } from '../../components/settings/SettingsView';
+import { ScriptsView } from '../../components/scripts/ScriptsView';
+import { ContactsView } from '../../components/contacts/ContactsView';
+import type { AftercarePlan, AftercareProfile, Case, ContactEntry, UploadedDocument } from '../../types';
+
+vi.mock('../../services/storageService', () => ({
+  storageService: {
+    getActiveCaseId: vi.fn(async () => 'case-1'),
+    getCaseDataCounts: vi.fn(async () => ({ tasks: 3, documents: 1, contacts: 1, checklist: 2 })),
+    loadPlanForCase: vi.fn(async () => null),
+    loadPersonalTemplates: vi.fn(async () => []),
+    loadCorrespondence: vi.fn(async () => []),
+    saveContacts: vi.fn(),
+    saveDocuments: vi.fn(),
+    saveChecklist: vi.fn(),
+    saveCorrespondence: vi.fn(),
+    savePersonalTemplates: vi.fn(),
+  },
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const daysAgo = (days: number) => toCalendarDate(new Date(Date.now() - days * DAY_MS));
+
+const profile: AftercareProfile = {
+  id: 'profile',
+  deceasedName: 'Jordan Reyes',
+  dateOfDeath: daysAgo(10),
+  relationship: 'SPOUSE',
+  country: 'Canada',
+  userName: 'Casey Reyes',
+  hasConfirmedDisclaimer: true,
+  isExecutor: true,
+  createdAt: '2024-01-01',
+  updatedAt: '2024-01-01',
+};
+
+const cases: Case[] = [
+  { id: 'case-1', label: 'Jordan Reyes estate', status: 'active', createdAt: '2024-01-01', updatedAt: '2024-01-02' },
+  { id: 'case-2', label: 'Old case', status: 'archived', createdAt: '2023-01-01', updatedAt: '2023-06-01' },
+];
+
+const contacts: ContactEntry[] = [
+  {
+    id: 'contact-1',
+    caseId: 'case-1',
+    type: 'BANK',
+    role: 'BANK',
+    name: 'Maple Savings',
+    organization: 'Maple Savings Ltd',
+    phone: '555-0100',
+    email: 'help@maple.example',
+    notes: 'Branch on King St',
+    isKeyContact: true,
+    nextFollowUpDate: daysAgo(2),
+    source: 'manual',
+  },
+];
+
+const documents: UploadedDocument[] = [
+  {
+    id: 'doc-1',
+    caseId: 'case-1',
+    filePath: '',
+    fileName: 'will-scan.pdf',
+    fileSize: 2048,
+    mimeType: 'application/pdf',
+    uploadedAt: '2024-01-03T10:00:00.000Z',
+    documentType: 'Will',
+    category: 'Legal',
+    userLabel: 'Signed will',
+  },
+];
+
+/** Fixture data and formatted values that are shown as-is in every locale. */
+function fixtureText(): string[] {
+  return [
+    profile.deceasedName!,
+    profile.userName!,
+    ...cases.map(c => c.label),
+    ...contacts.flatMap(c => [c.name, c.organization!, c.phone!, c.email!, c.notes!]),
+    ...documents.flatMap(d => [d.fileName, d.userLabel!]),
+    ...SUPPORTED_LOCALES.map(locale => locale.name),
+    ...[...cases.flatMap(c => [c.createdAt, c.updatedAt]), ...documents.map(d => d.uploadedAt), profile.dateOfDeath!]
+      .flatMap(date => [formatDate(date), formatDate(date, 'short'), formatDate(date, 'long')]),
+  ].sort((a, b) => b.length - a.length);
+}
+
+/** Text in `container` that is not pseudo-localized: ASCII letters outside ⟦…⟧ and the fixture data. */
+function untranslatedText(container: HTMLElement): string[] {
+  const fixtures = fixtureText();
+  const pieces: string[] = [];
+  const walker = document.createTreeWalker(container, NodeFilter.SHOW_TEXT);
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const parent = node.parentElement;
+    if (parent?.closest('textarea, script, style')) continue;
+    pieces.push(node.textContent ?? '');
+  }
+  container.querySelectorAll('[placeholder], [title], [aria-label]').forEach(element => {
+    for (const name of ['placeholder', 'title', 'aria-label']) {
+      const value = element.getAttribute(name);
+      if (value) pieces.push(value);
+    }
+  });
+  return pieces.filter(text => {
+    let rest = text.replace(/⟦[^⟧]*⟧/g, ' ');
+    for (const fixture of fixtures) rest = rest.split(fixture).join(' ');
+    return /[A-Za-z]/.test(rest);
+  });
+}
+
+function makePlan(): AftercarePlan {
+  const { tasks } = generateAftercarePlan({ profile, vaultRecords: [] });
+  return { id: 'plan-1', caseId: 'case-1', profile, tasks, createdAt: '2024-01-01', lastUpdatedAt: '2024-01-01' };
+}
+
+beforeEach(() => {
+  setLocale('en-XA');
+});
+
+afterEach(() => {
+  setLocale('en');
+  localStorage.clear();
+});
+
+describe('Pseudo-locale rendering', () => {
+  it('should flag text that skipped the catalogs', () => {
+    const { container } = render(
+      <p title="Plain title">
+        ⟦Ţŕáñšĺáţéð⟧ <span>Forgotten string</span> {contacts[0].name}
+      </p>
+    );
+    expect(untranslatedText(container)).toEqual(['Forgotten string', 'Plain title']);
+  });
+
+  it('should translate the Focus screen for a first visit and for a plan in progress', () => {
+    const first = render(<FocusView plan={null} onViewFullChecklist={() => {}} />);
+    expect(untranslatedText(first.container)).toEqual([]);
+    first.unmount();
+
+    const { container } = render(
+      <FocusView
+        plan={makePlan()}
+        onViewFullChecklist={() => {}}
+        contacts={contacts}
+        onContactsChange={() => {}}
+        onOpenContacts={() => {}}
+      />
+    );
+    expect(untranslatedText(container)).toEqual([]);
+  });
+
+  it('should translate the checklist', () => {
+    const { container } = render(
+      <ChecklistView
+        plan={makePlan()}
+        checklist={generateExecutorChecklist(profile)}
+        onPlanUpdate={() => {}}
+        onReturnToFocus={() => {}}
+      />
+    );
+    expect(untranslatedText(container)).toEqual([]);
+  });
+
+  it('should translate the cases screen', async () => {
+    const { container, findAllByText } = render(
+      <CasesView
+        cases={cases}
+        activeCaseId="case-1"
+        onRefreshCases={() => {}}
+        onSwitchCase={() => {}}
+        onExportCase={() => {}}
+        onArchiveCase={() => {}}
+        onDeleteCase={() => {}}
+        onOpenCloseCaseFlow={() => {}}
+      />
+    );
+    await findAllByText(cases[0].label);
+    expect(untranslatedText(container)).toEqual([]);
+  });
+
+  it('should translate the documents screen', () => {
+    const { container } = render(
+      <DocumentsView documents={documents} onDocumentsChange={() => {}} profile={profile} />
+    );
+    expect(untranslatedText(container)).toEqual([]);
+  });
+
+  it('should translate the settings screen', () => {
+    const { container } = render(
+      <SettingsView
+        profile={profile}
+        mode="STANDALONE"
+        onProfileUpdate={() => {}}
+        onRegenerateTasks={async () => null}
+        onStartOver={() => {}}
+        locale="en-XA"
+        onLocaleChange={() => {}}
+      />
+    );
+    expect(untranslatedText(container)).toEqual([]);
+  });
+
+  it('should translate the scripts and letters screen', async () => {
+    const { container } = render(
+      <ScriptsView profile={profile} contacts={contacts} tasks={makePlan().tasks} onContactsChange={() => {}} />
+    );
+    await waitFor(() => expect(container.textContent).not.toBe(''));
+    expect(untranslatedText(container)).toEqual([]);
+  });
+
+  it('should translate the contacts screen with and without contacts', () => {
+    const empty = render(<ContactsView contacts={[]} onContactsChange={() => {}} />);
+    expect(untranslatedText(empty.container)).toEqual([]);
+    empty.unmount();
+
+    const { container } = render(<ContactsView contacts={contacts} onContactsChange={() => {}} />);
+    expect(untranslatedText(container)).toEqual([]);
+  });
+});
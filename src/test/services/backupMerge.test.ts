@@ -0,0 +1,147 @@
+/**
+ * Backup Merge Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffBackup, planRestore, type LocalSnapshot } from '../../services/backupMerge';
+import type { BackupData, BackupCaseData } from '../../services/backupService';
+import type { ContactEntry, PersonalScriptTemplate } from '../../types';
+
+const contact = (id: string, lastContactedAt: string, name = id): ContactEntry => ({
+  id,
+  caseId: 'case-a',
+  type: 'BANK',
+  name,
+  lastContactedAt,
+});
+
+const template = (id: string, updatedAt: string, title = id): PersonalScriptTemplate => ({
+  id,
+  type: 'BANK_NOTIFICATION',
+  category: 'LETTER',
+  title,
+  description: '',
+  bodyTemplate: 'Dear {{institutionName}}',
+  placeholders: ['institutionName'],
+  createdAt: '2024-01-01',
+  updatedAt,
+});
+
+const caseData = (contacts: ContactEntry[], extra: Partial<BackupCaseData> = {}): BackupCaseData => ({
+  case: { id: 'case-a', label: 'A', status: 'active', createdAt: '2024-01-01', updatedAt: '2024-01-01' },
+  plan: null,
+  documents: [],
+  contacts,
+  checklist: [],
+  ...extra,
+});
+
+const backupOf = (cases: BackupCaseData[]): BackupData => ({
+  version: '2.0.0',
+  exportDate: '2024-03-01',
+  activeCaseId: 'case-a',
+  cases,
+  settings: {},
+  manualRecords: [],
+  scriptNotes: {},
+  metadata: {
+    caseCount: cases.length,
+    archivedCaseCount: 0,
+    taskCount: 0,
+    documentCount: 0,
+    contactCount: 0,
+    checklistItemCount: 0,
+    manualRecordCount: 0,
+  },
+});
+
+describe('Backup Merge', () => {
+  // local: c1 newer here, c2 older here, c3 only here; backup: c4 only in backup
+  const local: LocalSnapshot = {
+    cases: [
+      caseData([
+        contact('c1', '2024-05-01', 'Local newer'),
+        contact('c2', '2024-01-01', 'Local older'),
+        contact('c3', '2024-01-01'),
+      ]),
+      { ...caseData([]), case: { id: 'case-b', label: 'B', status: 'active', createdAt: '2024-01-01', updatedAt: '2024-01-01' } },
+    ],
+    settings: { theme: 'dark' },
+    manualRecords: [],
+    scriptNotes: { bank: 'local note' },
+    personalTemplates: [template('t1', '2024-05-01', 'Local newer')],
+  };
+  const backup = backupOf([
+    caseData([
+      contact('c1', '2024-02-01', 'Backup older'),
+      contact('c2', '2024-02-01', 'Backup newer'),
+      contact('c4', '2024-02-01'),
+    ]),
+  ]);
+
+  describe('diffBackup', () => {
+    it('should classify items and report which side is newer', () => {
+      const preview = diffBackup(local, backup);
+
+      expect(preview.entities.contacts).toMatchObject({ added: 1, changed: 2, removed: 1, backupNewer: 1, localNewer: 1 });
+      expect(preview.entities.cases).toMatchObject({ added: 0, changed: 0, unchanged: 1 });
+      expect(preview.untouchedCaseCount).toBe(1);
+      expect(preview.items.find((i) => i.id === 'c1')).toMatchObject({ kind: 'changed', newer: 'local' });
+    });
+  });
+
+  describe('planRestore', () => {
+    const names = (mode: 'replace' | 'merge' | 'add-only') =>
+      planRestore(local, backup, mode).cases[0].contacts.map((c) => `${c.id}:${c.name}`).sort();
+
+    it('should take the backup as-is in replace mode', () => {
+      expect(names('replace')).toEqual(['c1:Backup older', 'c2:Backup newer', 'c4:c4']);
+      expect(planRestore(local, backup, 'replace').actions.contacts).toMatchObject({ added: 1, updated: 2, removed: 1 });
+    });
+
+    it('should keep the newer copy in merge mode', () => {
+      expect(names('merge')).toEqual(['c1:Local newer', 'c2:Backup newer', 'c3:c3', 'c4:c4']);
+    });
+
+    it('should only add missing items in add-only mode', () => {
+      expect(names('add-only')).toEqual(['c1:Local newer', 'c2:Local older', 'c3:c3', 'c4:c4']);
+      expect(planRestore(local, backup, 'add-only').actions.contacts).toMatchObject({ added: 1, updated: 0, removed: 0 });
+    });
+
+    it('should keep local app data when the backup section is empty', () => {
+      const plan = planRestore(local, backup, 'replace');
+      expect(plan.settings).toEqual({ theme: 'dark' });
+      expect(plan.scriptNotes).toEqual({ bank: 'local note' });
+      expect(plan.personalTemplates).toEqual(local.personalTemplates);
+    });
+
+    it('should diff and merge personal templates by id', () => {
+      const withTemplates = { ...backup, personalTemplates: [template('t1', '2024-02-01', 'Backup older'), template('t2', '2024-02-01')] };
+      const titles = (mode: 'replace' | 'merge' | 'add-only') =>
+        planRestore(local, withTemplates, mode).personalTemplates.map((t) => `${t.id}:${t.title}`);
+
+      expect(diffBackup(local, withTemplates).entities.personalTemplates).toMatchObject({ added: 1, changed: 1, localNewer: 1 });
+      expect(titles('replace')).toEqual(['t1:Backup older', 't2:t2']);
+      expect(titles('merge')).toEqual(['t1:Local newer', 't2:t2']);
+      expect(planRestore(local, withTemplates, 'add-only').actions.personalTemplates).toMatchObject({ added: 1, updated: 0 });
+    });
+
+    it('should remove the local plan in replace mode when the backup has none', () => {
+      const withPlan: LocalSnapshot = {
+        ...local,
+        cases: [caseData([], {
+          plan: {
+            id: 'p1',
+            caseId: 'case-a',
+            profile: { id: 'x', hasConfirmedDisclaimer: true, createdAt: '2024-01-01', updatedAt: '2024-01-01' },
+            tasks: [],
+            createdAt: '2024-01-01',
+            lastUpdatedAt: '2024-01-01',
+          },
+        })],
+      };
+      expect(planRestore(withPlan, backupOf([caseData([])]), 'replace').cases[0].plan).toBeNull();
+      expect(planRestore(withPlan, backupOf([caseData([])]), 'merge').cases[0].plan?.id).toBe('p1');
+    });
+  });
+});
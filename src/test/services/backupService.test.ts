@@ -3,33 +3,75 @@
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { exportBackup, importBackup } from '../../services/backupService';
+import { exportBackup, exportCaseToJson, importBackup, importCaseFromJson } from '../../services/backupService';
 import { storageService } from '../../services/storageService';
-import type { AftercareProfile, AftercarePlan } from '../../types';
+import { documentBlobStore } from '../../services/documentBlobStore';
+import type { AftercareProfile, AftercarePlan, PersonalScriptTemplate } from '../../types';
 
 // Mock storage service
 vi.mock('../../services/storageService', () => ({
   storageService: {
-    loadProfile: vi.fn(),
-    loadPlan: vi.fn(),
-    loadDocuments: vi.fn(),
-    loadContacts: vi.fn(),
-    loadChecklist: vi.fn(),
-    saveProfile: vi.fn(),
-    savePlan: vi.fn(),
-    saveDocuments: vi.fn(),
-    saveContacts: vi.fn(),
-    saveChecklist: vi.fn(),
+    getActiveCaseId: vi.fn(),
+    setActiveCaseId: vi.fn(),
+    loadPlansByCase: vi.fn(),
+    loadPlanForCase: vi.fn(),
+    loadAllDocuments: vi.fn(),
+    loadAllContacts: vi.fn(),
+    loadAllChecklist: vi.fn(),
+    loadAllCorrespondence: vi.fn(),
+    loadSettings: vi.fn(),
+    saveSettings: vi.fn(),
+    loadScriptNotes: vi.fn(),
+    saveScriptNotes: vi.fn(),
+    loadPersonalTemplates: vi.fn(),
+    savePersonalTemplates: vi.fn(),
+    loadCases: vi.fn(),
+    saveCases: vi.fn(),
+    createCase: vi.fn(),
+    updateCase: vi.fn(),
+    savePlanForCase: vi.fn(),
+    deletePlanForCase: vi.fn(),
+    saveDocumentsForCase: vi.fn(),
+    saveContactsForCase: vi.fn(),
+    saveChecklistForCase: vi.fn(),
+    saveCorrespondenceForCase: vi.fn(),
   },
 }));
 
+vi.mock('../../services/documentBlobStore', () => ({
+  documentBlobStore: {
+    loadBlob: vi.fn(async () => null),
+    saveBlob: vi.fn(async (caseId: string, documentId: string) => `${caseId}/${documentId}`),
+    deleteBlob: vi.fn(),
+  },
+}));
+
+vi.mock('../../services/llvIntegration', () => ({
+  llvIntegration: {
+    loadManualRecords: vi.fn(() => []),
+    saveManualRecords: vi.fn(),
+  },
+}));
+
+const personalTemplate: PersonalScriptTemplate = {
+  id: 'personal_1',
+  type: 'BANK_NOTIFICATION',
+  category: 'LETTER',
+  title: 'Bank letter (my copy)',
+  description: '',
+  bodyTemplate: 'Dear {{institutionName}}',
+  placeholders: ['institutionName'],
+  createdAt: '2024-01-01',
+  updatedAt: '2024-01-01',
+};
+
 describe('Backup Service', () => {
   beforeEach(() => {
     vi.clearAllMocks();
   });
 
   describe('exportBackup', () => {
-    it('should export all data to JSON', async () => {
+    it('should export every case with its plan and collections', async () => {
       const mockProfile: AftercareProfile = {
         id: 'test-profile',
         hasConfirmedDisclaimer: true,
@@ -39,38 +81,55 @@ describe('Backup Service', () => {
 
       const mockPlan: AftercarePlan = {
         id: 'test-plan',
+        caseId: 'case-a',
         profile: mockProfile,
         tasks: [],
         createdAt: '2024-01-01',
         lastUpdatedAt: '2024-01-01',
       };
 
-      vi.mocked(storageService.loadProfile).mockResolvedValue(mockProfile);
-      vi.mocked(storageService.loadPlan).mockResolvedValue(mockPlan);
-      vi.mocked(storageService.loadDocuments).mockResolvedValue([]);
-      vi.mocked(storageService.loadContacts).mockResolvedValue([]);
-      vi.mocked(storageService.loadChecklist).mockResolvedValue([]);
+      vi.mocked(storageService.loadCases).mockResolvedValue([
+        { id: 'case-a', label: 'A', status: 'active', createdAt: '2024-01-01', updatedAt: '2024-01-01' },
+        { id: 'case-b', label: 'B', status: 'archived', createdAt: '2024-01-01', updatedAt: '2024-01-01' },
+      ]);
+      vi.mocked(storageService.loadPlansByCase).mockResolvedValue({ 'case-a': mockPlan });
+      vi.mocked(storageService.loadAllDocuments).mockResolvedValue([]);
+      vi.mocked(storageService.loadAllContacts).mockResolvedValue([
+        { id: 'c1', caseId: 'case-b', type: 'BANK', name: 'Bank' },
+      ]);
+      vi.mocked(storageService.loadAllChecklist).mockResolvedValue([]);
+      vi.mocked(storageService.loadSettings).mockResolvedValue({ theme: 'dark' });
+      vi.mocked(storageService.loadScriptNotes).mockReturnValue({ 'bank-1': 'Called Tuesday' });
+      vi.mocked(storageService.loadPersonalTemplates).mockResolvedValue([personalTemplate]);
+      vi.mocked(storageService.getActiveCaseId).mockReturnValue('case-a');
 
       const backupJson = await exportBackup();
       const backup = JSON.parse(backupJson);
 
-      expect(backup.version).toBe('1.0.0');
-      expect(backup.profile).toEqual(mockProfile);
-      expect(backup.plan).toEqual(mockPlan);
-      expect(backup.metadata.profileExists).toBe(true);
-      expect(backup.metadata.planExists).toBe(true);
+      expect(backup.version).toBe('2.0.0');
+      expect(backup.activeCaseId).toBe('case-a');
+      expect(backup.cases).toHaveLength(2);
+      expect(backup.cases[0].plan).toEqual(mockPlan);
+      expect(backup.cases[1].plan).toBeNull();
+      expect(backup.cases[1].contacts).toHaveLength(1);
+      expect(backup.settings).toEqual({ theme: 'dark' });
+      expect(backup.scriptNotes).toEqual({ 'bank-1': 'Called Tuesday' });
+      expect(backup.personalTemplates).toEqual([personalTemplate]);
+      expect(backup.metadata).toMatchObject({ archivedCaseCount: 1, personalTemplateCount: 1 });
+      expect(backup.cases[0].files).toEqual({});
     });
   });
 
   describe('importBackup', () => {
-    it('should import valid backup', async () => {
+    it('should migrate a v1 backup into a single case', async () => {
+      vi.mocked(storageService.loadCases).mockResolvedValue([]);
       const backupJson = JSON.stringify({
         version: '1.0.0',
-        exportDate: '2024-01-01',
+        exportDate: '2024-01-01T10:00:00.000Z',
         profile: { id: 'test', hasConfirmedDisclaimer: true, createdAt: '2024-01-01', updatedAt: '2024-01-01' },
         plan: null,
         documents: [],
-        contacts: [],
+        contacts: [{ id: 'c1', type: 'BANK', name: 'Bank' }],
         checklist: [],
         metadata: {},
       });
@@ -78,7 +137,109 @@ describe('Backup Service', () => {
       const result = await importBackup(backupJson);
 
       expect(result.success).toBe(true);
-      expect(vi.mocked(storageService.saveProfile)).toHaveBeenCalled();
+      expect(result.sourceVersion).toBe('1.0.0');
+      expect(result.imported.cases).toBe(1);
+      expect(result.imported.profile).toBe(true);
+      const savedCases = vi.mocked(storageService.saveCases).mock.calls[0][0];
+      expect(savedCases).toHaveLength(1);
+      expect(savedCases[0].label).toBe('Restored backup 2024-01-01');
+      const caseId = savedCases[0].id;
+      expect(vi.mocked(storageService.savePlanForCase).mock.calls[0][0].caseId).toBe(caseId);
+      expect(vi.mocked(storageService.saveContactsForCase)).toHaveBeenCalledWith(
+        caseId,
+        [expect.objectContaining({ id: 'c1', caseId })]
+      );
+      expect(vi.mocked(storageService.setActiveCaseId)).toHaveBeenCalledWith(caseId);
+    });
+
+    it('should keep the local label of the case a v1 backup restores', async () => {
+      const local = { id: 'case-1', label: 'Mom', notes: 'Estate of Ann', status: 'active' as const, createdAt: '2024-01-01', updatedAt: '2024-01-01' };
+      vi.mocked(storageService.loadCases).mockResolvedValue([local]);
+
+      await importBackup(JSON.stringify({
+        version: '1.0.0',
+        exportDate: '2024-03-01T10:00:00.000Z',
+        profile: null,
+        plan: { id: 'plan', caseId: 'case-1', profile: { id: 'p', hasConfirmedDisclaimer: true, createdAt: '2024-01-01', updatedAt: '2024-01-01' }, tasks: [], createdAt: '2024-01-01', lastUpdatedAt: '2024-01-01' },
+        documents: [],
+        contacts: [],
+        checklist: [],
+        metadata: {},
+      }));
+
+      const savedCases = vi.mocked(storageService.saveCases).mock.calls[0][0];
+      expect(savedCases).toEqual([expect.objectContaining({ id: 'case-1', label: 'Mom', notes: 'Estate of Ann' })]);
+    });
+
+    it('should restore every case of a v2 backup and keep other local cases', async () => {
+      const local = { id: 'local', label: 'Local', status: 'active' as const, createdAt: '2024-01-01', updatedAt: '2024-01-01' };
+      const fromBackup = { id: 'case-a', label: 'A', status: 'archived' as const, createdAt: '2024-01-01', updatedAt: '2024-01-01' };
+      vi.mocked(storageService.loadCases).mockResolvedValue([local]);
+      vi.mocked(storageService.loadPersonalTemplates).mockResolvedValue([]);
+
+      const result = await importBackup(JSON.stringify({
+        version: '2.0.0',
+        exportDate: '2024-01-01',
+        activeCaseId: 'case-a',
+        cases: [{ case: fromBackup, plan: null, documents: [], contacts: [], checklist: [] }],
+        settings: { theme: 'dark' },
+        manualRecords: [],
+        scriptNotes: {},
+        personalTemplates: [personalTemplate],
+        metadata: {},
+      }));
+
+      expect(result.success).toBe(true);
+      expect(result.imported).toMatchObject({ settings: true, personalTemplates: 1 });
+      expect(vi.mocked(storageService.savePersonalTemplates)).toHaveBeenCalledWith([personalTemplate]);
+      expect(vi.mocked(storageService.saveCases)).toHaveBeenCalledWith([local, fromBackup]);
+      expect(vi.mocked(storageService.saveSettings)).toHaveBeenCalledWith({ theme: 'dark' });
+      expect(vi.mocked(storageService.setActiveCaseId)).toHaveBeenCalledWith('case-a');
+    });
+
+    it('should restore document files from the backup or keep the ones on this device', async () => {
+      const fromBackup = { id: 'case-a', label: 'A', status: 'active' as const, createdAt: '2024-01-01', updatedAt: '2024-01-01' };
+      const doc = (id: string) => ({ id, caseId: 'case-a', filePath: `case-a/${id}`, fileName: `${id}.pdf`, fileSize: 1, uploadedAt: '2024-01-01' });
+      vi.mocked(storageService.loadCases).mockResolvedValue([fromBackup]);
+      vi.mocked(storageService.loadAllDocuments).mockResolvedValue([doc('local')]);
+
+      const result = await importBackup(JSON.stringify({
+        version: '2.0.0',
+        exportDate: '2024-01-01',
+        activeCaseId: 'case-a',
+        cases: [{ case: fromBackup, plan: null, documents: [doc('embedded'), doc('local'), doc('lost')], contacts: [], checklist: [], files: { embedded: btoa('pdf') } }],
+        settings: {},
+        manualRecords: [],
+        scriptNotes: {},
+        metadata: {},
+      }));
+
+      expect(result.imported).toMatchObject({ documents: 3, missingFiles: 1 });
+      expect(vi.mocked(documentBlobStore.saveBlob).mock.calls.map(([caseId, id]) => [caseId, id])).toEqual([['case-a', 'embedded']]);
+      expect(vi.mocked(storageService.saveDocumentsForCase)).toHaveBeenCalledWith('case-a', [
+        expect.objectContaining({ id: 'embedded', filePath: 'case-a/embedded' }),
+        expect.objectContaining({ id: 'local', filePath: 'case-a/local' }),
+        expect.objectContaining({ id: 'lost', filePath: '' }),
+      ]);
+    });
+
+    it('should delete the files of local documents a replace restore removes', async () => {
+      const fromBackup = { id: 'case-a', label: 'A', status: 'active' as const, createdAt: '2024-01-01', updatedAt: '2024-01-01' };
+      const doc = (id: string, caseId = 'case-a') => ({ id, caseId, filePath: `${caseId}/${id}`, fileName: `${id}.pdf`, fileSize: 1, uploadedAt: '2024-01-01' });
+      vi.mocked(storageService.loadCases).mockResolvedValue([fromBackup]);
+      vi.mocked(storageService.loadAllDocuments).mockResolvedValue([doc('kept'), doc('removed'), doc('elsewhere', 'case-b')]);
+
+      await importBackup(JSON.stringify({
+        version: '2.0.0',
+        exportDate: '2024-01-01',
+        cases: [{ case: fromBackup, plan: null, documents: [doc('kept')], contacts: [], checklist: [] }],
+        settings: {},
+        manualRecords: [],
+        scriptNotes: {},
+        metadata: {},
+      }), 'replace');
+
+      expect(vi.mocked(documentBlobStore.deleteBlob).mock.calls).toEqual([['case-a', 'removed']]);
     });
 
     it('should reject invalid backup format', async () => {
@@ -88,5 +249,154 @@ describe('Backup Service', () => {
       expect(result.error).toContain('Invalid backup file format');
     });
   });
-});
 
+  describe('importCaseFromJson', () => {
+    const caseExport = {
+      version: '1.0.0',
+      exportDate: '2024-01-01',
+      caseId: 'old-case',
+      caseLabel: 'Jane Doe 2024',
+      profile: null,
+      plan: {
+        id: 'plan-1',
+        caseId: 'old-case',
+        profile: { id: 'p', hasConfirmedDisclaimer: true, createdAt: '2024-01-01', updatedAt: '2024-01-01' },
+        tasks: [{ id: 't1' }, { id: 't2' }],
+        createdAt: '2024-01-01',
+        lastUpdatedAt: '2024-01-01',
+      },
+      documents: [{ id: 'd1', caseId: 'old-case', filePath: '', fileName: 'will.pdf', fileSize: 10, uploadedAt: '2024-01-01' }],
+      contacts: [{ id: 'c1', caseId: 'old-case', type: 'BANK', name: 'Bank' }],
+      checklist: [],
+      metadata: {},
+    };
+
+    it('should create a new case and re-key all collections', async () => {
+      vi.mocked(storageService.createCase).mockResolvedValue({
+        id: 'new-case',
+        label: 'Jane Doe 2024',
+        status: 'active',
+        createdAt: '2024-02-01',
+        updatedAt: '2024-02-01',
+      });
+
+      const result = await importCaseFromJson(JSON.stringify({
+        ...caseExport,
+        correspondence: [{ id: 'e1', caseId: 'old-case', contactId: 'c1', recipientName: 'Bank', method: 'MAIL', sentDate: '2024-01-02', status: 'SENT' }],
+      }));
+
+      expect(result.success).toBe(true);
+      expect(result.caseId).toBe('new-case');
+      expect(result.imported).toMatchObject({ plan: true, tasks: 2, documents: 1, contacts: 1, checklist: 0, correspondence: 1 });
+      expect(vi.mocked(storageService.saveCorrespondenceForCase)).toHaveBeenCalledWith(
+        'new-case',
+        [expect.objectContaining({ id: 'e1', caseId: 'new-case', contactId: 'c1' })]
+      );
+      expect(vi.mocked(storageService.savePlanForCase).mock.calls[0][0].caseId).toBe('new-case');
+      expect(vi.mocked(storageService.saveDocumentsForCase)).toHaveBeenCalledWith(
+        'new-case',
+        [expect.objectContaining({ id: 'd1', caseId: 'new-case' })]
+      );
+      expect(vi.mocked(storageService.saveContactsForCase)).toHaveBeenCalledWith(
+        'new-case',
+        [expect.objectContaining({ id: 'c1', caseId: 'new-case' })]
+      );
+    });
+
+    it('should restore into a chosen existing case', async () => {
+      const existing = { id: 'existing', label: 'Existing', status: 'active' as const, createdAt: '2024-01-01', updatedAt: '2024-01-01' };
+      vi.mocked(storageService.loadCases).mockResolvedValue([existing]);
+
+      const result = await importCaseFromJson(JSON.stringify(caseExport), { targetCaseId: 'existing' });
+
+      expect(result.success).toBe(true);
+      expect(result.caseId).toBe('existing');
+      expect(vi.mocked(storageService.createCase)).not.toHaveBeenCalled();
+      expect(vi.mocked(storageService.updateCase)).toHaveBeenCalledWith(existing);
+    });
+
+    it('should clear the plan and correspondence of a replaced case the file has none of', async () => {
+      const existing = { id: 'existing', label: 'Existing', status: 'active' as const, createdAt: '2024-01-01', updatedAt: '2024-01-01' };
+      vi.mocked(storageService.loadCases).mockResolvedValue([existing]);
+
+      const result = await importCaseFromJson(JSON.stringify({ ...caseExport, plan: null }), { targetCaseId: 'existing' });
+
+      expect(result.imported.plan).toBe(false);
+      expect(vi.mocked(storageService.savePlanForCase)).not.toHaveBeenCalled();
+      expect(vi.mocked(storageService.deletePlanForCase)).toHaveBeenCalledWith('existing');
+      expect(vi.mocked(storageService.saveCorrespondenceForCase)).toHaveBeenCalledWith('existing', []);
+    });
+
+    it('should embed document files in the export', async () => {
+      vi.mocked(storageService.loadPlanForCase).mockResolvedValue(null);
+      vi.mocked(storageService.loadAllDocuments).mockResolvedValue([
+        { id: 'd1', caseId: 'case-a', filePath: 'case-a/d1', fileName: 'will.pdf', fileSize: 3, uploadedAt: '2024-01-01' },
+        { id: 'd2', caseId: 'case-a', filePath: '', fileName: 'note.txt', fileSize: 0, uploadedAt: '2024-01-01' },
+      ]);
+      vi.mocked(storageService.loadAllContacts).mockResolvedValue([]);
+      vi.mocked(storageService.loadAllChecklist).mockResolvedValue([]);
+      vi.mocked(storageService.loadAllCorrespondence).mockResolvedValue([
+        { id: 'e1', caseId: 'case-a', textSnapshot: '', recipientName: 'Bank', method: 'MAIL', sentDate: '2024-01-02', status: 'SENT', createdAt: '2024-01-02', updatedAt: '2024-01-02' },
+        { id: 'e2', caseId: 'case-b', textSnapshot: '', recipientName: 'Other', method: 'EMAIL', sentDate: '2024-01-02', status: 'SENT', createdAt: '2024-01-02', updatedAt: '2024-01-02' },
+      ]);
+      // jsdom's Blob has no arrayBuffer()
+      const pdf = { arrayBuffer: async () => new TextEncoder().encode('pdf').buffer } as unknown as Blob;
+      vi.mocked(documentBlobStore.loadBlob).mockResolvedValueOnce(pdf);
+
+      const data = JSON.parse(await exportCaseToJson('case-a', 'A'));
+
+      expect(data.files).toEqual({ d1: btoa('pdf') });
+      expect(data.correspondence.map((e: { id: string }) => e.id)).toEqual(['e1']);
+      expect(data.metadata).toMatchObject({ documentFileCount: 1, correspondenceCount: 1 });
+    });
+
+    it('should restore embedded files and report the ones not included', async () => {
+      vi.mocked(storageService.createCase).mockResolvedValue({
+        id: 'new-case',
+        label: 'Jane Doe 2024',
+        status: 'active',
+        createdAt: '2024-02-01',
+        updatedAt: '2024-02-01',
+      });
+      const withFiles = {
+        ...caseExport,
+        documents: [
+          { id: 'd1', caseId: 'old-case', filePath: 'old-case/d1', fileName: 'will.pdf', fileSize: 3, uploadedAt: '2024-01-01' },
+          { id: 'd2', caseId: 'old-case', filePath: 'old-case/d2', fileName: 'deed.pdf', fileSize: 3, uploadedAt: '2024-01-01' },
+        ],
+        files: { d1: btoa('pdf') },
+      };
+
+      const result = await importCaseFromJson(JSON.stringify(withFiles));
+
+      expect(result.imported).toMatchObject({ documents: 2, documentFiles: 1, missingFiles: 1 });
+      const [caseId, documentId, contents] = vi.mocked(documentBlobStore.saveBlob).mock.calls[0];
+      expect([caseId, documentId, new TextDecoder().decode(contents as ArrayBuffer)]).toEqual(['new-case', 'd1', 'pdf']);
+      expect(vi.mocked(storageService.saveDocumentsForCase)).toHaveBeenCalledWith('new-case', [
+        expect.objectContaining({ id: 'd1', filePath: 'new-case/d1' }),
+        expect.objectContaining({ id: 'd2', filePath: '' }),
+      ]);
+    });
+
+    it('should delete the files of documents replaced in an existing case', async () => {
+      const existing = { id: 'existing', label: 'Existing', status: 'active' as const, createdAt: '2024-01-01', updatedAt: '2024-01-01' };
+      vi.mocked(storageService.loadCases).mockResolvedValue([existing]);
+      vi.mocked(storageService.loadAllDocuments).mockResolvedValue([
+        { id: 'old-doc', caseId: 'existing', filePath: 'existing/old-doc', fileName: 'old.pdf', fileSize: 1, uploadedAt: '2024-01-01' },
+        { id: 'other', caseId: 'other-case', filePath: 'other-case/other', fileName: 'other.pdf', fileSize: 1, uploadedAt: '2024-01-01' },
+      ]);
+
+      await importCaseFromJson(JSON.stringify(caseExport), { targetCaseId: 'existing' });
+
+      expect(vi.mocked(documentBlobStore.deleteBlob).mock.calls).toEqual([['existing', 'old-doc']]);
+    });
+
+    it('should reject a full backup file', async () => {
+      const result = await importCaseFromJson(JSON.stringify({ version: '1.0.0', exportDate: '2024-01-01', documents: [] }));
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('not a case export');
+      expect(vi.mocked(storageService.createCase)).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Contact Follow-Ups Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  addInteraction,
+  getFollowUpsDue,
+  getInteractionTimeline,
+  removeInteraction,
+  setFollowUp,
+  snoozeFollowUp,
+  validateInteractionInput,
+} from '../../services/contactFollowUps';
+import type { ContactEntry, ContactInteractionInput } from '../../types';
+
+const contact: ContactEntry = { id: 'c1', caseId: 'case', type: 'BANK', name: 'First Bank', contactStatus: 'NOT_CONTACTED' };
+
+const call: ContactInteractionInput = {
+  type: 'CALL',
+  date: '2025-04-01',
+  summary: ' Asked for the claim form ',
+  spokeWith: ' Dana ',
+  referenceNumber: '',
+};
+
+const today = new Date(2025, 3, 10);
+
+describe('Contact Follow-Ups', () => {
+  it('should validate interactions before saving', () => {
+    expect(validateInteractionInput(call)).toBeNull();
+    expect(validateInteractionInput({ ...call, date: '' })).toBe('Enter the date it happened.');
+    expect(validateInteractionInput({ ...call, summary: ' ' })).toBe('Add a short summary.');
+    expect(validateInteractionInput(call, 'next week')).toBe('The follow-up date is not a valid date.');
+  });
+
+  it('should record interactions on the contact', () => {
+    const updated = addInteraction(contact, call, '2025-04-15');
+
+    expect(updated.interactions).toHaveLength(1);
+    expect(updated.interactions![0]).toMatchObject({ type: 'CALL', summary: 'Asked for the claim form', spokeWith: 'Dana', referenceNumber: undefined });
+    expect(updated).toMatchObject({ lastContactedAt: '2025-04-01', contactStatus: 'IN_PROGRESS', nextFollowUpDate: '2025-04-15' });
+
+    const older = addInteraction({ ...updated, contactStatus: 'COMPLETED' }, { ...call, type: 'LETTER', date: '2025-03-20' });
+    expect(older).toMatchObject({ lastContactedAt: '2025-04-01', contactStatus: 'COMPLETED', nextFollowUpDate: '2025-04-15' });
+    expect(getInteractionTimeline(older).map(interaction => interaction.type)).toEqual(['CALL', 'LETTER']);
+
+    const removed = removeInteraction(older, updated.interactions![0].id);
+    expect(removed.interactions!.map(interaction => interaction.type)).toEqual(['LETTER']);
+  });
+
+  it('should list follow-ups due this week, overdue first', () => {
+    const contacts: ContactEntry[] = [
+      { ...contact, id: 'later', name: 'Later', nextFollowUpDate: '2025-04-30' },
+      { ...contact, id: 'soon', name: 'Soon', nextFollowUpDate: '2025-04-14' },
+      { ...contact, id: 'late', name: 'Late', nextFollowUpDate: '2025-04-02' },
+      { ...contact, id: 'today', name: 'Today', nextFollowUpDate: '2025-04-10' },
+      { ...contact, id: 'none', name: 'None' },
+    ];
+
+    expect(getFollowUpsDue(contacts, today).map(({ contact: due, overdue }) => [due.id, overdue])).toEqual([
+      ['late', true],
+      ['today', false],
+      ['soon', false],
+    ]);
+  });
+
+  it('should hide snoozed follow-ups until the snooze ends', () => {
+    const snoozed = snoozeFollowUp({ ...contact, nextFollowUpDate: '2025-04-02' }, 3, today);
+    expect(snoozed).toMatchObject({ nextFollowUpDate: '2025-04-02', followUpSnoozedUntil: '2025-04-13' });
+
+    expect(getFollowUpsDue([snoozed], today)).toEqual([]);
+    expect(getFollowUpsDue([snoozed], new Date(2025, 3, 13))).toEqual([{ contact: snoozed, dueDate: '2025-04-13', overdue: false }]);
+    expect(getFollowUpsDue([snoozed], new Date(2025, 3, 14))[0].overdue).toBe(true);
+
+    expect(setFollowUp(snoozed, undefined)).toMatchObject({ nextFollowUpDate: undefined, followUpSnoozedUntil: undefined });
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Contact Import Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyColumnMapping,
+  applyContactImport,
+  buildImportCandidates,
+  exportContactsToCsv,
+  exportContactsToVCard,
+  findDuplicateContact,
+  guessColumnMapping,
+  isVCard,
+  mapContactCategory,
+  parseCsv,
+  parseVCards,
+  validateColumnMapping,
+} from '../../services/contactImport';
+import type { ContactEntry, ContactImportDraft } from '../../types';
+
+const existing: ContactEntry[] = [
+  { id: 'c1', caseId: 'case', type: 'BANK', role: 'BANK', name: 'Dana Officer', organization: 'First Bank', phone: '(555) 010-0100' },
+  { id: 'c2', caseId: 'case', type: 'OTHER', role: 'ATTORNEY', name: 'Lee Law', email: 'office@leelaw.example' },
+];
+
+const vcf = [
+  'BEGIN:VCARD',
+  'VERSION:3.0',
+  'FN:Morgan Funeral Home',
+  'ORG:Morgan Funeral Home',
+  'TEL;TYPE=WORK:555-0200',
+  'TEL;TYPE=CELL,PREF:555-0201',
+  'ADR;TYPE=WORK:;;12 Oak St;Springfield;IL;62701;USA',
+  'CATEGORIES:Funeral home',
+  'NOTE:Ask for Chris\\, the director.\\nOpen weekdays.',
+  'END:VCARD',
+  'BEGIN:VCARD',
+  'VERSION:4.0',
+  'N:Rivera;Ana;;Dr.;',
+  'item1.EMAIL;PREF=1:ana@example.com',
+  'ROLE:Estate attorney',
+  'URL:https://rivera-law.exam',
+  ' ple',
+  'END:VCARD',
+].join('\r\n');
+
+describe('Contact Import', () => {
+  it('should map free text onto roles and types', () => {
+    expect(mapContactCategory(['FUNERAL_HOME'])).toEqual({ type: 'OTHER', role: 'FUNERAL_HOME' });
+    expect(mapContactCategory(['Banks and Financial'])).toEqual({ type: 'BANK', role: 'BANK' });
+    expect(mapContactCategory(['Life insurance', 'family'])).toEqual({ type: 'INSURANCE', role: 'FAMILY' });
+    expect(mapContactCategory(['Avocat'])).toEqual({ type: 'ATTORNEY', role: 'ATTORNEY' });
+    expect(mapContactCategory([undefined, ' '])).toEqual({ type: 'OTHER' });
+  });
+
+  it('should read vCard 3.0 and 4.0 cards', () => {
+    expect(isVCard(vcf)).toBe(true);
+    expect(parseVCards(vcf)).toEqual([
+      {
+        name: 'Morgan Funeral Home',
+        type: 'OTHER',
+        role: 'FUNERAL_HOME',
+        organization: undefined,
+        phone: '555-0201',
+        email: undefined,
+        website: undefined,
+        address: '12 Oak St\nSpringfield, IL 62701\nUSA',
+        notes: 'Ask for Chris, the director.\nOpen weekdays.',
+      },
+      {
+        name: 'Dr. Ana Rivera',
+        type: 'ATTORNEY',
+        role: 'ATTORNEY',
+        organization: undefined,
+        phone: undefined,
+        email: 'ana@example.com',
+        website: 'https://rivera-law.example',
+        address: undefined,
+        notes: undefined,
+      },
+    ]);
+    expect(() => parseVCards('Name,Phone')).toThrow('Invalid vCard file');
+  });
+
+  it('should parse quoted CSV and guess the column mapping', () => {
+    const rows = parseCsv('\uFEFFFirst Name,Last Name,Company,E-mail Address,Mobile Phone,Business Phone,Business Street,Business City,Category\r\n'
+      + 'Sam,Ng,"Acme, Inc.",sam@acme.example,555-0300,555-0301,"1 Main St",Springfield,Employer\r\n'
+      + ',,City Power,,,555-0400,,,"Utilities"\r\n'
+      + ',,,,,,,,\r\n');
+    expect(rows).toHaveLength(3);
+    expect(rows[1][2]).toBe('Acme, Inc.');
+
+    const mapping = guessColumnMapping(rows[0]);
+    expect(mapping).toEqual(['firstName', 'lastName', 'organization', 'email', 'phone', null, 'address', 'address', 'type']);
+    expect(validateColumnMapping(mapping)).toBeNull();
+    expect(validateColumnMapping([null, 'phone'])).toBe('Choose a column for the name or organization.');
+
+    expect(applyColumnMapping(rows.slice(1), mapping)).toEqual([
+      {
+        name: 'Sam Ng',
+        type: 'EMPLOYER',
+        role: 'EMPLOYER',
+        organization: 'Acme, Inc.',
+        phone: '555-0300',
+        email: 'sam@acme.example',
+        website: undefined,
+        address: '1 Main St\nSpringfield',
+        notes: undefined,
+      },
+      {
+        name: 'City Power',
+        type: 'UTILITY',
+        organization: undefined,
+        phone: undefined,
+        email: undefined,
+        website: undefined,
+        address: undefined,
+        notes: undefined,
+      },
+    ]);
+    expect(parseCsv('Name;Notes\nAna;"Line one\nLine ""two"""')).toEqual([['Name', 'Notes'], ['Ana', 'Line one\nLine "two"']]);
+  });
+
+  it('should find duplicates by email, phone or name and organization', () => {
+    expect(findDuplicateContact({ name: 'Someone', type: 'OTHER', phone: '+1 555.010.0100' }, existing)?.id).toBe('c1');
+    expect(findDuplicateContact({ name: 'Front desk', type: 'OTHER', email: 'OFFICE@leelaw.example' }, existing)?.id).toBe('c2');
+    expect(findDuplicateContact({ name: 'dana  officer', type: 'BANK' }, existing)?.id).toBe('c1');
+    expect(findDuplicateContact({ name: 'Dana Officer', type: 'BANK', organization: 'Second Bank' }, existing)).toBeUndefined();
+  });
+
+  it('should skip, merge or add each candidate', () => {
+    const candidates = buildImportCandidates([
+      { name: 'Dana Officer', type: 'BANK', organization: 'First Bank', email: 'dana@firstbank.example', phone: '555-9999' },
+      { name: 'Lee Law', type: 'ATTORNEY', email: 'office@leelaw.example' },
+      { name: 'New Person', type: 'OTHER', role: 'FAMILY' },
+    ], existing);
+    expect(candidates.map(candidate => [candidate.duplicateOf?.id, candidate.action])).toEqual([
+      ['c1', 'SKIP'],
+      ['c2', 'SKIP'],
+      [undefined, 'ADD'],
+    ]);
+
+    const result = applyContactImport(existing, [{ ...candidates[0], action: 'MERGE' }, candidates[1], candidates[2]]);
+    expect(result).toMatchObject({ added: 1, merged: 1, skipped: 1 });
+    expect(result.contacts[0]).toMatchObject({ id: 'c1', phone: '(555) 010-0100', email: 'dana@firstbank.example' });
+    expect(result.contacts[1]).toBe(existing[1]);
+    expect(result.contacts[2]).toMatchObject({ name: 'New Person', role: 'FAMILY', source: 'manual' });
+  });
+
+  it('should skip repeats within the imported file by default', () => {
+    const candidates = buildImportCandidates([
+      { name: 'Sam Ng', type: 'EMPLOYER', email: 'sam@acme.example' },
+      { name: 'Samuel Ng', type: 'EMPLOYER', email: 'SAM@acme.example', phone: '555-0300' },
+      { name: 'Dana Officer', type: 'BANK', organization: 'First Bank' },
+      { name: 'Dana Officer', type: 'BANK', organization: 'First Bank' },
+      { name: 'City Power', type: 'UTILITY', phone: '555-0300' },
+    ], existing);
+
+    expect(candidates.map(candidate => [candidate.duplicateOf?.id, candidate.duplicateInFile, candidate.action])).toEqual([
+      [undefined, undefined, 'ADD'],
+      [undefined, 0, 'SKIP'],
+      ['c1', undefined, 'SKIP'],
+      ['c1', undefined, 'SKIP'],
+      [undefined, undefined, 'ADD'],
+    ]);
+    expect(applyContactImport(existing, candidates)).toMatchObject({ added: 2, skipped: 3 });
+  });
+
+  it('should export contacts that import back unchanged', () => {
+    const contacts: ContactEntry[] = [
+      ...existing,
+      { id: 'c3', caseId: 'case', type: 'OTHER', role: 'FAMILY', name: 'Jo Smith', address: '4 Pine Rd\nSpringfield', notes: 'Sister; has keys, "spare" set' },
+    ];
+    const fields = (contact: ContactImportDraft) => ({
+      name: contact.name,
+      role: contact.role,
+      organization: contact.organization,
+      phone: contact.phone,
+      email: contact.email,
+      address: contact.address,
+      notes: contact.notes,
+    });
+
+    const vcard = exportContactsToVCard(contacts);
+    expect(vcard.startsWith('BEGIN:VCARD\r\nVERSION:3.0\r\nFN:Dana Officer\r\nN:Officer;Dana;;;\r\nORG:First Bank\r\n')).toBe(true);
+    expect(vcard).toContain('NOTE:Sister\\; has keys\\, "spare" set');
+    expect(parseVCards(vcard).map(fields)).toEqual(contacts.map(fields));
+
+    const csv = exportContactsToCsv(contacts);
+    expect(csv.split('\r\n')[0]).toBe('Name,Organization,Role,Type,Phone,Email,Website,Address,Notes');
+    const rows = parseCsv(csv);
+    expect(applyColumnMapping(rows.slice(1), guessColumnMapping(rows[0])).map(fields)).toEqual(contacts.map(fields));
+  });
+
+  it('should keep exported CSV cells from running as spreadsheet formulas', () => {
+    const risky: ContactEntry[] = [
+      { id: 'r1', caseId: 'case', type: 'OTHER', name: '=HYPERLINK("http://evil.example")', phone: '+1 555-0100', email: '@home', notes: '-5 owed' },
+    ];
+
+    const csv = exportContactsToCsv(risky);
+    expect(csv.split('\r\n')[1]).toBe(`"'=HYPERLINK(""http://evil.example"")",,,Other,'+1 555-0100,'@home,,,'-5 owed`);
+    const rows = parseCsv(csv);
+    expect(applyColumnMapping(rows.slice(1), guessColumnMapping(rows[0]))[0]).toMatchObject({
+      name: '=HYPERLINK("http://evil.example")',
+      phone: '+1 555-0100',
+      email: '@home',
+      notes: '-5 owed',
+    });
+  });
+
+  it('should fold long vCard lines without splitting a character', () => {
+    // NOTE: plus 69 characters puts the candle emoji's surrogate pair across the first fold
+    const note = `${'x'.repeat(69)}\u{1F56F}\u{FE0F} in memory`;
+    const vcard = exportContactsToVCard([{ id: 'v1', caseId: 'case', type: 'OTHER', name: 'Ana', notes: note }]);
+    const lines = vcard.split('\r\n');
+
+    expect(lines.every(line => !/[\uD800-\uDBFF]$/.test(line) && !/^ ?[\uDC00-\uDFFF]/.test(line))).toBe(true);
+    expect(parseVCards(vcard)[0].notes).toBe(note);
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Correspondence Log Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyCorrespondenceToContact,
+  createCorrespondenceEntry,
+  draftCorrespondence,
+  getTasksForContact,
+  isResponseOverdue,
+  sortCorrespondence,
+  suggestExpectedResponseDate,
+  updateCorrespondenceEntry,
+  validateCorrespondenceInput,
+} from '../../services/correspondenceLog';
+import { getTemplateById } from '../../services/scriptTemplates';
+import type { AftercareTask, ContactEntry, CorrespondenceEntry, CorrespondenceInput } from '../../types';
+
+const contact: ContactEntry = {
+  id: 'c1',
+  caseId: 'case',
+  type: 'BANK',
+  name: 'Dana Officer',
+  organization: 'First Bank',
+  relatedVaultRecordIds: ['r1'],
+  contactStatus: 'NOT_CONTACTED',
+};
+
+const input: CorrespondenceInput = {
+  textSnapshot: 'Dear First Bank,',
+  contactId: 'c1',
+  recipientName: 'First Bank',
+  method: 'MAIL',
+  sentDate: '2025-04-01',
+  expectedResponseDate: '2025-05-01',
+  status: 'AWAITING_RESPONSE',
+};
+
+function entry(id: string, fields: Partial<CorrespondenceEntry> = {}): CorrespondenceEntry {
+  return { ...createCorrespondenceEntry('case', input), id, ...fields };
+}
+
+describe('Correspondence Log', () => {
+  it('should suggest when to expect a reply', () => {
+    expect(suggestExpectedResponseDate('MAIL', '2025-04-01')).toBe('2025-05-01');
+    expect(suggestExpectedResponseDate('EMAIL', '2025-04-25')).toBe('2025-05-09');
+    expect(suggestExpectedResponseDate('PHONE', '2025-04-01')).toBeUndefined();
+    expect(suggestExpectedResponseDate('MAIL', 'soon')).toBeUndefined();
+  });
+
+  it('should draft an entry for a rendered template', () => {
+    const letter = getTemplateById('bank-notification-letter')!;
+    const draft = draftCorrespondence(letter, 'Dear First Bank,', [contact], ' first bank ', new Date(2025, 3, 1));
+
+    expect(draft).toMatchObject({
+      templateId: 'bank-notification-letter',
+      contactId: 'c1',
+      recipientName: 'First Bank',
+      method: 'MAIL',
+      sentDate: '2025-04-01',
+      expectedResponseDate: '2025-05-01',
+      status: 'AWAITING_RESPONSE',
+    });
+
+    const call = getTemplateById('bank-notification-phone')!;
+    expect(draftCorrespondence(call, '', [contact], 'Credit Union', new Date(2025, 3, 1))).toMatchObject({
+      contactId: undefined,
+      recipientName: 'Credit Union',
+      method: 'PHONE',
+      expectedResponseDate: undefined,
+      status: 'SENT',
+    });
+  });
+
+  it('should reject entries without a recipient or with impossible dates', () => {
+    expect(validateCorrespondenceInput(input)).toBeNull();
+    expect(validateCorrespondenceInput({ ...input, recipientName: ' ' })).toBe('Enter who this went to.');
+    expect(validateCorrespondenceInput({ ...input, sentDate: '' })).toBe('Enter the date it was sent.');
+    expect(validateCorrespondenceInput({ ...input, expectedResponseDate: 'next month' })).toBe('The expected reply date is not a valid date.');
+    expect(validateCorrespondenceInput({ ...input, expectedResponseDate: '2025-03-31' }))
+      .toBe('The expected reply date can’t be before the date sent.');
+  });
+
+  it('should keep tracking numbers for certified mail only', () => {
+    const certified = createCorrespondenceEntry('case', { ...input, method: 'CERTIFIED_MAIL', trackingNumber: ' 9400 1000 ' });
+    expect(certified.trackingNumber).toBe('9400 1000');
+    expect(certified.caseId).toBe('case');
+
+    const emailed = updateCorrespondenceEntry(certified, { ...input, method: 'EMAIL', trackingNumber: '9400 1000', outcome: ' ' });
+    expect(emailed.id).toBe(certified.id);
+    expect(emailed.trackingNumber).toBeUndefined();
+    expect(emailed.outcome).toBeUndefined();
+  });
+
+  it('should flag replies that are overdue and sort newest first', () => {
+    const today = new Date(2025, 4, 2);
+    expect(isResponseOverdue(entry('a'), today)).toBe(true);
+    expect(isResponseOverdue(entry('a'), new Date(2025, 4, 1))).toBe(false);
+    expect(isResponseOverdue(entry('a', { status: 'RESOLVED' }), today)).toBe(false);
+    expect(isResponseOverdue(entry('a', { expectedResponseDate: undefined }), today)).toBe(false);
+
+    const sorted = sortCorrespondence([
+      entry('old', { sentDate: '2025-03-01' }),
+      entry('new', { sentDate: '2025-04-10' }),
+      entry('mid', { sentDate: '2025-04-01' }),
+    ]);
+    expect(sorted.map(item => item.id)).toEqual(['new', 'mid', 'old']);
+  });
+
+  it('should update the linked contact from its correspondence', () => {
+    expect(applyCorrespondenceToContact(contact, [entry('a', { contactId: 'other' })])).toBe(contact);
+
+    const waiting = applyCorrespondenceToContact(contact, [
+      entry('a', { sentDate: '2025-04-01', expectedResponseDate: '2025-05-01' }),
+      entry('b', { sentDate: '2025-04-10', expectedResponseDate: '2025-04-24' }),
+      entry('c', { sentDate: '2025-04-12', status: 'RESOLVED', expectedResponseDate: '2025-04-13' }),
+    ]);
+    expect(waiting).toMatchObject({
+      lastContactedAt: '2025-04-12',
+      contactStatus: 'IN_PROGRESS',
+      waitingOn: 'THEM',
+      nextFollowUpDate: '2025-04-24',
+    });
+
+    const resolved = applyCorrespondenceToContact(waiting, [entry('a', { status: 'RESOLVED' })]);
+    expect(resolved).toMatchObject({ lastContactedAt: '2025-04-12', contactStatus: 'COMPLETED', waitingOn: undefined });
+  });
+
+  it('should clear what the log set once a contact has no entries left', () => {
+    const previous = [entry('a', { sentDate: '2025-04-01', expectedResponseDate: '2025-05-01' })];
+    const waiting = applyCorrespondenceToContact(contact, previous);
+
+    const cleared = applyCorrespondenceToContact(waiting, [], previous);
+    expect(cleared).toMatchObject({ contactStatus: 'NOT_CONTACTED', waitingOn: undefined });
+    expect(cleared.lastContactedAt).toBeUndefined();
+    expect(cleared.nextFollowUpDate).toBeUndefined();
+
+    const changedSince = { ...waiting, lastContactedAt: '2025-04-20', nextFollowUpDate: '2025-06-01' };
+    expect(applyCorrespondenceToContact(changedSince, [], previous)).toMatchObject({
+      lastContactedAt: '2025-04-20',
+      contactStatus: 'IN_PROGRESS',
+      nextFollowUpDate: '2025-06-01',
+    });
+    expect(applyCorrespondenceToContact(waiting, [], [entry('b', { contactId: 'other' })])).toBe(waiting);
+  });
+
+  it('should keep a status the user chose unless the log moves it forward', () => {
+    const open = [entry('a', { sentDate: '2025-04-01' })];
+    const markedDone = { ...applyCorrespondenceToContact(contact, open), contactStatus: 'COMPLETED' as const };
+
+    // A second open reply does not reopen a contact the user marked completed
+    const withSecond = applyCorrespondenceToContact(markedDone, [...open, entry('b', { sentDate: '2025-04-05' })], open);
+    expect(withSecond.contactStatus).toBe('COMPLETED');
+
+    // A status the log set follows the log, also backwards
+    const resolved = [entry('a', { status: 'RESOLVED' })];
+    const done = applyCorrespondenceToContact(contact, resolved);
+    expect(applyCorrespondenceToContact(done, open, resolved).contactStatus).toBe('IN_PROGRESS');
+  });
+
+  it('should keep fields the user edited by hand when the last entry is removed', () => {
+    const previous = [entry('a', { sentDate: '2025-04-01', expectedResponseDate: '2025-05-01' })];
+    const edited = { ...applyCorrespondenceToContact(contact, previous), contactStatus: 'COMPLETED' as const, waitingOn: 'ME' as const };
+
+    const cleared = applyCorrespondenceToContact(edited, [], previous);
+    expect(cleared).toMatchObject({ contactStatus: 'COMPLETED', waitingOn: 'ME' });
+    expect(cleared.lastContactedAt).toBeUndefined();
+    expect(cleared.nextFollowUpDate).toBeUndefined();
+  });
+
+  it('should suggest open tasks about the same vault records as the contact', () => {
+    const task = (id: string, fields: Partial<AftercareTask>) => ({ id, title: id, status: 'NOT_STARTED', ...fields }) as AftercareTask;
+    const tasks = [
+      task('bank', { relatedVaultRecordIds: ['r1'] }),
+      task('done', { relatedVaultRecordIds: ['r1'], status: 'DONE' }),
+      task('other', { relatedVaultRecordIds: ['r2'] }),
+      task('none', {}),
+    ];
+
+    expect(getTasksForContact(tasks, contact).map(item => item.id)).toEqual(['bank']);
+    expect(getTasksForContact(tasks, undefined)).toEqual([]);
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Custom Task Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  addCustomTask,
+  updateCustomTask,
+  deleteCustomTask,
+  moveTaskWithinPhase,
+  validateCustomTaskInput,
+} from '../../services/customTasks';
+import type { AftercareTask, CustomTaskInput } from '../../types';
+
+const task = (id: string, phase: AftercareTask['phase']): AftercareTask => ({
+  id,
+  phase,
+  category: 'ADMINISTRATIVE',
+  title: id,
+  description: '',
+  status: 'NOT_STARTED',
+  priority: 'LOW',
+  createdAt: '2024-01-01',
+});
+
+const input: CustomTaskInput = {
+  title: '  Return the oxygen concentrator ',
+  phase: 'WEEK_1',
+  category: 'PERSONAL',
+  priority: 'MEDIUM',
+  dueDate: '2024-03-01',
+};
+
+describe('Custom Tasks', () => {
+  const tasks = [task('a', 'WEEK_1'), task('b', 'WEEKS_2_6'), task('c', 'WEEK_1')];
+
+  it('should add a user-authored task at the end of its phase', () => {
+    const result = addCustomTask(tasks, input);
+    expect(result.map(t => t.id).slice(0, 3)).toEqual(['a', 'b', 'c']);
+    expect(result[3]).toMatchObject({ title: 'Return the oxygen concentrator', userAuthored: true, dueDate: '2024-03-01', status: 'NOT_STARTED' });
+  });
+
+  it('should only edit and delete user-authored tasks', () => {
+    const withCustom = addCustomTask(tasks, input);
+    const customId = withCustom[3].id;
+
+    const edited = updateCustomTask(withCustom, customId, { ...input, title: 'Collect belongings', phase: 'WEEKS_2_6' });
+    expect(edited.find(t => t.id === customId)).toMatchObject({ title: 'Collect belongings', phase: 'WEEKS_2_6' });
+    expect(updateCustomTask(withCustom, 'a', input)).toBe(withCustom);
+
+    expect(deleteCustomTask(withCustom, customId)).toHaveLength(3);
+    expect(deleteCustomTask(withCustom, 'a')).toHaveLength(4);
+  });
+
+  it('should move a task within its phase, skipping other phases', () => {
+    expect(moveTaskWithinPhase(tasks, 'c', 'up').map(t => t.id)).toEqual(['c', 'b', 'a']);
+    expect(moveTaskWithinPhase(tasks, 'a', 'up')).toBe(tasks);
+  });
+
+  it('should require a title', () => {
+    expect(validateCustomTaskInput({ ...input, title: '  ' })).not.toBeNull();
+    expect(validateCustomTaskInput(input)).toBeNull();
+  });
+});
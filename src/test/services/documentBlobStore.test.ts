@@ -0,0 +1,56 @@
+/**
+ * Document Blob Store Tests
+ *
+ * @vitest-environment node
+ */
+
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { webcrypto } from 'node:crypto';
+import { documentBlobStore, getDocumentBlobKey } from '../../services/documentBlobStore';
+
+vi.mock('../../utils/deviceFingerprint', () => ({
+  getDeviceFingerprint: vi.fn(async () => 'test-device'),
+}));
+
+async function readText(blob: Blob | null): Promise<string | null> {
+  return blob ? new TextDecoder().decode(await blob.arrayBuffer()) : null;
+}
+
+describe('Document Blob Store', () => {
+  // Real WebCrypto instead of the global test stub (see encryption.test.ts)
+  beforeAll(() => {
+    vi.stubGlobal('crypto', webcrypto);
+  });
+
+  afterAll(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should round-trip file contents through encrypted storage', async () => {
+    const filePath = await documentBlobStore.saveBlob('case-a', 'doc-1', new Blob(['death certificate scan']));
+
+    expect(filePath).toBe(getDocumentBlobKey('case-a', 'doc-1'));
+    const loaded = await documentBlobStore.loadBlob('case-a', 'doc-1', 'application/pdf');
+    expect(loaded?.type).toBe('application/pdf');
+    expect(await readText(loaded)).toBe('death certificate scan');
+  });
+
+  it('should return null for a document with no stored file', async () => {
+    expect(await documentBlobStore.loadBlob('case-a', 'missing')).toBeNull();
+  });
+
+  it('should delete one file or every file of a case', async () => {
+    await documentBlobStore.saveBlob('case-b', 'doc-1', new TextEncoder().encode('one').buffer);
+    await documentBlobStore.saveBlob('case-b', 'doc-2', new Blob(['two']));
+    await documentBlobStore.saveBlob('case-c', 'doc-1', new Blob(['other case']));
+
+    await documentBlobStore.deleteBlob('case-b', 'doc-1');
+    expect(await documentBlobStore.loadBlob('case-b', 'doc-1')).toBeNull();
+    expect(await readText(await documentBlobStore.loadBlob('case-b', 'doc-2'))).toBe('two');
+
+    await documentBlobStore.deleteCaseBlobs('case-b');
+    expect(await documentBlobStore.loadBlob('case-b', 'doc-2')).toBeNull();
+    expect(await readText(await documentBlobStore.loadBlob('case-c', 'doc-1'))).toBe('other case');
+  });
+});
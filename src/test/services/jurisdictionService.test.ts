@@ -0,0 +1,75 @@
+/**
+ * Jurisdiction Pack Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getJurisdictionPacks,
+  getJurisdictionResources,
+  applyJurisdictionRules,
+  registerJurisdictionPack,
+} from '../../services/jurisdictionService';
+import { generateAftercarePlan } from '../../services/taskGenerationEngine';
+import { generateExecutorChecklist } from '../../services/executorService';
+import type { AftercareProfile, JurisdictionPack } from '../../types';
+
+const profile = (country?: string, region?: string): AftercareProfile => ({
+  id: 'profile',
+  hasConfirmedDisclaimer: true,
+  country,
+  region,
+  createdAt: '2024-01-01',
+  updatedAt: '2024-01-01',
+});
+
+const titles = (p: AftercareProfile) => generateAftercarePlan({ profile: p, vaultRecords: [] }).tasks.map(t => t.title);
+
+describe('Jurisdiction Packs', () => {
+  it('should select the country pack, then the region pack', () => {
+    expect(getJurisdictionPacks(profile('United States', 'CA')).map(p => p.id)).toEqual(['us', 'us-ca']);
+    expect(getJurisdictionPacks(profile('USA')).map(p => p.id)).toEqual(['us']);
+    expect(getJurisdictionPacks(profile('Other'))).toEqual([]);
+    expect(getJurisdictionPacks(profile())).toEqual([]);
+  });
+
+  it('should merge location tasks into the generated plan', () => {
+    expect(titles(profile('United States'))).toContain('Check whether Social Security was notified');
+    expect(titles(profile('United States', 'TX'))).toContain("Check whether Texas's small estate process applies");
+    expect(titles(profile('United Kingdom'))).toContain('Consider using Tell Us Once');
+    expect(titles(profile('United Kingdom'))).not.toContain('Check whether Social Security was notified');
+    expect(titles(profile('Other'))).not.toContain('Consider using Tell Us Once');
+  });
+
+  it('should replace and suppress executor checklist items', () => {
+    const uk = generateExecutorChecklist(profile('United Kingdom'));
+    expect(uk.find(i => i.seedKey === 'file-petition-to-open-probate')?.title).toBe('Apply for probate (or letters of administration)');
+    expect(uk.some(i => i.seedKey === 'find-military-discharge-papers-dd-214-if-veteran')).toBe(false);
+    expect(generateExecutorChecklist().some(i => i.seedKey === 'find-military-discharge-papers-dd-214-if-veteran')).toBe(true);
+  });
+
+  it('should apply add, replace and suppress rules in pack order', () => {
+    const base = [{ key: 'a', title: 'A' }, { key: 'b', title: 'B' }];
+    const packs = [
+      { id: 'one', name: 'One', country: 'X', tasks: { suppress: ['a'], replace: [{ key: 'b', title: 'B2' }] } },
+      { id: 'two', name: 'Two', country: 'X', tasks: { add: [{ key: 'c', title: 'C' }, { key: 'b', title: 'B3' }] } },
+    ] as unknown as JurisdictionPack[];
+
+    expect(applyJurisdictionRules(base, packs, p => p.tasks as never)).toEqual([
+      { key: 'b', title: 'B3' },
+      { key: 'c', title: 'C' },
+    ]);
+  });
+
+  it('should list resources for the location and accept registered packs', () => {
+    expect(getJurisdictionResources(profile('United States')).map(r => r.label)).toContain('Social Security Administration');
+    expect(getJurisdictionResources(profile('Other'))).toEqual([]);
+
+    registerJurisdictionPack({
+      id: 'nz',
+      name: 'New Zealand',
+      country: 'New Zealand',
+      resources: { add: [{ group: 'Government & Identity', label: 'New Zealand Government', url: 'https://www.govt.nz/' }] },
+    });
+    expect(getJurisdictionResources(profile('New Zealand')).map(r => r.url)).toEqual(['https://www.govt.nz/']);
+  });
+});
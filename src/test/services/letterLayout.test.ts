@@ -0,0 +1,121 @@
+/**
+ * Letter Layout Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  LABEL_SHEETS,
+  buildMailMergePrintable,
+  buildPrintableLetter,
+  formatAddressBlock,
+  getContactAddress,
+  getLetterPaper,
+  getLetterSender,
+  layoutLabels,
+} from '../../services/letterLayout';
+import { buildMailMergeRecipients, generateMailMerge } from '../../services/mailMerge';
+import { getTemplateById, renderScript } from '../../services/scriptTemplates';
+import type { AftercareProfile, PostalAddress, ScriptRenderContext } from '../../types';
+
+const profile: AftercareProfile = {
+  id: 'p',
+  country: 'United States',
+  userName: 'Sam Lee',
+  address: '2 Elm St\n Springfield, IL 62701 \n',
+  phone: '555-0111',
+  email: 'sam@example.com',
+  hasConfirmedDisclaimer: true,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+};
+
+const context: ScriptRenderContext = {
+  userName: 'Sam Lee',
+  userRelationship: 'their child',
+  userAddress: '2 Elm St',
+  userPhone: '555-0111',
+  deceasedName: 'Pat Lee',
+  dateOfDeath: '2025-03-04',
+  todayDate: '2025-04-01',
+  institutionName: 'First Bank',
+  accountReference: '****1111',
+};
+
+describe('Letter Layout', () => {
+  it('should build the sender block from the profile', () => {
+    expect(getLetterSender(profile)).toEqual({
+      name: 'Sam Lee',
+      lines: ['2 Elm St', 'Springfield, IL 62701'],
+      phone: '555-0111',
+      email: 'sam@example.com',
+    });
+    expect(getLetterSender({ ...profile, userName: ' ' })).toBeNull();
+    expect(getLetterPaper(profile)).toBe('letter');
+    expect(getLetterPaper({ ...profile, country: 'United Kingdom' })).toBe('a4');
+  });
+
+  it('should address contacts at an organization to the person named', () => {
+    const address = getContactAddress({ id: 'c', caseId: 'case', type: 'BANK', name: 'Dana Officer', organization: 'First Bank', address: '1 Main St\nSpringfield' });
+    expect(formatAddressBlock(address)).toEqual(['First Bank', 'Attn: Dana Officer', '1 Main St', 'Springfield']);
+    expect(formatAddressBlock(getContactAddress({ id: 'c', caseId: 'case', type: 'ATTORNEY', name: 'Lee Law' }))).toEqual(['Lee Law']);
+  });
+
+  it('should drop the lines the printed layout supplies itself', () => {
+    const text = renderScript(getTemplateById('bank-notification-letter')!, context);
+    const letter = buildPrintableLetter({
+      text,
+      sender: getLetterSender(profile),
+      recipient: { name: 'First Bank', lines: ['1 Main St'] },
+      references: ['****1111'],
+      enclosures: ['Death certificate', ' '],
+      context,
+      date: new Date(2025, 3, 1),
+      fileName: 'letter',
+    });
+
+    expect(letter.date).toBe('April 1, 2025');
+    expect(letter.reference).toBe('Reference: ****1111');
+    expect(letter.body.startsWith('Re: Notification of Death\nDeceased: Pat Lee\n\nTo Whom It May Concern:')).toBe(true);
+    expect(letter.body.endsWith('Please contact me with next steps.\n\nSincerely,')).toBe(true);
+    expect(letter.closing).toBeUndefined();
+    expect(letter.enclosures).toEqual(['Death certificate']);
+  });
+
+  it('should add a closing when the letter has none', () => {
+    const letter = buildPrintableLetter({
+      text: 'Please close the account.',
+      sender: null,
+      recipient: { name: 'City Power', lines: [] },
+      fileName: 'letter',
+    });
+    expect(letter.body).toBe('Please close the account.');
+    expect(letter.closing).toBe('Sincerely,');
+    expect(letter.reference).toBeUndefined();
+  });
+
+  it('should reference every account of a mail-merge recipient', () => {
+    const recipients = buildMailMergeRecipients([
+      { id: 'r1', category: 'BANK_ACCOUNT', name: 'Checking', institutionName: 'First Bank', accountNumberMasked: '****1111', addressLine1: '1 Main St' },
+      { id: 'r2', category: 'BANK_ACCOUNT', name: 'Savings', institutionName: 'First Bank', accountNumberMasked: '****2222' },
+    ], []);
+    const [merged] = generateMailMerge(getTemplateById('bank-notification-letter')!, recipients, context);
+    const letter = buildMailMergePrintable(merged, getLetterSender(profile), context);
+
+    expect(letter.recipient).toEqual({ name: 'First Bank', lines: ['1 Main St'] });
+    expect(letter.reference).toBe('Reference: ****1111, ****2222');
+    expect(letter.body).not.toMatch(/^Account:/m);
+    expect(letter.fileName).toBe(merged.fileName);
+  });
+
+  it('should place labels across sheets row by row', () => {
+    const addresses: PostalAddress[] = Array.from({ length: 32 }, (_, i) => ({ name: `Recipient ${i + 1}`, lines: [] }));
+    const pages = layoutLabels(addresses, LABEL_SHEETS.AVERY_5160);
+
+    expect(pages.map(page => page.length)).toEqual([30, 2]);
+    expect(pages[0][0]).toMatchObject({ x: 0.1875, y: 0.5 });
+    expect(pages[0][2]).toMatchObject({ x: 0.1875 + 2 * 2.75, y: 0.5 });
+    expect(pages[0][3]).toMatchObject({ x: 0.1875, y: 1.5 });
+    expect(pages[1][1]).toMatchObject({ x: 0.1875 + 2.75, y: 0.5, address: { name: 'Recipient 32' } });
+    expect(layoutLabels(addresses.slice(0, 10), LABEL_SHEETS.AVERY_5163)).toHaveLength(1);
+  });
+});
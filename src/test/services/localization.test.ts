@@ -0,0 +1,187 @@
+/**
+ * Localization Tests
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import en from '../../constants/locales/en.json';
+import es from '../../constants/locales/es.json';
+import frCA from '../../constants/locales/fr-CA.json';
+import {
+  setLocale,
+  resolveLocale,
+  t,
+  localize,
+  isPseudoLocalized,
+  pseudoLocalize,
+  formatDate,
+  getTranslationIssues,
+  resetTranslationIssues,
+  type Locale,
+  type MessageKey,
+} from '../../services/localization';
+import { generateAftercarePlan, getPhaseInfo, getCategoryInfo } from '../../services/taskGenerationEngine';
+import { generateExecutorChecklist, getChecklistCategoryInfo, getExecutorChecklistCategoryOrder } from '../../services/executorService';
+import { getScriptTemplates, renderScript, getTemplateTypeInfo, getAllTemplateTypes } from '../../services/scriptTemplates';
+import { getJurisdictionPacks, getJurisdictionResources } from '../../services/jurisdictionService';
+import type { AftercareProfile, LegacyVaultRecord } from '../../types';
+
+const profile: AftercareProfile = {
+  id: 'profile',
+  hasConfirmedDisclaimer: true,
+  isExecutor: true,
+  createdAt: '2024-01-01',
+  updatedAt: '2024-01-01',
+};
+
+const records: LegacyVaultRecord[] = [
+  { id: 'b1', category: 'BANK_ACCOUNT', name: 'Checking', institutionName: 'First Bank' },
+  { id: 'b2', category: 'BANK_ACCOUNT', name: 'Savings', institutionName: 'First Bank' },
+  { id: 'c1', category: 'CREDIT_CARD', name: 'Visa', institutionName: 'Card Co' },
+  { id: 'i1', category: 'INVESTMENT', name: 'Brokerage', institutionName: 'Invest Co' },
+  { id: 'p1', category: 'INSURANCE', name: 'Life policy', insuranceCompany: 'Acme Life', beneficiaryNames: ['Sam'] },
+  { id: 's1', category: 'SUBSCRIPTION', name: 'Streaming' },
+  { id: 'h1', category: 'PROPERTY', name: '12 Elm St' },
+  { id: 'v1', category: 'VEHICLE', name: 'Car', vehicleMake: 'Ford', vehicleModel: 'Focus', vehicleYear: '2015' },
+  { id: 'e1', category: 'EMPLOYMENT', name: 'Job', institutionName: 'Widgets Inc' },
+  { id: 'l1', category: 'LOAN', name: 'Car loan', institutionName: 'Lender' },
+  { id: 'u1', category: 'UTILITY', name: 'Power' },
+  { id: 'd1', category: 'DIGITAL_ACCOUNT', name: 'Email' },
+  { id: 'g1', category: 'LEGAL_DOCUMENT', name: 'Will' },
+  { id: 'x1', category: 'PERSONAL_INFO', name: 'Passport' },
+  { id: 'o1', category: 'OTHER', name: 'Storage unit' },
+];
+
+/** One profile per built-in jurisdiction pack (the state profiles also load the US pack). */
+const PACK_LOCATIONS: Pick<AftercareProfile, 'country' | 'region'>[] = [
+  { country: 'United States', region: 'CA' },
+  { country: 'United States', region: 'TX' },
+  { country: 'United States', region: 'NY' },
+  { country: 'United States', region: 'FL' },
+  { country: 'Canada' },
+  { country: 'United Kingdom' },
+  { country: 'Australia' },
+];
+
+/** Every user-facing string the plan, checklist and templates produce, with and without jurisdiction packs. */
+function generatedStrings(): string[] {
+  const profiles = [profile, ...PACK_LOCATIONS.map(location => ({ ...profile, ...location }))];
+  const tasks = profiles.flatMap(p => generateAftercarePlan({ profile: p, vaultRecords: records }).tasks);
+  const checklist = profiles.flatMap(p => generateExecutorChecklist(p));
+  const templates = getScriptTemplates();
+  return [
+    ...PACK_LOCATIONS.flatMap(location => [
+      ...getJurisdictionPacks(location).map(pack => pack.name),
+      ...getJurisdictionResources(location).flatMap(link => [link.group, link.label]),
+    ]),
+    ...tasks.flatMap(task => [
+      task.title,
+      task.description,
+      task.reason ?? '',
+      ...(task.steps ?? []).map(step => step.title),
+    ]),
+    ...checklist.flatMap(item => [item.title, item.description, item.whyItMatters ?? '', ...(item.whatYouMayNeed ?? [])]),
+    ...getExecutorChecklistCategoryOrder().flatMap(category => {
+      const info = getChecklistCategoryInfo(category);
+      return [info.label, info.description];
+    }),
+    ...templates.flatMap(template => [template.title, template.description, template.bodyTemplate]),
+    ...getAllTemplateTypes().map(type => getTemplateTypeInfo(type).label),
+  ].filter(text => text !== '');
+}
+
+afterEach(() => {
+  setLocale('en');
+  resetTranslationIssues();
+});
+
+describe('Localization', () => {
+  describe('pseudo-locale', () => {
+    it('should route every generated guidance string through the catalogs', () => {
+      setLocale('en-XA');
+      const untranslated = generatedStrings().filter(text => !isPseudoLocalized(text));
+      expect(untranslated).toEqual([]);
+    });
+
+    it('should route every interface message and label through the catalogs', () => {
+      setLocale('en-XA');
+      for (const key of Object.keys(en) as MessageKey[]) {
+        expect(isPseudoLocalized(t(key)), key).toBe(true);
+      }
+      expect(isPseudoLocalized(getPhaseInfo('WEEK_1').label)).toBe(true);
+      expect(isPseudoLocalized(getCategoryInfo('FINANCIAL').label)).toBe(true);
+    });
+
+    it('should keep placeholders intact', () => {
+      expect(pseudoLocalize('Review {{name}}')).toBe('⟦Ŕéṽíéŵ {{name}}⟧');
+      setLocale('en-XA');
+      expect(t('task.due', { date: 'Mar 4' })).toBe('⟦Ðúé Mar 4⟧');
+    });
+  });
+
+  describe.each<[Locale, Record<string, string>]>([['es', es], ['fr-CA', frCA]])('%s catalog', (locale, catalog) => {
+    it('should translate every interface message', () => {
+      expect(Object.keys(en).filter(key => !(key in catalog))).toEqual([]);
+    });
+
+    it('should translate all generated guidance without falling back to English', () => {
+      setLocale(locale);
+      generatedStrings();
+      for (const key of Object.keys(en) as MessageKey[]) t(key);
+      expect(getTranslationIssues()).toEqual([]);
+    });
+
+    it('should render templates with translated placeholders', () => {
+      setLocale(locale);
+      const template = getScriptTemplates().find(tpl => tpl.id === 'bank-notification-letter')!;
+      const rendered = renderScript(template, {});
+      expect(rendered).toContain(t('templates.placeholder.deceasedName'));
+      expect(rendered).not.toContain('{{');
+    });
+  });
+
+  it('should translate generated tasks and interpolate record values', () => {
+    setLocale('es');
+    const tasks = generateAftercarePlan({ profile, vaultRecords: records }).tasks;
+    expect(tasks.map(task => task.title)).toContain('Revisar 2 cuentas en First Bank');
+    expect(tasks.map(task => task.title)).toContain('Tómese un momento');
+  });
+
+  it('should translate jurisdiction pack wording and keep partial replacements partial', () => {
+    setLocale('es');
+    const tasks = generateAftercarePlan({ profile: { ...profile, country: 'United Kingdom' }, vaultRecords: [] }).tasks;
+    const certificates = tasks.find(task => task.templateKey === 'consider-whether-to-request-death-certificates')!;
+    expect(certificates.title).toBe(localize('task.consider-whether-to-request-death-certificates.title', ''));
+    expect(certificates.description).toContain('oficina de registro');
+    expect(tasks.map(task => task.title)).toContain('Considerar usar Tell Us Once');
+    expect(getJurisdictionPacks({ country: 'United Kingdom' }).map(pack => pack.name)).toEqual(['Reino Unido']);
+  });
+
+  it('should fall back to English when a translation drops a placeholder', () => {
+    setLocale('fr-CA');
+    expect(localize('rule.other.title', 'Look at {{name}} and {{extra}}')).toBe('Look at {{name}} and {{extra}}');
+    expect(getTranslationIssues()).toEqual(['fr-CA: placeholders differ in rule.other.title']);
+  });
+
+  it('should fall back to English for keys missing from a catalog', () => {
+    setLocale('es');
+    expect(localize('task.not-a-task.title', 'Something new')).toBe('Something new');
+    expect(getTranslationIssues()).toEqual(['es: missing task.not-a-task.title']);
+  });
+
+  it('should resolve browser language tags to supported locales', () => {
+    expect(resolveLocale('es-MX')).toBe('es');
+    expect(resolveLocale('fr')).toBe('fr-CA');
+    expect(resolveLocale('fr-FR')).toBe('fr-CA');
+    expect(resolveLocale('fr-CA')).toBe('fr-CA');
+    expect(resolveLocale('de-DE')).toBe('en');
+    expect(resolveLocale(undefined)).toBe('en');
+  });
+
+  it('should format calendar dates in the current locale', () => {
+    expect(formatDate('2025-03-04', 'long')).toBe('March 4, 2025');
+    setLocale('es');
+    expect(formatDate('2025-03-04', 'long')).toBe('4 de marzo de 2025');
+    setLocale('fr-CA');
+    expect(formatDate('2025-03-04', 'long')).toBe('4 mars 2025');
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Mail Merge Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildMailMergeRecipients,
+  generateMailMerge,
+  getMailMergeTypes,
+  getMatchingContacts,
+  getMatchingRecords,
+  getRecipientContext,
+} from '../../services/mailMerge';
+import { getTemplateById } from '../../services/scriptTemplates';
+import type { ContactEntry, LegacyVaultRecord } from '../../types';
+
+const records: LegacyVaultRecord[] = [
+  { id: 'r1', category: 'BANK_ACCOUNT', name: 'Checking', institutionName: 'First Bank', accountNumberMasked: '****1111', addressLine1: '1 Main St', city: 'Springfield', region: 'IL', postalCode: '62701' },
+  { id: 'r2', category: 'BANK_ACCOUNT', name: 'Savings', institutionName: 'first  bank', accountNumberMasked: '****2222' },
+  { id: 'r3', category: 'INVESTMENT', name: 'Brokerage', institutionName: 'Invest Co', contactPhone: '555-0100' },
+  { id: 'r4', category: 'UTILITY', name: 'Power', institutionName: 'City Power' },
+];
+
+const contacts: ContactEntry[] = [
+  { id: 'c1', caseId: 'case', type: 'BANK', name: 'Dana Officer', organization: 'Invest Co', phone: '555-0199', address: '9 Broad St\nNew York, NY' },
+  { id: 'c2', caseId: 'case', type: 'BANK', name: 'Credit Union' },
+  { id: 'c3', caseId: 'case', type: 'ATTORNEY', name: 'Lee Law' },
+];
+
+const base = { userName: 'Sam Lee', userRelationship: 'their child', deceasedName: 'Pat Lee', dateOfDeath: '2025-03-04', todayDate: '2025-04-01' };
+
+describe('Mail Merge', () => {
+  it('should match vault records and contacts to a template type', () => {
+    expect(getMailMergeTypes()).toContain('BANK_NOTIFICATION');
+    expect(getMatchingRecords('BANK_NOTIFICATION', records).map(record => record.id)).toEqual(['r1', 'r2', 'r3']);
+    expect(getMatchingRecords('UTILITY_CANCELLATION', records).map(record => record.id)).toEqual(['r4']);
+    expect(getMatchingContacts('BANK_NOTIFICATION', contacts).map(contact => contact.id)).toEqual(['c1', 'c2']);
+    expect(getMatchingContacts('LANDLORD_NOTIFICATION', contacts)).toEqual([]);
+  });
+
+  it('should group records and contacts into one recipient per institution', () => {
+    const recipients = buildMailMergeRecipients(records.slice(0, 3), contacts.slice(0, 2));
+
+    expect(recipients.map(recipient => recipient.institutionName)).toEqual(['First Bank', 'Invest Co', 'Credit Union']);
+    expect(recipients[0]).toMatchObject({
+      vaultRecordIds: ['r1', 'r2'],
+      accounts: [{ name: 'Checking', accountReference: '****1111' }, { name: 'Savings', accountReference: '****2222' }],
+      address: '1 Main St\nSpringfield, IL 62701',
+    });
+    expect(recipients[1]).toMatchObject({ vaultRecordIds: ['r3'], contactIds: ['c1'], contactPhone: '555-0199', address: '9 Broad St\nNew York, NY' });
+    expect(recipients[2]).toMatchObject({ vaultRecordIds: [], contactIds: ['c2'], accounts: [] });
+  });
+
+  it('should give templates every account reference of a recipient', () => {
+    const [firstBank, investCo] = buildMailMergeRecipients(records.slice(0, 3), []);
+
+    expect(getRecipientContext(firstBank, base)).toMatchObject({
+      institutionName: 'First Bank',
+      accountReference: '****1111, ****2222',
+      accounts: [{ name: 'Checking', accountReference: '****1111' }, { name: 'Savings', accountReference: '****2222' }],
+    });
+    expect(getRecipientContext(investCo, base)).toMatchObject({ accountReference: undefined, accounts: undefined, contactPhone: '555-0100' });
+  });
+
+  it('should render one letter per institution and report missing fields', () => {
+    const letter = getTemplateById('bank-notification-letter')!;
+    const letters = generateMailMerge(letter, buildMailMergeRecipients(records.slice(0, 3), contacts.slice(1, 2)), base);
+
+    expect(letters.map(result => result.fileName)).toEqual([
+      'First_Bank_bank_notification_letter',
+      'Invest_Co_bank_notification_letter',
+      'Credit_Union_bank_notification_letter',
+    ]);
+    expect(letters[0].text).toContain('Account: ****1111 (Checking)\nAccount: ****2222 (Savings)\n');
+    expect(letters[1].text).not.toMatch(/^Account:/m);
+    expect(letters[0].missing).toEqual(['userAddress', 'userPhone']);
+
+    const complete = generateMailMerge(letter, buildMailMergeRecipients(records.slice(0, 1), []), {
+      ...base,
+      userAddress: '2 Elm St',
+      userPhone: '555-0111',
+    });
+    expect(complete[0].missing).toEqual([]);
+  });
+
+  it('should keep file names unique within a batch', () => {
+    const letter = getTemplateById('bank-notification-letter')!;
+    const letters = generateMailMerge(letter, buildMailMergeRecipients([], [
+      { id: 'a', caseId: 'case', type: 'BANK', name: 'A & B Bank' },
+      { id: 'b', caseId: 'case', type: 'BANK', name: 'A/B Bank' },
+    ]), base);
+
+    expect(letters.map(result => result.fileName)).toEqual(['A_B_Bank_bank_notification_letter', 'A_B_Bank_bank_notification_letter_2']);
+  });
+});
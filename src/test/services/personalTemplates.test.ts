@@ -0,0 +1,124 @@
+/**
+ * Personal Templates Tests
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  duplicateTemplate,
+  validatePersonalTemplate,
+  upsertPersonalTemplate,
+  exportTemplatePack,
+  parseTemplatePack,
+  validateTemplatePack,
+  mergeTemplatePack,
+} from '../../services/personalTemplates';
+import { getTemplateById, renderScript } from '../../services/scriptTemplates';
+import { setLocale } from '../../services/localization';
+import type { PersonalScriptTemplate } from '../../types';
+
+const builtIn = getTemplateById('bank-notification-letter')!;
+
+function personal(id: string, fields: Partial<PersonalScriptTemplate> = {}): PersonalScriptTemplate {
+  return {
+    ...duplicateTemplate(builtIn),
+    id,
+    title: `Template ${id}`,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+    ...fields,
+  };
+}
+
+afterEach(() => {
+  setLocale('en');
+});
+
+describe('Personal Templates', () => {
+  it('should duplicate a built-in template as an editable copy', () => {
+    const copy = duplicateTemplate(builtIn);
+
+    expect(copy.id).not.toBe(builtIn.id);
+    expect(copy.title).toBe('Write to a bank (my copy)');
+    expect(copy.basedOnId).toBe(builtIn.id);
+    expect(copy.bodyTemplate).toBe(builtIn.bodyTemplate);
+    expect(copy.placeholders).not.toBe(builtIn.placeholders);
+    expect(validatePersonalTemplate(copy)).toEqual([]);
+    expect(duplicateTemplate(copy).basedOnId).toBe(builtIn.id);
+
+    setLocale('es');
+    expect(duplicateTemplate(builtIn).title).toBe('Escribir a un banco (mi copia)');
+  });
+
+  it('should report problems that keep a template from being saved', () => {
+    const template = personal('bank-notification-phone', {
+      title: ' ',
+      type: 'PET_NOTIFICATION' as PersonalScriptTemplate['type'],
+      category: 'FAX' as PersonalScriptTemplate['category'],
+      bodyTemplate: 'Dear {{institutionName}},\nAbout {{petName}}{{#if userName}}',
+      placeholders: ['institutionName', 'nickname'],
+    });
+
+    expect(validatePersonalTemplate(template)).toEqual([
+      'id: "bank-notification-phone" is a built-in template',
+      'title: must not be empty',
+      'type: unknown template type "PET_NOTIFICATION"',
+      'category: unknown category "FAX"',
+      'placeholders: unknown placeholder "nickname"',
+      'bodyTemplate: line 2: {{#if userName}} is never closed',
+    ]);
+    expect(validatePersonalTemplate({ ...template, id: 'mine', title: 'Mine', type: 'BANK_NOTIFICATION', category: 'LETTER', bodyTemplate: 'About {{petName}}' }))
+      .toEqual(['placeholders: unknown placeholder "nickname"', 'bodyTemplate: line 1: unknown placeholder {{petName}}']);
+  });
+
+  it('should render an edited template like a built-in', () => {
+    const template = personal('mine', {
+      bodyTemplate: 'To {{institutionName | upper}}{{#if accountReference}}, re {{accountReference | mask}}{{/if}}',
+      placeholders: ['institutionName', 'accountReference'],
+    });
+    expect(renderScript(template, { institutionName: 'First Bank', accountReference: '12345678' }))
+      .toBe('To FIRST BANK, re ••••5678');
+  });
+
+  it('should insert or replace templates in the library', () => {
+    const first = personal('a');
+    const library = upsertPersonalTemplate([], first);
+    expect(library.map(template => template.id)).toEqual(['a']);
+
+    const updated = upsertPersonalTemplate([...library, personal('b')], { ...first, title: 'Renamed' });
+    expect(updated.map(template => template.title)).toEqual(['Renamed', 'Template b']);
+    expect(updated[0].updatedAt).not.toBe(first.updatedAt);
+  });
+
+  it('should round-trip template packs', () => {
+    const templates = [personal('a'), personal('b', { category: 'EMAIL', type: 'UTILITY_CANCELLATION' })];
+    expect(parseTemplatePack(exportTemplatePack(templates))).toEqual(templates);
+  });
+
+  it('should reject invalid template packs', () => {
+    expect(() => parseTemplatePack('{')).toThrow('Invalid template pack: not valid JSON');
+    expect(validateTemplatePack({ templates: [] })).toEqual(['pack: not a template pack']);
+    expect(validateTemplatePack({ format: 'afterpassing-template-pack', version: 9, templates: [] }))
+      .toEqual(['version: unsupported version 9']);
+
+    const pack = JSON.parse(exportTemplatePack([personal('a')]));
+    pack.templates.push('letter', { ...pack.templates[0] }, { ...pack.templates[0], id: 'b', title: 7, placeholders: 'all' });
+    pack.templates[0].bodyTemplate = '{{balance}}';
+    expect(validateTemplatePack(pack)).toEqual([
+      'templates[0].bodyTemplate: line 1: unknown placeholder {{balance}}',
+      'templates[1]: must be an object',
+      'templates[2].id: duplicate id "a"',
+      'templates[3].title: must be a string',
+      'templates[3].placeholders: must be an array of strings',
+    ]);
+    expect(() => parseTemplatePack(JSON.stringify(pack))).toThrow(/^Invalid template pack: templates\[0\]\.bodyTemplate/);
+  });
+
+  it('should merge imported templates into the library by id', () => {
+    const library = [personal('a'), personal('b')];
+    const result = mergeTemplatePack(library, [personal('b', { title: 'Imported b' }), personal('c')]);
+
+    expect(result.templates.map(template => template.title)).toEqual(['Template a', 'Imported b', 'Template c']);
+    expect(result.added).toBe(1);
+    expect(result.replaced).toBe(1);
+  });
+});
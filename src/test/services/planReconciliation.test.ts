@@ -0,0 +1,99 @@
+/**
+ * Plan Reconciliation Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { reconcilePlanTasks, regenerateAftercarePlan } from '../../services/planReconciliation';
+import { generateAftercarePlan, getTaskId } from '../../services/taskGenerationEngine';
+import type { AftercarePlan, AftercareProfile, LegacyVaultRecord } from '../../types';
+
+const profile: AftercareProfile = {
+  id: 'profile',
+  hasConfirmedDisclaimer: true,
+  country: 'United States',
+  createdAt: '2024-01-01',
+  updatedAt: '2024-01-01',
+};
+
+const bank: LegacyVaultRecord = { id: 'rec-bank', category: 'BANK_ACCOUNT', name: 'Checking', institutionName: 'First Bank' };
+const car: LegacyVaultRecord = { id: 'rec-car', category: 'VEHICLE', name: 'Car', vehicleYear: '2019', vehicleMake: 'Honda', vehicleModel: 'Civic' };
+
+function planFor(records: LegacyVaultRecord[]): AftercarePlan {
+  return {
+    id: 'plan-1',
+    caseId: 'case-1',
+    profile,
+    tasks: generateAftercarePlan({ profile, vaultRecords: records }).tasks,
+    createdAt: '2024-01-01',
+    lastUpdatedAt: '2024-01-01',
+  };
+}
+
+describe('Plan Reconciliation', () => {
+  it('should generate the same task ids every time', () => {
+    const first = generateAftercarePlan({ profile, vaultRecords: [bank] }).tasks.map(t => t.id);
+    const second = generateAftercarePlan({ profile, vaultRecords: [bank] }).tasks.map(t => t.id);
+    expect(second).toEqual(first);
+    expect(first).toContain(getTaskId('bank-account', 'rec-bank'));
+  });
+
+  it('should keep progress, add new record tasks and flag tasks whose record disappeared', () => {
+    const plan = planFor([bank]);
+    const bankTaskId = getTaskId('bank-account', 'rec-bank');
+    plan.tasks = plan.tasks.map(t =>
+      t.id === bankTaskId || t.templateKey === 'take-a-moment'
+        ? { ...t, status: 'DONE', completedAt: '2024-02-01', notes: 'Called', blockedBy: 'Waiting on letters' }
+        : t
+    );
+
+    const { plan: updated, summary } = regenerateAftercarePlan(plan, profile, [car]);
+
+    const moment = updated.tasks.find(t => t.templateKey === 'take-a-moment')!;
+    expect(moment).toMatchObject({ status: 'DONE', completedAt: '2024-02-01', notes: 'Called', blockedBy: 'Waiting on letters' });
+    expect(moment.sourceRemovedAt).toBeUndefined();
+
+    const bankTask = updated.tasks.find(t => t.id === bankTaskId)!;
+    expect(bankTask.status).toBe('DONE');
+    expect(bankTask.sourceRemovedAt).toBeDefined();
+
+    expect(updated.tasks.some(t => t.id === getTaskId('vehicle', 'rec-car'))).toBe(true);
+    expect(updated.id).toBe('plan-1');
+    expect(summary.added).toEqual(['Note location of 2019 Honda Civic']);
+    expect(summary.flagged).toEqual(['Review account at First Bank']);
+  });
+
+  it('should remove untouched general tasks that no longer apply', () => {
+    const plan = planFor([]);
+    const { summary } = regenerateAftercarePlan(plan, { ...profile, country: 'Canada' }, []);
+    expect(summary.removed).toContain('Check whether Social Security was notified');
+    expect(summary.flagged).toEqual([]);
+  });
+
+  it('should never change or remove user-authored tasks', () => {
+    const plan = planFor([]);
+    const custom = { ...plan.tasks[0], id: 'task_custom_1', templateKey: undefined, title: 'Return oxygen concentrator', userAuthored: true };
+    plan.tasks = [custom, ...plan.tasks];
+
+    const { plan: updated, summary } = regenerateAftercarePlan(plan, { ...profile, country: 'Canada' }, []);
+
+    expect(updated.tasks[0]).toEqual(custom);
+    expect(summary.removed).not.toContain('Return oxygen concentrator');
+    expect(summary.flagged).not.toContain('Return oxygen concentrator');
+  });
+
+  it('should match tasks from plans saved before stable ids', () => {
+    const generated = generateAftercarePlan({ profile, vaultRecords: [bank] }).tasks;
+    const legacy = generated.map(({ templateKey: _key, ...t }, i) => ({
+      ...t,
+      id: `task_123_${i}`,
+      status: 'IN_PROGRESS' as const,
+    }));
+
+    const { tasks, summary } = reconcilePlanTasks(legacy, generated);
+
+    expect(tasks.map(t => t.id).sort()).toEqual(generated.map(t => t.id).sort());
+    expect(tasks.every(t => t.status === 'IN_PROGRESS')).toBe(true);
+    expect(summary.added).toEqual([]);
+    expect(summary.removed).toEqual([]);
+  });
+});
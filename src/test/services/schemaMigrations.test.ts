@@ -0,0 +1,136 @@
+/**
+ * Schema Migration Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  SCHEMA_MIGRATIONS,
+  CURRENT_SCHEMA_VERSION,
+  runSchemaMigrations,
+  type MigrationStore,
+  type SchemaMigration,
+} from '../../services/schemaMigrations';
+import { STORAGE_KEYS } from '../../services/storageKeys';
+import type { AftercarePlan, ExecutorChecklistItem } from '../../types';
+
+/** In-memory store seeded with fixture values (JSON values stored as-is). */
+function createStore(json: Record<string, unknown> = {}, plain: Record<string, string> = {}) {
+  const data = new Map<string, unknown>(Object.entries(json));
+  const plainData = new Map<string, string>(Object.entries(plain));
+  const store: MigrationStore = {
+    read: async <T>(key: string) => (data.has(key) ? structuredClone(data.get(key)) as T : null),
+    write: async (key, value) => { data.set(key, structuredClone(value)); },
+    getPlain: (key) => plainData.get(key) ?? null,
+    setPlain: (key, value) => { plainData.set(key, value); },
+  };
+  return { store, data, plainData };
+}
+
+const migration = (version: number) => SCHEMA_MIGRATIONS.find(m => m.version === version)!;
+
+const CASE = { id: 'case-1', label: 'Case', status: 'active', createdAt: '2024-01-01', updatedAt: '2024-01-01' };
+const PROFILE = { id: 'p', hasConfirmedDisclaimer: true, createdAt: '2024-01-01', updatedAt: '2024-01-01' };
+
+describe('Schema Migrations', () => {
+  describe('runSchemaMigrations', () => {
+    it('should run pending migrations once, in order, and persist the version', async () => {
+      const ran: number[] = [];
+      const migrations: SchemaMigration[] = [2, 1, 3].map(version => ({
+        version,
+        name: `m${version}`,
+        up: async () => { ran.push(version); },
+      }));
+      const { store, plainData } = createStore({}, { [STORAGE_KEYS.SCHEMA_VERSION]: '1' });
+
+      expect(await runSchemaMigrations(store, migrations)).toBe(3);
+      expect(ran).toEqual([2, 3]);
+      expect(plainData.get(STORAGE_KEYS.SCHEMA_VERSION)).toBe('3');
+
+      await runSchemaMigrations(store, migrations);
+      expect(ran).toEqual([2, 3]);
+    });
+
+    it('should stop at a failing migration and keep the last good version', async () => {
+      const migrations: SchemaMigration[] = [
+        { version: 1, name: 'ok', up: async () => {} },
+        { version: 2, name: 'broken', up: async () => { throw new Error('bad data'); } },
+      ];
+      const { store, plainData } = createStore();
+
+      await expect(runSchemaMigrations(store, migrations)).rejects.toThrow('Migration 2 (broken) failed: bad data');
+      expect(plainData.get(STORAGE_KEYS.SCHEMA_VERSION)).toBe('1');
+    });
+
+    it('should bring fresh data to the current version', async () => {
+      const { store } = createStore({ [STORAGE_KEYS.CASES]: [CASE] }, { [STORAGE_KEYS.ACTIVE_CASE_ID]: 'case-1' });
+      expect(await runSchemaMigrations(store)).toBe(CURRENT_SCHEMA_VERSION);
+    });
+  });
+
+  describe('v1 multi-case', () => {
+    it('should move the legacy plan into the active case and back-fill caseId', async () => {
+      const { store, data } = createStore(
+        {
+          [STORAGE_KEYS.CASES]: [CASE],
+          [STORAGE_KEYS.PLAN]: { id: 'plan', profile: PROFILE, tasks: [], createdAt: '2024-01-01', lastUpdatedAt: '2024-01-01' },
+          [STORAGE_KEYS.CONTACTS]: [{ id: 'c1', type: 'BANK', name: 'Bank' }],
+        },
+        { [STORAGE_KEYS.ACTIVE_CASE_ID]: 'case-1' }
+      );
+
+      await migration(1).up(store);
+
+      const plans = data.get(STORAGE_KEYS.PLANS_BY_CASE) as Record<string, AftercarePlan>;
+      expect(plans['case-1']).toMatchObject({ id: 'plan', caseId: 'case-1' });
+      expect(data.get(STORAGE_KEYS.CONTACTS)).toEqual([{ id: 'c1', type: 'BANK', name: 'Bank', caseId: 'case-1' }]);
+    });
+  });
+
+  describe('v2 revised task descriptions', () => {
+    it('should rewrite saved descriptions of revised tasks by title, except customized ones', async () => {
+      const task = { id: 't1', phase: 'WEEK_1', category: 'ADMINISTRATIVE', status: 'DONE', priority: 'LOW', createdAt: '2024-01-01' };
+      const plan = {
+        id: 'plan',
+        caseId: 'case-1',
+        profile: PROFILE,
+        tasks: [
+          { ...task, title: 'Review mail and messages', description: 'Old copy' },
+          { ...task, id: 't2', title: 'Something else', description: 'Unchanged' },
+          { ...task, id: 't3', title: 'Review mail and messages', description: 'My own task', userAuthored: true },
+          { ...task, id: 't4', title: 'Review mail and messages', description: 'My wording', descriptionEditedAt: '2024-02-01' },
+        ],
+        createdAt: '2024-01-01',
+        lastUpdatedAt: '2024-01-01',
+      };
+      const { store, data } = createStore({ [STORAGE_KEYS.PLANS_BY_CASE]: { 'case-1': plan } });
+
+      await migration(2).up(store);
+
+      const tasks = (data.get(STORAGE_KEYS.PLANS_BY_CASE) as Record<string, AftercarePlan>)['case-1'].tasks;
+      expect(tasks[0]).toMatchObject({ status: 'DONE', description: expect.stringContaining('Forwarding mail can help') });
+      expect(tasks.slice(1).map(t => t.description)).toEqual(['Unchanged', 'My own task', 'My wording']);
+    });
+  });
+
+  describe('v3 legacy checklist categories', () => {
+    it('should map legacy categories and keep status and notes', async () => {
+      const legacy: ExecutorChecklistItem[] = [
+        { id: 'a', caseId: 'case-1', category: 'DOCUMENTS', title: 'Locate the original will', description: '', status: 'DONE', completedAt: '2024-02-01', notes: 'In the safe' },
+        { id: 'b', caseId: 'case-1', category: 'COMMUNICATION', title: 'Call the bank', description: '', status: 'NOT_APPLICABLE' },
+        { id: 'c', caseId: 'case-2', category: 'TAXES_GOVERNMENT', title: 'Untouched', description: '', status: 'PENDING' },
+      ];
+      const { store, data } = createStore({ [STORAGE_KEYS.CHECKLIST]: legacy });
+
+      await migration(3).up(store);
+
+      const checklist = data.get(STORAGE_KEYS.CHECKLIST) as ExecutorChecklistItem[];
+      expect(checklist.find(i => i.id === 'a')).toEqual({ ...legacy[0], category: 'IMMEDIATE_LEGAL_DOCUMENTS' });
+      expect(checklist.find(i => i.id === 'b')).toEqual({ ...legacy[1], category: 'DEBTS_OBLIGATIONS' });
+      expect(checklist.find(i => i.id === 'c')).toEqual(legacy[2]);
+      // Current phase items are added for the migrated case only, without duplicating matched titles
+      expect(checklist.filter(i => i.title === 'Locate the original will')).toHaveLength(1);
+      expect(checklist.filter(i => i.caseId === 'case-2')).toHaveLength(1);
+      expect(checklist.every(i => !['DOCUMENTS', 'COMMUNICATION'].includes(i.category))).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Task Content Version Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  findContentUpdates,
+  findPlanContentUpdates,
+  applyContentUpdates,
+  editTaskDescription,
+} from '../../services/taskContent';
+import { reconcilePlanTasks } from '../../services/planReconciliation';
+import { generateAftercarePlan, getTaskId } from '../../services/taskGenerationEngine';
+import { validateTaskRules } from '../../services/taskRules';
+import type { AftercarePlan, AftercareProfile, AftercareTask } from '../../types';
+
+const profile: AftercareProfile = {
+  id: 'profile',
+  hasConfirmedDisclaimer: true,
+  createdAt: '2024-01-01',
+  updatedAt: '2024-01-01',
+};
+
+const MAIL_ID = getTaskId('review-mail-and-messages');
+const OLD_MAIL_COPY = 'Look through mail as it arrives.';
+
+/** A plan saved before the mail task's wording was revised (no contentVersion). */
+function savedPlan(): AftercarePlan {
+  const tasks = generateAftercarePlan({ profile, vaultRecords: [] }).tasks.map((task): AftercareTask => {
+    const { contentVersion: _version, ...rest } = task;
+    return task.id === MAIL_ID ? { ...rest, description: OLD_MAIL_COPY, status: 'IN_PROGRESS', notes: 'Forwarding set up' } : rest;
+  });
+  return { id: 'plan', caseId: 'case-1', profile, tasks, createdAt: '2024-01-01', lastUpdatedAt: '2024-01-01' };
+}
+
+describe('Task Content Versions', () => {
+  it('should stamp generated tasks with their template content version', () => {
+    const tasks = generateAftercarePlan({ profile, vaultRecords: [{ id: 'car', category: 'VEHICLE', name: 'Car' }] }).tasks;
+
+    expect(tasks.find(t => t.id === MAIL_ID)?.contentVersion).toBe(2);
+    expect(tasks.find(t => t.id === getTaskId('take-a-moment'))?.contentVersion).toBe(1);
+    expect(tasks.find(t => t.relatedVaultRecordIds?.includes('car'))?.contentVersion).toBe(1);
+  });
+
+  it('should offer newer wording only for tasks whose wording differs', () => {
+    const updates = findPlanContentUpdates(savedPlan(), profile, []);
+
+    expect(updates).toHaveLength(1);
+    expect(updates[0]).toMatchObject({
+      taskId: MAIL_ID,
+      fromVersion: 1,
+      toVersion: 2,
+      current: { title: 'Review mail and messages', description: OLD_MAIL_COPY },
+    });
+    expect(updates[0].updated.description).toContain('Forwarding mail can help');
+    expect(updates[0].updated.title).toBeUndefined();
+  });
+
+  it('should apply updates while keeping progress and notes', () => {
+    const plan = savedPlan();
+    const updates = findPlanContentUpdates(plan, profile, []);
+    const mail = applyContentUpdates(plan.tasks, updates).find(t => t.id === MAIL_ID)!;
+
+    expect(mail).toMatchObject({ status: 'IN_PROGRESS', notes: 'Forwarding set up', contentVersion: 2 });
+    expect(mail.description).toBe(updates[0].updated.description);
+    expect(applyContentUpdates(plan.tasks, updates, ['other'])).toEqual(plan.tasks);
+  });
+
+  it('should never offer or apply updates over an edited description', () => {
+    const plan = savedPlan();
+    const updates = findPlanContentUpdates(plan, profile, []);
+    const edited = editTaskDescription(plan.tasks, MAIL_ID, '  Check the PO box on Fridays. ', '2024-02-01');
+    const mail = edited.find(t => t.id === MAIL_ID)!;
+
+    expect(mail).toMatchObject({ description: 'Check the PO box on Fridays.', descriptionEditedAt: '2024-02-01' });
+    expect(findContentUpdates(edited, generateAftercarePlan({ profile, vaultRecords: [] }).tasks)).toEqual([]);
+    expect(applyContentUpdates(edited, updates).find(t => t.id === MAIL_ID)?.description).toBe('Check the PO box on Fridays.');
+  });
+
+  it('should keep edited descriptions when the plan is regenerated', () => {
+    const edited = editTaskDescription(savedPlan().tasks, MAIL_ID, 'My own wording');
+    const { tasks } = reconcilePlanTasks(edited, generateAftercarePlan({ profile, vaultRecords: [] }).tasks);
+    const mail = tasks.find(t => t.id === MAIL_ID)!;
+
+    expect(mail.description).toBe('My own wording');
+    expect(mail.contentVersion).toBe(2);
+  });
+
+  it('should leave user-authored tasks alone', () => {
+    const custom: AftercareTask = {
+      id: 'task_custom_1',
+      phase: 'WEEK_1',
+      category: 'PERSONAL',
+      title: 'Review mail and messages',
+      description: 'Mine',
+      status: 'NOT_STARTED',
+      priority: 'LOW',
+      createdAt: '2024-01-01',
+      userAuthored: true,
+    };
+
+    expect(editTaskDescription([custom], custom.id, 'Changed')).toEqual([custom]);
+    expect(findContentUpdates([{ ...custom, id: MAIL_ID }], generateAftercarePlan({ profile, vaultRecords: [] }).tasks)).toEqual([]);
+  });
+
+  it('should offer updates for tasks saved before deterministic ids', () => {
+    const tasks = savedPlan().tasks.map(({ templateKey: _key, ...task }, index) => ({ ...task, id: `task_legacy_${index}` }));
+    const legacyMail = tasks.find(t => t.title === 'Review mail and messages')!;
+    const updates = findContentUpdates(tasks, generateAftercarePlan({ profile, vaultRecords: [] }).tasks);
+
+    expect(updates).toHaveLength(1);
+    expect(updates[0]).toMatchObject({ taskId: legacyMail.id, fromVersion: 1, toVersion: 2 });
+    expect(applyContentUpdates(tasks, updates).find(t => t.id === legacyMail.id)).toMatchObject({ notes: 'Forwarding set up', contentVersion: 2 });
+  });
+
+  it('should validate rule content versions', () => {
+    const rule = {
+      key: 'sample',
+      version: 0,
+      output: { title: 'T', description: 'D', reason: 'R', phase: 'WEEK_1', category: 'FINANCIAL', priority: 'LOW' },
+    };
+
+    expect(validateTaskRules([rule])).toEqual(['rules[0].version: must be a whole number']);
+    expect(validateTaskRules([{ ...rule, version: 3 }])).toEqual([]);
+  });
+});
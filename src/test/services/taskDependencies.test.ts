@@ -0,0 +1,111 @@
+/**
+ * Task Dependency Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getBlockedTasks,
+  getBlockedChecklistItems,
+  getUnblockedTasks,
+  findDependencyCycles,
+} from '../../services/taskDependencies';
+import { generateAftercarePlan, getTaskId, applyDefaultTaskDependencies } from '../../services/taskGenerationEngine';
+import { generateExecutorChecklist, applyChecklistSeedDefaults } from '../../services/executorService';
+import type { AftercareProfile, AftercareTask, ExecutorChecklistItem } from '../../types';
+
+const task = (id: string, fields: Partial<AftercareTask> = {}): AftercareTask => ({
+  id,
+  phase: 'WEEK_1',
+  category: 'ADMINISTRATIVE',
+  title: id,
+  description: '',
+  status: 'NOT_STARTED',
+  priority: 'MEDIUM',
+  createdAt: '2024-01-01',
+  ...fields,
+});
+
+const after = (taskId: string) => ({ kind: 'task' as const, taskId });
+
+const profile: AftercareProfile = {
+  id: 'profile',
+  hasConfirmedDisclaimer: true,
+  country: 'United States',
+  createdAt: '2024-01-01',
+  updatedAt: '2024-01-01',
+};
+
+const withCase = (items: ExecutorChecklistItem[]) => items.map(i => ({ ...i, caseId: 'case-1' }));
+
+describe('Task Dependencies', () => {
+  it('should block open tasks until their prerequisites are finished', () => {
+    const tasks = [task('a'), task('b', { dependsOn: [after('a')] }), task('c', { dependsOn: [after('b')], status: 'DONE' })];
+
+    expect(getBlockedTasks(tasks).get('b')).toEqual([{ ref: after('a'), title: 'a' }]);
+    expect(getBlockedTasks(tasks).has('c')).toBe(false);
+    expect(getUnblockedTasks(tasks).map(t => t.id)).toEqual(['a']);
+
+    const finished = tasks.map(t => (t.id === 'a' ? { ...t, status: 'NOT_APPLICABLE' as const } : t));
+    expect(getUnblockedTasks(finished).map(t => t.id)).toEqual(['b']);
+  });
+
+  it('should ignore references that do not resolve', () => {
+    const tasks = [task('a', { dependsOn: [after('missing'), { kind: 'checklist', seedKey: 'missing' }] })];
+    expect(getBlockedTasks(tasks).size).toBe(0);
+  });
+
+  it('should detect cycles and not let them block', () => {
+    const tasks = [
+      task('a', { dependsOn: [after('c')] }),
+      task('b', { dependsOn: [after('a')] }),
+      task('c', { dependsOn: [after('b')] }),
+      task('d', { dependsOn: [after('a')] }),
+    ];
+
+    expect(findDependencyCycles(tasks)).toEqual([['a', 'c', 'b']]);
+    expect([...getBlockedTasks(tasks).keys()]).toEqual(['d']);
+  });
+
+  it('should link seeded tasks and executor checklist items in both directions', () => {
+    const plan = generateAftercarePlan({
+      profile,
+      vaultRecords: [{ id: 'rec-bank', category: 'BANK_ACCOUNT', name: 'Checking', institutionName: 'First Bank' }],
+    });
+    const checklist = withCase(generateExecutorChecklist());
+
+    const bankTaskId = getTaskId('bank-account', 'rec-bank');
+    expect(getBlockedTasks(plan.tasks, checklist).get(bankTaskId)?.map(d => d.title)).toEqual([
+      'Obtain certified copies of death certificate',
+    ]);
+
+    const onlineAccounts = checklist.find(i => i.seedKey === 'close-or-transfer-online-accounts')!;
+    expect(getBlockedChecklistItems(plan.tasks, checklist).get(onlineAccounts.id)?.map(d => d.title)).toEqual([
+      'Inventory digital assets',
+      'Consider how to handle digital accounts',
+    ]);
+
+    const certificates = checklist.map(i =>
+      i.seedKey === 'obtain-certified-copies-of-death-certificate' ? { ...i, status: 'DONE' as const } : i
+    );
+    expect(getBlockedTasks(plan.tasks, certificates).has(bankTaskId)).toBe(false);
+    expect(findDependencyCycles(plan.tasks, checklist)).toEqual([]);
+  });
+
+  it('should fill in default dependencies on data saved before they existed', () => {
+    const generated = generateAftercarePlan({ profile, vaultRecords: [] }).tasks;
+    const saved = generated.map(({ dependsOn: _deps, ...t }) => t);
+    const restored = applyDefaultTaskDependencies(saved);
+    expect(restored.map(t => t.dependsOn)).toEqual(generated.map(t => t.dependsOn));
+    expect(applyDefaultTaskDependencies(restored)).toBe(restored);
+
+    const checklist = withCase(generateExecutorChecklist()).map(({ seedKey: _key, dependsOn: _deps, ...i }) => i);
+    const backfilled = applyChecklistSeedDefaults(checklist);
+    expect(backfilled.find(i => i.title === 'Notify creditors')).toMatchObject({
+      seedKey: 'notify-creditors',
+      dependsOn: [
+        { kind: 'checklist', seedKey: 'identify-outstanding-debts' },
+        { kind: 'checklist', seedKey: 'obtain-certified-copies-of-death-certificate' },
+      ],
+    });
+  });
+});
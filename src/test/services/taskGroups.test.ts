@@ -0,0 +1,84 @@
+/**
+ * Task Group Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { setSubItemStatus, getSubItemProgress } from '../../services/taskGroups';
+import { regenerateAftercarePlan } from '../../services/planReconciliation';
+import { generateAftercarePlan, getTaskId } from '../../services/taskGenerationEngine';
+import type { AftercarePlan, AftercareProfile, LegacyVaultRecord } from '../../types';
+
+const profile: AftercareProfile = {
+  id: 'profile',
+  hasConfirmedDisclaimer: true,
+  createdAt: '2024-01-01',
+  updatedAt: '2024-01-01',
+};
+
+const account = (id: string, name: string): LegacyVaultRecord => ({ id, category: 'BANK_ACCOUNT', name, institutionName: 'Chase' });
+const subscription = (id: string, name: string): LegacyVaultRecord => ({ id, category: 'SUBSCRIPTION', name });
+
+const recordTasks = (records: LegacyVaultRecord[]) =>
+  generateAftercarePlan({ profile, vaultRecords: records }).tasks.filter(t => t.relatedVaultRecordIds?.length);
+
+function planFor(records: LegacyVaultRecord[]): AftercarePlan {
+  return {
+    id: 'plan-1',
+    caseId: 'case-1',
+    profile,
+    tasks: generateAftercarePlan({ profile, vaultRecords: records }).tasks,
+    createdAt: '2024-01-01',
+    lastUpdatedAt: '2024-01-01',
+  };
+}
+
+describe('Task Groups', () => {
+  it('should collapse accounts at one institution and all subscriptions into parent tasks', () => {
+    const tasks = recordTasks([
+      account('a1', 'Checking'),
+      account('a2', 'Savings'),
+      account('a3', 'CD'),
+      subscription('s1', 'Netflix'),
+      subscription('s2', 'Spotify'),
+    ]);
+
+    expect(tasks.map(t => t.title)).toEqual(['Review 3 accounts at Chase', 'Review 2 subscriptions']);
+    expect(tasks[0].relatedVaultRecordIds).toEqual(['a1', 'a2', 'a3']);
+    expect(tasks[1].subItems).toEqual([
+      { vaultRecordId: 's1', title: 'Netflix', status: 'NOT_STARTED' },
+      { vaultRecordId: 's2', title: 'Spotify', status: 'NOT_STARTED' },
+    ]);
+    expect(recordTasks([subscription('s1', 'Netflix')])[0].subItems).toBeUndefined();
+  });
+
+  it('should track sub-item status separately from the parent', () => {
+    const tasks = recordTasks([subscription('s1', 'Netflix'), subscription('s2', 'Spotify')]);
+    const updated = setSubItemStatus(tasks, tasks[0].id, 's2', 'DONE', '2024-03-01');
+
+    expect(updated[0].status).toBe('NOT_STARTED');
+    expect(updated[0].subItems?.[1]).toMatchObject({ status: 'DONE', completedAt: '2024-03-01' });
+    expect(getSubItemProgress(updated[0])).toEqual({ handled: 1, total: 2 });
+  });
+
+  it('should keep sub-item status and fold separate tasks into a new group on regeneration', () => {
+    const plan = planFor([account('a1', 'Checking'), account('a2', 'Savings')]);
+    const groupId = getTaskId('bank-account', 'a1');
+    plan.tasks = setSubItemStatus(plan.tasks, groupId, 'a2', 'NOT_APPLICABLE');
+
+    const withThird = regenerateAftercarePlan(plan, profile, [account('a1', 'Checking'), account('a2', 'Savings'), account('a3', 'CD')]);
+    const group = withThird.plan.tasks.find(t => t.id === groupId)!;
+    expect(group.title).toBe('Review 3 accounts at Chase');
+    expect(group.subItems?.map(i => i.status)).toEqual(['NOT_STARTED', 'NOT_APPLICABLE', 'NOT_STARTED']);
+
+    // A plan from before grouping had one task per subscription
+    const separate = planFor([subscription('s1', 'Netflix')]);
+    const before = planFor([subscription('s2', 'Spotify')]).tasks.filter(t => t.templateKey === 'subscription');
+    separate.tasks = [...separate.tasks, ...before.map(t => ({ ...t, status: 'DONE' as const }))];
+
+    const { plan: grouped, summary } = regenerateAftercarePlan(separate, profile, [subscription('s1', 'Netflix'), subscription('s2', 'Spotify')]);
+    const subscriptions = grouped.tasks.filter(t => t.templateKey === 'subscription');
+    expect(subscriptions).toHaveLength(1);
+    expect(subscriptions[0].subItems?.map(i => [i.title, i.status])).toEqual([['Netflix', 'NOT_STARTED'], ['Spotify', 'DONE']]);
+    expect(summary.grouped).toEqual(['Review Spotify subscription']);
+  });
+});
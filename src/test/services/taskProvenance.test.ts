@@ -0,0 +1,73 @@
+/**
+ * Task Provenance Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { describeTaskProvenance } from '../../services/taskProvenance';
+import { generateAftercarePlan, getTaskId } from '../../services/taskGenerationEngine';
+import { regenerateAftercarePlan } from '../../services/planReconciliation';
+import type { AftercarePlan, AftercareProfile, LegacyVaultRecord } from '../../types';
+
+const profile: AftercareProfile = {
+  id: 'profile',
+  hasConfirmedDisclaimer: true,
+  isExecutor: true,
+  country: 'United Kingdom',
+  createdAt: '2024-01-01',
+  updatedAt: '2024-01-01',
+};
+
+const records: LegacyVaultRecord[] = [
+  { id: 'b1', category: 'BANK_ACCOUNT', name: 'Checking', institutionName: 'First Bank' },
+  { id: 'b2', category: 'BANK_ACCOUNT', name: 'Savings', institutionName: 'First Bank' },
+  { id: 'p1', category: 'INSURANCE', name: 'Life policy', insuranceCompany: 'Acme Life', beneficiaryNames: ['Sam'] },
+];
+
+const generate = () => generateAftercarePlan({ profile, vaultRecords: records }).tasks;
+const byId = (id: string) => generate().find(t => t.id === id)!;
+
+describe('Task Provenance', () => {
+  it('should record the rule, records and matched fields of record tasks', () => {
+    expect(byId(getTaskId('bank-account', 'b1')).provenance).toEqual({
+      source: 'record-rule',
+      ruleKey: 'bank-account',
+      vaultRecords: [{ id: 'b1', name: 'Checking' }, { id: 'b2', name: 'Savings' }],
+      fields: [{ field: 'record.category', value: 'BANK_ACCOUNT' }],
+      mergedBy: 'First Bank',
+    });
+
+    expect(describeTaskProvenance(byId(getTaskId('insurance-claim', 'p1')))).toEqual([
+      'From your vault record "Life policy".',
+      'Matched Category: Insurance; Beneficiaries: Sam.',
+      'Rule: insurance-claim',
+    ]);
+  });
+
+  it('should explain profile conditions and jurisdiction packs', () => {
+    expect(describeTaskProvenance(byId(getTaskId('note-any-receipts-for-estate-expenses')))).toEqual([
+      'Based on your answers: Executor: yes.',
+      'Rule: note-any-receipts-for-estate-expenses',
+    ]);
+    expect(describeTaskProvenance(byId(getTaskId('consider-using-tell-us-once')))).toEqual([
+      'Added by the United Kingdom guidance for your location.',
+      'Based on your answers: Country: United Kingdom.',
+      'Rule: consider-using-tell-us-once',
+    ]);
+    expect(byId(getTaskId('consider-whether-to-request-death-certificates')).provenance?.jurisdiction).toEqual({
+      packId: 'gb',
+      name: 'United Kingdom',
+      change: 'replaced',
+    });
+    expect(describeTaskProvenance(byId(getTaskId('take-a-moment')))[0]).toBe('Part of the general guidance included in every plan.');
+  });
+
+  it('should add provenance to older tasks on regeneration without reporting them as updated', () => {
+    const tasks = generate().map(({ provenance: _p, ...t }) => t);
+    const plan: AftercarePlan = { id: 'plan', caseId: 'case-1', profile, tasks, createdAt: '2024-01-01', lastUpdatedAt: '2024-01-01' };
+    expect(describeTaskProvenance(tasks[0])).toEqual([]);
+
+    const { plan: regenerated, summary } = regenerateAftercarePlan(plan, profile, records);
+    expect(summary.updated).toEqual([]);
+    expect(regenerated.tasks.every(t => t.provenance)).toBe(true);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Task Recurrence Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { setTaskStatus, describeRecurrence, isRecurrenceOver } from '../../services/taskRecurrence';
+import { createSteps } from '../../services/taskSteps';
+import { addCustomTask } from '../../services/customTasks';
+import { validateTaskRules } from '../../services/taskRules';
+import { generateAftercarePlan, getTaskId } from '../../services/taskGenerationEngine';
+import type { AftercareProfile, AftercareTask } from '../../types';
+
+const profile: AftercareProfile = {
+  id: 'profile',
+  hasConfirmedDisclaimer: true,
+  createdAt: '2024-01-01',
+  updatedAt: '2024-01-01',
+};
+
+const task = (fields: Partial<AftercareTask> = {}): AftercareTask => ({
+  id: 'task-1',
+  phase: 'DAYS_60_90',
+  category: 'INSURANCE',
+  title: 'Follow up on the claim',
+  description: '',
+  status: 'NOT_STARTED',
+  priority: 'LOW',
+  createdAt: '2024-01-01',
+  recurrence: { intervalDays: 10 },
+  ...fields,
+});
+
+const now = new Date('2024-03-01T12:00:00');
+
+describe('Task Recurrence', () => {
+  it('should record the occurrence and open the next one with its own date', () => {
+    const [next] = setTaskStatus([task({ dueDate: '2024-02-28' })], 'task-1', 'DONE', [], now);
+
+    expect(next).toMatchObject({ id: 'task-1', status: 'NOT_STARTED', dueDate: '2024-03-11', completedAt: undefined });
+    expect(next.occurrences).toEqual([
+      { number: 1, status: 'DONE', dueDate: '2024-02-28', completedAt: now.toISOString() },
+    ]);
+  });
+
+  it('should start the steps over for the next occurrence', () => {
+    const withSteps = task({ steps: createSteps(['Call', 'Write']).map(step => ({ ...step, status: 'DONE' as const })) });
+    const [next] = setTaskStatus([withSteps], 'task-1', 'DONE', [], now);
+
+    expect(next.steps?.map(step => step.status)).toEqual(['NOT_STARTED', 'NOT_STARTED']);
+  });
+
+  it('should stop after the maximum number of occurrences', () => {
+    let tasks = [task({ recurrence: { intervalDays: 7, maxOccurrences: 2 } })];
+    tasks = setTaskStatus(tasks, 'task-1', 'DONE', [], now);
+    tasks = setTaskStatus(tasks, 'task-1', 'NOT_APPLICABLE', [], now);
+
+    expect(tasks[0].status).toBe('NOT_APPLICABLE');
+    expect(tasks[0].occurrences?.map(o => o.status)).toEqual(['DONE', 'NOT_APPLICABLE']);
+    expect(describeRecurrence(tasks[0], tasks)).toBe('Finished after 2 occurrences');
+  });
+
+  it('should stop once its until task is finished', () => {
+    const claim = task({ id: 'claim', title: 'File a claim', recurrence: undefined });
+    const followUp = task({ recurrence: { intervalDays: 10, until: { kind: 'task', taskId: 'claim' } } });
+
+    expect(describeRecurrence(followUp, [claim, followUp])).toBe('Repeats every 10 days until “File a claim” is handled');
+    expect(isRecurrenceOver(followUp, [claim, followUp])).toBe(false);
+
+    const tasks = setTaskStatus([{ ...claim, status: 'DONE' }, followUp], 'task-1', 'DONE', [], now);
+    expect(tasks[1]).toMatchObject({ status: 'DONE', occurrences: [{ number: 1 }] });
+  });
+
+  it('should leave tasks without a recurrence as before', () => {
+    const [done] = setTaskStatus([task({ recurrence: undefined })], 'task-1', 'DONE', [], now);
+    const [started] = setTaskStatus([task()], 'task-1', 'IN_PROGRESS', [], now);
+
+    expect(done).toMatchObject({ status: 'DONE', completedAt: now.toISOString() });
+    expect(done.occurrences).toBeUndefined();
+    expect(started.status).toBe('IN_PROGRESS');
+    expect(started.occurrences).toBeUndefined();
+    expect(describeRecurrence(done, [done])).toBeNull();
+  });
+
+  it('should generate recurring guidance tasks', () => {
+    const plan = generateAftercarePlan({
+      profile,
+      vaultRecords: [{ id: 'policy', category: 'INSURANCE', name: 'Life', insuranceCompany: 'Acme Life', beneficiaryNames: ['Sam'] }],
+    });
+    const followUp = plan.tasks.find(t => t.templateKey === 'insurance-claim-follow-up')!;
+    const mail = plan.tasks.find(t => t.id === getTaskId('review-mail-and-messages'))!;
+
+    expect(followUp.title).toBe('Follow up with Acme Life on the claim');
+    expect(followUp.recurrence).toEqual({
+      intervalDays: 10,
+      maxOccurrences: 6,
+      until: { kind: 'task', taskId: getTaskId('insurance-claim', 'policy') },
+    });
+    expect(describeRecurrence(mail, plan.tasks)).toBe('Repeats weekly, up to 8 times');
+  });
+
+  it('should validate recurrence in task rules and custom tasks', () => {
+    const rule = {
+      key: 'sample',
+      output: {
+        title: 'T', description: 'D', reason: 'R', phase: 'WEEK_1', category: 'FINANCIAL', priority: 'LOW',
+        recurrence: { intervalDays: 0, maxOccurrences: 1.5, until: { kind: 'checklist' } },
+      },
+    };
+
+    expect(validateTaskRules([rule])).toEqual([
+      'rules[0].output.recurrence.intervalDays: must be a whole number of days',
+      'rules[0].output.recurrence.maxOccurrences: must be a whole number',
+      'rules[0].output.recurrence.until: must be { kind: "task", taskId } or { kind: "checklist", seedKey }',
+    ]);
+
+    const [custom] = addCustomTask([], {
+      title: 'Water the plants',
+      phase: 'WEEK_1',
+      category: 'PERSONAL',
+      priority: 'LOW',
+      recurrence: { intervalDays: 3, maxOccurrences: 0 },
+    });
+    expect(custom.recurrence).toEqual({ intervalDays: 3, maxOccurrences: undefined });
+  });
+});
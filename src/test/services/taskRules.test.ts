@@ -0,0 +1,141 @@
+/**
+ * Task Rule Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  validateTaskRules,
+  loadTaskRules,
+  evaluateCondition,
+  matchRecordRules,
+  renderRuleTemplate,
+} from '../../services/taskRules';
+import { generateAftercarePlan, getTaskId } from '../../services/taskGenerationEngine';
+import recordTaskRules from '../../constants/recordTaskRules.json';
+import type { AftercareProfile, LegacyVaultRecord } from '../../types';
+
+const profile: AftercareProfile = {
+  id: 'profile',
+  hasConfirmedDisclaimer: true,
+  isExecutor: true,
+  createdAt: '2024-01-01',
+  updatedAt: '2024-01-01',
+};
+
+const record = (id: string, fields: Partial<LegacyVaultRecord>): LegacyVaultRecord => ({
+  id,
+  category: 'OTHER',
+  name: '',
+  ...fields,
+});
+
+const recordTasks = (records: LegacyVaultRecord[]) =>
+  generateAftercarePlan({ profile, vaultRecords: records }).tasks.filter(t => t.relatedVaultRecordIds?.length);
+
+const validRule = {
+  key: 'sample',
+  when: { field: 'record.category', op: 'equals', value: 'LOAN' },
+  output: { title: 'Review {{name}}', description: 'D', reason: 'R', phase: 'WEEK_1', category: 'FINANCIAL', priority: 'LOW' },
+};
+
+describe('Task Rules', () => {
+  it('should accept the built-in rules', () => {
+    expect(validateTaskRules(recordTaskRules)).toEqual([]);
+    expect(validateTaskRules([validRule])).toEqual([]);
+  });
+
+  it('should report invalid rules with their path', () => {
+    const errors = validateTaskRules([
+      validRule,
+      {
+        ...validRule,
+        when: { all: [{ field: 'record.colour', op: 'equals', value: 'red' }, { field: 'profile.hasWill', op: 'near' }] },
+        output: { ...validRule.output, title: 'Review {{nickname}}', phase: 'SOON', dependsOn: [{ kind: 'task' }] },
+      },
+    ]);
+
+    expect(errors).toEqual([
+      'rules[1].key: duplicate key "sample"',
+      'rules[1].when.all[0].field: unknown field "record.colour" (use record.<field> or profile.<field>)',
+      'rules[1].when.all[1].op: unknown operator "near"',
+      'rules[1].output.title: unknown placeholder {{nickname}}',
+      'rules[1].output.phase: unknown phase "SOON"',
+      'rules[1].output.dependsOn[0].taskId: must be a non-empty string',
+    ]);
+    expect(validateTaskRules({})).toEqual(['rules: must be an array']);
+    expect(() => loadTaskRules([{ key: 'Bad Key' }])).toThrow(/^Invalid task rules: rules\[0\]\.key/);
+  });
+
+  it('should evaluate conditions on record and profile fields', () => {
+    const insurance = record('r1', { category: 'INSURANCE', beneficiaryNames: ['Sam'], tags: ['life'] });
+
+    expect(evaluateCondition({ field: 'record.beneficiaryNames', op: 'exists' }, { record: insurance })).toBe(true);
+    expect(evaluateCondition({ field: 'record.institutionName', op: 'notExists' }, { record: insurance })).toBe(true);
+    expect(evaluateCondition({ field: 'record.tags', op: 'contains', value: 'life' }, { record: insurance })).toBe(true);
+    expect(evaluateCondition({ field: 'record.category', op: 'in', value: ['LOAN', 'INSURANCE'] }, { record: insurance })).toBe(true);
+    expect(evaluateCondition({ not: { field: 'profile.isExecutor', op: 'equals', value: true } }, { profile })).toBe(false);
+    expect(evaluateCondition({ any: [{ field: 'profile.hasWill', op: 'equals', value: true }] }, { profile })).toBe(false);
+  });
+
+  it('should produce the same tasks as the previous templates', () => {
+    const tasks = recordTasks([
+      record('car', { category: 'VEHICLE', vehicleYear: '2019', vehicleMake: 'Honda', vehicleModel: 'Civic' }),
+      record('bank', { category: 'BANK_ACCOUNT', name: 'Checking', institutionName: 'First Bank' }),
+      record('misc', { category: 'OTHER', name: '' }),
+    ]);
+
+    expect(tasks.map(t => t.title)).toEqual([
+      'Note location of 2019 Honda Civic',
+      'Review account at First Bank',
+      'Review this item',
+    ]);
+    expect(tasks[1]).toMatchObject({ id: getTaskId('bank-account', 'bank'), templateKey: 'bank-account', priority: 'MEDIUM' });
+  });
+
+  it('should add a claim task for insurance records with beneficiaries', () => {
+    const withBeneficiaries = record('policy', {
+      category: 'INSURANCE',
+      name: 'Life policy',
+      insuranceCompany: 'Acme Life',
+      beneficiaryNames: ['Sam', 'Alex'],
+    });
+    const claim = recordTasks([withBeneficiaries]).find(t => t.templateKey === 'insurance-claim')!;
+
+    expect(claim.title).toBe('Consider filing a claim with Acme Life');
+    expect(claim.description).toContain('Sam, Alex');
+    expect(claim.dependsOn).toContainEqual({ kind: 'task', taskId: getTaskId('insurance', 'policy') });
+    expect(recordTasks([{ ...withBeneficiaries, beneficiaryNames: [] }]).some(t => t.templateKey === 'insurance-claim')).toBe(false);
+  });
+
+  it('should merge records that share a dedupe key', () => {
+    const tasks = recordTasks([
+      record('b1', { category: 'BANK_ACCOUNT', name: 'Checking', institutionName: 'First Bank' }),
+      record('b2', { category: 'BANK_ACCOUNT', name: 'Savings', institutionName: 'first bank ' }),
+      record('b3', { category: 'BANK_ACCOUNT', name: 'Savings', institutionName: 'Credit Union' }),
+      record('b4', { category: 'BANK_ACCOUNT', name: 'Old account' }),
+    ]);
+
+    expect(tasks.map(t => [t.title, t.relatedVaultRecordIds])).toEqual([
+      ['Review 2 accounts at First Bank', ['b1', 'b2']],
+      ['Review account at Credit Union', ['b3']],
+      ['Review account at Old account', ['b4']],
+    ]);
+    expect(tasks[0].id).toBe(getTaskId('bank-account', 'b1'));
+  });
+
+  it('should apply fallback rules only to unmatched records', () => {
+    const rules = loadTaskRules([
+      validRule,
+      { ...validRule, key: 'catch-all', fallback: true, when: undefined },
+    ]);
+    const loan = record('loan', { category: 'LOAN' });
+    const other = record('other', { category: 'OTHER' });
+
+    expect(matchRecordRules(rules, [loan, other]).map(m => [m.rule.key, m.records[0].id])).toEqual([
+      ['sample', 'loan'],
+      ['catch-all', 'other'],
+    ]);
+    expect(matchRecordRules(rules, [loan], undefined, new Set(['sample']))).toEqual([]);
+    expect(renderRuleTemplate('Review {{institutionName}} ({{count}})', loan, { count: 3 })).toBe('Review the institution (3)');
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Task Scheduling Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getTaskWindow,
+  scheduleTasks,
+  getCurrentTasks,
+  getCurrentPhase,
+} from '../../services/taskScheduling';
+import type { AftercareTask } from '../../types';
+
+const task = (id: string, phase: AftercareTask['phase'], fields: Partial<AftercareTask> = {}): AftercareTask => ({
+  id,
+  phase,
+  category: 'ADMINISTRATIVE',
+  title: id,
+  description: '',
+  status: 'NOT_STARTED',
+  priority: 'MEDIUM',
+  createdAt: '2024-01-01',
+  ...fields,
+});
+
+const DATE_OF_DEATH = '2024-03-01';
+const today = new Date(2024, 2, 15); // 14 days after
+
+describe('Task Scheduling', () => {
+  it('should anchor phase windows on the date of death', () => {
+    expect(getTaskWindow(task('a', 'WEEK_1'), DATE_OF_DEATH)).toEqual({ start: '2024-03-01', end: '2024-03-08' });
+    expect(getTaskWindow(task('b', 'WEEKS_2_6'), DATE_OF_DEATH)).toEqual({ start: '2024-03-08', end: '2024-04-12' });
+  });
+
+  it('should let a due date override the phase window', () => {
+    expect(getTaskWindow(task('a', 'LONG_TERM', { dueDate: '2024-03-20' }), DATE_OF_DEATH)?.end).toBe('2024-03-20');
+    expect(getTaskWindow(task('b', 'WEEK_1', { dueDate: '2024-03-20' }), undefined)).toEqual({ start: '2024-03-20', end: '2024-03-20' });
+  });
+
+  it('should have no window without a date of death or due date', () => {
+    expect(getTaskWindow(task('a', 'WEEK_1'), undefined)).toBeNull();
+    expect(getCurrentPhase(undefined, today)).toBeNull();
+    expect(scheduleTasks([task('a', 'WEEK_1')], undefined, today)).toEqual({ overdue: [], 'this-week': [], upcoming: [] });
+  });
+
+  it('should group open tasks into overdue, this week and upcoming', () => {
+    const tasks = [
+      task('first-days', 'FIRST_48_HOURS'),
+      task('weeks', 'WEEKS_2_6'),
+      task('later', 'DAYS_60_90'),
+      task('handled', 'WEEK_1', { status: 'DONE' }),
+      task('due-soon', 'LONG_TERM', { dueDate: '2024-03-18' }),
+    ];
+
+    const schedule = scheduleTasks(tasks, DATE_OF_DEATH, today);
+
+    expect(schedule.overdue.map(s => s.task.id)).toEqual(['first-days']);
+    expect(schedule['this-week'].map(s => s.task.id)).toEqual(['due-soon', 'weeks']);
+    expect(schedule.upcoming.map(s => s.task.id)).toEqual(['later']);
+  });
+
+  it('should pick current tasks and the current phase', () => {
+    const tasks = [task('weeks', 'WEEKS_2_6', { priority: 'LOW' }), task('weeks-high', 'WEEKS_2_6', { priority: 'HIGH' })];
+    expect(getCurrentTasks(tasks, DATE_OF_DEATH, today).map(s => s.task.id)).toEqual(['weeks-high', 'weeks']);
+    expect(getCurrentPhase(DATE_OF_DEATH, today)).toBe('WEEKS_2_6');
+    expect(getCurrentPhase(DATE_OF_DEATH, new Date(2024, 2, 2))).toBe('FIRST_48_HOURS');
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Task Step Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createSteps,
+  rollUpStepStatus,
+  setStepStatus,
+  addStep,
+  removeStep,
+  moveStep,
+  getStepProgress,
+} from '../../services/taskSteps';
+import { reconcilePlanTasks } from '../../services/planReconciliation';
+import { generateAftercarePlan, getTaskId } from '../../services/taskGenerationEngine';
+import type { AftercareProfile, AftercareTask } from '../../types';
+
+const profile: AftercareProfile = {
+  id: 'profile',
+  hasConfirmedDisclaimer: true,
+  createdAt: '2024-01-01',
+  updatedAt: '2024-01-01',
+};
+
+const task = (fields: Partial<AftercareTask> = {}): AftercareTask => ({
+  id: 'task-1',
+  phase: 'WEEK_1',
+  category: 'INSURANCE',
+  title: 'File a claim',
+  description: '',
+  status: 'NOT_STARTED',
+  priority: 'MEDIUM',
+  createdAt: '2024-01-01',
+  steps: createSteps(['Call insurer', 'Send certificate', 'Receive payout']),
+  ...fields,
+});
+
+describe('Task Steps', () => {
+  it('should roll the task status up from its steps', () => {
+    let tasks = [task()];
+    tasks = setStepStatus(tasks, 'task-1', 'step-1', 'DONE', '2024-02-01');
+    expect(tasks[0].status).toBe('IN_PROGRESS');
+    expect(getStepProgress(tasks[0])).toEqual({ finished: 1, total: 3 });
+
+    tasks = setStepStatus(tasks, 'task-1', 'step-2', 'NOT_APPLICABLE');
+    tasks = setStepStatus(tasks, 'task-1', 'step-3', 'DONE', '2024-03-01');
+    expect(tasks[0]).toMatchObject({ status: 'DONE', completedAt: '2024-03-01' });
+
+    tasks = setStepStatus(tasks, 'task-1', 'step-3', 'NOT_STARTED');
+    expect(tasks[0]).toMatchObject({ status: 'IN_PROGRESS', completedAt: undefined });
+
+    expect(rollUpStepStatus(createSteps(['a']).map(s => ({ ...s, status: 'NOT_APPLICABLE' })))).toBe('NOT_APPLICABLE');
+    expect(rollUpStepStatus(createSteps(['a', 'b']))).toBe('NOT_STARTED');
+  });
+
+  it('should add, remove and reorder steps', () => {
+    let tasks = addStep([task({ steps: undefined, status: 'IN_PROGRESS' })], 'task-1', '  Ask about payout  ');
+    expect(tasks[0].steps?.map(s => [s.title, s.userAuthored])).toEqual([['Ask about payout', true]]);
+    expect(tasks[0].status).toBe('NOT_STARTED');
+    expect(addStep(tasks, 'task-1', '   ')).toBe(tasks);
+
+    tasks = [task()];
+    tasks = moveStep(tasks, 'task-1', 'step-3', 'up');
+    expect(tasks[0].steps?.map(s => s.id)).toEqual(['step-1', 'step-3', 'step-2']);
+    expect(moveStep(tasks, 'task-1', 'step-1', 'up')).toEqual(tasks);
+
+    tasks = removeStep(tasks, 'task-1', 'step-1');
+    tasks = removeStep(tasks, 'task-1', 'step-3');
+    tasks = removeStep(tasks, 'task-1', 'step-2');
+    expect(tasks[0].steps).toBeUndefined();
+  });
+
+  it('should seed default steps from templates and keep the user\'s steps on regeneration', () => {
+    const generated = generateAftercarePlan({
+      profile,
+      vaultRecords: [{ id: 'p1', category: 'INSURANCE', name: 'Life', insuranceCompany: 'Acme Life', beneficiaryNames: ['Sam'] }],
+    }).tasks;
+    const claim = generated.find(t => t.id === getTaskId('insurance-claim', 'p1'))!;
+    expect(claim.steps?.map(s => s.title)).toEqual([
+      'Locate the policy and policy number',
+      'Call Acme Life to report the death',
+      'Send a certified death certificate',
+      'Receive the claim form',
+      'Submit the completed claim form',
+      'Receive the payout',
+    ]);
+
+    const edited = removeStep(setStepStatus(generated, claim.id, 'step-1', 'DONE'), claim.id, 'step-6');
+    const { tasks } = reconcilePlanTasks(edited, generated);
+    const kept = tasks.find(t => t.id === claim.id)!;
+    expect(kept.steps).toHaveLength(5);
+    expect(kept.steps?.[0].status).toBe('DONE');
+
+    // Older tasks get seeded steps only while unfinished
+    const withoutSteps = generated.map(({ steps: _s, ...t }) => (t.id === claim.id ? { ...t, status: 'DONE' as const } : t));
+    const refreshed = reconcilePlanTasks(withoutSteps, generated).tasks;
+    expect(refreshed.find(t => t.id === claim.id)?.steps).toBeUndefined();
+    expect(refreshed.find(t => t.id === getTaskId('consider-whether-to-request-death-certificates'))?.steps).toHaveLength(3);
+  });
+});
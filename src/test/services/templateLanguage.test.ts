@@ -0,0 +1,119 @@
+/**
+ * Template Language Tests
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { renderTemplate, checkTemplate } from '../../services/templateLanguage';
+import { setLocale, type Locale } from '../../services/localization';
+import { getScriptTemplates, renderScript, validateScriptTemplate } from '../../services/scriptTemplates';
+import type { ScriptTemplate } from '../../types';
+
+afterEach(() => {
+  setLocale('en');
+});
+
+describe('Template Language', () => {
+  it('should insert values and fall back for missing ones', () => {
+    expect(renderTemplate('Dear {{name}},', { name: 'Sam' })).toBe('Dear Sam,');
+    expect(renderTemplate('Dear {{name}},', {})).toBe('Dear [name],');
+    expect(renderTemplate('Dear {{ name }},', { name: '  ' }, { missing: name => `<${name}>` })).toBe('Dear <name>,');
+    expect(renderTemplate('{{list}}', { list: ['a', 'b'] })).toBe('a, b');
+  });
+
+  it('should apply filters', () => {
+    expect(renderTemplate('{{name | upper}}', { name: 'First Bank' })).toBe('FIRST BANK');
+    expect(renderTemplate('{{day | date}}', { day: '2025-03-04' })).toBe('March 4, 2025');
+    expect(renderTemplate('{{day | date:short}}', { day: 'soon' })).toBe('soon');
+    expect(renderTemplate('{{number | mask}}', { number: '12345678' })).toBe('••••5678');
+    expect(renderTemplate('{{number | mask:2}}', { number: '12345' })).toBe('•••45');
+    expect(renderTemplate('{{number | mask}}', { number: '123' })).toBe('123');
+    expect(renderTemplate('{{number | mask | upper}}', { number: '12ab' })).toBe('12AB');
+  });
+
+  it('should render conditionals', () => {
+    const source = '{{#if ref}}Ref: {{ref}}{{else}}No ref{{/if}}{{#unless name}} (unnamed){{/unless}}';
+    expect(renderTemplate(source, { ref: 'A1', name: 'Sam' })).toBe('Ref: A1');
+    expect(renderTemplate(source, { ref: '' })).toBe('No ref (unnamed)');
+    expect(renderTemplate('{{#if items}}some{{else}}none{{/if}}', { items: [] })).toBe('none');
+  });
+
+  it('should loop over lists', () => {
+    const source = '{{#each accounts}}{{@number}}. {{name}} {{#if ref}}({{ref}}){{/if}} for {{owner}}\n{{else}}No accounts\n{{/each}}';
+    expect(renderTemplate(source, { owner: 'Sam', accounts: [{ name: 'Checking', ref: '1' }, { name: 'Savings' }] }))
+      .toBe('1. Checking (1) for Sam\n2. Savings  for Sam\n');
+    expect(renderTemplate(source, { owner: 'Sam' })).toBe('No accounts\n');
+    expect(renderTemplate('{{#each tags}}[{{this}}]{{/each}}', { tags: ['a', 'b'] })).toBe('[a][b]');
+  });
+
+  it('should drop lines that only hold a block tag', () => {
+    const source = 'Re: notice\n  {{#if ref}}\nAccount: {{ref}}\n  {{/if}}\nDear team,';
+    expect(renderTemplate(source, { ref: '42' })).toBe('Re: notice\nAccount: 42\nDear team,');
+    expect(renderTemplate(source, {})).toBe('Re: notice\nDear team,');
+  });
+
+  it('should escape inserted values but not template text', () => {
+    expect(renderTemplate('<b>{{name}}</b>', { name: '<i>Sam</i>' }, { escape: value => value.replace(/</g, '&lt;') }))
+      .toBe('<b>&lt;i>Sam&lt;/i></b>');
+    expect(renderTemplate('Write \\{{name}} literally', { name: 'Sam' })).toBe('Write {{name}} literally');
+  });
+
+  it('should only read values from the context itself', () => {
+    expect(renderTemplate('{{constructor}} {{toString}}', {})).toBe('[constructor] [toString]');
+    expect(renderTemplate('{{#each list}}{{constructor}}{{/each}}', { list: [{}] })).toBe('[constructor]');
+  });
+
+  it('should report syntax errors with their line', () => {
+    expect(checkTemplate('Hi {{name', ['name'])).toEqual(['line 1: {{ is never closed']);
+    expect(checkTemplate('{{#if name}}\nHi', ['name'])).toEqual(['line 1: {{#if name}} is never closed']);
+    expect(checkTemplate('{{#if name}}\n{{/each}}', ['name'])).toEqual(['line 2: {{/each}} closes {{#if name}} from line 1']);
+    expect(checkTemplate('{{else}}', [])).toEqual(['line 1: {{else}} outside a block']);
+    expect(checkTemplate('{{name | shout}}', ['name'])).toEqual(['line 1: unknown filter "shout" in {{name | shout}}']);
+    expect(checkTemplate('{{day | date:tiny}}', ['day'])).toEqual(['line 1: invalid argument for "date" in {{day | date:tiny}}']);
+    expect(() => renderTemplate('{{name.first}}', {})).toThrow('line 1: invalid tag {{name.first}}');
+  });
+
+  it('should report unknown placeholders', () => {
+    const source = 'Dear {{name}},\n{{#each accounts}}{{ref}} {{balance}}{{/each}}\n{{#if nickname}}{{/if}}{{#each name}}{{/each}}';
+    expect(checkTemplate(source, ['name', 'accounts'], { accounts: ['ref'] })).toEqual([
+      'line 2: unknown placeholder {{balance}}',
+      'line 3: unknown placeholder {{nickname}}',
+      'line 3: {{#each name}} is not a list',
+    ]);
+  });
+
+  describe('script templates', () => {
+    it.each<Locale>(['en', 'es', 'fr-CA'])('should only use declared placeholders in %s', locale => {
+      setLocale(locale);
+      expect(getScriptTemplates().flatMap(validateScriptTemplate)).toEqual([]);
+    });
+
+    it('should report placeholders a template does not declare', () => {
+      const template: ScriptTemplate = {
+        ...getScriptTemplates()[0],
+        id: 'custom',
+        bodyTemplate: 'Hello {{userName}}, about {{petName}}',
+        placeholders: ['userName', 'nickname'],
+      };
+      expect(validateScriptTemplate(template)).toEqual([
+        'custom: placeholders: unknown placeholder "nickname"',
+        'custom: line 1: unknown placeholder {{petName}}',
+      ]);
+    });
+
+    it('should leave out account lines when there is no reference', () => {
+      const letter = getScriptTemplates().find(template => template.id === 'bank-notification-letter')!;
+      const context = { deceasedName: 'Pat Lee', institutionName: 'First Bank', dateOfDeath: '2025-03-04' };
+
+      const withoutReference = renderScript(letter, context);
+      expect(withoutReference).not.toMatch(/^Account:/m);
+      expect(withoutReference).toContain('March 4, 2025');
+
+      expect(renderScript(letter, { ...context, accountReference: '1234' })).toMatch(/^Account: 1234$/m);
+      const listed = renderScript(letter, {
+        ...context,
+        accounts: [{ name: 'Checking', accountReference: '1111' }, { accountReference: '2222' }],
+      });
+      expect(listed).toMatch(/^Account: 1111 \(Checking\)\nAccount: 2222\n/m);
+    });
+  });
+});
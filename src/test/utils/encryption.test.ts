@@ -0,0 +1,104 @@
+/**
+ * Encryption Utility Tests
+ *
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { webcrypto } from 'node:crypto';
+import {
+  encryptBytes,
+  decryptBytes,
+  encryptWithPassphrase,
+  decryptWithPassphrase,
+  isPassphraseEncrypted,
+} from '../../utils/encryption';
+
+describe('Passphrase encryption', () => {
+  // The global test setup stubs crypto.subtle; these tests need the real implementation
+  // (and the node environment, so typed arrays and WebCrypto share one realm)
+  beforeAll(() => {
+    vi.stubGlobal('crypto', webcrypto);
+  });
+
+  afterAll(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should round-trip data with the right passphrase', async () => {
+    const envelope = await encryptWithPassphrase('{"version":"2.0.0"}', 'correct horse battery');
+
+    expect(isPassphraseEncrypted(envelope)).toBe(true);
+    expect(envelope).not.toContain('2.0.0');
+    expect(await decryptWithPassphrase(envelope, 'correct horse battery')).toBe('{"version":"2.0.0"}');
+  });
+
+  it('should write a versioned envelope header', async () => {
+    const envelope = JSON.parse(await encryptWithPassphrase('secret', 'passphrase1'));
+
+    expect(envelope.format).toBe('apg-encrypted');
+    expect(envelope.version).toBe(1);
+    expect(envelope.kdf).toBe('PBKDF2-SHA256');
+    expect(envelope.cipher).toBe('AES-GCM-256');
+  });
+
+  it('should reject a wrong passphrase', async () => {
+    const envelope = await encryptWithPassphrase('secret', 'passphrase1');
+
+    await expect(decryptWithPassphrase(envelope, 'passphrase2')).rejects.toThrow('Incorrect passphrase');
+  });
+
+  it('should reject envelopes with unsupported encryption settings', async () => {
+    const envelope = JSON.parse(await encryptWithPassphrase('secret', 'passphrase1'));
+    const tampered = [
+      { kdf: 'scrypt' },
+      { cipher: 'AES-CBC-256' },
+      { iterations: 1000 },
+      { iterations: 100000000 },
+      { iterations: 310000.5 },
+      { iterations: undefined },
+    ];
+
+    for (const change of tampered) {
+      await expect(decryptWithPassphrase(JSON.stringify({ ...envelope, ...change }), 'passphrase1'))
+        .rejects.toThrow('unsupported encryption settings');
+    }
+  });
+
+  it('should not treat plaintext backups as encrypted', () => {
+    expect(isPassphraseEncrypted('{"version":"2.0.0","exportDate":"2024-01-01"}')).toBe(false);
+    expect(isPassphraseEncrypted('not json')).toBe(false);
+  });
+});
+
+describe('Byte encryption', () => {
+  beforeAll(() => {
+    vi.stubGlobal('crypto', webcrypto);
+  });
+
+  afterAll(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should round-trip bytes with the same device key', async () => {
+    const data = new Uint8Array([0, 1, 2, 250, 255]);
+    const encrypted = await encryptBytes(data, 'device-a');
+
+    expect(encrypted.length).toBe(16 + 12 + data.length + 16);
+    expect(Array.from(await decryptBytes(encrypted, 'device-a'))).toEqual([0, 1, 2, 250, 255]);
+  });
+
+  it('should use a fresh salt and IV each time', async () => {
+    const data = new TextEncoder().encode('same contents');
+    const first = await encryptBytes(data, 'device-a');
+    const second = await encryptBytes(data, 'device-a');
+
+    expect(Array.from(first.slice(0, 28))).not.toEqual(Array.from(second.slice(0, 28)));
+  });
+
+  it('should not decrypt with another device key', async () => {
+    const encrypted = await encryptBytes(new TextEncoder().encode('secret'), 'device-a');
+
+    await expect(decryptBytes(encrypted, 'device-b')).rejects.toThrow('Failed to decrypt data');
+  });
+});
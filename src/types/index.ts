@@ -78,6 +78,11 @@ export interface AftercareProfile {
   relationship?: RelationshipType;
   hasWill?: boolean;
   isExecutor?: boolean;
+  // The user's own details, for the sender block of printed letters
+  userName?: string;
+  address?: string;
+  phone?: string;
+  email?: string;
   hasConfirmedDisclaimer: boolean;
   createdAt: string;
   updatedAt: string;
@@ -124,6 +129,111 @@ export interface AftercareTask {
   blockedBy?: string;
   /** Optional: do not do until this condition (show warning badge when set). */
   doNotDoUntil?: string;
+  /** Template the task was generated from (see getTaskId). Absent on tasks from older plans. */
+  templateKey?: string;
+  /** Content version of the template wording the task was saved with (see taskContent). Absent means 1. */
+  contentVersion?: number;
+  /** Set when the user rewrote a generated task's description. Updated guidance never replaces it. */
+  descriptionEditedAt?: string;
+  /** Set when regeneration no longer produces this task (e.g. its vault record was removed). Progress is kept. */
+  sourceRemovedAt?: string;
+  /** Created by the user in the checklist. Regeneration never changes or removes these. */
+  userAuthored?: boolean;
+  /** Optional due date (YYYY-MM-DD). */
+  dueDate?: string;
+  /** Tasks or executor checklist items that should be finished first (see taskDependencies). */
+  dependsOn?: DependencyRef[];
+  /** Why the generator produced this task (see taskProvenance). Absent on user-authored and older tasks. */
+  provenance?: TaskProvenance;
+  /** One entry per vault record when a task groups several records (see taskGroups). */
+  subItems?: TaskSubItem[];
+  /** Ordered steps; when present the task's status rolls up from them (see taskSteps). */
+  steps?: TaskStep[];
+  /** Repeats after it is marked done (see taskRecurrence). */
+  recurrence?: TaskRecurrence;
+  /** Finished earlier occurrences of a recurring task, oldest first. */
+  occurrences?: TaskOccurrence[];
+}
+
+/** When a recurring task comes back after it is finished. */
+export interface TaskRecurrence {
+  /** Days from finishing one occurrence to the next one's due date. */
+  intervalDays: number;
+  /** Stop once this task or checklist item is finished (e.g. the claim is paid). */
+  until?: DependencyRef;
+  /** Stop after this many occurrences in total. */
+  maxOccurrences?: number;
+}
+
+/** A finished occurrence of a recurring task. */
+export interface TaskOccurrence {
+  /** 1 for the first occurrence. */
+  number: number;
+  status: TaskStatus;
+  dueDate?: string;
+  completedAt: string;
+  notes?: string;
+}
+
+/** One step of a multi-step task, e.g. "Send a death certificate". */
+export interface TaskStep {
+  id: string;
+  title: string;
+  status: TaskStatus;
+  completedAt?: string;
+  /** Added by the user rather than seeded by the template. */
+  userAuthored?: boolean;
+}
+
+/** A grouped vault record inside a parent task. Its status is independent of the parent's. */
+export interface TaskSubItem {
+  vaultRecordId: string;
+  title: string;
+  status: TaskStatus;
+  completedAt?: string;
+}
+
+/** A field a rule looked at, with the value it had when the plan was generated. */
+export interface ProvenanceField {
+  /** "record.<field>" or "profile.<field>". */
+  field: string;
+  value: string;
+}
+
+/** Which rule produced a task and what triggered it. */
+export interface TaskProvenance {
+  /** record-rule: a vault record matched a task rule; general: base guidance; jurisdiction: added by a location pack. */
+  source: 'record-rule' | 'general' | 'jurisdiction';
+  /** Rule or general task key (same as templateKey). */
+  ruleKey: string;
+  /** Vault records that matched, with their names at generation time. */
+  vaultRecords?: { id: string; name: string }[];
+  /** Record and profile fields the rule's conditions checked. */
+  fields?: ProvenanceField[];
+  /** Value several records were merged by (dedupe key). */
+  mergedBy?: string;
+  /** Jurisdiction pack that added the task or changed its wording. */
+  jurisdiction?: { packId: string; name: string; change: 'added' | 'replaced' };
+}
+
+/**
+ * A prerequisite of a task or executor checklist item. Checklist items are
+ * referenced by seed key, since their ids are generated per case.
+ */
+export type DependencyRef =
+  | { kind: 'task'; taskId: string }
+  | { kind: 'checklist'; seedKey: string };
+
+/** Editable fields of a user-authored task. */
+export interface CustomTaskInput {
+  title: string;
+  description?: string;
+  phase: TaskPhase;
+  category: TaskCategory;
+  priority: 'HIGH' | 'MEDIUM' | 'LOW';
+  notes?: string;
+  dueDate?: string;
+  recurrence?: TaskRecurrence;
 }
 
 export interface AftercarePlan {
@@ -231,9 +341,12 @@ export interface UploadedDocument {
   id: string;
   /** Id of the case this document belongs to. */
   caseId: string;
+  /** Storage reference for the encrypted file contents (empty if only metadata was kept). */
   filePath: string;
   fileName: string;
   fileSize: number;
+  /** MIME type of the original file (used when opening or downloading). */
+  mimeType?: string;
   uploadedAt: string;
   /** Type: Bond, Will, Insurance, Bank, Property, Tax, ID, Medical, Other. Default: Other. */
   documentType?: DocumentType;
@@ -302,7 +415,25 @@ export interface ScriptTemplate {
   description: string;
   bodyTemplate: string; // with placeholders like {{deceasedName}}
   placeholders: string[];
-  category: 'PHONE_SCRIPT' | 'LETTER' | 'EMAIL' | 'GUIDE';
+  category: ScriptTemplateCategory;
+}
+
+export type ScriptTemplateCategory = 'PHONE_SCRIPT' | 'LETTER' | 'EMAIL' | 'GUIDE';
+
+/** A user's own template: a copy of a built-in they have edited, or one imported from a pack. */
+export interface PersonalScriptTemplate extends ScriptTemplate {
+  /** Built-in template it was first duplicated from. */
+  basedOnId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Personal templates exported to share or move to another device. */
+export interface ScriptTemplatePack {
+  format: 'afterpassing-template-pack';
+  version: number;
+  exportedAt: string;
+  templates: PersonalScriptTemplate[];
 }
 
 export interface ScriptRenderContext {
@@ -317,6 +448,84 @@ export interface ScriptRenderContext {
   userAddress?: string;
   userPhone?: string;
   userEmail?: string;
+  /** Several accounts at one institution, for templates that list them with {{#each accounts}}. */
+  accounts?: ScriptRenderAccount[];
+}
+
+export interface ScriptRenderAccount {
+  name?: string;
+  accountReference?: string;
+}
+
+/**
+ * One addressee of a mail merge: an institution, gathered from the vault
+ * records and contacts the user picked for it.
+ */
+export interface MailMergeRecipient {
+  /** Normalized institution name; records and contacts with the same key share a letter. */
+  key: string;
+  institutionName: string;
+  accounts: ScriptRenderAccount[];
+  contactPhone?: string;
+  address?: string;
+  vaultRecordIds: string[];
+  contactIds: string[];
+}
+
+/** A rendered mail-merge letter and the placeholders it had no value for. */
+export interface MailMergeLetter {
+  recipient: MailMergeRecipient;
+  /** File name without extension, unique within the batch. */
+  fileName: string;
+  text: string;
+  missing: string[];
+}
+
+/** Who a letter, envelope or label is addressed to (or from). */
+export interface PostalAddress {
+  name: string;
+  /** Person to address it to at an organization. */
+  attention?: string;
+  lines: string[];
+}
+
+export interface LetterSender extends PostalAddress {
+  phone?: string;
+  email?: string;
+}
+
+/** A rendered letter laid out for print: letterhead, date, addresses, body and signature. */
+export interface PrintableLetter {
+  sender: LetterSender | null;
+  /** Already formatted for the current locale. */
+  date: string;
+  recipient: PostalAddress;
+  /** Full reference line, e.g. "Reference: ****1111". */
+  reference?: string;
+  body: string;
+  /** Closing to add when the body doesn't end with one of its own. */
+  closing?: string;
+  enclosures: string[];
+  /** File name without extension. */
+  fileName: string;
+}
+
+export type LabelSheetId = 'AVERY_5160' | 'AVERY_5163';
+
+/** Label sheet geometry in inches, on US Letter paper. */
+export interface LabelSheet {
+  id: LabelSheetId;
+  name: string;
+  columns: number;
+  rows: number;
+  labelWidth: number;
+  labelHeight: number;
+  topMargin: number;
+  leftMargin: number;
+  /** Distance from one label's left edge to the next. */
+  horizontalPitch: number;
+  /** Distance from one label's top edge to the next. */
+  verticalPitch: number;
 }
 
 // ============================================================================
@@ -358,6 +567,10 @@ export interface ExecutorChecklistItem {
   whatYouMayNeed?: string[];
   /** Free-text notes (optional). */
   notes?: string;
+  /** Key of the seed item this was created from (stable across cases). */
+  seedKey?: string;
+  /** Tasks or checklist items that should be finished first (see taskDependencies). */
+  dependsOn?: DependencyRef[];
 }
 
 export type ContactType =
@@ -410,8 +623,111 @@ export interface ContactEntry {
   nextFollowUpDate?: string;
   /** Who we are waiting on. */
   waitingOn?: 'THEM' | 'ME' | 'DOCUMENT' | 'COURT' | 'UNKNOWN';
+  /** Calls, emails, letters and visits with this contact, oldest first. */
+  interactions?: ContactInteraction[];
+  /** Follow-up put off until this date (YYYY-MM-DD) without moving nextFollowUpDate. */
+  followUpSnoozedUntil?: string;
+}
+
+export type ContactInteractionType = 'CALL' | 'EMAIL' | 'LETTER' | 'VISIT';
+
+/** One conversation or exchange with a contact. */
+export interface ContactInteraction {
+  id: string;
+  type: ContactInteractionType;
+  /** Calendar date (YYYY-MM-DD). */
+  date: string;
+  summary: string;
+  /** Who the user spoke with or wrote to. */
+  spokeWith?: string;
+  /** Reference or ticket number they were given. */
+  referenceNumber?: string;
+}
+
+export type ContactInteractionInput = Omit<ContactInteraction, 'id'>;
+
+/** A contact whose follow-up falls due soon or has passed. */
+export interface FollowUpDue {
+  contact: ContactEntry;
+  /** The date it is due on, after any snooze. */
+  dueDate: string;
+  overdue: boolean;
+}
+
+/** Contact fields a CSV column can be mapped onto. */
+export type ContactImportField =
+  | 'name'
+  | 'firstName'
+  | 'lastName'
+  | 'organization'
+  | 'phone'
+  | 'email'
+  | 'website'
+  | 'address'
+  | 'role'
+  | 'type'
+  | 'notes';
+
+/** CSV column index to contact field; null leaves the column out. */
+export type ContactColumnMapping = (ContactImportField | null)[];
+
+/** A contact read from a vCard or CSV file, before it is added to the case. */
+export type ContactImportDraft = Pick<
+  ContactEntry,
+  'name' | 'type' | 'role' | 'organization' | 'phone' | 'email' | 'website' | 'address' | 'notes'
+>;
+
+/** SKIP drops a duplicate, MERGE fills the existing contact's empty fields, ADD keeps both. */
+export type ContactImportAction = 'ADD' | 'SKIP' | 'MERGE';
+
+export interface ContactImportCandidate {
+  draft: ContactImportDraft;
+  /** Existing contact this one appears to repeat. */
+  duplicateOf?: ContactEntry;
+  /** Index of an earlier draft in the same file this one appears to repeat. */
+  duplicateInFile?: number;
+  action: ContactImportAction;
 }
 
+// ============================================================================
+// CORRESPONDENCE TYPES
+// ============================================================================
+
+export type CorrespondenceMethod = 'MAIL' | 'CERTIFIED_MAIL' | 'EMAIL' | 'PHONE';
+
+export type CorrespondenceStatus = 'SENT' | 'AWAITING_RESPONSE' | 'RESOLVED';
+
+/** A letter, email or call the user sent from a template, and what came of it. */
+export interface CorrespondenceEntry {
+  id: string;
+  /** Id of the case this entry belongs to. */
+  caseId: string;
+  /** Template the text came from; absent for entries logged by hand. */
+  templateId?: string;
+  /** The text as it was sent (templates and contacts may change later). */
+  textSnapshot: string;
+  contactId?: string;
+  /** Recipient name at the time, so the entry reads well if the contact is deleted. */
+  recipientName: string;
+  method: CorrespondenceMethod;
+  /** Tracking number for certified mail. */
+  trackingNumber?: string;
+  /** Date sent (YYYY-MM-DD). */
+  sentDate: string;
+  /** When a reply is expected (YYYY-MM-DD). */
+  expectedResponseDate?: string;
+  status: CorrespondenceStatus;
+  /** What the reply said or how it was resolved. */
+  outcome?: string;
+  /** Guidance task this correspondence is for. */
+  taskId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Fields the user fills in when logging correspondence. */
+export type CorrespondenceInput = Omit<CorrespondenceEntry, 'id' | 'caseId' | 'createdAt' | 'updatedAt'>;
+
 // ============================================================================
 // APP STATE TYPES
 // ============================================================================
@@ -437,6 +753,21 @@ export interface TaskGenerationInput {
   vaultRecords: LegacyVaultRecord[];
 }
 
+/** What changed when a plan was regenerated (task titles per outcome). */
+export interface PlanReconciliationSummary {
+  added: string[];
+  /** Guidance text or timing changed; progress kept. */
+  updated: string[];
+  /** Unchanged tasks (progress kept). */
+  unchanged: number;
+  /** No longer suggested and never started, so removed. */
+  removed: string[];
+  /** Source record gone (or no longer applies) but kept because of progress or vault link. */
+  flagged: string[];
+  /** Separate record tasks now collected into a group task; status kept on the sub-item. */
+  grouped: string[];
+}
+
 export interface TaskGenerationResult {
   tasks: AftercareTask[];
   summary: string;
@@ -444,6 +775,125 @@ export interface TaskGenerationResult {
   categoryCounts: Record<LegacyVaultCategory, number>;
 }
 
+// ============================================================================
+// TASK RULE TYPES (JSON rule format, see taskRules)
+// ============================================================================
+
+export type RuleOperator = 'equals' | 'notEquals' | 'in' | 'exists' | 'notExists' | 'contains';
+
+/**
+ * Match condition on `record.<field>` or `profile.<field>`. Combine with
+ * all / any / not. `exists` is true for non-empty strings and arrays.
+ */
+export type RuleCondition =
+  | { all: RuleCondition[] }
+  | { any: RuleCondition[] }
+  | { not: RuleCondition }
+  | { field: string; op: RuleOperator; value?: string | number | boolean | (string | number)[] };
+
+/** What a matching rule produces. Strings may use {{field}} placeholders for record fields. */
+export interface TaskRuleOutput {
+  title: string;
+  /** Title used when several records were merged by dedupeKey ({{count}} is available). */
+  mergedTitle?: string;
+  /** Title of each record's sub-item in a merged task. Defaults to "{{name}}". */
+  subItemTitle?: string;
+  /** Default steps, in order (placeholders allowed). */
+  steps?: string[];
+  /** Makes the task recurring; `until` task ids may use placeholders. */
+  recurrence?: TaskRecurrence;
+  description: string;
+  reason: string;
+  phase: TaskPhase;
+  category: TaskCategory;
+  priority: 'HIGH' | 'MEDIUM' | 'LOW';
+  /** Task ids may use placeholders, e.g. "task_insurance_{{id}}". */
+  dependsOn?: DependencyRef[];
+}
+
+/** Declarative rule producing one task per matching vault record (or per dedupe group). */
+export interface TaskRule {
+  /** Stable identity; with the record id it forms the task id. Never change once shipped. */
+  key: string;
+  /** Omit to match every record. */
+  when?: RuleCondition;
+  /** Only applies to records that no other rule matched. */
+  fallback?: boolean;
+  /** Records of this rule whose key renders the same (and non-empty) become one task with a sub-item per record. */
+  dedupeKey?: string;
+  /** Content version of the wording (default 1). Bump when title, description or reason change (see taskContent). */
+  version?: number;
+  output: TaskRuleOutput;
+}
+
+// ============================================================================
+// JURISDICTION TYPES
+// ============================================================================
+
+/** Guidance task declared by a jurisdiction pack (same shape as a general task). */
+export interface JurisdictionTask {
+  /** Stable identity; becomes the task id (see getTaskId). Never change once shipped. */
+  key: string;
+  /** Content version of the wording (default 1). Bump when it changes. */
+  version?: number;
+  title: string;
+  description: string;
+  reason: string;
+  phase: TaskPhase;
+  category: TaskCategory;
+  priority: 'HIGH' | 'MEDIUM' | 'LOW';
+  dependsOn?: DependencyRef[];
+  /** Default steps, in order. */
+  steps?: string[];
+}
+
+/** Executor checklist item declared by a jurisdiction pack. */
+export interface JurisdictionChecklistItem {
+  /** Stored as the item's seedKey. */
+  key: string;
+  category: ExecutorChecklistCategory;
+  title: string;
+  description: string;
+  whyItMatters?: string;
+  whatYouMayNeed?: string[];
+  dependsOn?: DependencyRef[];
+}
+
+export interface ResourceLink {
+  label: string;
+  url: string;
+  /** Heading the link is listed under, e.g. "Probate & Courts". */
+  group: string;
+}
+
+/**
+ * Add, replace or suppress rules for one kind of content. Replacements are
+ * merged over the item with the same key; suppressed keys are dropped.
+ */
+export interface JurisdictionRules<T extends { key: string }> {
+  add?: T[];
+  replace?: (Partial<T> & { key: string })[];
+  suppress?: string[];
+}
+
+/**
+ * Location-specific guidance. Country packs apply first, then the pack for the
+ * profile's region (e.g. a US state code), so region rules win.
+ */
+export interface JurisdictionPack {
+  id: string;
+  name: string;
+  /** Matches AftercareProfile.country. */
+  country: string;
+  /** Matches AftercareProfile.region (US state code or region name); omit for country packs. */
+  region?: string;
+  /** Rules for aftercare tasks; suppress may also name record template keys. */
+  tasks?: JurisdictionRules<JurisdictionTask>;
+  checklist?: JurisdictionRules<JurisdictionChecklistItem>;
+  /** Resource links; suppress lists URLs. */
+  resources?: { add?: ResourceLink[]; suppress?: string[] };
+}
+
 // ============================================================================
 // NAVIGATION TYPES
 // ============================================================================
@@ -9,13 +9,16 @@
  * - Key derived from device fingerprint (unique per device)
  * - No keys stored in plaintext
  * - Salt and IV generated per encryption
+ * 
+ * Exported files (backups, case exports) can instead be encrypted with a
+ * user passphrase so they can be opened on another device.
  */
 
 /**
- * Derive encryption key from device fingerprint
- * Uses PBKDF2 with 100,000 iterations for key derivation
+ * Derive encryption key from device fingerprint (or export passphrase)
+ * Uses PBKDF2 with 100,000 iterations by default for key derivation
  */
-async function deriveEncryptionKey(deviceFingerprint: string, salt: Uint8Array): Promise<CryptoKey> {
+async function deriveEncryptionKey(deviceFingerprint: string, salt: Uint8Array, iterations = 100000): Promise<CryptoKey> {
   const encoder = new TextEncoder();
   const fingerprintBytes = encoder.encode(deviceFingerprint);
   const keyMaterial = await crypto.subtle.importKey(
@@ -34,7 +37,7 @@ async function deriveEncryptionKey(deviceFingerprint: string, salt: Uint8Array):
     {
       name: 'PBKDF2',
       salt: saltBuffer as ArrayBuffer,
-      iterations: 100000,
+      iterations,
       hash: 'SHA-256',
     },
     keyMaterial,
@@ -62,18 +65,16 @@ function generateIV(): Uint8Array {
 }
 
 /**
- * Encrypt data using AES-GCM
+ * Encrypt raw bytes using AES-GCM
  * 
- * @param data - Plaintext data to encrypt
+ * @param data - Plaintext bytes to encrypt
  * @param deviceFingerprint - Device fingerprint for key derivation
- * @returns Encrypted data as base64 string (format: salt:iv:encryptedData)
+ * @returns Encrypted bytes (layout: salt | iv | encryptedData)
  */
-export async function encryptData(data: string, deviceFingerprint: string): Promise<string> {
+export async function encryptBytes(data: Uint8Array, deviceFingerprint: string): Promise<Uint8Array> {
   try {
     const salt = generateSalt();
     const iv = generateIV();
-    const encoder = new TextEncoder();
-    const dataBuffer = encoder.encode(data);
 
     const key = await deriveEncryptionKey(deviceFingerprint, salt);
     // Create a new Uint8Array from IV to ensure proper buffer type
@@ -84,7 +85,7 @@ export async function encryptData(data: string, deviceFingerprint: string): Prom
         iv: ivArray,
       },
       key,
-      dataBuffer
+      new Uint8Array(data)
     );
 
     // Combine salt, IV, and encrypted data
@@ -92,11 +93,7 @@ export async function encryptData(data: string, deviceFingerprint: string): Prom
     combined.set(salt, 0);
     combined.set(iv, salt.length);
     combined.set(new Uint8Array(encrypted), salt.length + iv.length);
-
-    // Convert to base64 for storage
-    // Use Array.from for large arrays to avoid "Maximum call stack size exceeded"
-    const binaryString = Array.from(combined, byte => String.fromCharCode(byte)).join('');
-    return btoa(binaryString);
+    return combined;
   } catch (error) {
     console.error('Encryption error:', error);
     throw new Error('Failed to encrypt data');
@@ -104,21 +101,14 @@ export async function encryptData(data: string, deviceFingerprint: string): Prom
 }
 
 /**
- * Decrypt data using AES-GCM
+ * Decrypt raw bytes using AES-GCM
  * 
- * @param encryptedData - Base64 encrypted data (format: salt:iv:encryptedData)
+ * @param combined - Encrypted bytes (layout: salt | iv | encryptedData)
  * @param deviceFingerprint - Device fingerprint for key derivation
- * @returns Decrypted plaintext string
+ * @returns Decrypted plaintext bytes
  */
-export async function decryptData(encryptedData: string, deviceFingerprint: string): Promise<string> {
+export async function decryptBytes(combined: Uint8Array, deviceFingerprint: string): Promise<Uint8Array> {
   try {
-    // Decode from base64
-    const binaryString = atob(encryptedData);
-    const combined = new Uint8Array(binaryString.length);
-    for (let i = 0; i < binaryString.length; i++) {
-      combined[i] = binaryString.charCodeAt(i);
-    }
-
     // Extract salt, IV, and encrypted data
     const salt = combined.slice(0, 16);
     const iv = combined.slice(16, 28);
@@ -139,12 +129,54 @@ export async function decryptData(encryptedData: string, deviceFingerprint: stri
       encryptedBuffer
     );
 
-    const decoder = new TextDecoder();
-    return decoder.decode(decrypted);
+    return new Uint8Array(decrypted);
+  } catch (error) {
+    console.error('Decryption error:', error);
+    throw new Error('Failed to decrypt data. Data may be corrupted or encrypted with different device.');
+  }
+}
+
+/**
+ * Encrypt data using AES-GCM
+ * 
+ * @param data - Plaintext data to encrypt
+ * @param deviceFingerprint - Device fingerprint for key derivation
+ * @returns Encrypted data as base64 string (format: salt:iv:encryptedData)
+ */
+export async function encryptData(data: string, deviceFingerprint: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const combined = await encryptBytes(encoder.encode(data), deviceFingerprint);
+
+  // Convert to base64 for storage
+  // Use Array.from for large arrays to avoid "Maximum call stack size exceeded"
+  const binaryString = Array.from(combined, byte => String.fromCharCode(byte)).join('');
+  return btoa(binaryString);
+}
+
+/**
+ * Decrypt data using AES-GCM
+ * 
+ * @param encryptedData - Base64 encrypted data (format: salt:iv:encryptedData)
+ * @param deviceFingerprint - Device fingerprint for key derivation
+ * @returns Decrypted plaintext string
+ */
+export async function decryptData(encryptedData: string, deviceFingerprint: string): Promise<string> {
+  let combined: Uint8Array;
+  try {
+    // Decode from base64
+    const binaryString = atob(encryptedData);
+    combined = new Uint8Array(binaryString.length);
+    for (let i = 0; i < binaryString.length; i++) {
+      combined[i] = binaryString.charCodeAt(i);
+    }
   } catch (error) {
     console.error('Decryption error:', error);
     throw new Error('Failed to decrypt data. Data may be corrupted or encrypted with different device.');
   }
+
+  const decrypted = await decryptBytes(combined, deviceFingerprint);
+  const decoder = new TextDecoder();
+  return decoder.decode(decrypted);
 }
 
 /**
@@ -160,3 +192,130 @@ export function isEncrypted(data: string): boolean {
     return false;
   }
 }
+
+// ============================================================================
+// PASSPHRASE ENCRYPTION (exported files)
+// ============================================================================
+
+const PASSPHRASE_ENVELOPE_FORMAT = 'apg-encrypted';
+const PASSPHRASE_ENVELOPE_VERSION = 1;
+const PASSPHRASE_ITERATIONS = 310000;
+/** Iteration counts accepted when opening a file; bounds the work an envelope can demand. */
+const PASSPHRASE_MIN_ITERATIONS = 100000;
+const PASSPHRASE_MAX_ITERATIONS = 2000000;
+
+/**
+ * Versioned envelope written in place of a plaintext export.
+ * Not tied to the device fingerprint; only the passphrase is needed to open it.
+ */
+export interface PassphraseEnvelope {
+  format: typeof PASSPHRASE_ENVELOPE_FORMAT;
+  version: number;
+  kdf: 'PBKDF2-SHA256';
+  iterations: number;
+  cipher: 'AES-GCM-256';
+  /** Base64 salt | iv | encryptedData, same layout as encryptBytes. */
+  data: string;
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  return btoa(Array.from(bytes, byte => String.fromCharCode(byte)).join(''));
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binaryString = atob(base64);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Encrypt text with a user passphrase
+ * 
+ * @returns JSON string of a PassphraseEnvelope
+ */
+export async function encryptWithPassphrase(data: string, passphrase: string): Promise<string> {
+  if (!passphrase) throw new Error('A passphrase is required');
+  try {
+    const salt = generateSalt();
+    const iv = generateIV();
+    const key = await deriveEncryptionKey(passphrase, salt, PASSPHRASE_ITERATIONS);
+    const encrypted = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv: new Uint8Array(iv) },
+      key,
+      new TextEncoder().encode(data)
+    );
+
+    const combined = new Uint8Array(salt.length + iv.length + encrypted.byteLength);
+    combined.set(salt, 0);
+    combined.set(iv, salt.length);
+    combined.set(new Uint8Array(encrypted), salt.length + iv.length);
+
+    const envelope: PassphraseEnvelope = {
+      format: PASSPHRASE_ENVELOPE_FORMAT,
+      version: PASSPHRASE_ENVELOPE_VERSION,
+      kdf: 'PBKDF2-SHA256',
+      iterations: PASSPHRASE_ITERATIONS,
+      cipher: 'AES-GCM-256',
+      data: bytesToBase64(combined),
+    };
+    return JSON.stringify(envelope, null, 2);
+  } catch (error) {
+    console.error('Passphrase encryption error:', error);
+    throw new Error('Failed to encrypt file');
+  }
+}
+
+/**
+ * Decrypt a PassphraseEnvelope produced by encryptWithPassphrase
+ */
+export async function decryptWithPassphrase(envelopeJson: string, passphrase: string): Promise<string> {
+  let envelope: PassphraseEnvelope;
+  try {
+    envelope = JSON.parse(envelopeJson) as PassphraseEnvelope;
+  } catch {
+    throw new Error('This file is not an encrypted export.');
+  }
+  if (envelope.format !== PASSPHRASE_ENVELOPE_FORMAT) {
+    throw new Error('This file is not an encrypted export.');
+  }
+  if (envelope.version > PASSPHRASE_ENVELOPE_VERSION) {
+    throw new Error('This file was encrypted by a newer version of the app. Please update to open it.');
+  }
+  if (
+    envelope.kdf !== 'PBKDF2-SHA256' ||
+    envelope.cipher !== 'AES-GCM-256' ||
+    !Number.isInteger(envelope.iterations) ||
+    envelope.iterations < PASSPHRASE_MIN_ITERATIONS ||
+    envelope.iterations > PASSPHRASE_MAX_ITERATIONS
+  ) {
+    throw new Error('This file uses unsupported encryption settings.');
+  }
+  try {
+    const combined = base64ToBytes(envelope.data);
+    const salt = combined.slice(0, 16);
+    const iv = combined.slice(16, 28);
+    const encrypted = combined.slice(28);
+    const key = await deriveEncryptionKey(passphrase, salt, envelope.iterations);
+    const decrypted = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, encrypted);
+    return new TextDecoder().decode(decrypted);
+  } catch (error) {
+    console.error('Passphrase decryption error:', error);
+    throw new Error('Incorrect passphrase, or the file is damaged.');
+  }
+}
+
+/**
+ * Check if text is a passphrase-encrypted export (envelope header check)
+ */
+export function isPassphraseEncrypted(text: string): boolean {
+  if (!text.trimStart().startsWith('{')) return false;
+  try {
+    const parsed = JSON.parse(text);
+    return parsed?.format === PASSPHRASE_ENVELOPE_FORMAT && typeof parsed.data === 'string';
+  } catch {
+    return false;
+  }
+}
@@ -190,6 +190,19 @@ export function validateWebsite(url: string): ValidationResult {
   return { valid: true };
 }
 
+/**
+ * Validate a passphrase for encrypted exports (entered twice)
+ */
+export function validateExportPassphrase(passphrase: string, confirmation: string): ValidationResult {
+  if (passphrase.length < 8) {
+    return { valid: false, error: 'Passphrase must be at least 8 characters' };
+  }
+  if (passphrase !== confirmation) {
+    return { valid: false, error: 'Passphrases do not match' };
+  }
+  return { valid: true };
+}
+
 /**
  * Validate contact entry
  */